@@ -0,0 +1,144 @@
+const admin = require('firebase-admin');
+const path = require('path');
+const fs = require('fs');
+const os = require('os');
+const { execFileSync } = require('child_process');
+
+// Initialize Firebase Admin
+const serviceAccount = require('../serviceAccountKey.json');
+admin.initializeApp({
+  credential: admin.credential.cert(serviceAccount),
+  databaseURL: "https://multitrack-player-app-default-rtdb.firebaseio.com",
+  storageBucket: "multitrack-player-app.firebasestorage.app"
+});
+
+const db = admin.database();
+const bucket = admin.storage().bucket();
+
+// Must match PEAKS_PER_SECOND in src/utils/waveform.ts
+const PEAKS_PER_SECOND = 50;
+// Decode rate; high enough for peaks, low enough to keep long songs in memory
+const SAMPLE_RATE = 8000;
+
+/**
+ * Storage path of the peaks file next to an audio file (see getPeaksPath in src/utils/waveform.ts)
+ * @param {string} audioPath - Storage path of the track
+ */
+function getPeaksPath(audioPath) {
+  return `${audioPath.replace(/\.[^/.]+$/, '')}.peaks.json`;
+}
+
+/**
+ * Decodes an audio file with ffmpeg and reduces it to waveform peaks
+ * @param {string} input - Local audio file
+ * @returns {{version: number, peaksPerSecond: number, duration: number, peaks: number[]}}
+ */
+function computePeaks(input) {
+  const raw = execFileSync(
+    'ffmpeg',
+    ['-loglevel', 'error', '-i', input, '-ac', '1', '-ar', String(SAMPLE_RATE), '-f', 'f32le', '-'],
+    { maxBuffer: 1024 * 1024 * 1024 }
+  );
+  const samples = new Float32Array(raw.buffer, raw.byteOffset, Math.floor(raw.length / 4));
+  const samplesPerPeak = SAMPLE_RATE / PEAKS_PER_SECOND;
+  const peaks = [];
+
+  for (let start = 0; start < samples.length; start += samplesPerPeak) {
+    const end = Math.min(samples.length, start + samplesPerPeak);
+    let peak = 0;
+    for (let i = start; i < end; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+    peaks.push(Math.round(Math.min(1, peak) * 100) / 100);
+  }
+
+  return {
+    version: 1,
+    peaksPerSecond: PEAKS_PER_SECOND,
+    duration: samples.length / SAMPLE_RATE,
+    peaks
+  };
+}
+
+/**
+ * Generates missing waveform peaks for the tracks of one song
+ * @param {string} songId - The song ID
+ * @param {object} song - The song data
+ * @param {boolean} force - Regenerate peaks that already exist
+ */
+async function generateSong(songId, song, force) {
+  const tracks = song.tracks || [];
+  const pending = tracks.filter(track => track.path && (force || !track.peaksPath));
+  if (pending.length === 0) {
+    return false;
+  }
+
+  console.log(`\nSong: "${song.title}" (ID: ${songId})`);
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'peaks-'));
+
+  try {
+    for (const track of pending) {
+      const source = path.join(workDir, `${track.id}${path.extname(track.path) || '.mp3'}`);
+      await bucket.file(track.path).download({ destination: source });
+
+      const peaksPath = getPeaksPath(track.path);
+      await bucket.file(peaksPath).save(JSON.stringify(computePeaks(source)), {
+        metadata: { contentType: 'application/json' },
+      });
+      fs.unlinkSync(source);
+
+      track.peaksPath = peaksPath;
+      console.log(`  ✓ ${track.name}`);
+    }
+
+    await db.ref(`songs/${songId}/tracks`).set(tracks);
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+
+  return true;
+}
+
+/**
+ * Main function to backfill waveform peaks for tracks uploaded without them.
+ * Usage: node scripts/generateWaveforms.js [songId] [--force]
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const force = args.includes('--force');
+  const songId = args.find(arg => !arg.startsWith('--'));
+
+  try {
+    let generatedCount = 0;
+
+    if (songId) {
+      const snapshot = await db.ref(`songs/${songId}`).once('value');
+      if (!snapshot.exists()) {
+        throw new Error(`Song ${songId} not found`);
+      }
+      if (await generateSong(songId, snapshot.val(), force)) generatedCount++;
+    } else {
+      const snapshot = await db.ref('songs').once('value');
+      const allSongs = snapshot.val() || {};
+      for (const [id, song] of Object.entries(allSongs)) {
+        if (await generateSong(id, song, force)) generatedCount++;
+      }
+    }
+
+    console.log(`\n✓ Generated waveforms for ${generatedCount} song(s)`);
+  } catch (error) {
+    console.error('\n✗ Error:', error);
+    process.exitCode = 1;
+  } finally {
+    // Clean up
+    await admin.app().delete();
+  }
+}
+
+// Run the script
+if (require.main === module) {
+  main();
+}
+
+module.exports = { generateSong, getPeaksPath };
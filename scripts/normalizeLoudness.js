@@ -0,0 +1,149 @@
+const admin = require('firebase-admin');
+const path = require('path');
+const fs = require('fs');
+const os = require('os');
+const { spawnSync } = require('child_process');
+
+// Initialize Firebase Admin
+const serviceAccount = require('../serviceAccountKey.json');
+admin.initializeApp({
+  credential: admin.credential.cert(serviceAccount),
+  databaseURL: "https://multitrack-player-app-default-rtdb.firebaseio.com",
+  storageBucket: "multitrack-player-app.firebasestorage.app"
+});
+
+const db = admin.database();
+const bucket = admin.storage().bucket();
+
+// Must match TARGET_LUFS and TRUE_PEAK_CEILING_DB in src/utils/loudness.ts
+const TARGET_LUFS = -23;
+const TRUE_PEAK_CEILING_DB = -1;
+
+/**
+ * Measures integrated loudness and true peak with ffmpeg's EBU R128 filter
+ * @param {string} input - Local audio file
+ * @returns {{integratedLufs: number, truePeakDb: number} | null} Null for silent audio
+ */
+function measureLoudness(input) {
+  const result = spawnSync(
+    'ffmpeg',
+    ['-hide_banner', '-nostats', '-i', input, '-af', 'ebur128=peak=true', '-f', 'null', '-'],
+    { encoding: 'utf8', maxBuffer: 64 * 1024 * 1024 }
+  );
+  if (result.status !== 0) {
+    throw new Error(`ffmpeg failed: ${result.stderr}`);
+  }
+
+  // The summary is printed last; earlier lines repeat the same labels per frame
+  const summary = result.stderr.slice(result.stderr.lastIndexOf('Summary:'));
+  const integrated = summary.match(/I:\s+(-?[\d.]+|-inf) LUFS/);
+  const peak = summary.match(/True peak:\s+Peak:\s+(-?[\d.]+|-inf) dBFS/);
+  if (!integrated || !peak) {
+    throw new Error('Could not read the ebur128 summary');
+  }
+
+  const integratedLufs = parseFloat(integrated[1]);
+  const truePeakDb = parseFloat(peak[1]);
+  if (!isFinite(integratedLufs) || !isFinite(truePeakDb) || integratedLufs <= -70) {
+    return null;
+  }
+  return { integratedLufs, truePeakDb };
+}
+
+/**
+ * Gain that brings a stem to the target without its true peak passing the ceiling
+ * (see getNormalizationGainDb in src/utils/loudness.ts)
+ * @param {number} integratedLufs - Measured integrated loudness
+ * @param {number} truePeakDb - Measured true peak
+ */
+function getNormalizationGainDb(integratedLufs, truePeakDb) {
+  const gain = Math.min(TARGET_LUFS - integratedLufs, TRUE_PEAK_CEILING_DB - truePeakDb);
+  return Math.round(gain * 10) / 10;
+}
+
+/**
+ * Measures the tracks of one song that have no loudness yet
+ * @param {string} songId - The song ID
+ * @param {object} song - The song data
+ * @param {boolean} force - Measure tracks that already have a loudness again
+ */
+async function normalizeSong(songId, song, force) {
+  const tracks = song.tracks || [];
+  const pending = tracks.filter(track => track.path && (force || !track.loudness));
+  if (pending.length === 0) {
+    return false;
+  }
+
+  console.log(`\nSong: "${song.title}" (ID: ${songId})`);
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'loudness-'));
+
+  try {
+    for (const track of pending) {
+      const source = path.join(workDir, `${track.id}${path.extname(track.path) || '.mp3'}`);
+      await bucket.file(track.path).download({ destination: source });
+      const measured = measureLoudness(source);
+      fs.unlinkSync(source);
+
+      if (!measured) {
+        console.log(`  - ${track.name}: silent, skipped`);
+        continue;
+      }
+
+      track.loudness = {
+        integratedLufs: Math.round(measured.integratedLufs * 10) / 10,
+        truePeakDb: Math.round(measured.truePeakDb * 10) / 10,
+        gainDb: getNormalizationGainDb(measured.integratedLufs, measured.truePeakDb)
+      };
+      console.log(`  ✓ ${track.name}: ${track.loudness.integratedLufs} LUFS, ${track.loudness.truePeakDb} dBTP, gain ${track.loudness.gainDb} dB`);
+    }
+
+    await db.ref(`songs/${songId}/tracks`).set(tracks);
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+
+  return true;
+}
+
+/**
+ * Main function to backfill loudness normalization for tracks uploaded without it.
+ * Usage: node scripts/normalizeLoudness.js [songId] [--force]
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const force = args.includes('--force');
+  const songId = args.find(arg => !arg.startsWith('--'));
+
+  try {
+    let normalizedCount = 0;
+
+    if (songId) {
+      const snapshot = await db.ref(`songs/${songId}`).once('value');
+      if (!snapshot.exists()) {
+        throw new Error(`Song ${songId} not found`);
+      }
+      if (await normalizeSong(songId, snapshot.val(), force)) normalizedCount++;
+    } else {
+      const snapshot = await db.ref('songs').once('value');
+      const allSongs = snapshot.val() || {};
+      for (const [id, song] of Object.entries(allSongs)) {
+        if (await normalizeSong(id, song, force)) normalizedCount++;
+      }
+    }
+
+    console.log(`\n✓ Measured loudness for ${normalizedCount} song(s)`);
+  } catch (error) {
+    console.error('\n✗ Error:', error);
+    process.exitCode = 1;
+  } finally {
+    // Clean up
+    await admin.app().delete();
+  }
+}
+
+// Run the script
+if (require.main === module) {
+  main();
+}
+
+module.exports = { normalizeSong, measureLoudness, getNormalizationGainDb };
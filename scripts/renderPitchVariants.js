@@ -0,0 +1,194 @@
+const admin = require('firebase-admin');
+const path = require('path');
+const fs = require('fs');
+const os = require('os');
+const { execFileSync } = require('child_process');
+
+// Initialize Firebase Admin
+const serviceAccount = require('../serviceAccountKey.json');
+admin.initializeApp({
+  credential: admin.credential.cert(serviceAccount),
+  databaseURL: "https://multitrack-player-app-default-rtdb.firebaseio.com",
+  storageBucket: "multitrack-player-app.firebasestorage.app"
+});
+
+const db = admin.database();
+const bucket = admin.storage().bucket();
+
+// Must match MAX_PITCH_SHIFT in src/services/multitrackEngine.ts
+const MAX_PITCH_SHIFT = 6;
+
+/**
+ * Checks whether the installed ffmpeg was built with the rubberband filter
+ * @returns {boolean}
+ */
+function hasRubberband() {
+  try {
+    const filters = execFileSync('ffmpeg', ['-hide_banner', '-filters'], { encoding: 'utf8' });
+    return filters.includes('rubberband');
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Reads the sample rate of the first audio stream of a file
+ * @param {string} input - Audio file
+ * @returns {number}
+ */
+function probeSampleRate(input) {
+  const output = execFileSync('ffprobe', [
+    '-v', 'error',
+    '-select_streams', 'a:0',
+    '-show_entries', 'stream=sample_rate',
+    '-of', 'default=noprint_wrappers=1:nokey=1',
+    input
+  ], { encoding: 'utf8' });
+  const sampleRate = parseInt(output.trim(), 10);
+  if (!sampleRate) {
+    throw new Error(`Could not read the sample rate of ${input}`);
+  }
+  return sampleRate;
+}
+
+/**
+ * Renders an audio file shifted by a number of semitones, keeping its tempo
+ * @param {string} input - Source file
+ * @param {string} output - Destination mp3
+ * @param {number} semitones - Key shift
+ * @param {boolean} useRubberband - Use the higher quality rubberband filter
+ */
+function renderShift(input, output, semitones, useRubberband) {
+  const ratio = Math.pow(2, semitones / 12);
+  // Without rubberband: resample to change pitch, then time-stretch back to the original tempo.
+  // asetrate must start from the file's own rate, or the shift comes out wrong for 48 kHz stems
+  let filter;
+  if (useRubberband) {
+    filter = `rubberband=pitch=${ratio}:formant=preserved`;
+  } else {
+    const sampleRate = probeSampleRate(input);
+    filter = `asetrate=${sampleRate}*${ratio},aresample=${sampleRate},atempo=${1 / ratio}`;
+  }
+
+  execFileSync('ffmpeg', ['-y', '-loglevel', 'error', '-i', input, '-af', filter, '-codec:a', 'libmp3lame', '-q:a', '2', output]);
+}
+
+/**
+ * Storage path for a key-shifted render of a track.
+ * The shift is part of the file name because the app caches audio by file name.
+ * @param {string} trackPath - Storage path of the original track
+ * @param {number} semitones - Key shift
+ */
+function getVariantPath(trackPath, semitones) {
+  const dir = path.posix.dirname(trackPath);
+  const name = path.posix.basename(trackPath, path.posix.extname(trackPath));
+  const label = semitones > 0 ? `+${semitones}` : `${semitones}`;
+  return `${dir}/pitch/${name} (${label}).mp3`;
+}
+
+/**
+ * Renders every missing key shift for the tracks of one song
+ * @param {string} songId - The song ID
+ * @param {object} song - The song data
+ * @param {boolean} useRubberband - Use the rubberband filter
+ * @param {boolean} force - Re-render shifts that already exist
+ */
+async function renderSong(songId, song, useRubberband, force) {
+  const tracks = song.tracks || [];
+  if (tracks.length === 0) {
+    return false;
+  }
+
+  console.log(`\nSong: "${song.title}" (ID: ${songId})`);
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pitch-'));
+  let changed = false;
+
+  try {
+    for (const track of tracks) {
+      const variants = { ...(track.pitchVariants || {}) };
+      const source = path.join(workDir, `${track.id}${path.extname(track.path) || '.mp3'}`);
+      let downloaded = false;
+
+      for (let semitones = -MAX_PITCH_SHIFT; semitones <= MAX_PITCH_SHIFT; semitones++) {
+        if (semitones === 0 || (variants[semitones] && !force)) continue;
+
+        if (!downloaded) {
+          await bucket.file(track.path).download({ destination: source });
+          downloaded = true;
+        }
+
+        const destination = getVariantPath(track.path, semitones);
+        const output = path.join(workDir, `${track.id}_${semitones}.mp3`);
+        renderShift(source, output, semitones, useRubberband);
+
+        await bucket.upload(output, {
+          destination,
+          metadata: { contentType: 'audio/mpeg' },
+        });
+        fs.unlinkSync(output);
+
+        variants[semitones] = destination;
+        changed = true;
+        console.log(`  ✓ ${track.name} ${semitones > 0 ? '+' : ''}${semitones}`);
+      }
+
+      track.pitchVariants = variants;
+    }
+
+    if (changed) {
+      await db.ref(`songs/${songId}/tracks`).set(tracks);
+    }
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+
+  return changed;
+}
+
+/**
+ * Main function to render key-shifted stems.
+ * Usage: node scripts/renderPitchVariants.js [songId] [--force]
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const force = args.includes('--force');
+  const songId = args.find(arg => !arg.startsWith('--'));
+
+  try {
+    const useRubberband = hasRubberband();
+    console.log(useRubberband
+      ? 'Using ffmpeg rubberband filter'
+      : 'ffmpeg has no rubberband filter, falling back to asetrate/atempo');
+
+    let renderedCount = 0;
+
+    if (songId) {
+      const snapshot = await db.ref(`songs/${songId}`).once('value');
+      if (!snapshot.exists()) {
+        throw new Error(`Song ${songId} not found`);
+      }
+      if (await renderSong(songId, snapshot.val(), useRubberband, force)) renderedCount++;
+    } else {
+      const snapshot = await db.ref('songs').once('value');
+      const allSongs = snapshot.val() || {};
+      for (const [id, song] of Object.entries(allSongs)) {
+        if (await renderSong(id, song, useRubberband, force)) renderedCount++;
+      }
+    }
+
+    console.log(`\n✓ Rendered key shifts for ${renderedCount} song(s)`);
+  } catch (error) {
+    console.error('\n✗ Error:', error);
+    process.exitCode = 1;
+  } finally {
+    // Clean up
+    await admin.app().delete();
+  }
+}
+
+// Run the script
+if (require.main === module) {
+  main();
+}
+
+module.exports = { renderSong, getVariantPath };
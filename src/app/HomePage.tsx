@@ -1,7 +1,8 @@
 import React from 'react';
-import { StyleSheet, View, Text, SafeAreaView, TouchableOpacity, ScrollView, FlatList, TextInput, Animated, Easing, Alert, Clipboard, ActivityIndicator, Image, Linking, Dimensions, Modal, KeyboardAvoidingView, Platform, InteractionManager, TouchableWithoutFeedback } from 'react-native';
+import { StyleSheet, View, Text, SafeAreaView, TouchableOpacity, ScrollView, FlatList, TextInput, Animated, Easing, Alert, Clipboard, ActivityIndicator, Image, Linking, Dimensions, Modal, KeyboardAvoidingView, Platform, InteractionManager, TouchableWithoutFeedback, Share } from 'react-native';
 import DraggableFlatList, { RenderItemParams, ScaleDecorator } from 'react-native-draggable-flatlist';
 import PlatformSlider from '../components/PlatformSlider';
+import WaveformLane from '../components/WaveformLane';
 import { StatusBar } from 'expo-status-bar';
 import { Audio } from 'expo-av';
 import { useEffect, useState, useMemo, useRef } from 'react';
@@ -10,7 +11,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import Markdown from 'react-native-markdown-display';
 import { Gesture, GestureDetector } from 'react-native-gesture-handler';
 import { runOnJS } from 'react-native-reanimated';
-import { ref, onValue, set, serverTimestamp } from 'firebase/database';
+import { ref, onValue, set, get, update, serverTimestamp } from 'firebase/database';
 import { getStorage, ref as storageRef, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
 import { database } from '../config/firebase';
 import AudioStorageService from '../services/audioStorage';
@@ -23,16 +24,58 @@ import AuthService from '../services/authService';
 import FavoritesService from '../services/favoritesService';
 import AIAssistantAccessService from '../services/aiAssistantAccessService';
 import PlaylistPlayerService from '../services/playlistPlayerService';
+import MultitrackEngine, { LoopBounds, MAX_PITCH_SHIFT } from '../services/multitrackEngine';
+import MetronomeService, { METRONOME_TRACK, METRONOME_TRACK_ID } from '../services/metronomeService';
+import SongStateService, { LoopRegion, ChordSettings, DEFAULT_CHORD_SETTINGS } from '../services/songStateService';
 import PlaylistService from '../services/playlistService';
-import TrackStateService, { TrackState, SongTrackStates } from '../services/trackStateService';
-import { Playlist, CreatePlaylistForm } from '../types/playlist';
-import { Song, Track, Score, Resource } from '../types/song';
+import TrackStateService, { TrackState, SongTrackStates, TrackEQ, BusState, SongBusStates } from '../services/trackStateService';
+import { FLAT_EQ, EQ_RANGE_DB } from '../services/trackEffects';
+import MixPresetService, { MixPreset } from '../services/mixPresetService';
+import TakeService, { Take, NewTake } from '../services/takeService';
+import LatencyService from '../services/latencyService';
+import PlayHistoryService, { SongPlays } from '../services/playHistoryService';
+import PlayQueueService from '../services/playQueueService';
+import { PlayQueue } from '../utils/playQueue';
+import {
+  SessionSyncClient,
+  SessionState,
+  SessionMember,
+  SessionSummary,
+  SuggestedMix,
+  FollowMode,
+  DEFAULT_SESSION_STATE,
+  START_LEAD_MS,
+  SESSION_DRIFT_TOLERANCE_MS,
+  DRIFT_CHECK_INTERVAL_MS,
+  getMixVolume,
+  parseSessionSummary,
+  isSessionExpired,
+  subscribeServerTimeOffset
+} from '../services/sessionSyncService';
+import { Playlist, CreatePlaylistForm, PlaylistItemOverrides, SmartPlaylistRules } from '../types/playlist';
+import { UserGroup } from '../types/group';
+import { Song, Track, Score, Resource, SongMarker, SyncedLyricLine, TempoChange, TrackBus, TrackRole, VoicePart } from '../types/song';
+import { VOICE_PARTS, VOICE_PART_LABELS, TRACK_ROLES, TRACK_ROLE_LABELS, guessTrackMetadata, getVoicePartTracks, getVoicePartVolumes } from '../utils/trackMetadata';
+import { getBusGain, getBusState, getBusTracks, getTrackBus, upsertBus } from '../utils/trackBuses';
+import { WaveformPeaks, getPeakAt, getWaveformWindow } from '../utils/waveform';
+import { gainToDb } from '../utils/loudness';
+import { getTakeOffsetMs } from '../utils/latency';
+import { canEditPlaylist, getPlaylistAccess } from '../utils/playlistRoles';
+import { canViewSong, filterSongs, getSmartPlaylistSongs, isSmartPlaylist, parseTags } from '../utils/smartPlaylist';
+import { getOverridePitchShift, getOverrideRate, getPlaylistItem, isSetlist } from '../utils/setlist';
+import { MARKER_COLORS, sortMarkers, getCurrentMarker, getNextMarker, getPreviousMarker } from '../utils/songMarkers';
+import { hasTempo, parseTimeSignature, formatTimeSignature } from '../utils/metronome';
+import { isLrc, parseLrc, formatLrc, syncedLyricsToText } from '../utils/lrc';
+import { isChordPro, hasChordsOverLyrics, chordsOverLyricsToChordPro, parseChordPro, transposeKey } from '../utils/chordPro';
 import Header from '../components/Header';
 import GroupManagement from '../components/GroupManagement';
 import SongAccessManagement from '../components/SongAccessManagement';
 import Watermark from '../components/Watermark';
+import SyncedLyricsView from '../components/SyncedLyricsView';
+import SmartPlaylistModal from '../components/SmartPlaylistModal';
+import ChordChartView from '../components/ChordChartView';
 import GroupService from '../services/groupService';
-import { normalizeSearchText, matchesSearch, findMatchesInText } from '../utils/textNormalization';
+import { normalizeSearchText, matchesLyricsSearch, findMatchesInText } from '../utils/textNormalization';
 import { useI18n } from '../contexts/I18nContext';
 import { convertPdfToImages, isPdfFile, dataUriToBlob } from '../services/pdfConverter';
 
@@ -49,12 +92,14 @@ interface NewSongForm {
   title: string;
   artist: string;
   album?: string;
+  tags?: string; // Comma-separated, as typed
   tracks: {
     id: string;
     name: string;
     file: DocumentPicker.DocumentPickerAsset | null;
   }[];
   lyrics: string;
+  syncedLyrics?: SyncedLyricLine[];
   scores: Score[];
   resources: Resource[];
 }
@@ -64,27 +109,48 @@ interface EditSongForm {
   title: string;
   artist: string;
   album?: string;
-  tracks: {
-    id: string;
-    name: string;
-    path: string;
+  tags?: string; // Comma-separated, as typed
+  tracks: (Track & {
     file: DocumentPicker.DocumentPickerAsset | null;
-  }[];
+  })[];
   lyrics?: string;
+  syncedLyrics?: SyncedLyricLine[];
   scores: Score[];
   resources: Resource[];
 }
 
-interface SyncState {
-  isPlaying: boolean;
-  seekPosition: number;
-  activeTracks: string[];
-  soloedTracks: string[];
-  trackVolumes: { [key: string]: number };
-  playbackSpeed: number; // Add playback speed state
-}
-
 // Add helper functions before the HomePage component
+// Device label shown in the session roster
+const getDeviceName = (): string => {
+  switch (Platform.OS) {
+    case 'ios':
+      return 'iOS';
+    case 'android':
+      return 'Android';
+    default:
+      return 'Web';
+  }
+};
+
+const RECORDING_OPTIONS: Audio.RecordingOptions = {
+  android: {
+    ...Audio.RecordingOptionsPresets.HIGH_QUALITY.android,
+    maxFileSize: 0, // No file size limit
+  },
+  ios: {
+    ...Audio.RecordingOptionsPresets.HIGH_QUALITY.ios,
+    outputFormat: Audio.RecordingOptionsPresets.HIGH_QUALITY.ios.outputFormat,
+    audioQuality: Audio.RecordingOptionsPresets.HIGH_QUALITY.ios.audioQuality,
+  },
+  web: {
+    mimeType: 'audio/webm',
+    bitsPerSecond: 128000,
+  },
+};
+
+// Level meters show the top 48 dB below full scale
+const METER_RANGE_DB = 48;
+
 const formatTime = (seconds: number): string => {
   const minutes = Math.floor(seconds / 60);
   const remainingSeconds = Math.floor(seconds % 60);
@@ -205,13 +271,21 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
   const insets = useSafeAreaInsets();
   const { t } = useI18n();
   const [selectedSong, setSelectedSong] = useState<Song | null>(null);
-  const [players, setPlayers] = useState<Audio.Sound[]>([]);
+  // Playlists play through the playlist player, which owns the engines: the song
+  // view always plays its current engine, which changes when a playlist changes song
+  const [playlistPlayer] = useState(() => PlaylistPlayerService.getInstance());
+  const [multitrackEngine, setMultitrackEngine] = useState(() => playlistPlayer.getEngine());
+  const playerLoadedSongRef = useRef<string | null>(null); // Song whose stems the playlist player loaded
+  const autoStartPlayerSongRef = useRef(false); // Start the song the playlist player moves to next
   const [isPlaying, setIsPlaying] = useState(false);
   const [activeTrackIds, setActiveTrackIds] = useState<string[]>([]);
   const [soloedTrackIds, setSoloedTrackIds] = useState<string[]>([]);
   const [trackProgress, setTrackProgress] = useState<{ [key: string]: number }>({});
   const [trackDurations, setTrackDurations] = useState<{ [key: string]: number }>({});
   const [trackVolumes, setTrackVolumes] = useState<{ [key: string]: number }>({});
+  const [trackPans, setTrackPans] = useState<{ [key: string]: number }>({});
+  const [trackEqs, setTrackEqs] = useState<{ [key: string]: TrackEQ }>({});
+  const [toneTrackId, setToneTrackId] = useState<string | null>(null);
   const [isSeeking, setIsSeeking] = useState(false);
   const [seekPosition, setSeekPosition] = useState(0);
   const [isInitialized, setIsInitialized] = useState(false);
@@ -237,6 +311,21 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
   const [isRepeat, setIsRepeat] = useState(false);
   const [repeatMode, setRepeatMode] = useState<'none' | 'track' | 'list'>('none'); // Repeat mode: none, track, or list
   const [playbackSpeed, setPlaybackSpeed] = useState(1.0); // Add playback speed state
+  const [pitchShift, setPitchShift] = useState(0);
+  const [metronomeService] = useState(() => MetronomeService.getInstance());
+  const [isClickLoaded, setIsClickLoaded] = useState(false);
+  const [isCountingIn, setIsCountingIn] = useState(false);
+  const [countInBars, setCountInBars] = useState(0);
+  const [showTempoModal, setShowTempoModal] = useState(false);
+  const [tempoDraft, setTempoDraft] = useState<{
+    bpm: string;
+    timeSignature: string;
+    firstDownbeat: number;
+    tempoMap: TempoChange[];
+    changeBpm: string;
+    changeTimeSignature: string;
+  }>({ bpm: '', timeSignature: '4/4', firstDownbeat: 0, tempoMap: [], changeBpm: '', changeTimeSignature: '' });
+  const [showPitchShiftModal, setShowPitchShiftModal] = useState(false);
   
   // Scroll position restoration
   const songsListRef = useRef<FlatList>(null);
@@ -266,6 +355,7 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
   const [userPlaylists, setUserPlaylists] = useState<Playlist[]>([]);
   const [playlistService] = useState(() => PlaylistService.getInstance());
   const [showCreatePlaylistModal, setShowCreatePlaylistModal] = useState(false);
+  const [showSmartPlaylistModal, setShowSmartPlaylistModal] = useState(false);
   const [newPlaylist, setNewPlaylist] = useState<CreatePlaylistForm>({
     name: '',
     description: '',
@@ -280,6 +370,36 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
   const [persistedTrackStates, setPersistedTrackStates] = useState<SongTrackStates>({});
   const [isLoadingTrackStates, setIsLoadingTrackStates] = useState(false);
   
+  // Loop regions
+  const [songStateService] = useState(() => SongStateService.getInstance());
+  const [loopRegions, setLoopRegions] = useState<LoopRegion[]>([]);
+  const [activeLoopRegionId, setActiveLoopRegionId] = useState<string | null>(null);
+  const [showLoopRegionsModal, setShowLoopRegionsModal] = useState(false);
+  const [loopDraft, setLoopDraft] = useState<{ name: string; start: number | null; end: number | null; countIn: number }>({
+    name: '',
+    start: null,
+    end: null,
+    countIn: 0
+  });
+  const activeLoopRef = useRef<LoopBounds | null>(null);
+  const [showMarkerModal, setShowMarkerModal] = useState(false);
+  const [mixPresetService] = useState(() => MixPresetService.getInstance());
+  const [mixPresets, setMixPresets] = useState<MixPreset[]>([]);
+  const [showMixPresetsModal, setShowMixPresetsModal] = useState(false);
+  const [busStates, setBusStates] = useState<SongBusStates>({});
+  const [trackMetadataDraft, setTrackMetadataDraft] = useState<Track | null>(null);
+  const [waveformPeaks, setWaveformPeaks] = useState<{ [trackId: string]: WaveformPeaks }>({});
+  const [waveformZoom, setWaveformZoom] = useState(1);
+  const [collapsedBusIds, setCollapsedBusIds] = useState<string[]>([]);
+  const [showBusModal, setShowBusModal] = useState(false);
+  const [busDraft, setBusDraft] = useState<{ id: string | null; name: string; trackIds: string[] }>({ id: null, name: '', trackIds: [] });
+  const [mixPresetName, setMixPresetName] = useState('');
+  const [mixPresetShareGroupId, setMixPresetShareGroupId] = useState<string | null>(null);
+  const [markerDraft, setMarkerDraft] = useState<{ label: string; color: string }>({
+    label: '',
+    color: MARKER_COLORS[0]
+  });
+  
   // Offline storage
   const [offlineStorageService] = useState(() => OfflineStorageService.getInstance());
   const [offlineSongs, setOfflineSongs] = useState<Set<string>>(new Set());
@@ -304,6 +424,9 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
   const imageLastPanYRef = useRef(0);
   const imageScaleAnimated = useRef(new Animated.Value(1)).current;
   const [isLyricsFullscreen, setIsLyricsFullscreen] = useState(false);
+  const [showSyncedLyrics, setShowSyncedLyrics] = useState(true);
+  const [showChordChart, setShowChordChart] = useState(false);
+  const [chordSettings, setChordSettings] = useState<ChordSettings>(DEFAULT_CHORD_SETTINGS);
   const [showFullScreenControls, setShowFullScreenControls] = useState(true);
   const showFullScreenControlsRef = useRef(true);
   const tapStartTimeRef = useRef(0);
@@ -318,22 +441,21 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
   const [deviceId] = useState(() => generateId());
   const [isAdmin, setIsAdmin] = useState(false);
   const [sessionId, setSessionId] = useState<string | null>(null);
-  const [syncState, setSyncState] = useState<SyncState>({
-    isPlaying: false,
-    seekPosition: 0,
-    activeTracks: [],
-    soloedTracks: [],
-    trackVolumes: {},
-    playbackSpeed: 1.0
-  });
+  const [syncState, setSyncState] = useState<SessionState>(DEFAULT_SESSION_STATE);
+  const [sessionSync, setSessionSync] = useState<SessionSyncClient | null>(null);
+  const followStartTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [showJoinDialog, setShowJoinDialog] = useState(false);
   const [joinSessionInput, setJoinSessionInput] = useState('');
-  const [latency, setLatency] = useState(0);
-  const [lastSyncTime, setLastSyncTime] = useState(0);
-  const SYNC_THRESHOLD = 100;
   const [showSessionIdDialog, setShowSessionIdDialog] = useState(false);
   const [loadingTracks, setLoadingTracks] = useState<{ [key: string]: boolean }>({});
-  const [activeSessions, setActiveSessions] = useState<{ id: string; admin: string; createdAt: number }[]>([]);
+  const [activeSessions, setActiveSessions] = useState<SessionSummary[]>([]);
+  const [sessionMembers, setSessionMembers] = useState<SessionMember[]>([]);
+  const [sessionLeaderId, setSessionLeaderId] = useState<string | null>(null);
+  // Members share the leader's transport but keep their own monitor mix unless they opt in
+  const [followMode, setFollowMode] = useState<FollowMode>('transport');
+  const [suggestedMix, setSuggestedMix] = useState<SuggestedMix | null>(null);
+  const [handledSuggestedMixId, setHandledSuggestedMixId] = useState<string | null>(null);
+  const [showSessionRoster, setShowSessionRoster] = useState(false);
   const [showSessionsList, setShowSessionsList] = useState(false);
   const [showAddSongDialog, setShowAddSongDialog] = useState(false);
   const [newSong, setNewSong] = useState<NewSongForm>({
@@ -354,6 +476,7 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
   const [showSongAccessManagement, setShowSongAccessManagement] = useState(false);
   const [isAdminMode, setIsAdminMode] = useState(propIsAdminMode || false);
   const [userGroups, setUserGroups] = useState<string[]>([]);
+  const [userGroupDetails, setUserGroupDetails] = useState<UserGroup[]>([]);
   const [password, setPassword] = useState('');
   const [hasAdminAccess, setHasAdminAccess] = useState(false);
   const ADMIN_PASSWORD = 'admin123'; // You should change this to a more secure password
@@ -401,12 +524,15 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
           const groupService = GroupService.getInstance();
           const groups = await groupService.getUserGroups(user.id);
           setUserGroups(groups.map(group => group.id));
+          setUserGroupDetails(groups);
         } catch (error) {
           console.error('Error loading user groups:', error);
           setUserGroups([]);
+          setUserGroupDetails([]);
         }
       } else {
         setUserGroups([]);
+        setUserGroupDetails([]);
       }
     };
 
@@ -494,6 +620,13 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
   const [favoriteSongs, setFavoriteSongs] = useState<Set<string>>(new Set());
   const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
   const [favoritesService] = useState(() => FavoritesService.getInstance());
+  const [playHistoryService] = useState(() => PlayHistoryService.getInstance());
+  const [songPlays, setSongPlays] = useState<SongPlays>({});
+  const playRecordedSongIdRef = useRef<string | null>(null); // Each song counts once per time it is opened
+  const [playQueueService] = useState(() => PlayQueueService.getInstance());
+  const [playQueue, setPlayQueue] = useState<PlayQueue | null>(null);
+  const [isShuffled, setIsShuffled] = useState(false);
+  const [showQueueModal, setShowQueueModal] = useState(false);
   const [authService] = useState(() => AuthService.getInstance());
   
   // AI Assistant access state
@@ -511,6 +644,7 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
       setHasLyrics(filters.hasLyrics || false);
       setHasScores(filters.hasScores || false);
       setHasLinks(filters.hasLinks || false);
+      setSelectedVoiceParts(new Set(filters.voiceParts || []));
       setSortOrder(filters.sortOrder || 'asc');
     }
   };
@@ -529,13 +663,26 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
   const [hasLyrics, setHasLyrics] = useState(false);
   const [hasScores, setHasScores] = useState(false);
   const [hasLinks, setHasLinks] = useState(false);
+  const [selectedVoiceParts, setSelectedVoiceParts] = useState<Set<VoicePart>>(new Set());
 
   // Recording state
   const [recording, setRecording] = useState<Audio.Recording | null>(null);
   const [isRecording, setIsRecording] = useState(false);
   const [recordedUri, setRecordedUri] = useState<string | null>(null);
   const [showRecordingControls, setShowRecordingControls] = useState(false);
-  const [recordingName, setRecordingName] = useState('Voice Recording');
+
+  // My takes: the user's own recordings per song, private until shared or promoted
+  const [takeService] = useState(() => TakeService.getInstance());
+  const [latencyService] = useState(() => LatencyService.getInstance());
+  const [isRecordAlong, setIsRecordAlong] = useState(false);
+  const [pendingTake, setPendingTake] = useState<NewTake | null>(null);
+  const [takes, setTakes] = useState<Take[]>([]);
+  const [sharedTakes, setSharedTakes] = useState<Take[]>([]);
+  const [auditionTake, setAuditionTake] = useState<Take | null>(null); // Playing as a private track in the mixer
+  const [takeVolume, setTakeVolume] = useState(1);
+  const [showTakesModal, setShowTakesModal] = useState(false);
+  const [takeFeedbackDraft, setTakeFeedbackDraft] = useState<{ take: Take; text: string } | null>(null);
+  const recordAlongRef = useRef<{ offsetMs: number; latencyMs: number } | null>(null);
 
   // Cantado player state
   const [cantadoPlayer, setCantadoPlayer] = useState<Audio.Sound | null>(null);
@@ -614,11 +761,125 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     return () => unsubscribe();
   }, [user]);
 
+  // Keep the user's play counts in sync, for smart playlists
+  useEffect(() => {
+    playHistoryService.setCurrentUser(user?.id || null);
+    return playHistoryService.subscribe(setSongPlays);
+  }, [user?.id, playHistoryService]);
+
+  // Restore the play queue from before the app was closed
+  useEffect(() => {
+    const unsubscribe = playQueueService.subscribe((queue) => {
+      setPlayQueue(queue);
+      setIsShuffled(playQueueService.isShuffled());
+    });
+    playQueueService.load();
+    return unsubscribe;
+  }, [playQueueService]);
+
   // Set current user in TrackStateService
   useEffect(() => {
     trackStateService.setCurrentUser(user?.id || null);
   }, [user, trackStateService]);
 
+  // Set current user in PlaylistService, for the playlist activity log and group edits
+  useEffect(() => {
+    playlistService.setCurrentUser(user?.id || null, user?.displayName || '', userGroups);
+  }, [user, userGroups, playlistService]);
+
+  // Set current user in MixPresetService
+  useEffect(() => {
+    mixPresetService.setCurrentUser(user?.id || null);
+  }, [user, mixPresetService]);
+
+  // Set current user in TakeService and load the user's and shared takes for the selected song
+  const loadTakes = async () => {
+    if (!user || !selectedSong) {
+      setTakes([]);
+      setSharedTakes([]);
+      return;
+    }
+    const [ownTakes, shared] = await Promise.all([
+      takeService.getTakes(selectedSong.id),
+      takeService.getSharedTakes(selectedSong.id, userGroups)
+    ]);
+    setTakes(ownTakes);
+    setSharedTakes(shared);
+  };
+
+  useEffect(() => {
+    takeService.setCurrentUser(user?.id || null);
+    loadTakes();
+  }, [user?.id, selectedSong?.id, userGroups, takeService]);
+
+  // Any change to the song reloads the stems, which drops a take being listened to
+  useEffect(() => {
+    setAuditionTake(null);
+  }, [selectedSong]);
+
+  // Load the user's and their groups' mix presets for the selected song
+  const loadMixPresets = async () => {
+    if (!user || !selectedSong) {
+      setMixPresets([]);
+      return;
+    }
+
+    const [ownPresets, groupPresets] = await Promise.all([
+      mixPresetService.getPresets(selectedSong.id),
+      mixPresetService.getGroupPresets(selectedSong.id, userGroups)
+    ]);
+    setMixPresets([...ownPresets, ...groupPresets]);
+  };
+
+  useEffect(() => {
+    loadMixPresets();
+  }, [user?.id, selectedSong?.id, userGroups]);
+
+  // Set current user in SongStateService
+  useEffect(() => {
+    if (user) {
+      songStateService.setUserId(user.id);
+    }
+  }, [user, songStateService]);
+
+  // Real-time sync for loop regions (they can also be selected through the AI assistant)
+  useEffect(() => {
+    if (!user || !selectedSong) return;
+
+    const unsubscribe = songStateService.listenToLoopRegions(
+      selectedSong.id,
+      (regions, activeRegionId) => {
+        setLoopRegions(regions);
+        setActiveLoopRegionId(activeRegionId);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [user, selectedSong?.id, songStateService]);
+
+  // Load the user's key/capo for the song's chord chart
+  useEffect(() => {
+    setChordSettings(DEFAULT_CHORD_SETTINGS);
+    setShowChordChart(!!selectedSong?.chordChart);
+    if (!user || !selectedSong) return;
+
+    let cancelled = false;
+    songStateService.getChordSettings(selectedSong.id).then(settings => {
+      if (!cancelled) setChordSettings(settings);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, selectedSong?.id, songStateService]);
+
+  // Keep the engine looping over the active region
+  useEffect(() => {
+    const region = loopRegions.find(r => r.id === activeLoopRegionId);
+    activeLoopRef.current = region ? { start: region.start, end: region.end } : null;
+    multitrackEngine.setLoop(activeLoopRef.current);
+  }, [loopRegions, activeLoopRegionId, multitrackEngine]);
+
   // Load filter state when user changes
   useEffect(() => {
     if (user && user.preferences) {
@@ -626,26 +887,40 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     }
   }, [user]);
 
+  // Song tracks plus the generated click when the song has a tempo
+  const mixTracks = useMemo<Track[]>(() => {
+    if (!selectedSong) return [];
+    return [...(selectedSong.tracks || []), ...(hasTempo(selectedSong) ? [METRONOME_TRACK] : [])];
+  }, [selectedSong]);
+
   // Apply persisted track states when they change
   useEffect(() => {
     console.log('Track state effect triggered:', {
       hasPersistedStates: Object.keys(persistedTrackStates).length > 0,
       hasSelectedSong: !!selectedSong,
       isInitialized,
-      playersLength: players.length,
+      isEngineLoaded: multitrackEngine.isLoaded(),
       persistedTrackStates
     });
     
-    if (Object.keys(persistedTrackStates).length > 0 && selectedSong && isInitialized && players.length > 0) {
+    // Session members following the leader's mix hear it instead of their saved one
+    if (sessionId && !isAdmin && followMode === 'transport_and_mix') return;
+
+    if (Object.keys(persistedTrackStates).length > 0 && selectedSong && isInitialized && multitrackEngine.isLoaded()) {
       console.log('Applying persisted track states:', persistedTrackStates);
       
       // Apply volume states
       const newVolumes: { [key: string]: number } = {};
+      const newPans: { [key: string]: number } = {};
+      const newEqs: { [key: string]: TrackEQ } = {};
       const newSoloedTracks: string[] = [];
       const newActiveTracks: string[] = [];
       
       Object.entries(persistedTrackStates).forEach(([trackId, trackState]) => {
         newVolumes[trackId] = trackState.volume;
+        newPans[trackId] = trackState.pan || 0;
+        newEqs[trackId] = trackState.eq || FLAT_EQ;
+        multitrackEngine.setTrackEffects(trackId, { pan: newPans[trackId], eq: newEqs[trackId] });
         if (trackState.solo) {
           newSoloedTracks.push(trackId);
         }
@@ -655,16 +930,15 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
       });
       
       setTrackVolumes(newVolumes);
+      setTrackPans(newPans);
+      setTrackEqs(newEqs);
       setSoloedTrackIds(newSoloedTracks);
       setActiveTrackIds(newActiveTracks);
       
-      // Apply volume to players with proper solo/mute logic
+      // Apply volume to stems with proper solo/mute logic
       const applyTrackStates = async () => {
-        for (let index = 0; index < players.length; index++) {
-          const player = players[index];
-          const track = selectedSong.tracks?.[index];
-          
-          if (track && persistedTrackStates[track.id]) {
+        for (const track of mixTracks) {
+          if (persistedTrackStates[track.id]) {
             const trackState = persistedTrackStates[track.id];
             const isTrackSoloed = trackState.solo;
             const isTrackMuted = trackState.mute;
@@ -682,6 +956,7 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
               shouldPlay = isTrackSoloed && !isTrackMuted;
               volumeToSet = shouldPlay ? trackState.volume : 0;
             }
+            volumeToSet *= getBusGain(selectedSong.buses, busStates, track.id);
             
             console.log(`Applying state to track ${track.id}:`, {
               solo: isTrackSoloed,
@@ -691,15 +966,26 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
               volumeToSet
             });
             
-            await player.setVolumeAsync(volumeToSet);
+            await multitrackEngine.setTrackVolume(track.id, volumeToSet);
           }
         }
       };
       
-      // Apply states with a small delay to ensure players are ready
+      // Apply states with a small delay to ensure stems are ready
       setTimeout(applyTrackStates, 100);
     }
-  }, [persistedTrackStates, selectedSong, isInitialized, players]);
+  }, [persistedTrackStates, selectedSong, isInitialized, isClickLoaded, multitrackEngine, sessionId, isAdmin, followMode]);
+
+  // Re-mix every stem when a bus fader, mute or solo changes
+  useEffect(() => {
+    if (sessionId && !isAdmin && followMode === 'transport_and_mix') return;
+    if (!selectedSong?.buses?.length || !isInitialized || !multitrackEngine.isLoaded()) return;
+
+    const mix = { activeTracks: activeTrackIds, soloedTracks: soloedTrackIds, trackVolumes, trackPans, trackEqs, busStates };
+    mixTracks.forEach(track => {
+      multitrackEngine.setTrackVolume(track.id, getMixVolume(mix, track.id, selectedSong.buses));
+    });
+  }, [busStates, selectedSong?.buses, isInitialized]);
 
   // Real-time sync for track states
   useEffect(() => {
@@ -722,6 +1008,40 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     };
   }, [user, selectedSong, trackStateService]);
 
+  // Load waveform peaks of the song's tracks. Keyed on what the peaks depend on, so
+  // edits to other track fields (volume defaults, roles) keep the drawn waveforms.
+  const waveformTracksKey = (selectedSong?.tracks || [])
+    .map(track => `${track.id}:${track.path}:${track.peaksPath || ''}`)
+    .join('|');
+  useEffect(() => {
+    setWaveformPeaks({});
+    if (!selectedSong?.tracks?.length) return;
+
+    let cancelled = false;
+    const audioStorage = AudioStorageService.getInstance();
+    selectedSong.tracks.forEach(async (track) => {
+      const peaks = await audioStorage.getWaveformPeaks(track, selectedSong.id);
+      if (peaks && !cancelled) {
+        setWaveformPeaks(prev => ({ ...prev, [track.id]: peaks }));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedSong?.id, waveformTracksKey]);
+
+  // Real-time sync for the user's bus faders
+  useEffect(() => {
+    if (!user || !selectedSong?.id) return;
+
+    const unsubscribe = trackStateService.listenToSongBusStates(
+      selectedSong.id,
+      (states) => setBusStates(states || {})
+    );
+    return unsubscribe;
+  }, [user, selectedSong?.id, trackStateService]);
+
   // Cleanup TrackStateService on unmount
   useEffect(() => {
     return () => {
@@ -729,11 +1049,14 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     };
   }, [trackStateService]);
 
+  // Pan and EQ go into the session only from a leader that hears them (the web player)
+  const getSessionTrackEffects = () => multitrackEngine.supportsTrackEffects()
+    ? { trackPans, trackEqs }
+    : { trackPans: {}, trackEqs: {} };
+
   // Initialize sync session
   const initializeSyncSession = async () => {
     const newSessionId = generateId();
-    setSessionId(newSessionId);
-    setIsAdmin(true);
     
     // Create session in Firebase
     const sessionRef = ref(database, `sessions/${newSessionId}`);
@@ -741,323 +1064,635 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
       admin: deviceId,
       createdAt: serverTimestamp(),
       state: {
-        isPlaying: false,
-        seekPosition: 0,
-        activeTracks: [],
-        soloedTracks: [],
-        trackVolumes: {},
-        playbackSpeed: 1.0
+        ...DEFAULT_SESSION_STATE,
+        seekPosition,
+        activeTracks: activeTrackIds,
+        soloedTracks: soloedTrackIds,
+        trackVolumes,
+        ...getSessionTrackEffects(),
+        busStates,
+        playbackSpeed,
+        pitchShift,
+        updatedBy: deviceId
       }
     });
+
+    // Connect only once the session exists, so the roster entry isn't overwritten by the create
+    setSessionId(newSessionId);
+    setIsAdmin(true);
   };
 
   // Join existing session
   const joinSession = async (sessionId: string) => {
     try {
+      const snapshot = await get(ref(database, `sessions/${sessionId}/state`));
+      if (!snapshot.exists()) {
+        Alert.alert('Session Not Found', 'This session has ended or the ID is wrong.');
+        return;
+      }
+
       setSessionId(sessionId);
       setIsAdmin(false);
       
       // Initialize sync state with default values
-      setSyncState({
-        isPlaying: false,
-        seekPosition: 0,
-        activeTracks: [],
-        soloedTracks: [],
-        trackVolumes: {},
-        playbackSpeed: 1.0
-      });
+      setSyncState(DEFAULT_SESSION_STATE);
     } catch (error) {
       console.error('Error joining session:', error);
     }
   };
 
-  // Listen for sync state changes
+  // Connect to the session: roster presence, clock offset, leadership and state changes
   useEffect(() => {
     if (!sessionId) return;
 
-    const sessionRef = ref(database, `sessions/${sessionId}/state`);
-    const unsubscribe = onValue(sessionRef, (snapshot) => {
-      const data = snapshot.val();
-      if (data) {
-        setSyncState({
-          isPlaying: data.isPlaying || false,
-          seekPosition: data.seekPosition || 0,
-          activeTracks: data.activeTracks || [],
-          soloedTracks: data.soloedTracks || [],
-          trackVolumes: data.trackVolumes || {},
-          playbackSpeed: data.playbackSpeed || 1.0
-        });
+    const client = new SessionSyncClient(sessionId, deviceId);
+    latencyService.load().then(() => client.setOutputLatency(latencyService.getOutputLatencyMs()));
+    setSessionSync(client);
+
+    client.join({
+      userId: user?.id || null,
+      displayName: user?.displayName || 'Guest',
+      deviceName: getDeviceName(),
+      followMode
+    })
+      .then(() => client.startClockSync())
+      .then(estimate => {
+        if (estimate) {
+          console.log(`Session clock offset ${Math.round(estimate.offset)}ms, round trip ${Math.round(estimate.roundTrip)}ms`);
+          client.heartbeat();
+        }
+      })
+      .catch(error => console.error('Error joining session roster:', error));
+
+    let hasSeenState = false;
+    const unsubscribeState = client.subscribe(state => {
+      if (state) {
+        hasSeenState = true;
+        setSyncState(state);
+      } else if (hasSeenState) {
+        // The session was ended, or expired because its leader disconnected
+        client.dispose();
+        leaveSession();
+        Alert.alert('Session Ended', 'This session has ended.');
+      }
+    });
+
+    let previousLeader: string | null = null;
+    const unsubscribeLeader = client.subscribeLeader(leader => {
+      if (leader === deviceId && previousLeader && previousLeader !== deviceId) {
+        Alert.alert('Session Leader', 'You are now leading this session.');
+      }
+      previousLeader = leader;
+      if (leader) {
+        setSessionLeaderId(leader);
+        setIsAdmin(leader === deviceId);
       }
     });
 
+    const unsubscribeMembers = client.subscribeMembers(setSessionMembers);
+    const unsubscribeSuggestedMix = client.subscribeSuggestedMix(setSuggestedMix);
+
     return () => {
-      unsubscribe();
+      unsubscribeState();
+      unsubscribeLeader();
+      unsubscribeMembers();
+      unsubscribeSuggestedMix();
+      client.dispose();
+      setSessionSync(null);
+      setSessionMembers([]);
+      setSessionLeaderId(null);
+      setSuggestedMix(null);
     };
-  }, [sessionId]);
+  }, [sessionId, deviceId]);
 
-  // Modify the togglePlayback function
-  const togglePlayback = async () => {
-    if (!isInitialized || !selectedSong) {
-      console.log('Cannot toggle playback:', { isInitialized, selectedSong });
-      return;
+  const handleFollowModeChange = async (mode: FollowMode) => {
+    setFollowMode(mode);
+    try {
+      await sessionSync?.setFollowMode(mode);
+    } catch (error) {
+      console.error('Error updating follow mode:', error);
     }
+  };
+
+  // Track states of the mix as it currently sounds
+  const getCurrentMixStates = (): SongTrackStates => {
+    const trackStates: SongTrackStates = {};
+    mixTracks.forEach(track => {
+      trackStates[track.id] = {
+        solo: soloedTrackIds.includes(track.id),
+        mute: !activeTrackIds.includes(track.id),
+        volume: trackVolumes[track.id] ?? 1,
+        pan: trackPans[track.id] || 0,
+        eq: trackEqs[track.id] || FLAT_EQ
+      };
+    });
+    return trackStates;
+  };
+
+  // Leader: offer the current mix of this song to everyone in the session
+  const handleSuggestMix = async () => {
+    if (!sessionSync || !isAdmin || !selectedSong) return;
 
     try {
-      if (isPlaying) {
-        if (sessionId) {
-          if (isAdmin) {
-            // Update sync state
-            const sessionRef = ref(database, `sessions/${sessionId}/state`);
-            await set(sessionRef, {
-              isPlaying: false,
-              seekPosition,
-              activeTracks: [],
-              soloedTracks: [],
-              trackVolumes: {},
-              playbackSpeed: 1.0
-            });
-          }
-        }
-        await stopLocalPlayback();
-      } else {
-        if (sessionId) {
-          if (isAdmin) {
-            // Update sync state
-            const sessionRef = ref(database, `sessions/${sessionId}/state`);
-            await set(sessionRef, {
-              isPlaying: true,
-              seekPosition,
-              activeTracks: [],
-              soloedTracks: [],
-              trackVolumes: {},
-              playbackSpeed: 1.0
-            });
-          }
-        }
-        await startLocalPlayback();
-      }
+      await sessionSync.suggestMix(selectedSong.id, getCurrentMixStates(), user?.displayName || 'Session leader');
+      Alert.alert('Mix Suggested', 'Session members can now accept your mix for this song.');
     } catch (error) {
-      console.error('Error in togglePlayback:', error);
+      console.error('Error suggesting mix:', error);
+      Alert.alert('Error', 'Failed to suggest mix');
     }
   };
 
-  // Apply sync state changes (non-admin devices)
-  useEffect(() => {
-    if (isAdmin || !syncState || !selectedSong) return;
+  // Take the leader's suggested mix over as this user's own mix for the song
+  const handleAcceptSuggestedMix = async () => {
+    if (!suggestedMix || !selectedSong || suggestedMix.songId !== selectedSong.id) return;
 
-    const now = Date.now();
-    if (now - lastSyncTime < SYNC_THRESHOLD) return;
-    setLastSyncTime(now);
+    const trackStates = { ...persistedTrackStates, ...suggestedMix.trackStates };
+    setHandledSuggestedMixId(suggestedMix.id);
+    setPersistedTrackStates(trackStates);
 
-    // Handle play/pause state
-    if (syncState.isPlaying !== isPlaying) {
-      if (syncState.isPlaying) {
-        startLocalPlayback();
-      } else {
-        stopLocalPlayback();
+    if (user) {
+      try {
+        await trackStateService.saveSongTrackStates(selectedSong.id, trackStates);
+      } catch (error) {
+        console.error('Error saving suggested mix:', error);
       }
     }
+  };
 
-    // Update seek position
-    if (selectedSong.tracks && selectedSong.tracks.length > 0 && Math.abs(syncState.seekPosition - seekPosition) > 0.1) {
-      handleSeek(selectedSong.tracks![0].id, syncState.seekPosition);
-    }
-  }, [syncState, isAdmin, selectedSong]);
+  // Mix preset functions
+  const handleApplyMixPreset = async (preset: MixPreset) => {
+    if (!selectedSong) return;
 
-  // Function to start local playback
-  const startLocalPlayback = async () => {
-    if (!selectedSong || !isInitialized) {
-      console.log('Cannot start local playback:', { selectedSong, isInitialized });
-      return;
+    const trackStates = { ...persistedTrackStates, ...preset.trackStates };
+    setPersistedTrackStates(trackStates);
+
+    if (user) {
+      try {
+        await trackStateService.saveSongTrackStates(selectedSong.id, trackStates);
+      } catch (error) {
+        console.error('Error applying mix preset:', error);
+      }
     }
+  };
+
+  const handleSaveMixPreset = async () => {
+    if (!selectedSong || !mixPresetName.trim()) return;
 
     try {
-      console.log('Starting local playback');
-      setIsFinished(false);
-      setTrackProgress({});
-      
-      const playPromises = players.map(async (player, index) => {
-        if (selectedSong.tracks && selectedSong.tracks[index] && activeTrackIds.includes(selectedSong.tracks[index].id)) {
-          console.log(`Starting track ${selectedSong.tracks[index].name}`);
-          const status = await player.getStatusAsync();
-          if (status.isLoaded) {
-            await player.setPositionAsync(seekPosition * 1000);
-            await player.setRateAsync(playbackSpeed, true);
-            await player.playAsync();
-            console.log(`Track ${selectedSong.tracks[index].name} started successfully`);
-          } else {
-            console.error(`Track ${selectedSong.tracks[index].name} not loaded`);
-          }
-        }
-      });
-      await Promise.all(playPromises);
-      setIsPlaying(true);
-      console.log('Local playback started successfully');
+      const existing = mixPresets.find(preset =>
+        !preset.groupId && preset.name.toLowerCase() === mixPresetName.trim().toLowerCase()
+      );
+      // Saving under an existing name updates that preset
+      const preset = await mixPresetService.savePreset(
+        selectedSong.id,
+        mixPresetName,
+        getCurrentMixStates(),
+        existing?.id
+      );
+      if (mixPresetShareGroupId) {
+        await mixPresetService.sharePresetWithGroup(preset, mixPresetShareGroupId);
+      }
+      setMixPresetName('');
+      setMixPresetShareGroupId(null);
+      await loadMixPresets();
     } catch (error) {
-      console.error('Error starting local playback:', error);
+      console.error('Error saving mix preset:', error);
+      Alert.alert('Error', 'Failed to save mix preset');
     }
   };
 
-  // Function to stop local playback
-  const stopLocalPlayback = async () => {
-    if (!selectedSong || !isInitialized) return;
+  const handleShareMixPreset = (preset: MixPreset) => {
+    if (userGroupDetails.length === 0) {
+      Alert.alert('Share Mix', 'You are not a member of any group yet.');
+      return;
+    }
 
-    try {
-      console.log('Stopping local playback');
-      await Promise.all(
-        players
-          .filter(player => player != null)
-          .map(async (player) => {
+    Alert.alert(
+      'Share Mix',
+      `Share "${preset.name}" with a group:`,
+      [
+        ...userGroupDetails.map(group => ({
+          text: group.name,
+          onPress: async () => {
             try {
-              const status = await player.getStatusAsync();
-              if (status.isLoaded) {
-                await player.pauseAsync();
-              }
-            } catch (playerError) {
-              // Silently handle individual player errors
-              console.warn('Error pausing individual player:', playerError);
+              await mixPresetService.sharePresetWithGroup(preset, group.id);
+              await loadMixPresets();
+            } catch (error) {
+              Alert.alert('Error', 'Failed to share mix preset');
             }
-          })
-      );
-      setIsPlaying(false);
-      console.log('Local playback stopped successfully');
+          }
+        })),
+        { text: 'Cancel', style: 'cancel' as const }
+      ]
+    );
+  };
+
+  const handleExportMixPreset = async (preset: MixPreset) => {
+    const trackNames: { [trackId: string]: string } = {};
+    mixTracks.forEach(track => {
+      trackNames[track.id] = track.name;
+    });
+    const json = mixPresetService.exportPreset(preset, trackNames);
+    const fileName = `${selectedSong?.title || 'Mix'} - ${preset.name}.json`;
+
+    try {
+      if (Platform.OS === 'web') {
+        const blob = new Blob([json], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+      } else {
+        await Share.share({ title: fileName, message: json });
+      }
     } catch (error) {
-      console.error('Error stopping local playback:', error);
+      console.error('Error exporting mix preset:', error);
+      Alert.alert('Error', 'Failed to export mix preset');
     }
   };
 
-  // Optimize progress updates
-  useEffect(() => {
-    const progressInterval = setInterval(async () => {
-      if (isPlaying && !isSeeking && selectedSong) {
-        let allFinished = true;
-        let hasActiveTracks = false;
-        
-        for (let i = 0; i < players.length; i++) {
-          const status = await players[i].getStatusAsync();
-          if (status.isLoaded && status.durationMillis) {
-            const position = status.positionMillis / 1000;
-            const duration = status.durationMillis / 1000;
-            
-            if (selectedSong.tracks && selectedSong.tracks[i] && activeTrackIds.includes(selectedSong.tracks[i].id)) {
-              hasActiveTracks = true;
-              setTrackProgress(prev => ({
-                ...prev,
-                [selectedSong.tracks![i].id]: position
-              }));
-              setSeekPosition(position);
-              
-              if (position < duration) {
-                allFinished = false;
-              }
+  const handleDeleteMixPreset = (preset: MixPreset) => {
+    Alert.alert(
+      'Delete Mix',
+      preset.groupId ? `Remove "${preset.name}" from the group?` : `Delete "${preset.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await mixPresetService.deletePreset(preset);
+              await loadMixPresets();
+            } catch (error) {
+              Alert.alert('Error', 'Failed to delete mix preset');
             }
           }
         }
-        
-        if (hasActiveTracks && allFinished && !isFinished) {
-          console.log('Song finished playing');
-          setIsFinished(true);
-          setIsPlaying(false);
-          
-          // If repeat track is enabled, restart the song
-          if (repeatMode === 'track' || isRepeat) {
-            handleRestart();
-          } else if (isPlaylistMode && currentPlaylist && playlistSongs.length > 0) {
-            // Auto-advance to next song in playlist
-            const nextIndex = currentPlaylistIndex + 1;
-            const nextSong = playlistSongs[nextIndex];
-            
-            if (nextIndex < playlistSongs.length) {
-              // Go to next song
-              const nextSong = playlistSongs[nextIndex];
-              setCurrentPlaylistIndex(nextIndex);
-              setSelectedSong(nextSong);
-              // Reset finished state and initialize players for the new song
-              setIsFinished(false);
-              // Stop current playback and progress tracking
-              setIsPlaying(false);
-              // Reset initialization state for new song
-              setIsInitialized(false);
-              // Small delay to ensure proper cleanup before loading new song
-              setTimeout(() => {
-                handleSongSelect(nextSong);
-              }, 100);
-            } else if (isPlaylistRepeating) {
-              // Restart playlist from beginning
-              const firstSong = playlistSongs[0];
-              setCurrentPlaylistIndex(0);
-              setSelectedSong(firstSong);
-              setIsFinished(false);
-              setIsPlaying(false);
-              setIsInitialized(false);
-              setLastAutoStartedSong(null);
-              
-              setTimeout(() => {
-                handleSongSelect(firstSong);
-              }, 100);
-            } else {
-              // Playlist finished
-              setIsPlaylistMode(false);
-              setCurrentPlaylist(null);
-              setPlaylistSongs([]);
-              setCurrentPlaylistIndex(0);
-              setShowPlaylistControls(true);
-              Alert.alert('Playlist Complete', 'All songs in the playlist have been played');
-            }
-          } else if (!isPlaylistMode && filteredSongs.length > 0 && currentFilteredIndex >= 0) {
-            // Auto-advance to next song in filtered songs
-            let nextIndex = currentFilteredIndex < filteredSongs.length - 1 ? currentFilteredIndex + 1 : 0;
-            
-            // If repeating is enabled and we're at the end, restart from beginning
-            if (nextIndex === 0 && currentFilteredIndex === filteredSongs.length - 1 && !isFilteredRepeating) {
-              // Don't loop if repeat is not enabled - song finished, stay on current song
-              console.log('Filtered songs finished - no repeat enabled');
-            } else {
-              const nextSong = filteredSongs[nextIndex];
-              if (nextSong) {
-                setCurrentFilteredIndex(nextIndex);
-                setSelectedSong(nextSong);
-                setIsFinished(false);
-                setIsPlaying(false);
-                setIsInitialized(false);
-                setShouldAutoStartFiltered(true); // Auto-start the next song
-                
-                // Small delay to ensure proper cleanup before loading new song
-                setTimeout(() => {
-                  handleSongSelect(nextSong);
-                }, 100);
-              }
+      ]
+    );
+  };
+
+  const handleHandOffLeadership = (member: SessionMember) => {
+    if (!sessionSync || !isAdmin) return;
+
+    Alert.alert(
+      'Hand Off Leadership',
+      `Make ${member.displayName} (${member.deviceName}) the session leader? You will follow them from then on.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Hand Off',
+          onPress: async () => {
+            try {
+              await sessionSync.handOffLeadership(member.deviceId);
+            } catch (error) {
+              console.error('Error handing off leadership:', error);
+              Alert.alert('Error', 'Failed to hand off leadership');
             }
           }
         }
-      }
-    }, 50);
+      ]
+    );
+  };
 
-    return () => clearInterval(progressInterval);
-  }, [isPlaying, isSeeking, players, isInitialized, selectedSong, isFinished, activeTrackIds, isRepeat, isPlaylistMode, currentPlaylist, playlistSongs, currentPlaylistIndex, currentFilteredIndex, isFilteredRepeating]);
+  // Leader: mirror the mix to the session whenever it changes
+  useEffect(() => {
+    if (!sessionSync || !isAdmin) return;
+
+    sessionSync.publish({
+      activeTracks: activeTrackIds,
+      soloedTracks: soloedTrackIds,
+      trackVolumes,
+      ...getSessionTrackEffects(),
+      busStates
+    }).catch(error => console.error('Error publishing session mix:', error));
+  }, [sessionSync, isAdmin, activeTrackIds, soloedTrackIds, trackVolumes, trackPans, trackEqs, busStates]);
+
+  // Leader: move every device to a new position, keeping the play state
+  const publishSessionSeek = async (position: number) => {
+    if (sessionSync && isAdmin) {
+      await sessionSync.publishTransport(isPlaying, position);
+    }
+  };
 
-  // Optimize handleSeek function
-  const handleSeek = async (trackId: string, value: number) => {
-    if (!isInitialized || !selectedSong || !players.length) return;
+  // Modify the togglePlayback function
+  const togglePlayback = async () => {
+    if (!isInitialized || !selectedSong) {
+      console.log('Cannot toggle playback:', { isInitialized, selectedSong });
+      return;
+    }
+
+    try {
+      // Pressing play again during the count-in cancels it
+      if (isCountingIn) {
+        await stopLocalPlayback();
+        return;
+      }
+
+      if (isPlaying) {
+        if (sessionSync && isAdmin) {
+          await sessionSync.publishTransport(false, multitrackEngine.getPosition());
+        }
+        await stopLocalPlayback();
+      } else {
+        if (sessionSync && isAdmin) {
+          // Schedule the start slightly ahead so every device, the leader included, begins together
+          const { startAt } = await sessionSync.publishTransport(true, seekPosition, START_LEAD_MS);
+          await sessionSync.waitUntil(startAt!);
+        }
+        await startLocalPlayback();
+      }
+    } catch (error) {
+      console.error('Error in togglePlayback:', error);
+    }
+  };
+
+  // Follow the leader's transport, speed and key (non-admin devices)
+  useEffect(() => {
+    if (isAdmin || !sessionSync || !selectedSong || !isInitialized) return;
+
+    const followTransport = async () => {
+      if (followStartTimer.current) {
+        clearTimeout(followStartTimer.current);
+        followStartTimer.current = null;
+      }
+
+      if (syncState.playbackSpeed !== multitrackEngine.getRate()) {
+        setPlaybackSpeed(syncState.playbackSpeed);
+        await multitrackEngine.setRate(syncState.playbackSpeed);
+      }
+
+      // Follow the leader's key without overwriting this user's own preference
+      if (syncState.pitchShift !== multitrackEngine.getPitchShift()) {
+        await handlePitchShiftChange(syncState.pitchShift, false);
+      }
+
+      if (!syncState.isPlaying || syncState.startAt === null) {
+        if (multitrackEngine.isPlaying()) {
+          await stopLocalPlayback();
+        }
+        if (Math.abs(multitrackEngine.getPosition() - syncState.seekPosition) > 0.05) {
+          await multitrackEngine.seek(syncState.seekPosition);
+        }
+        setSeekPosition(syncState.seekPosition);
+        return;
+      }
+
+      const startDelay = sessionSync.getStartDelay(syncState.startAt);
+      if (startDelay > 0) {
+        // Park on the start position and begin at the scheduled server time
+        if (multitrackEngine.isPlaying()) {
+          await multitrackEngine.pause();
+        }
+        await multitrackEngine.seek(syncState.seekPosition);
+        setSeekPosition(syncState.seekPosition);
+        followStartTimer.current = setTimeout(async () => {
+          followStartTimer.current = null;
+          await multitrackEngine.play();
+          setIsFinished(false);
+          setIsPlaying(true);
+        }, sessionSync.getStartDelay(syncState.startAt!));
+      } else {
+        // Joined late or the message arrived after the start time: jump to where the session is now
+        await multitrackEngine.seek(sessionSync.getExpectedPosition(syncState));
+        if (!multitrackEngine.isPlaying()) {
+          await multitrackEngine.play();
+        }
+        setIsFinished(false);
+        setIsPlaying(true);
+      }
+    };
+
+    followTransport().catch(error => console.error('Error following session:', error));
+
+    return () => {
+      if (followStartTimer.current) {
+        clearTimeout(followStartTimer.current);
+        followStartTimer.current = null;
+      }
+    };
+  }, [syncState.isPlaying, syncState.seekPosition, syncState.startAt, syncState.playbackSpeed, syncState.pitchShift, isAdmin, sessionSync, selectedSong?.id, isInitialized]);
+
+  // Mirror the leader's mix (non-admin devices following transport and mix)
+  useEffect(() => {
+    if (isAdmin || !sessionSync || followMode !== 'transport_and_mix' || !isInitialized || !multitrackEngine.isLoaded()) return;
+
+    setActiveTrackIds(syncState.activeTracks);
+    setSoloedTrackIds(syncState.soloedTracks);
+    setTrackVolumes(syncState.trackVolumes);
+    setBusStates(syncState.busStates);
+    mixTracks.forEach(track => {
+      multitrackEngine.setTrackVolume(track.id, getMixVolume(syncState, track.id, selectedSong?.buses));
+    });
+
+    // Only a player that can render pan and EQ takes them over
+    if (multitrackEngine.supportsTrackEffects()) {
+      setTrackPans(syncState.trackPans);
+      setTrackEqs(syncState.trackEqs);
+      mixTracks.forEach(track => {
+        multitrackEngine.setTrackEffects(track.id, {
+          pan: syncState.trackPans[track.id] || 0,
+          eq: syncState.trackEqs[track.id] || FLAT_EQ
+        });
+      });
+    }
+  }, [syncState.activeTracks, syncState.soloedTracks, syncState.trackVolumes, syncState.trackPans, syncState.trackEqs, syncState.busStates, isAdmin, sessionSync, followMode, isInitialized, isClickLoaded, mixTracks]);
+
+  // Periodic drift correction against the session clock
+  useEffect(() => {
+    if (!sessionSync || !isPlaying || !syncState.isPlaying || syncState.startAt === null) return;
+
+    const driftInterval = setInterval(async () => {
+      const serverNow = sessionSync.getServerTime();
+      if (!multitrackEngine.isPlaying() || serverNow < syncState.startAt!) return;
+
+      const expected = sessionSync.getExpectedPosition(syncState);
+      const actual = multitrackEngine.getPosition();
+      if (Math.abs(expected - actual) * 1000 <= SESSION_DRIFT_TOLERANCE_MS) return;
+
+      try {
+        if (isAdmin) {
+          // The leader's playback is the reference (loop wraps, key reloads): move the anchor instead
+          // What the leader hears lags its player by the output latency
+          await sessionSync.publishTransport(true, actual - latencyService.getOutputLatencyMs() / 1000);
+        } else {
+          await multitrackEngine.seek(sessionSync.getExpectedPosition(syncState));
+        }
+      } catch (error) {
+        console.error('Error correcting session drift:', error);
+      }
+    }, DRIFT_CHECK_INTERVAL_MS);
+
+    return () => clearInterval(driftInterval);
+  }, [sessionSync, syncState, isPlaying, isAdmin]);
+
+  // Function to start local playback
+  // How a song is loaded: the session leader's key for members, the key and tempo its
+  // setlist plans, or the key the user last picked. rate is null to keep the current speed.
+  const getSongPlayback = async (song: Song, overrides?: PlaylistItemOverrides | null): Promise<{ pitchShift: number; rate: number | null }> => {
+    const isFollower = !!sessionId && !isAdmin;
+
+    const pitchShift = isFollower
+      ? syncState.pitchShift
+      : overrides?.key
+        ? getOverridePitchShift(song, overrides)
+        : user ? await songStateService.getPitchShift(song.id) : 0;
+    const rate = overrides && !isFollower
+      ? getOverrideRate(song, overrides)
+      : null;
+    return { pitchShift, rate };
+  };
+
+  // Loads a song's stems into an engine, with the click (muted) for songs with a tempo
+  const loadSongStems = async (engine: MultitrackEngine, song: Song, pitchShift: number) => {
+    // Unloads the previous song's stems before loading the new ones
+    await engine.load(song, pitchShift);
+    if (hasTempo(song)) {
+      // The click is synthesized locally to the song's length
+      const clickUri = await metronomeService.getClickTrackUri(song, engine.getDuration());
+      await engine.addStem(METRONOME_TRACK, clickUri, 0);
+    }
+  };
+
+  // Start a preloaded song at the user's saved mutes, solos and volumes, not every stem at full level
+  const applySavedMix = async (engine: MultitrackEngine, song: Song) => {
+    const states = user ? await trackStateService.loadSongTrackStates(song.id) : null;
+    if (!states) return;
+
+    const hasSolo = Object.values(states).some(state => state.solo);
+    await Promise.all(Object.entries(states).map(([trackId, state]) => {
+      const audible = hasSolo ? state.solo && !state.mute : !state.mute;
+      return engine.setTrackVolume(trackId, audible ? state.volume : 0);
+    }));
+  };
+
+  const startLocalPlayback = async () => {
+    if (!selectedSong || !isInitialized) {
+      console.log('Cannot start local playback:', { selectedSong, isInitialized });
+      return;
+    }
+
+    try {
+      console.log('Starting local playback');
+      setIsFinished(false);
+      setTrackProgress({});
+      
+      // All stems run on the engine clock; muted ones simply play at zero volume
+      if (multitrackEngine.getRate() !== playbackSpeed) {
+        await multitrackEngine.setRate(playbackSpeed);
+      }
+      if (Math.abs(multitrackEngine.getPosition() - seekPosition) > 0.05) {
+        await multitrackEngine.seek(seekPosition);
+      }
+
+      // Count-in only when playing alone, so session members don't fall a bar behind the leader
+      if (countInBars > 0 && hasTempo(selectedSong) && !sessionId) {
+        setIsCountingIn(true);
+        const completed = await metronomeService.playCountIn(
+          selectedSong,
+          seekPosition,
+          countInBars,
+          playbackSpeed,
+          trackVolumes[METRONOME_TRACK_ID] || 1
+        );
+        setIsCountingIn(false);
+        if (!completed) return;
+      }
+
+      if (isPlaylistMode) {
+        // The playlist player counts the play and starts preloading the next song
+        await playlistPlayer.play();
+      } else {
+        await multitrackEngine.play();
+        if (playRecordedSongIdRef.current !== selectedSong.id) {
+          playRecordedSongIdRef.current = selectedSong.id;
+          playHistoryService.recordPlay(selectedSong.id);
+        }
+      }
+      setIsPlaying(true);
+      console.log('Local playback started successfully');
+    } catch (error) {
+      console.error('Error starting local playback:', error);
+    }
+  };
+
+  // Function to stop local playback
+  const stopLocalPlayback = async () => {
+    if (!selectedSong || !isInitialized) return;
+
+    try {
+      console.log('Stopping local playback');
+      await metronomeService.stopCountIn();
+      // Pausing a playlist also cuts short a gap or crossfade between songs
+      await (isPlaylistMode ? playlistPlayer.pause() : multitrackEngine.pause());
+      setIsPlaying(false);
+      console.log('Local playback stopped successfully');
+    } catch (error) {
+      console.error('Error stopping local playback:', error);
+    }
+  };
+
+  // Optimize progress updates
+  useEffect(() => {
+    const progressInterval = setInterval(async () => {
+      if (isPlaying && !isSeeking && selectedSong && multitrackEngine.isLoaded()) {
+        // Every stem follows the engine clock, so one position covers all tracks
+        const position = multitrackEngine.getPosition();
+        const duration = multitrackEngine.getDuration();
+        const hasActiveTracks = (selectedSong.tracks || []).some(track => activeTrackIds.includes(track.id));
+
+        if (hasActiveTracks) {
+          setTrackProgress(prev => {
+            const newProgress = { ...prev };
+            selectedSong.tracks?.forEach(track => {
+              newProgress[track.id] = position;
+            });
+            return newProgress;
+          });
+          setSeekPosition(position);
+        }
+        
+        // In a playlist, the playlist player skips sections and moves between songs
+        if (!isPlaylistMode && hasActiveTracks && duration > 0 && position >= duration && !isFinished) {
+          console.log('Song finished playing');
+          setIsFinished(true);
+          setIsPlaying(false);
+          await multitrackEngine.pause();
+          
+          // If repeat track is enabled, restart the song
+          if (repeatMode === 'track' || isRepeat) {
+            handleRestart();
+          } else if (currentFilteredIndex >= 0 || (playQueue?.upNext.length ?? 0) > 0) {
+            // Auto-advance to the next song in the queue
+            syncPlayQueue(selectedSong);
+            const nextSong = playQueueService.next(isFilteredRepeating);
+            
+            if (nextSong) {
+              goToQueuedSong(nextSong, true);
+            } else {
+              // Don't loop if repeat is not enabled - song finished, stay on current song
+              console.log('Filtered songs finished - no repeat enabled');
+            }
+          }
+        }
+      }
+    }, 50);
+
+    return () => clearInterval(progressInterval);
+  }, [isPlaying, isSeeking, multitrackEngine, isInitialized, selectedSong, isFinished, activeTrackIds, isRepeat, isPlaylistMode, currentFilteredIndex, isFilteredRepeating, playQueue]);
+
+  // Optimize handleSeek function
+  const handleSeek = async (trackId: string, value: number) => {
+    if (!isInitialized || !selectedSong || !multitrackEngine.isLoaded()) return;
 
     setIsSeeking(true);
     setSeekPosition(value);
     
     try {
-      // Use Promise.all for parallel seeking with better error handling
-      await Promise.all(
-        players.map(async (player) => {
-          try {
-            const status = await player.getStatusAsync();
-            if (status.isLoaded) {
-              await player.setPositionAsync(value * 1000);
-            }
-          } catch (playerError) {
-            // Silently handle individual player errors during song transitions
-            console.log('Player not available for seeking (likely during song transition)');
-          }
-        })
-      );
+      await multitrackEngine.seek(value);
 
       setTrackProgress(prev => {
         const newProgress = { ...prev };
@@ -1076,7 +1711,7 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     }
   };
 
-  // Initialize players when a song is selected
+  // Load the song's stems into the multitrack engine when a song is selected
   useEffect(() => {
     const initializePlayers = async () => {
       if (!selectedSong) return;
@@ -1096,96 +1731,61 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
         }), {});
         setLoadingTracks(initialLoadingState);
 
-        // Unload previous players
-        await Promise.all(
-          players
-            .filter(player => player != null)
-            .map(async (player) => {
-              try {
-                const status = await player.getStatusAsync();
-                if (status.isLoaded) {
-                  await player.unloadAsync();
-                }
-              } catch (error) {
-                console.warn('Error unloading player:', error);
-              }
-            })
-        );
+        multitrackEngine.setCallbacks({
+          onTrackLoaded: (trackId) => {
+            setLoadingTracks(prev => ({
+              ...prev,
+              [trackId]: false
+            }));
+          }
+        });
 
-        const audioStorage = AudioStorageService.getInstance();
-        const isOffline = offlineStorageService.isSongOffline(selectedSong.id);
-        
-        const loadedPlayers = await Promise.all(
-          (selectedSong.tracks || []).map(async (track) => {
-            console.log(`Loading track: ${track.name}`);
-            try {
-              let audioFile;
-              
-              // Check if offline version exists
-              if (isOffline) {
-                const cachedUri = await offlineStorageService.getCachedTrackUri(track, selectedSong.id);
-                if (cachedUri) {
-                  audioFile = {
-                    id: track.path,
-                    name: track.name,
-                    url: track.path,
-                    localUri: cachedUri
-                  };
-                } else {
-                  // Fall back to regular loading if cache is missing
-                  audioFile = await audioStorage.getAudioFile(track.path);
-                }
-              } else {
-                audioFile = await audioStorage.getAudioFile(track.path);
-              }
-              
-              const sound = await audioStorage.loadAudioFile(audioFile);
-              
-              setLoadingTracks(prev => ({
-                ...prev,
-                [track.id]: false
-              }));
-              
-              return sound;
-            } catch (error) {
-              console.error(`Error loading track ${track.name}:`, error);
-              setLoadingTracks(prev => ({
-                ...prev,
-                [track.id]: false
-              }));
-              throw error;
+        try {
+          // A song the playlist player moved to is already loaded, in its setlist key and tempo
+          const isLoadedByPlayer = playerLoadedSongRef.current === selectedSong.id && multitrackEngine.isLoaded();
+          playerLoadedSongRef.current = null;
+          setIsClickLoaded(false);
+          if (isLoadedByPlayer) {
+            setPlaybackSpeed(multitrackEngine.getRate());
+            setLoadingTracks({});
+          } else {
+            const overrides = isPlaylistMode ? playlistPlayer.getState().currentOverrides : null;
+            const { pitchShift: initialPitchShift, rate } = await getSongPlayback(selectedSong, overrides);
+            if (rate !== null) {
+              setPlaybackSpeed(rate);
             }
-          })
-        );
+            await loadSongStems(multitrackEngine, selectedSong, initialPitchShift);
+          }
+          setPitchShift(multitrackEngine.getPitchShift());
+          setIsClickLoaded(multitrackEngine.hasStem(METRONOME_TRACK_ID));
+          setCountInBars(user ? await songStateService.getCountInBars(selectedSong.id) : 0);
+        } catch (error) {
+          setLoadingTracks({});
+          throw error;
+        }
 
         console.log('All players loaded successfully');
-        setPlayers(loadedPlayers);
+        multitrackEngine.setLoop(activeLoopRef.current);
         setIsInitialized(true);
-        setSeekPosition(0);
+        // A setlist song starts at its first planned section
+        setSeekPosition(multitrackEngine.getPosition());
+        // A song crossfaded in is already playing; during a playlist's gap, the next song is about to
+        if (multitrackEngine.isPlaying() || (isPlaylistMode && playlistPlayer.getState().isPlaying)) {
+          setIsPlaying(true);
+        }
 
         // Initialize volumes with default values (will be overridden by persisted states if available)
         const initialVolumes = (selectedSong.tracks || []).reduce((acc, track) => ({
           ...acc,
-          [track.id]: 1
+          [track.id]: track.defaultGain ?? 1
         }), {});
         setTrackVolumes(initialVolumes);
-        
-        // Set all tracks as active by default (will be overridden by persisted states if available)
-        const initialActiveTracks = (selectedSong.tracks || []).map(track => track.id);
-        setActiveTrackIds(initialActiveTracks);
 
         // Get durations
-        loadedPlayers.forEach(async (player, index) => {
-          const status = await player.getStatusAsync();
-          if (status.isLoaded && status.durationMillis) {
-            if (selectedSong.tracks && selectedSong.tracks[index]) {
-              setTrackDurations(prev => ({
-                ...prev,
-                [selectedSong.tracks![index].id]: status.durationMillis! / 1000
-              }));
-            }
-          }
-        });
+        setTrackDurations((selectedSong.tracks || []).reduce((acc, track) => ({
+          ...acc,
+          [track.id]: multitrackEngine.getTrackDuration(track.id)
+        }), {}));
 
         // Set all tracks as active initially
         setActiveTrackIds((selectedSong.tracks || []).map(track => track.id));
@@ -1197,13 +1797,19 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     };
 
     initializePlayers();
+  }, [selectedSong, multitrackEngine]);
 
+  useEffect(() => {
+    playRecordedSongIdRef.current = null;
+  }, [selectedSong?.id]);
+
+  // Release the playlist and the stems on unmount
+  useEffect(() => {
     return () => {
-      players.forEach(player => {
-        player.unloadAsync();
-      });
+      playlistPlayer.setSongLoader(null);
+      playlistPlayer.closePlaylist().then(() => playlistPlayer.getEngine().unload());
     };
-  }, [selectedSong]);
+  }, []);
 
   // Cleanup Cantado player on unmount
   useEffect(() => {
@@ -1240,7 +1846,7 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     const isTabAvailable = (tab: 'lyrics' | 'score' | 'tracks' | 'resources'): boolean => {
       switch (tab) {
         case 'lyrics':
-          return !!(selectedSong.lyrics && selectedSong.lyrics.trim().length > 0);
+          return !!((selectedSong.lyrics && selectedSong.lyrics.trim().length > 0) || selectedSong.chordChart);
         case 'score':
           return !!(selectedSong.scores && selectedSong.scores.length > 0);
         case 'tracks':
@@ -1259,7 +1865,7 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     }
     
     // Otherwise, use priority order: lyrics -> score -> tracks -> resources
-    if (selectedSong.lyrics && selectedSong.lyrics.trim().length > 0) {
+    if ((selectedSong.lyrics && selectedSong.lyrics.trim().length > 0) || selectedSong.chordChart) {
       setActiveView('lyrics');
     } else if (selectedSong.scores && selectedSong.scores.length > 0) {
       setActiveView('score');
@@ -1319,11 +1925,19 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     
     setSelectedSong(song);
     
+    // Reset loop regions for new song (the listener loads the saved ones)
+    setLoopRegions([]);
+    setActiveLoopRegionId(null);
+    
     // Reset track states for new song
     setPersistedTrackStates({});
     setSoloedTrackIds([]);
     setActiveTrackIds([]);
     setTrackVolumes({});
+    setTrackPans({});
+    setTrackEqs({});
+    setBusStates({});
+    setCollapsedBusIds([]);
     
     // Load persisted track states for this song
     if (user) {
@@ -1334,9 +1948,19 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
           setPersistedTrackStates(trackStates);
           console.log('Loaded track states for song:', song.id, trackStates);
         } else {
-          // Initialize with default states if none exist
+          // First open: start from the user's part profile, or each track's default gain
           const trackIds = song.tracks?.map(track => track.id) || [];
-          const defaultStates = await trackStateService.initializeSongTrackStates(song.id, trackIds);
+          const myPart = user.preferences?.myPart;
+          const partVolumes = myPart ? getVoicePartVolumes(song.tracks, myPart) : null;
+          const defaultVolumes: { [trackId: string]: number } = partVolumes || {};
+          if (!partVolumes) {
+            (song.tracks || []).forEach(track => {
+              if (track.defaultGain !== undefined) {
+                defaultVolumes[track.id] = track.defaultGain;
+              }
+            });
+          }
+          const defaultStates = await trackStateService.initializeSongTrackStates(song.id, trackIds, defaultVolumes);
           setPersistedTrackStates(defaultStates);
           console.log('Initialized default track states for song:', song.id);
         }
@@ -1470,129 +2094,31 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
 
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
 
+  // The song list filters as they are saved, and as a smart playlist keeps them
+  const currentFilters = useMemo((): FilterState => ({
+    searchQuery,
+    selectedArtists: Array.from(selectedArtists),
+    selectedAlbums: Array.from(selectedAlbums),
+    showFavoritesOnly,
+    hasTracks,
+    hasLyrics,
+    hasScores,
+    hasLinks,
+    voiceParts: Array.from(selectedVoiceParts),
+    sortOrder
+  }), [searchQuery, selectedArtists, selectedAlbums, showFavoritesOnly, hasTracks, hasLyrics, hasScores, hasLinks, selectedVoiceParts, sortOrder]);
+
+  // Songs the user may see (all of them in admin mode)
+  const accessibleSongs = useMemo(() => {
+    if (isAdminMode || !user) return songs;
+    return songs.filter(song => canViewSong(song, user.id, userGroups));
+  }, [songs, isAdminMode, user, userGroups]);
+
   const filteredSongs = useMemo(() => {
-    console.log('Current songs state:', songs);
-    let filtered = songs;
-    
-    // Apply access control filtering (only if not in admin mode)
-    if (!isAdminMode && user) {
-      filtered = filtered.filter(song => {
-        // If no access control, song is public
-        if (!song.accessControl) {
-          return true;
-        }
-        
-        // Check if song is public
-        if (song.accessControl.visibility === 'public') {
-          return true;
-        }
-        
-        // Check if user is the creator
-        if (song.createdBy === user.id) {
-          return true;
-        }
-        
-        // Check if user is in allowed users list
-        if (song.accessControl.allowedUsers?.includes(user.id)) {
-          return true;
-        }
-        
-        // For group-restricted songs, check if user is in any allowed groups
-        if (song.accessControl.visibility === 'group_restricted' && song.accessControl.allowedGroups) {
-          const hasGroupAccess = song.accessControl.allowedGroups.some(groupId => 
-            userGroups.includes(groupId)
-          );
-          return hasGroupAccess;
-        }
-        
-        // If song is private and user is not creator or in allowed users, hide it
-        return false;
-      });
-    }
-    
-    // Apply artist filter if selected
-    if (selectedArtists.size > 0) {
-      filtered = filtered.filter(song => selectedArtists.has(song.artist));
-    }
-    
-    // Apply album filter if selected
-    if (selectedAlbums.size > 0) {
-      filtered = filtered.filter(song => song.album && selectedAlbums.has(song.album));
-    }
-    
-    // Apply favorites filter if enabled
-    if (showFavoritesOnly) {
-      filtered = filtered.filter(song => favoriteSongs.has(song.id));
-    }
-    
-    // Apply content filters
-    if (hasTracks) {
-      filtered = filtered.filter(song => song.tracks && song.tracks.length > 0);
-    }
-    
-    if (hasLyrics) {
-      filtered = filtered.filter(song => song.lyrics && song.lyrics.trim().length > 0);
-    }
-    
-    if (hasScores) {
-      filtered = filtered.filter(song => song.scores && song.scores.length > 0);
-    }
-    
-    if (hasLinks) {
-      filtered = filtered.filter(song => song.resources && song.resources.length > 0);
-    }
-    
-    // Apply search query if present
-    if (searchQuery && searchQuery.trim()) {
-      filtered = filtered
-        .map(song => {
-          const titleMatch = matchesSearch(searchQuery, song.title);
-          const artistMatch = matchesSearch(searchQuery, song.artist);
-          const lyricsMatch = song.lyrics && matchesSearch(searchQuery, song.lyrics);
-          
-          // Calculate match priority (higher number = higher priority)
-          let priority = 0;
-          if (titleMatch) priority += 3;
-          if (artistMatch) priority += 2;
-          if (lyricsMatch) priority += 1;
-          
-          return {
-            ...song,
-            matchInfo: {
-              titleMatch,
-              artistMatch,
-              lyricsMatch,
-              priority
-            }
-          };
-        })
-        .filter(song => song.matchInfo.priority > 0)
-        .sort((a, b) => {
-          // First sort by priority (higher priority first - title matches come first)
-          const priorityDiff = b.matchInfo.priority - a.matchInfo.priority;
-          if (priorityDiff !== 0) return priorityDiff;
-          
-          // If same priority, sort alphabetically by title
-          const titleA = a.title.toLowerCase();
-          const titleB = b.title.toLowerCase();
-          return sortOrder === 'asc' 
-            ? titleA.localeCompare(titleB)
-            : titleB.localeCompare(titleA);
-        });
-    } else {
-      // No search query - sort alphabetically by title
-      filtered = [...filtered].sort((a, b) => {
-        const titleA = a.title.toLowerCase();
-        const titleB = b.title.toLowerCase();
-        return sortOrder === 'asc' 
-          ? titleA.localeCompare(titleB)
-          : titleB.localeCompare(titleA);
-      });
-    }
-    
+    const filtered = filterSongs(accessibleSongs, currentFilters, favoriteSongs);
     console.log('Filtered songs:', filtered);
     return filtered;
-  }, [searchQuery, selectedArtists, selectedAlbums, songs, sortOrder, showFavoritesOnly, favoriteSongs, hasTracks, hasLyrics, hasScores, hasLinks, isAdminMode, user, userGroups]);
+  }, [accessibleSongs, currentFilters, favoriteSongs]);
 
   // Update currentFilteredIndex when filters change or selected song is no longer in filtered list
   useEffect(() => {
@@ -1601,9 +2127,8 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
       if (index >= 0) {
         setCurrentFilteredIndex(index);
       } else {
-        // Current song is no longer in filtered list, reset index
+        // Current song is no longer in filtered list (or was queued from outside it), reset index
         setCurrentFilteredIndex(-1);
-        setShouldAutoStartFiltered(false); // Reset auto-start flag when song is no longer in filtered list
       }
     } else if (!selectedSong) {
       // No song selected, reset index
@@ -1612,6 +2137,18 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     }
   }, [filteredSongs, selectedSong, isPlaylistMode]);
 
+  // Queued songs are stored by id and looked up in the library
+  useEffect(() => {
+    playQueueService.setLibrary(songs);
+  }, [songs, playQueueService]);
+
+  // The queue follows the song list when filters change
+  useEffect(() => {
+    if (!isPlaylistMode && playQueueService.isPlaying()) {
+      playQueueService.updateSongs(filteredSongs);
+    }
+  }, [filteredSongs, isPlaylistMode, playQueue, playQueueService]);
+
   // Restore scroll position when returning to song list
   useEffect(() => {
     if (!selectedSong && filteredSongs.length > 0) {
@@ -1734,12 +2271,13 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     setHasLyrics(false);
     setHasScores(false);
     setHasLinks(false);
+    setSelectedVoiceParts(new Set());
     // Save to user preferences
-    saveFilterState({ hasTracks: false, hasLyrics: false, hasScores: false, hasLinks: false });
+    saveFilterState({ hasTracks: false, hasLyrics: false, hasScores: false, hasLinks: false, voiceParts: [] });
   };
 
   const hasActiveContentFilters = () => {
-    return hasTracks || hasLyrics || hasScores || hasLinks;
+    return hasTracks || hasLyrics || hasScores || hasLinks || selectedVoiceParts.size > 0;
   };
 
   // Artist filter helper functions
@@ -1767,6 +2305,7 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     setHasLyrics(false);
     setHasScores(false);
     setHasLinks(false);
+    setSelectedVoiceParts(new Set());
     // Save to user preferences
     saveFilterState({ 
       selectedArtists: [], 
@@ -1774,7 +2313,8 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
       hasTracks: false, 
       hasLyrics: false, 
       hasScores: false, 
-      hasLinks: false 
+      hasLinks: false,
+      voiceParts: []
     });
   };
 
@@ -1803,6 +2343,17 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     saveFilterState({ hasLinks: newValue });
   };
 
+  const toggleVoicePartFilter = (part: VoicePart) => {
+    const newSet = new Set(selectedVoiceParts);
+    if (newSet.has(part)) {
+      newSet.delete(part);
+    } else {
+      newSet.add(part);
+    }
+    setSelectedVoiceParts(newSet);
+    saveFilterState({ voiceParts: Array.from(newSet) });
+  };
+
   // Search and sort functions
   const handleSearchQueryChange = (text: string) => {
     setSearchQuery(text);
@@ -1826,8 +2377,17 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     saveFilterState({ searchQuery: '' });
   };
 
+  // "Play next" / "add to queue" from the song list
+  const handleQueueSongOptions = (song: Song) => {
+    Alert.alert(song.title, undefined, [
+      { text: 'Play Next', onPress: () => playlistPlayer.playNext(song) },
+      { text: 'Add to Queue', onPress: () => playlistPlayer.addToQueue(song) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
   const renderSongItem = ({ item }: { item: Song & { matchInfo?: { titleMatch: boolean; artistMatch: boolean; lyricsMatch: boolean } } }) => {
-    const hasLyricsMatch = item.lyrics && searchQuery && matchesSearch(searchQuery, item.lyrics);
+    const hasLyricsMatch = item.lyrics && searchQuery && matchesLyricsSearch(searchQuery, item.lyrics);
     const isExpanded = expandedLyricsIds.has(item.id);
     
     // Function to render title with highlighted matches
@@ -2036,6 +2596,12 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
               </TouchableOpacity>
             </>
           )}
+          <TouchableOpacity
+            style={styles.favoriteButton}
+            onPress={() => handleQueueSongOptions(item)}
+          >
+            <Ionicons name="list-outline" size={24} color="#BBBBBB" />
+          </TouchableOpacity>
           <TouchableOpacity
             style={styles.favoriteButton}
             onPress={(event) => handleToggleFavorite(item.id, event)}
@@ -2130,12 +2696,9 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
   const toggleSolo = async (trackId: string) => {
     if (!isInitialized || !selectedSong) return;
 
-    const trackIndex = selectedSong.tracks?.findIndex(t => t.id === trackId) ?? -1;
+    const trackIndex = mixTracks.findIndex(t => t.id === trackId);
     if (trackIndex === -1) return;
 
-    const player = players[trackIndex];
-    if (!player) return;
-
     const isSoloed = soloedTrackIds.includes(trackId);
     let newSoloedTrackIds: string[];
 
@@ -2146,13 +2709,15 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     }
     setSoloedTrackIds(newSoloedTrackIds);
 
-    selectedSong.tracks?.forEach(async (track, index) => {
+    mixTracks.forEach(async (track) => {
       const isActive = activeTrackIds.includes(track.id);
+      const busGain = getBusGain(selectedSong.buses, busStates, track.id);
       if (newSoloedTrackIds.length === 0) {
-        await players[index].setVolumeAsync(isActive ? (trackVolumes[track.id] || 1) : 0);
+        await multitrackEngine.setTrackVolume(track.id, isActive ? (trackVolumes[track.id] || 1) * busGain : 0);
       } else {
-        await players[index].setVolumeAsync(
-          newSoloedTrackIds.includes(track.id) ? (trackVolumes[track.id] || 1) : 0
+        await multitrackEngine.setTrackVolume(
+          track.id,
+          newSoloedTrackIds.includes(track.id) ? (trackVolumes[track.id] || 1) * busGain : 0
         );
       }
     });
@@ -2178,19 +2743,16 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
   const handleVolumeChange = async (trackId: string, value: number) => {
     if (!isInitialized || !selectedSong) return;
 
-    const trackIndex = selectedSong.tracks?.findIndex(t => t.id === trackId) ?? -1;
+    const trackIndex = mixTracks.findIndex(t => t.id === trackId);
     if (trackIndex === -1) return;
 
-    const player = players[trackIndex];
-    if (!player) return;
-
     setTrackVolumes(prev => ({
       ...prev,
       [trackId]: value
     }));
 
     if (soloedTrackIds.includes(trackId) || soloedTrackIds.length === 0) {
-      await player.setVolumeAsync(value);
+      await multitrackEngine.setTrackVolume(trackId, value * getBusGain(selectedSong.buses, busStates, trackId));
     }
 
     // Persist the volume state
@@ -2211,27 +2773,126 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     }
   };
 
-  const toggleTrack = async (trackId: string) => {
+  // Bus fader, mute and solo are personal; the re-mix effect applies them to the stems
+  const handleBusStateChange = async (bus: TrackBus, changes: Partial<BusState>) => {
+    if (!selectedSong) return;
+
+    const updatedBusState = { ...getBusState(bus, busStates), ...changes };
+    setBusStates(prev => ({ ...prev, [bus.id]: updatedBusState }));
+
+    if (user) {
+      try {
+        await trackStateService.saveBusState(selectedSong.id, bus.id, updatedBusState);
+      } catch (error) {
+        console.error('Error saving bus state:', error);
+      }
+    }
+  };
+
+  const toggleBusCollapsed = (busId: string) => {
+    setCollapsedBusIds(prev => prev.includes(busId) ? prev.filter(id => id !== busId) : [...prev, busId]);
+  };
+
+  const openBusModal = (bus?: TrackBus) => {
+    setBusDraft(bus
+      ? { id: bus.id, name: bus.name, trackIds: bus.trackIds || [] }
+      : { id: null, name: '', trackIds: [] });
+    setShowBusModal(true);
+  };
+
+  // Bus grouping is stored on the song, so only admins edit it
+  const handleSaveBus = async () => {
+    if (!selectedSong || !isAdminMode || !busDraft.name.trim()) return;
+
+    const existing = selectedSong.buses?.find(bus => bus.id === busDraft.id);
+    const bus: TrackBus = {
+      ...existing,
+      id: busDraft.id || Date.now().toString(),
+      name: busDraft.name.trim(),
+      trackIds: busDraft.trackIds
+    };
+
+    try {
+      await updateSongInFirebase({ buses: upsertBus(selectedSong.buses, bus) });
+      setShowBusModal(false);
+    } catch (error) {
+      console.error('Error saving bus:', error);
+    }
+  };
+
+  const handleDeleteBus = (bus: TrackBus) => {
+    if (!selectedSong || !isAdminMode) return;
+
+    Alert.alert(
+      'Delete Bus',
+      `Ungroup the tracks of "${bus.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await updateSongInFirebase({
+                buses: (selectedSong.buses || []).filter(b => b.id !== bus.id)
+              });
+              setShowBusModal(false);
+            } catch (error) {
+              console.error('Error deleting bus:', error);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  // Stereo pan and EQ of one track
+  const handleTrackToneChange = async (trackId: string, changes: { pan?: number; eq?: TrackEQ }) => {
     if (!isInitialized || !selectedSong) return;
 
-    const trackIndex = selectedSong.tracks?.findIndex(t => t.id === trackId) ?? -1;
-    if (trackIndex === -1) return;
+    const pan = changes.pan ?? trackPans[trackId] ?? 0;
+    const eq = changes.eq ?? trackEqs[trackId] ?? FLAT_EQ;
+
+    setTrackPans(prev => ({ ...prev, [trackId]: pan }));
+    setTrackEqs(prev => ({ ...prev, [trackId]: eq }));
+    multitrackEngine.setTrackEffects(trackId, { pan, eq });
+
+    // Persist the pan and EQ
+    if (user) {
+      try {
+        const currentTrackState = persistedTrackStates[trackId] || trackStateService.getDefaultTrackState();
+        const updatedTrackState = { ...currentTrackState, pan, eq };
+        await trackStateService.saveTrackState(selectedSong.id, trackId, updatedTrackState);
 
-    const player = players[trackIndex];
-    if (!player) return;
+        // Update local persisted state
+        setPersistedTrackStates(prev => ({
+          ...prev,
+          [trackId]: updatedTrackState
+        }));
+      } catch (error) {
+        console.error('Error saving pan/EQ state:', error);
+      }
+    }
+  };
+
+  const toggleTrack = async (trackId: string) => {
+    if (!isInitialized || !selectedSong) return;
+
+    const trackIndex = mixTracks.findIndex(t => t.id === trackId);
+    if (trackIndex === -1) return;
 
     const isActive = activeTrackIds.includes(trackId);
 
     if (isActive) {
       setActiveTrackIds(prev => prev.filter(id => id !== trackId));
       if (!soloedTrackIds.includes(trackId)) {
-        await player.setVolumeAsync(0);
+        await multitrackEngine.setTrackVolume(trackId, 0);
       }
     } else {
       setActiveTrackIds(prev => [...prev, trackId]);
       if (soloedTrackIds.length === 0 || soloedTrackIds.includes(trackId)) {
-        const volume = trackVolumes[trackId] || 1;
-        await player.setVolumeAsync(volume);
+        const volume = (trackVolumes[trackId] || 1) * getBusGain(selectedSong.buses, busStates, trackId);
+        await multitrackEngine.setTrackVolume(trackId, volume);
       }
     }
 
@@ -2288,18 +2949,13 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
         // If admin, delete the session from Firebase
         const sessionRef = ref(database, `sessions/${sessionId}`);
         await set(sessionRef, null);
+      } else if (sessionSync) {
+        await sessionSync.leave();
       }
       // Reset session-related state
       setSessionId(null);
       setIsAdmin(false);
-      setSyncState({
-        isPlaying: false,
-        seekPosition: 0,
-        activeTracks: [],
-        soloedTracks: [],
-        trackVolumes: {},
-        playbackSpeed: 1.0
-      });
+      setSyncState(DEFAULT_SESSION_STATE);
     } catch (error) {
       console.error('Error leaving session:', error);
     }
@@ -2308,43 +2964,98 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
   // Add function to fetch active sessions
   useEffect(() => {
     if (showSessionsList) {
+      let sessionsList: SessionSummary[] = [];
+      let serverTimeOffset = 0;
+
+      // Sessions whose leader vanished without the server noticing are hidden, not deleted:
+      // only a leader removes its own session. Heartbeats are server timestamps.
+      const showActiveSessions = () => {
+        const serverTime = Date.now() + serverTimeOffset;
+        setActiveSessions(sessionsList.filter(session => !isSessionExpired(session, serverTime)));
+      };
+
       const sessionsRef = ref(database, 'sessions');
-      const unsubscribe = onValue(sessionsRef, (snapshot) => {
-        const sessions = snapshot.val();
-        if (sessions) {
-          const sessionsList = Object.entries(sessions).map(([id, data]: [string, any]) => ({
-            id,
-            admin: data.admin,
-            createdAt: data.createdAt
-          }));
-          setActiveSessions(sessionsList);
-        } else {
-          setActiveSessions([]);
-        }
+      const unsubscribeSessions = onValue(sessionsRef, (snapshot) => {
+        const sessions = snapshot.val() || {};
+        sessionsList = Object.entries(sessions).map(([id, data]) => parseSessionSummary(id, data));
+        showActiveSessions();
+      });
+      const unsubscribeOffset = subscribeServerTimeOffset(offset => {
+        serverTimeOffset = offset;
+        showActiveSessions();
       });
 
-      return () => unsubscribe();
+      return () => {
+        unsubscribeSessions();
+        unsubscribeOffset();
+      };
     }
   }, [showSessionsList]);
 
-  // Playlist player is no longer needed - using main audio system
+  // Show the song the playlist player moved to; its stems are already loaded in the player's engine
+  const showPlayerSong = (song: Song, index: number) => {
+    const autoStart = autoStartPlayerSongRef.current;
+    autoStartPlayerSongRef.current = false;
+    playerLoadedSongRef.current = song.id;
+    setMultitrackEngine(playlistPlayer.getEngine());
+    setCurrentPlaylistIndex(index);
+    setLastAutoStartedSong(autoStart ? null : song.id); // Reset auto-start tracking for new song
+    setIsFinished(false);
+    setIsInitialized(false);
+    handleSongSelect(song);
+  };
+
+  // Songs picked in a playlist start playing; while it plays, the player carries on by itself
+  const startPlayerSongOnChange = () => {
+    autoStartPlayerSongRef.current = !playlistPlayer.getState().isPlaying;
+  };
+
+  // The playlist player loads songs as the song view does and tells it when the song changes.
+  // Registered on every render, so the callbacks see the current state.
+  useEffect(() => {
+    playlistPlayer.setSongLoader(async (engine, song, overrides) => {
+      const { pitchShift: songPitchShift, rate } = await getSongPlayback(song, overrides);
+      await loadSongStems(engine, song, songPitchShift);
+      await engine.setRate(rate ?? playbackSpeed);
+      await applySavedMix(engine, song);
+    });
+    playlistPlayer.setCallbacks({
+      onSongChange: showPlayerSong,
+      onStateChange: (state) => {
+        if (state.currentPlaylist) {
+          setIsPlaying(state.isPlaying);
+        }
+      },
+      onPlaylistEnd: () => {
+        playlistPlayer.closePlaylist();
+        setIsPlaylistMode(false);
+        setCurrentPlaylist(null);
+        setPlaylistSongs([]);
+        setCurrentPlaylistIndex(0);
+        setShowPlaylistControls(true);
+        Alert.alert('Playlist Complete', 'All songs in the playlist have been played');
+      },
+      onError: (message) => {
+        Alert.alert('Error', message);
+      }
+    });
+  });
 
   // Handle playlist playback when playlistToPlay is provided
   useEffect(() => {
     if (playlistToPlay) {
       const startPlaylistPlayback = async () => {
         try {
-          // Load the first song from the playlist using the main audio system
-          const firstSong = playlistToPlay.songs[0];
+          // The player starts at the first song, or a random one when shuffled
+          const { playlist, songs: playlistSongsToPlay } = playlistToPlay;
+          autoStartPlayerSongRef.current = true;
+          await playlistPlayer.loadPlaylist(playlist, playlistSongsToPlay);
+          const firstSong = playlistPlayer.getCurrentSong();
           if (firstSong) {
-            setSelectedSong(firstSong);
-            setCurrentPlaylist(playlistToPlay.playlist);
-            setPlaylistSongs(playlistToPlay.songs);
-            setCurrentPlaylistIndex(0);
+            setCurrentPlaylist(playlist);
+            setPlaylistSongs(playlistSongsToPlay);
             setIsPlaylistMode(true);
-            
-            // Load and play the song using the existing audio system
-            handleSongSelect(firstSong);
+            showPlayerSong(firstSong, playlistPlayer.getState().currentSongIndex);
             onPlaylistPlayed?.(); // Clear the playlist data
           }
         } catch (error) {
@@ -2357,11 +3068,36 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     }
   }, [playlistToPlay, onPlaylistPlayed]);
 
+  // A smart playlist follows the library while it plays: new matches join and
+  // songs that stop matching leave, but the song playing carries on
+  useEffect(() => {
+    if (!isPlaylistMode || !isSmartPlaylist(currentPlaylist)) return;
+    const updated = getSmartPlaylistSongs(currentPlaylist.smart, accessibleSongs, favoriteSongs, songPlays);
+    // Compared by id: the library hands out new song objects on every refresh
+    const unchanged = updated.length === playlistSongs.length &&
+      updated.every((song, index) => song.id === playlistSongs[index]?.id);
+    if (unchanged) return;
+
+    // The playlist player plays the latest matches next
+    playlistPlayer.updateSongs(updated);
+    setPlaylistSongs(updated);
+    setCurrentPlaylistIndex(playlistPlayer.getState().currentSongIndex);
+  }, [isPlaylistMode, currentPlaylist, accessibleSongs, favoriteSongs, songPlays]);
+
   // Auto-start playback when players are initialized in playlist mode (only for new songs)
   const [lastAutoStartedSong, setLastAutoStartedSong] = useState<string | null>(null);
   const [isPlaylistRepeating, setIsPlaylistRepeating] = useState(false);
   const [showPlaylistSongsModal, setShowPlaylistSongsModal] = useState(false);
   
+  // The playlist player repeats the song or starts the playlist over as the repeat button says
+  useEffect(() => {
+    playlistPlayer.setRepeat(repeatMode === 'track' || isRepeat, isPlaylistRepeating);
+  }, [repeatMode, isRepeat, isPlaylistRepeating]);
+
+  useEffect(() => {
+    playlistPlayer.setLiveSession(!!sessionId);
+  }, [sessionId]);
+
   useEffect(() => {
     if (isInitialized && isPlaylistMode && selectedSong && !isPlaying && selectedSong.id !== lastAutoStartedSong) {
       console.log('Auto-starting playlist playback for new song:', { isInitialized, isPlaylistMode, selectedSong: selectedSong.title, isPlaying });
@@ -2384,7 +3120,7 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
 
   // Auto-start playback when returning from back button in filtered songs mode
   useEffect(() => {
-    if (isInitialized && !isPlaylistMode && selectedSong && !isPlaying && shouldAutoStartFiltered && filteredSongs.length > 0 && currentFilteredIndex >= 0) {
+    if (isInitialized && !isPlaylistMode && selectedSong && !isPlaying && shouldAutoStartFiltered) {
       console.log('Auto-starting filtered song playback after back button:', { isInitialized, selectedSong: selectedSong.title, isPlaying });
       setShouldAutoStartFiltered(false);
       
@@ -2401,7 +3137,7 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
       // Small delay to ensure everything is ready
       setTimeout(startPlayback, 200);
     }
-  }, [isInitialized, selectedSong, isPlaying, shouldAutoStartFiltered, filteredSongs.length, currentFilteredIndex, isPlaylistMode]);
+  }, [isInitialized, selectedSong, isPlaying, shouldAutoStartFiltered, isPlaylistMode]);
 
   const deleteSession = async (sessionIdToDelete: string) => {
     try {
@@ -2428,7 +3164,9 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
               <View key={session.id} style={styles.sessionItem}>
                 <View style={styles.sessionInfo}>
                   <Text style={styles.sessionItemId}>ID: {session.id}</Text>
-                  <Text style={styles.sessionItemAdmin}>Admin: {session.admin}</Text>
+                  <Text style={styles.sessionItemAdmin}>
+                    Leader: {session.leaderName || session.admin} · {session.memberCount} {session.memberCount === 1 ? 'member' : 'members'}
+                  </Text>
                   <Text style={styles.sessionDate}>
                     Created: {new Date(session.createdAt).toLocaleString()}
                   </Text>
@@ -2466,160 +3204,882 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     </View>
   );
 
-  // Modify the join button press handler
-  const handleJoinPress = () => {
-    setShowSessionsList(true);
-  };
+  const renderSessionRoster = () => {
+    const serverNow = sessionSync ? sessionSync.getServerTime() : Date.now();
 
-  const renderSongList = () => (
-    <View style={styles.songListContainer}>
-      {/* App Title Header */}
-      <View style={styles.appTitleContainer}>
-        <Text style={styles.appTitle}>Ministério de Louvor</Text>
-      </View>
-      
-      {isSessionMenuExpanded && (
-        <View style={styles.sessionMenuContent}>
-          {sessionId ? (
-            <View style={styles.activeSessionInfo}>
-              <View style={styles.sessionIdContainer}>
-                <Text style={styles.sessionIdLabel}>Session ID:</Text>
-                <TouchableOpacity 
-                  onPress={() => setShowSessionIdDialog(true)}
-                  style={styles.sessionIdButtonMain}
-                >
-                  <Text style={styles.sessionIdText} numberOfLines={1}>
-                    {sessionId.substring(0, 8)}...
+    return (
+      <View style={styles.dialogOverlay}>
+        <View style={styles.dialog}>
+          <Text style={styles.dialogTitle}>Session Members</Text>
+          <ScrollView style={styles.sessionsList}>
+            {sessionMembers.map(member => {
+              const isMemberLeader = member.deviceId === sessionLeaderId;
+              const secondsAgo = Math.max(0, Math.round((serverNow - member.lastSeen) / 1000));
+              return (
+                <View key={member.deviceId} style={styles.sessionItem}>
+                  <View style={styles.rosterMemberHeader}>
+                    <Text style={styles.sessionItemId} numberOfLines={1}>
+                      {member.displayName}{member.deviceId === deviceId ? ' (You)' : ''}
+                    </Text>
+                    {isMemberLeader && <Text style={styles.adminBadge}>Leader</Text>}
+                  </View>
+                  <Text style={styles.sessionItemAdmin}>
+                    {member.deviceName} · {member.latency !== null && member.latency !== undefined ? `${member.latency} ms` : 'measuring…'} · seen {secondsAgo}s ago
                   </Text>
-                </TouchableOpacity>
-                {isAdmin && (
-                  <Text style={styles.adminBadge}>Admin</Text>
-                )}
-              </View>
-              <TouchableOpacity 
-                style={styles.leaveButton}
-                onPress={leaveSession}
-              >
-                <Ionicons name="exit-outline" size={20} color="#FF5252" />
-              </TouchableOpacity>
-            </View>
-          ) : (
-            <View style={styles.sessionMenuButtons}>
-              <TouchableOpacity 
-                style={[styles.sessionMenuButton, styles.adminButton]}
-                onPress={async () => {
-                  try {
-                    await initializeSyncSession();
-                    setShowSessionIdDialog(true);
-                  } catch (error) {
-                    Alert.alert('Error', 'Failed to create session. Please try again.');
-                  }
-                }}
-              >
-                <Ionicons name="people" size={24} color="#FFFFFF" />
-                <Text style={styles.sessionMenuButtonText}>Create Session</Text>
-                <Text style={styles.sessionMenuButtonSubtext}>Become an admin</Text>
-              </TouchableOpacity>
-              <TouchableOpacity 
-                style={[styles.sessionMenuButton, styles.clientButton]}
-                onPress={handleJoinPress}
-              >
-                <Ionicons name="enter" size={24} color="#FFFFFF" />
-                <Text style={styles.sessionMenuButtonText}>Join Session</Text>
-                <Text style={styles.sessionMenuButtonSubtext}>Join as client</Text>
-              </TouchableOpacity>
-            </View>
-          )}
-        </View>
-      )}
-      <View style={styles.searchAndFilterContainer}>
-        <View style={styles.searchContainer}>
-          <Ionicons name="search" size={20} color="#BBBBBB" style={styles.searchIcon} />
-          <TextInput
-            style={styles.searchInput}
-            placeholder={t('home.search')}
-            placeholderTextColor="#666666"
-            value={searchQuery}
-            onChangeText={handleSearchQueryChange}
-          />
-          <View style={styles.searchRightActions}>
-            {searchQuery ? (
-              <TouchableOpacity 
-                style={styles.clearButton}
-                onPress={clearSearch}
-              >
-                <Ionicons name="close-circle" size={20} color="#BBBBBB" />
-              </TouchableOpacity>
-            ) : null}
+                  {!isMemberLeader && (
+                    <Text style={styles.sessionDate}>
+                      {member.followMode === 'transport' ? 'Own mix' : "Leader's mix"}
+                    </Text>
+                  )}
+                  {isAdmin && member.deviceId !== deviceId && (
+                    <View style={styles.sessionActions}>
+                      <TouchableOpacity
+                        style={[styles.dialogButton, styles.dialogButtonPrimary, { flex: 1 }]}
+                        onPress={() => handleHandOffLeadership(member)}
+                      >
+                        <Text style={styles.dialogButtonText}>Make Leader</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
+              );
+            })}
+          </ScrollView>
+          {isAdmin && selectedSong && (
             <TouchableOpacity
-              style={[styles.integratedActionButton, (selectedArtists.size > 0 || selectedAlbums.size > 0 || hasActiveContentFilters()) && styles.integratedActiveButton]}
-              onPress={() => {
-                setShowFilterDialog(true);
-              }}
+              style={[styles.dialogButton, styles.dialogButtonPrimary, { marginBottom: 16 }]}
+              onPress={handleSuggestMix}
             >
-              <Ionicons 
-                name="filter" 
-                size={16} 
-                color={(selectedArtists.size > 0 || selectedAlbums.size > 0 || hasActiveContentFilters()) ? "#FFFFFF" : "#BBBBBB"} 
-              />
+              <Text style={styles.dialogButtonText}>Suggest My Mix for "{selectedSong.title}"</Text>
             </TouchableOpacity>
-            <TouchableOpacity
-              style={[styles.integratedActionButton, sortOrder === 'desc' && styles.integratedActiveButton]}
-              onPress={toggleSortOrder}
+          )}
+          {!isAdmin && (
+            <View style={styles.followModeRow}>
+              {([
+                { mode: 'transport', label: 'My own mix' },
+                { mode: 'transport_and_mix', label: "Leader's mix" }
+              ] as { mode: FollowMode; label: string }[]).map(option => (
+                <TouchableOpacity
+                  key={option.mode}
+                  style={[styles.followModeOption, followMode === option.mode && styles.followModeOptionActive]}
+                  onPress={() => handleFollowModeChange(option.mode)}
+                >
+                  <Text style={styles.followModeOptionText}>{option.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          <View style={[styles.dialogButtonContainer, { justifyContent: 'center' }]}>
+            <TouchableOpacity 
+              style={[styles.dialogButton, styles.dialogButtonSecondary, { minWidth: 200 }]}
+              onPress={() => setShowSessionRoster(false)}
             >
-              <Ionicons 
-                name={sortOrder === 'asc' ? 'arrow-up' : 'arrow-down'} 
-                size={16} 
-                color={sortOrder === 'desc' ? "#FFFFFF" : "#BBBBBB"} 
-              />
+              <Text style={styles.dialogButtonText}>Close</Text>
             </TouchableOpacity>
           </View>
         </View>
       </View>
-      {isAdminMode && (
-        <View style={styles.adminButtonsContainer}>
-          <TouchableOpacity 
-            style={styles.addSongButton}
-            onPress={() => setShowAddSongDialog(true)}
-          >
-            <Ionicons name="add-circle" size={28} color="#BB86FC" />
-            <Text style={styles.addSongButtonText}>Add New Song</Text>
-          </TouchableOpacity>
-          
-          <TouchableOpacity 
-            style={styles.groupManagementButton}
-            onPress={() => setShowGroupManagement(true)}
-          >
-            <Ionicons name="people" size={28} color="#BB86FC" />
-            <Text style={styles.groupManagementButtonText}>Manage Groups</Text>
-          </TouchableOpacity>
-          
-          <TouchableOpacity 
-            style={styles.songAccessButton}
-            onPress={() => setShowSongAccessManagement(true)}
-          >
-            <Ionicons name="shield-checkmark" size={28} color="#BB86FC" />
-            <Text style={styles.songAccessButtonText}>Song Access</Text>
-          </TouchableOpacity>
-        </View>
-      )}
-      <FlatList
-        ref={songsListRef}
-        data={filteredSongs}
-        renderItem={renderSongItem}
-        keyExtractor={item => item.id}
-        style={styles.songList}
-        showsVerticalScrollIndicator={false}
-        getItemLayout={(data, index) => {
-          // Estimate item height: padding (16*2) + margin (8) + content (~50) = ~90
-          // This helps scrollToIndex work more reliably
-          const ITEM_HEIGHT = 90;
-          return {
-            length: ITEM_HEIGHT,
-            offset: ITEM_HEIGHT * index,
-            index,
-          };
-        }}
+    );
+  };
+
+  // Drawing on a waveform fills the A-B loop draft; the loop dialog names and saves it
+  const handleWaveformLoopDraw = (start: number, end: number) => {
+    if (!user || end - start < 0.5) return;
+    setLoopDraft({ ...loopDraft, start, end });
+    setShowLoopRegionsModal(true);
+  };
+
+  const renderWaveformToolbar = () => {
+    if (Object.keys(waveformPeaks).length === 0) return null;
+
+    return (
+      <View style={styles.waveformToolbar}>
+        <Ionicons name="pulse-outline" size={16} color="#BBBBBB" />
+        <Text style={styles.waveformToolbarText}>Waveforms</Text>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => setWaveformZoom(Math.max(1, waveformZoom / 2))}
+          disabled={waveformZoom <= 1}
+        >
+          <Ionicons name="remove-circle-outline" size={20} color={waveformZoom <= 1 ? '#555555' : '#BB86FC'} />
+        </TouchableOpacity>
+        <Text style={styles.waveformToolbarText}>{waveformZoom}x</Text>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => setWaveformZoom(Math.min(32, waveformZoom * 2))}
+          disabled={waveformZoom >= 32}
+        >
+          <Ionicons name="add-circle-outline" size={20} color={waveformZoom >= 32 ? '#555555' : '#BB86FC'} />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderTrackWaveform = (track: Track) => {
+    const peaks = waveformPeaks[track.id];
+    if (!peaks || !selectedSong?.tracks?.length) return null;
+
+    const duration = multitrackEngine.getDuration() || peaks.duration;
+    const window = getWaveformWindow(duration, seekPosition, waveformZoom);
+    const activeRegion = loopRegions.find(region => region.id === activeLoopRegionId);
+    const loop = activeRegion
+      ? { start: activeRegion.start, end: activeRegion.end }
+      : loopDraft.start !== null && loopDraft.end !== null
+        ? { start: loopDraft.start, end: loopDraft.end }
+        : null;
+
+    return (
+      <WaveformLane
+        peaks={peaks}
+        start={window.start}
+        end={window.end}
+        position={seekPosition}
+        loop={loop}
+        onSeek={handleSeekToTime}
+        onLoopDraw={user ? handleWaveformLoopDraw : undefined}
+      />
+    );
+  };
+
+  // Level meters read the stored peaks at the playhead, so they work on every platform and offline
+  const renderTrackMeter = (track: Track) => {
+    const peaks = waveformPeaks[track.id];
+    if (!peaks) return null;
+
+    const level = isPlaying ? getPeakAt(peaks, seekPosition) * multitrackEngine.getTrackOutputGain(track.id) : 0;
+    const levelDb = gainToDb(level);
+    const fill = isFinite(levelDb) ? Math.max(0, Math.min(1, 1 + levelDb / METER_RANGE_DB)) : 0;
+    const color = levelDb >= -3 ? '#CF6679' : levelDb >= -12 ? '#FFD54F' : '#03DAC6';
+
+    return (
+      <View style={styles.trackMeter}>
+        <View style={[styles.trackMeterFill, { width: `${fill * 100}%`, backgroundColor: color }]} />
+      </View>
+    );
+  };
+
+  const renderTrackName = (track: Track) => (
+    <Text style={styles.trackName}>
+      {track.name}
+      {track.voicePart && (
+        <Text style={styles.trackPartLabel}>  {VOICE_PART_LABELS[track.voicePart]}</Text>
+      )}
+    </Text>
+  );
+
+  // Role, voice part, instrument and default gain are stored on the song's track
+  const openTrackMetadata = (track: Track) => {
+    setTrackMetadataDraft(track.role || track.voicePart ? { ...track } : { ...track, ...guessTrackMetadata(track.name) });
+  };
+
+  const handleSaveTrackMetadata = async () => {
+    if (!selectedSong?.tracks || !trackMetadataDraft || !isAdminMode) return;
+
+    const draft = trackMetadataDraft;
+    const updatedTrack: Track = {
+      ...draft,
+      voicePart: draft.role === 'vocal' || draft.role === 'guide' ? draft.voicePart : undefined,
+      instrument: draft.instrument?.trim() || undefined
+    };
+
+    try {
+      await updateSongInFirebase({
+        tracks: selectedSong.tracks.map(track => track.id === updatedTrack.id ? updatedTrack : track)
+      });
+      setTrackMetadataDraft(null);
+    } catch (error) {
+      console.error('Error saving track metadata:', error);
+    }
+  };
+
+  const renderTrackMetadataModal = () => {
+    const draft = trackMetadataDraft;
+    const hasVoicePart = draft?.role === 'vocal' || draft?.role === 'guide';
+
+    return (
+      <Modal
+        visible={!!draft}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setTrackMetadataDraft(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Track Details</Text>
+              <TouchableOpacity
+                style={styles.modalCloseButton}
+                onPress={() => setTrackMetadataDraft(null)}
+              >
+                <Ionicons name="close" size={24} color="#FFFFFF" />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.modalSubtitle}>{draft?.name}</Text>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Role</Text>
+              <View style={styles.mixPresetGroupRow}>
+                {TRACK_ROLES.map((role: TrackRole) => (
+                  <TouchableOpacity
+                    key={`track-role-${role}`}
+                    style={[styles.mixPresetChip, draft?.role === role && styles.mixPresetChipActive]}
+                    onPress={() => draft && setTrackMetadataDraft({ ...draft, role: draft.role === role ? undefined : role })}
+                  >
+                    <Text style={styles.mixPresetChipText}>{TRACK_ROLE_LABELS[role]}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            {hasVoicePart && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Voice Part</Text>
+                <View style={styles.mixPresetGroupRow}>
+                  {VOICE_PARTS.map(part => (
+                    <TouchableOpacity
+                      key={`track-part-${part}`}
+                      style={[styles.mixPresetChip, draft?.voicePart === part && styles.mixPresetChipActive]}
+                      onPress={() => draft && setTrackMetadataDraft({ ...draft, voicePart: draft.voicePart === part ? undefined : part })}
+                    >
+                      <Text style={styles.mixPresetChipText}>{VOICE_PART_LABELS[part]}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Instrument</Text>
+              <TextInput
+                style={styles.textInput}
+                value={draft?.instrument || ''}
+                onChangeText={(text) => draft && setTrackMetadataDraft({ ...draft, instrument: text })}
+                placeholder="e.g. Piano, Bass guitar"
+                placeholderTextColor="#666666"
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Default Gain ({Math.round((draft?.defaultGain ?? 1) * 100)}%)</Text>
+              <PlatformSlider
+                style={styles.volumeSlider}
+                minimumValue={0}
+                maximumValue={1}
+                value={draft?.defaultGain ?? 1}
+                onValueChange={(value) => draft && setTrackMetadataDraft({ ...draft, defaultGain: Math.round(value * 100) / 100 })}
+                minimumTrackTintColor="#BB86FC"
+                maximumTrackTintColor="#2C2C2C"
+              />
+            </View>
+
+            <Text style={styles.modalSubtitle}>
+              {draft?.loudness
+                ? `Loudness ${draft.loudness.integratedLufs} LUFS, true peak ${draft.loudness.truePeakDb} dBTP, normalized by ${draft.loudness.gainDb > 0 ? '+' : ''}${draft.loudness.gainDb} dB`
+                : 'Loudness not measured yet; run scripts/normalizeLoudness.js to normalize this track'}
+            </Text>
+
+            <TouchableOpacity style={styles.createButton} onPress={handleSaveTrackMetadata}>
+              <Text style={styles.createButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    );
+  };
+
+  // Bus faders above the track list; collapsing a bus hides its tracks
+  const renderBusStrip = () => {
+    const buses = selectedSong?.buses || [];
+    if (buses.length === 0 && !isAdminMode) return null;
+
+    return (
+      <View style={styles.busStrip}>
+        {buses.map(bus => {
+          const state = getBusState(bus, busStates);
+          const memberCount = getBusTracks(bus, selectedSong?.tracks).length;
+          const isCollapsed = collapsedBusIds.includes(bus.id);
+          return (
+            <View key={`bus-${bus.id}`} style={styles.busRow}>
+              <View style={styles.busHeader}>
+                <TouchableOpacity
+                  style={styles.busName}
+                  onPress={() => toggleBusCollapsed(bus.id)}
+                  onLongPress={() => isAdminMode && openBusModal(bus)}
+                >
+                  <Ionicons name={isCollapsed ? 'chevron-forward' : 'chevron-down'} size={16} color="#BBBBBB" />
+                  <Text style={styles.busNameText} numberOfLines={1}>{bus.name}</Text>
+                  <Text style={styles.busCountText}>{memberCount} {memberCount === 1 ? 'track' : 'tracks'}</Text>
+                </TouchableOpacity>
+                <View style={styles.trackControls}>
+                  <TouchableOpacity
+                    style={[styles.trackToggleButton, state.solo && styles.soloActiveButton]}
+                    onPress={() => handleBusStateChange(bus, { solo: !state.solo })}
+                  >
+                    <Text style={[styles.trackButtonText, state.solo && styles.soloActiveText]}>S</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.trackToggleButton, state.mute && styles.muteActiveButton]}
+                    onPress={() => handleBusStateChange(bus, { mute: !state.mute })}
+                  >
+                    <Text style={[styles.trackButtonText, state.mute && styles.muteActiveText]}>M</Text>
+                  </TouchableOpacity>
+                  {isAdminMode && (
+                    <TouchableOpacity style={styles.iconButton} onPress={() => openBusModal(bus)}>
+                      <Ionicons name="create-outline" size={20} color="#BB86FC" />
+                    </TouchableOpacity>
+                  )}
+                </View>
+              </View>
+              <View style={styles.volumeContainer}>
+                <Ionicons name="git-merge-outline" size={20} color="#BBBBBB" />
+                <PlatformSlider
+                  style={styles.volumeSlider}
+                  minimumValue={0}
+                  maximumValue={1}
+                  value={state.volume}
+                  onValueChange={(value) => handleBusStateChange(bus, { volume: value })}
+                  minimumTrackTintColor="#03DAC6"
+                  maximumTrackTintColor="#2C2C2C"
+                />
+              </View>
+            </View>
+          );
+        })}
+        {isAdminMode && (
+          <TouchableOpacity style={styles.addButton} onPress={() => openBusModal()}>
+            <Ionicons name="git-merge-outline" size={24} color="#BB86FC" />
+            <Text style={styles.addButtonText}>Add Bus</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderBusModal = () => {
+    const existingBus = selectedSong?.buses?.find(bus => bus.id === busDraft.id);
+
+    return (
+      <Modal
+        visible={showBusModal}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setShowBusModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{existingBus ? 'Edit Bus' : 'Add Bus'}</Text>
+              <TouchableOpacity
+                style={styles.modalCloseButton}
+                onPress={() => setShowBusModal(false)}
+              >
+                <Ionicons name="close" size={24} color="#FFFFFF" />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.modalSubtitle}>
+              Group tracks of "{selectedSong?.title}" under one fader
+            </Text>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Name</Text>
+              <TextInput
+                style={styles.textInput}
+                value={busDraft.name}
+                onChangeText={(text) => setBusDraft({ ...busDraft, name: text })}
+                placeholder="Bus name (e.g. Vocals, Rhythm, Keys)"
+                placeholderTextColor="#666666"
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Tracks</Text>
+              <View style={styles.mixPresetGroupRow}>
+                {(selectedSong?.tracks || []).map(track => {
+                  const isSelected = busDraft.trackIds.includes(track.id);
+                  const otherBus = getTrackBus(selectedSong?.buses, track.id);
+                  return (
+                    <TouchableOpacity
+                      key={`bus-track-${track.id}`}
+                      style={[styles.mixPresetChip, isSelected && styles.mixPresetChipActive]}
+                      onPress={() => setBusDraft({
+                        ...busDraft,
+                        trackIds: isSelected
+                          ? busDraft.trackIds.filter(id => id !== track.id)
+                          : [...busDraft.trackIds, track.id]
+                      })}
+                    >
+                      <Text style={styles.mixPresetChipText} numberOfLines={1}>
+                        {track.name}{otherBus && otherBus.id !== busDraft.id && !isSelected ? ` (${otherBus.name})` : ''}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
+            <TouchableOpacity
+              style={[styles.createButton, !busDraft.name.trim() && styles.createButtonDisabled]}
+              onPress={handleSaveBus}
+              disabled={!busDraft.name.trim()}
+            >
+              <Text style={styles.createButtonText}>Save Bus</Text>
+            </TouchableOpacity>
+
+            {existingBus && (
+              <TouchableOpacity style={styles.busDeleteButton} onPress={() => handleDeleteBus(existingBus)}>
+                <Ionicons name="trash-outline" size={18} color="#FF5252" />
+                <Text style={styles.busDeleteText}>Delete Bus</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </Modal>
+    );
+  };
+
+  const isToneNeutral = (trackId: string) => {
+    const eq = trackEqs[trackId] || FLAT_EQ;
+    return !trackPans[trackId] && !eq.low && !eq.mid && !eq.high;
+  };
+
+  const renderToneButton = (trackId: string) => {
+    // Pan and EQ are only heard in the web player; elsewhere the controls would do nothing
+    if (!multitrackEngine.supportsTrackEffects()) return null;
+
+    return (
+      <TouchableOpacity
+        style={[styles.trackToggleButton, !isToneNeutral(trackId) && styles.toneActiveButton]}
+        onPress={() => setToneTrackId(trackId)}
+      >
+        <Ionicons name="options-outline" size={16} color={isToneNeutral(trackId) ? '#BB86FC' : '#FFFFFF'} />
+      </TouchableOpacity>
+    );
+  };
+
+  const formatPan = (pan: number) => {
+    if (Math.abs(pan) < 0.01) return 'C';
+    return `${pan < 0 ? 'L' : 'R'}${Math.round(Math.abs(pan) * 100)}`;
+  };
+
+  const formatGain = (gain: number) => `${gain > 0 ? '+' : ''}${gain.toFixed(1)} dB`;
+
+  // Pan and 3-band EQ for one track
+  const renderTrackToneModal = () => {
+    const track = selectedSong?.tracks?.find(t => t.id === toneTrackId);
+    const pan = toneTrackId ? trackPans[toneTrackId] || 0 : 0;
+    const eq = toneTrackId ? trackEqs[toneTrackId] || FLAT_EQ : FLAT_EQ;
+    const bands: { key: keyof TrackEQ; label: string }[] = [
+      { key: 'low', label: 'Low' },
+      { key: 'mid', label: 'Mid' },
+      { key: 'high', label: 'High' }
+    ];
+
+    return (
+      <Modal
+        visible={!!track}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setToneTrackId(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Pan & EQ</Text>
+              <TouchableOpacity
+                style={styles.modalCloseButton}
+                onPress={() => setToneTrackId(null)}
+              >
+                <Ionicons name="close" size={24} color="#FFFFFF" />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.modalSubtitle}>{track?.name}</Text>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Pan ({formatPan(pan)})</Text>
+              <View style={styles.toneSliderRow}>
+                <Text style={styles.toneSliderLabel}>L</Text>
+                <PlatformSlider
+                  style={styles.volumeSlider}
+                  minimumValue={-1}
+                  maximumValue={1}
+                  value={pan}
+                  onValueChange={(value) => toneTrackId && handleTrackToneChange(toneTrackId, { pan: Math.round(value * 20) / 20 })}
+                  minimumTrackTintColor="#BB86FC"
+                  maximumTrackTintColor="#2C2C2C"
+                />
+                <Text style={styles.toneSliderLabel}>R</Text>
+              </View>
+            </View>
+
+            {bands.map(band => (
+              <View key={`eq-${band.key}`} style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>{band.label} ({formatGain(eq[band.key])})</Text>
+                <PlatformSlider
+                  style={styles.volumeSlider}
+                  minimumValue={-EQ_RANGE_DB}
+                  maximumValue={EQ_RANGE_DB}
+                  value={eq[band.key]}
+                  onValueChange={(value) => toneTrackId && handleTrackToneChange(toneTrackId, { eq: { ...eq, [band.key]: Math.round(value * 2) / 2 } })}
+                  minimumTrackTintColor="#BB86FC"
+                  maximumTrackTintColor="#2C2C2C"
+                />
+              </View>
+            ))}
+
+            <TouchableOpacity
+              style={[styles.createButton, toneTrackId && isToneNeutral(toneTrackId) && styles.createButtonDisabled]}
+              onPress={() => toneTrackId && handleTrackToneChange(toneTrackId, { pan: 0, eq: FLAT_EQ })}
+              disabled={!toneTrackId || isToneNeutral(toneTrackId)}
+            >
+              <Text style={styles.createButtonText}>Reset</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    );
+  };
+
+  // One-tap switching between the song's mix presets
+  const renderMixPresetBar = () => {
+    if (!user || !selectedSong?.tracks?.length) return null;
+
+    const activePreset = mixPresetService.findMatchingPreset(mixPresets, persistedTrackStates);
+
+    return (
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.mixPresetBar}
+        contentContainerStyle={styles.mixPresetBarContent}
+      >
+        {mixPresets.map(preset => (
+          <TouchableOpacity
+            key={`mix-preset-${preset.groupId || 'own'}-${preset.id}`}
+            style={[styles.mixPresetChip, activePreset === preset && styles.mixPresetChipActive]}
+            onPress={() => handleApplyMixPreset(preset)}
+            onLongPress={() => setShowMixPresetsModal(true)}
+          >
+            {preset.groupId && <Ionicons name="people" size={12} color="#FFFFFF" />}
+            <Text style={styles.mixPresetChipText} numberOfLines={1}>{preset.name}</Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity style={styles.mixPresetChip} onPress={() => setShowMixPresetsModal(true)}>
+          <Ionicons name={mixPresets.length ? 'options-outline' : 'add'} size={14} color="#BB86FC" />
+          <Text style={styles.mixPresetChipText}>{mixPresets.length ? 'Mixes' : 'Save Mix'}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    );
+  };
+
+  const renderMixPresetsModal = () => {
+    const groupNames: { [groupId: string]: string } = {};
+    userGroupDetails.forEach(group => {
+      groupNames[group.id] = group.name;
+    });
+
+    return (
+      <Modal
+        visible={showMixPresetsModal}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setShowMixPresetsModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Mix Presets</Text>
+              <TouchableOpacity
+                style={styles.modalCloseButton}
+                onPress={() => setShowMixPresetsModal(false)}
+              >
+                <Ionicons name="close" size={24} color="#FFFFFF" />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.modalSubtitle}>
+              Named mixes for "{selectedSong?.title}"
+            </Text>
+
+            <FlatList
+              data={mixPresets}
+              keyExtractor={(item) => `mix-${item.groupId || 'own'}-${item.id}`}
+              style={{ maxHeight: 240 }}
+              renderItem={({ item }) => (
+                <TouchableOpacity
+                  style={styles.playlistItem}
+                  onPress={() => handleApplyMixPreset(item)}
+                >
+                  <View style={styles.playlistItemContent}>
+                    <Ionicons name={item.groupId ? 'people-outline' : 'options-outline'} size={20} color="#BB86FC" />
+                    <View style={styles.playlistItemText}>
+                      <Text style={styles.playlistItemName}>{item.name}</Text>
+                      <Text style={styles.playlistItemInfo}>
+                        {item.groupId ? `Shared with ${groupNames[item.groupId] || 'group'}` : 'Personal'}
+                      </Text>
+                    </View>
+                  </View>
+                  {!item.groupId && (
+                    <TouchableOpacity style={styles.iconButton} onPress={() => handleShareMixPreset(item)}>
+                      <Ionicons name="people-outline" size={20} color="#BBBBBB" />
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity style={styles.iconButton} onPress={() => handleExportMixPreset(item)}>
+                    <Ionicons name="share-outline" size={20} color="#BBBBBB" />
+                  </TouchableOpacity>
+                  {(!item.groupId || item.createdBy === user?.id) && (
+                    <TouchableOpacity style={styles.iconButton} onPress={() => handleDeleteMixPreset(item)}>
+                      <Ionicons name="trash-outline" size={20} color="#FF5252" />
+                    </TouchableOpacity>
+                  )}
+                </TouchableOpacity>
+              )}
+              ListEmptyComponent={
+                <View style={styles.emptyPlaylists}>
+                  <Ionicons name="options-outline" size={48} color="#BBBBBB" />
+                  <Text style={styles.emptyPlaylistsText}>No mix presets yet</Text>
+                </View>
+              }
+            />
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Save Current Mix</Text>
+              <TextInput
+                style={styles.textInput}
+                value={mixPresetName}
+                onChangeText={setMixPresetName}
+                placeholder="Preset name (e.g. Soprano practice)"
+                placeholderTextColor="#666666"
+              />
+              {userGroupDetails.length > 0 && (
+                <View style={styles.mixPresetGroupRow}>
+                  {userGroupDetails.map(group => (
+                    <TouchableOpacity
+                      key={`mix-share-${group.id}`}
+                      style={[styles.mixPresetChip, mixPresetShareGroupId === group.id && styles.mixPresetChipActive]}
+                      onPress={() => setMixPresetShareGroupId(mixPresetShareGroupId === group.id ? null : group.id)}
+                    >
+                      <Ionicons name="people" size={12} color="#FFFFFF" />
+                      <Text style={styles.mixPresetChipText}>{group.name}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+            </View>
+
+            <TouchableOpacity
+              style={[styles.createButton, !mixPresetName.trim() && styles.createButtonDisabled]}
+              onPress={handleSaveMixPreset}
+              disabled={!mixPresetName.trim()}
+            >
+              <Text style={styles.createButtonText}>
+                {mixPresetShareGroupId ? 'Save & Share' : 'Save Mix'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    );
+  };
+
+  // Offer for session members on their own mix to take over the leader's suggestion
+  const renderSuggestedMixBanner = () => {
+    if (
+      !sessionId || isAdmin || followMode !== 'transport' || !suggestedMix ||
+      suggestedMix.id === handledSuggestedMixId || suggestedMix.songId !== selectedSong?.id
+    ) {
+      return null;
+    }
+
+    return (
+      <View style={styles.suggestedMixBanner}>
+        <Ionicons name="options-outline" size={18} color="#BB86FC" />
+        <Text style={styles.suggestedMixText} numberOfLines={2}>
+          {suggestedMix.suggestedBy} suggested a mix for this song
+        </Text>
+        <TouchableOpacity style={styles.suggestedMixButton} onPress={handleAcceptSuggestedMix}>
+          <Text style={styles.suggestedMixButtonText}>Accept</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => setHandledSuggestedMixId(suggestedMix.id)}>
+          <Ionicons name="close" size={20} color="#BBBBBB" />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  // Modify the join button press handler
+  const handleJoinPress = () => {
+    setShowSessionsList(true);
+  };
+
+  const renderSongList = () => (
+    <View style={styles.songListContainer}>
+      {/* App Title Header */}
+      <View style={styles.appTitleContainer}>
+        <Text style={styles.appTitle}>Ministério de Louvor</Text>
+      </View>
+      
+      {isSessionMenuExpanded && (
+        <View style={styles.sessionMenuContent}>
+          {sessionId ? (
+            <View style={styles.activeSessionInfo}>
+              <View style={styles.sessionIdContainer}>
+                <Text style={styles.sessionIdLabel}>Session ID:</Text>
+                <TouchableOpacity 
+                  onPress={() => setShowSessionIdDialog(true)}
+                  style={styles.sessionIdButtonMain}
+                >
+                  <Text style={styles.sessionIdText} numberOfLines={1}>
+                    {sessionId.substring(0, 8)}...
+                  </Text>
+                </TouchableOpacity>
+                {isAdmin && (
+                  <Text style={styles.adminBadge}>Admin</Text>
+                )}
+              </View>
+              <TouchableOpacity 
+                style={styles.rosterButton}
+                onPress={() => setShowSessionRoster(true)}
+              >
+                <Ionicons name="people-outline" size={20} color="#BB86FC" />
+                <Text style={styles.rosterButtonText}>{sessionMembers.length}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity 
+                style={styles.leaveButton}
+                onPress={leaveSession}
+              >
+                <Ionicons name="exit-outline" size={20} color="#FF5252" />
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View style={styles.sessionMenuButtons}>
+              <TouchableOpacity 
+                style={[styles.sessionMenuButton, styles.adminButton]}
+                onPress={async () => {
+                  try {
+                    await initializeSyncSession();
+                    setShowSessionIdDialog(true);
+                  } catch (error) {
+                    Alert.alert('Error', 'Failed to create session. Please try again.');
+                  }
+                }}
+              >
+                <Ionicons name="people" size={24} color="#FFFFFF" />
+                <Text style={styles.sessionMenuButtonText}>Create Session</Text>
+                <Text style={styles.sessionMenuButtonSubtext}>Become an admin</Text>
+              </TouchableOpacity>
+              <TouchableOpacity 
+                style={[styles.sessionMenuButton, styles.clientButton]}
+                onPress={handleJoinPress}
+              >
+                <Ionicons name="enter" size={24} color="#FFFFFF" />
+                <Text style={styles.sessionMenuButtonText}>Join Session</Text>
+                <Text style={styles.sessionMenuButtonSubtext}>Join as client</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      )}
+      <View style={styles.searchAndFilterContainer}>
+        <View style={styles.searchContainer}>
+          <Ionicons name="search" size={20} color="#BBBBBB" style={styles.searchIcon} />
+          <TextInput
+            style={styles.searchInput}
+            placeholder={t('home.search')}
+            placeholderTextColor="#666666"
+            value={searchQuery}
+            onChangeText={handleSearchQueryChange}
+          />
+          <View style={styles.searchRightActions}>
+            {searchQuery ? (
+              <TouchableOpacity 
+                style={styles.clearButton}
+                onPress={clearSearch}
+              >
+                <Ionicons name="close-circle" size={20} color="#BBBBBB" />
+              </TouchableOpacity>
+            ) : null}
+            <TouchableOpacity
+              style={[styles.integratedActionButton, (selectedArtists.size > 0 || selectedAlbums.size > 0 || hasActiveContentFilters()) && styles.integratedActiveButton]}
+              onPress={() => {
+                setShowFilterDialog(true);
+              }}
+            >
+              <Ionicons 
+                name="filter" 
+                size={16} 
+                color={(selectedArtists.size > 0 || selectedAlbums.size > 0 || hasActiveContentFilters()) ? "#FFFFFF" : "#BBBBBB"} 
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.integratedActionButton, sortOrder === 'desc' && styles.integratedActiveButton]}
+              onPress={toggleSortOrder}
+            >
+              <Ionicons 
+                name={sortOrder === 'asc' ? 'arrow-up' : 'arrow-down'} 
+                size={16} 
+                color={sortOrder === 'desc' ? "#FFFFFF" : "#BBBBBB"} 
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.integratedActionButton, !!playQueue?.upNext.length && styles.integratedActiveButton]}
+              onPress={() => setShowQueueModal(true)}
+            >
+              <Ionicons 
+                name="list" 
+                size={16} 
+                color={playQueue?.upNext.length ? "#FFFFFF" : "#BBBBBB"} 
+              />
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+      {isAdminMode && (
+        <View style={styles.adminButtonsContainer}>
+          <TouchableOpacity 
+            style={styles.addSongButton}
+            onPress={() => setShowAddSongDialog(true)}
+          >
+            <Ionicons name="add-circle" size={28} color="#BB86FC" />
+            <Text style={styles.addSongButtonText}>Add New Song</Text>
+          </TouchableOpacity>
+          
+          <TouchableOpacity 
+            style={styles.groupManagementButton}
+            onPress={() => setShowGroupManagement(true)}
+          >
+            <Ionicons name="people" size={28} color="#BB86FC" />
+            <Text style={styles.groupManagementButtonText}>Manage Groups</Text>
+          </TouchableOpacity>
+          
+          <TouchableOpacity 
+            style={styles.songAccessButton}
+            onPress={() => setShowSongAccessManagement(true)}
+          >
+            <Ionicons name="shield-checkmark" size={28} color="#BB86FC" />
+            <Text style={styles.songAccessButtonText}>Song Access</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      <FlatList
+        ref={songsListRef}
+        data={filteredSongs}
+        renderItem={renderSongItem}
+        keyExtractor={item => item.id}
+        style={styles.songList}
+        showsVerticalScrollIndicator={false}
+        getItemLayout={(data, index) => {
+          // Estimate item height: padding (16*2) + margin (8) + content (~50) = ~90
+          // This helps scrollToIndex work more reliably
+          const ITEM_HEIGHT = 90;
+          return {
+            length: ITEM_HEIGHT,
+            offset: ITEM_HEIGHT * index,
+            index,
+          };
+        }}
         onScrollToIndexFailed={(info) => {
           // Fallback if scrollToIndex fails
           console.log('scrollToIndex failed, info:', info);
@@ -2922,6 +4382,27 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
                     ]}>Extras</Text>
                   </View>
                 </TouchableOpacity>
+                
+                {VOICE_PARTS.map(part => (
+                  <TouchableOpacity
+                    key={`voice-part-filter-${part}`}
+                    style={styles.artistFilterOption}
+                    onPress={() => toggleVoicePartFilter(part)}
+                  >
+                    <View style={styles.artistFilterOptionContent}>
+                      <Ionicons 
+                        name={selectedVoiceParts.has(part) ? "checkbox" : "square-outline"} 
+                        size={24} 
+                        color={selectedVoiceParts.has(part) ? "#BB86FC" : "#BBBBBB"} 
+                      />
+                      <Ionicons name="mic-outline" size={20} color="#BB86FC" style={styles.filterIcon} />
+                      <Text style={[
+                        styles.artistFilterOptionText,
+                        selectedVoiceParts.has(part) && styles.artistFilterOptionTextSelected
+                      ]}>{VOICE_PART_LABELS[part]}</Text>
+                    </View>
+                  </TouchableOpacity>
+                ))}
                     {hasActiveContentFilters() && (
                       <TouchableOpacity 
                         style={styles.clearSectionButton}
@@ -2941,6 +4422,17 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
               >
                 <Text style={styles.dialogButtonText}>Clear All</Text>
               </TouchableOpacity>
+              {user && (
+                <TouchableOpacity 
+                  style={[styles.dialogButton, styles.dialogButtonSecondary]}
+                  onPress={() => {
+                    setShowFilterDialog(false);
+                    setShowSmartPlaylistModal(true);
+                  }}
+                >
+                  <Text style={styles.dialogButtonText}>Save as Smart Playlist</Text>
+                </TouchableOpacity>
+              )}
               <TouchableOpacity 
                 style={[styles.dialogButton, styles.dialogButtonSecondary]}
                 onPress={() => setShowFilterDialog(false)}
@@ -2961,11 +4453,13 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
       title: song.title,
       artist: song.artist,
       album: song.album,
+      tags: (song.tags || []).join(', '),
       tracks: (song.tracks || []).map(track => ({
         ...track,
         file: null
       })),
       lyrics: song.lyrics,
+      syncedLyrics: song.syncedLyrics,
       scores: song.scores || [],
       resources: song.resources || []
     });
@@ -3152,11 +4646,14 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     if (!selectedSong) return;
     try {
       const updatedSong = { ...selectedSong, ...updates };
-      // Remove undefined values before saving to Firebase
-      const cleanedSong = removeUndefinedValues(updatedSong);
+      // Only the changed fields are written, so fields saved elsewhere meanwhile are kept;
+      // a field set to undefined is removed (Firebase doesn't accept undefined)
+      const changes = Object.fromEntries(
+        Object.entries(updates).map(([key, value]) => [key, value === undefined ? null : removeUndefinedValues(value)])
+      );
       setSelectedSong(updatedSong);
       const songRef = ref(database, `songs/${selectedSong.id}`);
-      await set(songRef, cleanedSong);
+      await update(songRef, changes);
     } catch (error) {
       console.error('Error updating song:', error);
       Alert.alert('Error', 'Failed to save changes');
@@ -3200,7 +4697,11 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
                 }
               }
               const updatedTracks = selectedSong.tracks!.filter(t => t.id !== trackId);
-              await updateSongInFirebase({ tracks: updatedTracks });
+              const updatedBuses = selectedSong.buses?.map(bus => ({
+                ...bus,
+                trackIds: (bus.trackIds || []).filter(id => id !== trackId)
+              }));
+              await updateSongInFirebase({ tracks: updatedTracks, buses: updatedBuses });
             } catch (error) {
               Alert.alert('Error', 'Failed to delete track');
             }
@@ -3220,12 +4721,13 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
         const trackName = result.name.replace(/\.[^/.]+$/, '');
         const path = `audio/${folderName}/${selectedSong.title} - ${trackName}.mp3`;
         
-        await AudioStorageService.getInstance().uploadAudioFile(result, path);
+        const uploaded = await AudioStorageService.getInstance().uploadTrackAudio(result, path);
         
+        // Role and voice part are only suggested from the name when the track's metadata is edited
         const newTrack: Track = {
           id: generateId(),
           name: trackName,
-          path
+          ...uploaded
         };
         const updatedTracks = [...(selectedSong.tracks || []), newTrack];
         await updateSongInFirebase({ tracks: updatedTracks });
@@ -3542,19 +5044,15 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
             throw new Error(`Please enter a name for track ${index + 1}`);
           }
 
-          let path = track.path;
-          
-          // If there's a new file, upload it
-          if (track.file) {
-            path = `audio/${folderName}/${editingSong.title} - ${track.name}.mp3`;
-            await AudioStorageService.getInstance().uploadAudioFile(track.file, path);
+          // Keep metadata of existing tracks; a new file replaces the renders made from the old one
+          const { file, ...storedTrack } = track;
+          if (file) {
+            const path = `audio/${folderName}/${editingSong.title} - ${track.name}.mp3`;
+            const uploaded = await AudioStorageService.getInstance().uploadTrackAudio(file, path);
+            return { ...storedTrack, pitchVariants: undefined, peaksPath: undefined, loudness: undefined, ...uploaded };
           }
           
-          return {
-            id: track.id,
-            name: track.name,
-            path
-          };
+          return storedTrack;
         })
       );
 
@@ -3566,23 +5064,23 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
         return cleaned;
       });
 
-      // Create song data object with explicit values
+      // Only the fields this dialog edits are written, so tempo, chord chart,
+      // markers and anything added later stay as stored. Null clears a field.
       const songData = {
         title: editingSong.title,
         artist: editingSong.artist,
-        album: editingSong.album || undefined,
-        tracks: updatedTracks,
+        album: editingSong.album || null,
+        tags: editingSong.tags ? parseTags(editingSong.tags) : null,
+        tracks: removeUndefinedValues(updatedTracks),
         lyrics: editingSong.lyrics || '',
+        syncedLyrics: removeUndefinedValues(editingSong.syncedLyrics) || null,
         scores: cleanedScores,
-        resources: editingSong.resources || []
+        resources: removeUndefinedValues(editingSong.resources || [])
       };
 
-      // Remove undefined values before saving to Firebase
-      const cleanedSongData = removeUndefinedValues(songData);
-
       // Update song in Firebase
       const songRef = ref(database, `songs/${editingSong.id}`);
-      await set(songRef, cleanedSongData);
+      await update(songRef, songData);
 
       // Reset and close dialog
       setEditingSong(null);
@@ -3633,6 +5131,13 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
               value={editingSong.album || ''}
               onChangeText={(text) => setEditingSong(prev => prev ? { ...prev, album: text } : null)}
             />
+            <TextInput
+              style={styles.dialogInput}
+              placeholder="Tags, comma-separated (optional)"
+              placeholderTextColor="#666666"
+              value={editingSong.tags || ''}
+              onChangeText={(text) => setEditingSong(prev => prev ? { ...prev, tags: text } : null)}
+            />
             
             <View style={styles.tracksHeader}>
               <Text style={styles.tracksTitle}>Pistas</Text>
@@ -4605,12 +6110,12 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
             
             // Upload file to Firebase Storage
             const filePath = `audio/${folderName}/${newSong.title} - ${track.name}.mp3`;
-            await AudioStorageService.getInstance().uploadAudioFile(track.file!, filePath);
+            const uploaded = await AudioStorageService.getInstance().uploadTrackAudio(track.file!, filePath);
             
             return {
               id: `${newId}-${index + 1}`,
               name: track.name,
-              path: filePath
+              ...uploaded
             };
           })
       );
@@ -4629,8 +6134,10 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
         title: newSong.title,
         artist: newSong.artist,
         album: newSong.album || undefined,
+        tags: newSong.tags ? parseTags(newSong.tags) : undefined,
         tracks,
         lyrics: newSong.lyrics,
+        syncedLyrics: newSong.syncedLyrics,
         scores: cleanedScores as Score[],
         resources: newSong.resources,
         createdBy: user?.id,
@@ -4643,8 +6150,10 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
         title: songToAdd.title,
         artist: songToAdd.artist,
         album: songToAdd.album,
+        tags: songToAdd.tags,
         tracks: songToAdd.tracks,
         lyrics: songToAdd.lyrics,
+        syncedLyrics: songToAdd.syncedLyrics,
         scores: cleanedScores,
         resources: songToAdd.resources,
         createdBy: songToAdd.createdBy,
@@ -4757,6 +6266,13 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
             value={newSong.album || ''}
             onChangeText={(text) => setNewSong(prev => ({ ...prev, album: text }))}
           />
+          <TextInput
+            style={styles.dialogInput}
+            placeholder="Tags, comma-separated (optional)"
+            placeholderTextColor="#666666"
+            value={newSong.tags || ''}
+            onChangeText={(text) => setNewSong(prev => ({ ...prev, tags: text }))}
+          />
           
           <View style={styles.tracksHeader}>
             <Text style={styles.tracksTitle}>Pistas</Text>
@@ -5264,29 +6780,188 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
   const handleLyricsSave = async () => {
     if (!selectedSong) return;
 
+    if (showChordChart) {
+      await handleChordChartSave();
+      return;
+    }
+
+    // Timestamped text is stored as synced lyrics, with the plain text derived from it
+    const syncedLyrics = isLrc(editedLyrics) ? parseLrc(editedLyrics) : undefined;
+    const lyrics = syncedLyrics ? syncedLyricsToText(syncedLyrics) : editedLyrics;
+
     try {
       // Update song in Firebase
+      // Only the lyrics are written, so fields saved elsewhere meanwhile are kept
       const songRef = ref(database, `songs/${selectedSong.id}`);
-      await set(songRef, {
-        ...selectedSong,
-        lyrics: editedLyrics
+      await update(songRef, {
+        lyrics,
+        syncedLyrics: syncedLyrics ? removeUndefinedValues(syncedLyrics) : null
       });
 
       // Update local state
-      setSelectedSong(prev => prev ? { ...prev, lyrics: editedLyrics } : null);
+      setSelectedSong(prev => prev ? { ...prev, lyrics, syncedLyrics } : null);
       setIsLyricsEditing(false);
     } catch (error) {
-      console.error('Error saving lyrics:', error);
-      Alert.alert('Error', 'Failed to save lyrics. Please try again.');
+      console.error('Error saving lyrics:', error);
+      Alert.alert('Error', 'Failed to save lyrics. Please try again.');
+    }
+  };
+
+  const handleChordChartSave = async () => {
+    if (!selectedSong) return;
+
+    // Charts pasted with chord lines above the lyrics are stored as ChordPro
+    const chordChart = !isChordPro(editedLyrics) && hasChordsOverLyrics(editedLyrics)
+      ? chordsOverLyricsToChordPro(editedLyrics)
+      : editedLyrics;
+
+    try {
+      await updateSongInFirebase({
+        chordChart: chordChart.trim() ? chordChart : undefined,
+        key: selectedSong.key || parseChordPro(chordChart).key
+      });
+      setIsLyricsEditing(false);
+    } catch (error) {
+      console.error('Error saving chord chart:', error);
+    }
+  };
+
+  const updateChordSettings = async (updates: Partial<ChordSettings>) => {
+    if (!selectedSong) return;
+
+    const newSettings = { ...chordSettings, ...updates };
+    setChordSettings(newSettings);
+
+    if (user) {
+      try {
+        await songStateService.saveChordSettings(selectedSong.id, newSettings);
+      } catch (error) {
+        console.error('Error saving chord settings:', error);
+      }
+    }
+  };
+
+  const renderChordToolbar = () => {
+    const { transpose, capo, preferFlats } = chordSettings;
+    const keyLabel = selectedSong?.key
+      ? transposeKey(selectedSong.key, transpose, preferFlats)
+      : `${transpose > 0 ? '+' : ''}${transpose}`;
+
+    return (
+      <View style={styles.chordToolbar}>
+        <View style={styles.chordToolbarGroup}>
+          <TouchableOpacity
+            style={styles.chordToolbarButton}
+            onPress={() => updateChordSettings({ transpose: Math.max(-11, transpose - 1) })}
+          >
+            <Ionicons name="remove" size={18} color="#BB86FC" />
+          </TouchableOpacity>
+          <Text style={styles.chordToolbarText}>Key {keyLabel}</Text>
+          <TouchableOpacity
+            style={styles.chordToolbarButton}
+            onPress={() => updateChordSettings({ transpose: Math.min(11, transpose + 1) })}
+          >
+            <Ionicons name="add" size={18} color="#BB86FC" />
+          </TouchableOpacity>
+        </View>
+        <View style={styles.chordToolbarGroup}>
+          <TouchableOpacity
+            style={styles.chordToolbarButton}
+            onPress={() => updateChordSettings({ capo: Math.max(0, capo - 1) })}
+          >
+            <Ionicons name="remove" size={18} color="#BB86FC" />
+          </TouchableOpacity>
+          <Text style={styles.chordToolbarText}>Capo {capo}</Text>
+          <TouchableOpacity
+            style={styles.chordToolbarButton}
+            onPress={() => updateChordSettings({ capo: Math.min(11, capo + 1) })}
+          >
+            <Ionicons name="add" size={18} color="#BB86FC" />
+          </TouchableOpacity>
+        </View>
+        <TouchableOpacity
+          style={styles.chordToolbarButton}
+          onPress={() => updateChordSettings({ preferFlats: !preferFlats })}
+        >
+          <Text style={styles.chordToolbarText}>{preferFlats ? '♭' : '♯'}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  // Add this function after other utility functions
+  const startLyricsEditing = () => {
+    if (showChordChart) {
+      setEditedLyrics(selectedSong?.chordChart || '');
+      setIsLyricsEditing(true);
+      return;
+    }
+
+    // Synced lyrics are edited as LRC so their timestamps can be adjusted
+    setEditedLyrics(
+      selectedSong?.syncedLyrics?.length
+        ? formatLrc(selectedSong.syncedLyrics)
+        : selectedSong?.lyrics || ''
+    );
+    setIsLyricsEditing(true);
+  };
+
+  const handleImportLrc = async () => {
+    if (!selectedSong || !isAdminMode) return;
+
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true
+      });
+
+      if (result.assets && result.assets[0]) {
+        const response = await fetch(result.assets[0].uri);
+        const syncedLyrics = parseLrc(await response.text());
+
+        if (syncedLyrics.length === 0) {
+          Alert.alert('Invalid File', 'No timestamped lines were found in this LRC file.');
+          return;
+        }
+
+        await updateSongInFirebase({
+          syncedLyrics,
+          lyrics: syncedLyricsToText(syncedLyrics)
+        });
+        setShowSyncedLyrics(true);
+      }
+    } catch (error) {
+      console.error('Error importing LRC file:', error);
+      Alert.alert('Error', 'Failed to import LRC file');
+    }
+  };
+
+  const handleExportLrc = async () => {
+    if (!selectedSong?.syncedLyrics?.length) return;
+
+    const lrc = formatLrc(selectedSong.syncedLyrics, {
+      title: selectedSong.title,
+      artist: selectedSong.artist
+    });
+
+    try {
+      if (Platform.OS === 'web') {
+        const blob = new Blob([lrc], { type: 'text/plain' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${selectedSong.title}.lrc`;
+        link.click();
+        URL.revokeObjectURL(url);
+      } else {
+        await Share.share({ title: `${selectedSong.title}.lrc`, message: lrc });
+      }
+    } catch (error) {
+      console.error('Error exporting LRC file:', error);
+      Alert.alert('Error', 'Failed to export LRC file');
     }
   };
 
-  // Add this function after other utility functions
-  const startLyricsEditing = () => {
-    setEditedLyrics(selectedSong?.lyrics || '');
-    setIsLyricsEditing(true);
-  };
-
   const handleCopyLyrics = async () => {
     if (!selectedSong?.lyrics) {
       Alert.alert('Sem Letra', 'Não há letra para copiar.');
@@ -5592,6 +7267,8 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
                     <Text style={styles.trackStateLoadingText}>Loading track states...</Text>
                   </View>
                 )}
+                {renderWaveformToolbar()}
+                {renderBusStrip()}
                 {isAdminMode && (
                   <TouchableOpacity
                     style={styles.addButton}
@@ -5660,7 +7337,7 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
                                 </TouchableOpacity>
                               </View>
                             ) : (
-                              <Text style={styles.trackName}>{track.name}</Text>
+                              renderTrackName(track)
                             )}
                             <View style={styles.trackControls}>
                               {loadingTracks[track.id] ? (
@@ -5694,6 +7371,7 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
                                       !activeTrackIds.includes(track.id) && styles.muteActiveText
                                     ]}>M</Text>
                                   </TouchableOpacity>
+                                  {renderToneButton(track.id)}
                                 </>
                               )}
                             </View>
@@ -5721,6 +7399,9 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
                               disabled={loadingTracks[track.id]}
                             />
                           </View>
+                          {renderTrackMeter(track)}
+                          {renderTrackMeter(track)}
+                      {renderTrackWaveform(track)}
                           {isAdminMode && editingTrackId !== track.id && (
                             <View style={{ flexDirection: 'row', marginLeft: 8 }}>
                               <TouchableOpacity
@@ -5732,6 +7413,12 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
                               >
                                 <Ionicons name="create-outline" size={20} color="#BB86FC" />
                               </TouchableOpacity>
+                              <TouchableOpacity
+                                style={styles.iconButton}
+                                onPress={() => openTrackMetadata(track)}
+                              >
+                                <Ionicons name="pricetag-outline" size={20} color="#BB86FC" />
+                              </TouchableOpacity>
                               <TouchableOpacity
                                 style={styles.iconButton}
                                 onPress={() => handleDeleteTrack(track.id)}
@@ -5745,7 +7432,10 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
                     )}
                   />
                 ) : (
-                  (selectedSong.tracks || []).map(track => (
+                  (selectedSong.tracks || []).filter(track => {
+                    const bus = getTrackBus(selectedSong.buses, track.id);
+                    return !bus || !collapsedBusIds.includes(bus.id);
+                  }).map(track => (
                     <TouchableOpacity 
                       key={track.id} 
                       style={[
@@ -5756,7 +7446,7 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
                       activeOpacity={0.7}
                     >
                       <View style={styles.trackInfo}>
-                        <Text style={styles.trackName}>{track.name}</Text>
+                        {renderTrackName(track)}
                         <View style={styles.trackControls}>
                           {loadingTracks[track.id] ? (
                             <View style={styles.loadingContainer}>
@@ -5789,6 +7479,7 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
                                   !activeTrackIds.includes(track.id) && styles.muteActiveText
                                 ]}>M</Text>
                               </TouchableOpacity>
+                              {renderToneButton(track.id)}
                             </>
                           )}
                         </View>
@@ -5816,9 +7507,13 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
                           disabled={loadingTracks[track.id]}
                         />
                       </View>
+                      {renderTrackMeter(track)}
+                      {renderTrackWaveform(track)}
                     </TouchableOpacity>
                   ))
                 )}
+                {renderMetronomeTrack()}
+                {renderTakeTrackRow()}
               </View>
             {/* Lyrics view - always rendered but hidden when not active */}
             <View style={[
@@ -5856,18 +7551,50 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
                             </TouchableOpacity>
                           </>
                         ) : (
-                          <TouchableOpacity
-                            style={styles.iconButton}
-                            onPress={startLyricsEditing}
-                          >
-                            <Ionicons name="create-outline" size={24} color="#BB86FC" />
-                          </TouchableOpacity>
+                          <>
+                            <TouchableOpacity
+                              style={styles.iconButton}
+                              onPress={startLyricsEditing}
+                            >
+                              <Ionicons name="create-outline" size={24} color="#BB86FC" />
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                              style={styles.iconButton}
+                              onPress={handleImportLrc}
+                            >
+                              <Ionicons name="document-text-outline" size={24} color="#BB86FC" />
+                            </TouchableOpacity>
+                          </>
                         )}
                       </View>
                     )}
                   </View>
                   {!isLyricsEditing && (
                     <View style={styles.lyricsHeaderRight}>
+                      {(!!selectedSong.chordChart || isAdminMode) && (
+                        <TouchableOpacity
+                          style={styles.iconButton}
+                          onPress={() => setShowChordChart(!showChordChart)}
+                        >
+                          <Ionicons name={showChordChart ? 'musical-notes' : 'musical-notes-outline'} size={24} color="#BB86FC" />
+                        </TouchableOpacity>
+                      )}
+                      {!!selectedSong.syncedLyrics?.length && !showChordChart && (
+                        <>
+                          <TouchableOpacity
+                            style={styles.iconButton}
+                            onPress={() => setShowSyncedLyrics(!showSyncedLyrics)}
+                          >
+                            <Ionicons name={showSyncedLyrics ? 'time' : 'time-outline'} size={24} color="#BB86FC" />
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            style={styles.iconButton}
+                            onPress={handleExportLrc}
+                          >
+                            <Ionicons name="share-outline" size={24} color="#BB86FC" />
+                          </TouchableOpacity>
+                        </>
+                      )}
                       <TouchableOpacity
                         style={styles.iconButton}
                         onPress={handleCopyLyrics}
@@ -5883,16 +7610,41 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
                     </View>
                   )}
                 </View>
+                {showChordChart && !isLyricsEditing && !!selectedSong.chordChart && renderChordToolbar()}
                 {isLyricsEditing && isAdminMode ? (
                   <TextInput
                     style={styles.lyricsEditInput}
                     value={editedLyrics}
                     onChangeText={setEditedLyrics}
                     multiline
-                    placeholder="Enter lyrics..."
+                    placeholder={showChordChart ? 'Paste a chord chart ([G]lyrics or chords above lyrics)...' : 'Enter lyrics...'}
                     placeholderTextColor="#666666"
                     textAlignVertical="top"
                   />
+                ) : showChordChart ? (
+                  <ScrollView
+                    style={styles.lyricsScrollView}
+                    contentContainerStyle={styles.lyricsScrollContent}
+                  >
+                    {selectedSong.chordChart ? (
+                      <ChordChartView
+                        source={selectedSong.chordChart}
+                        transpose={chordSettings.transpose}
+                        capo={chordSettings.capo}
+                        preferFlats={chordSettings.preferFlats}
+                        fontScale={lyricsZoomScale}
+                      />
+                    ) : (
+                      <Text style={styles.emptyFilterText}>No chord chart yet</Text>
+                    )}
+                  </ScrollView>
+                ) : selectedSong.syncedLyrics?.length && showSyncedLyrics ? (
+                  <SyncedLyricsView
+                    lines={selectedSong.syncedLyrics}
+                    position={seekPosition}
+                    onLinePress={handleSeekToTime}
+                    fontScale={lyricsZoomScale}
+                  />
                 ) : (
                   <View style={styles.lyricsScrollView}>
                     <GestureDetector
@@ -6905,797 +8657,1539 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
                 )}
               </View>
           </ScrollView>
-          </KeyboardAvoidingView>
+          </KeyboardAvoidingView>
+        </View>
+      </View>
+    );
+  };
+
+  const renderFullScreenImage = () => {
+    if (!fullScreenImage) return null;
+
+    const pages = fullScreenImage.pages || [fullScreenImage.url];
+    const hasMultiplePages = pages.length > 1;
+    const currentPageUrl = pages[fullScreenPageIndex] || fullScreenImage.url;
+
+    return (
+      <Modal
+        visible={!!fullScreenImage}
+        transparent={false}
+        animationType="fade"
+        presentationStyle="fullScreen"
+        onRequestClose={() => {
+          setFullScreenImage(null);
+          setImageScale(1);
+          setImageTranslateX(0);
+          setImageTranslateY(0);
+          setFullScreenPageIndex(0);
+          imageScaleRef.current = 1;
+          imageTranslateXRef.current = 0;
+          imageTranslateYRef.current = 0;
+          imageScaleAnimated.setValue(1);
+        }}
+      >
+        <View style={styles.fullScreenContainer}>
+          <StatusBar hidden={true} />
+          {showFullScreenControls && (
+            <View style={styles.fullScreenButtonContainer}>
+              <TouchableOpacity
+                style={styles.fullScreenCloseButton}
+                onPress={() => {
+                  setFullScreenImage(null);
+                  setImageScale(1);
+                  setImageTranslateX(0);
+                  setImageTranslateY(0);
+                  setFullScreenPageIndex(0);
+                  imageScaleRef.current = 1;
+                  imageTranslateXRef.current = 0;
+                  imageTranslateYRef.current = 0;
+                  imageScaleAnimated.setValue(1);
+                }}
+              >
+                <Ionicons name="close" size={30} color="#FFFFFF" />
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {/* Zoom Controls */}
+          {showFullScreenControls && (
+            <View style={styles.fullScreenZoomControls}>
+            <TouchableOpacity
+              style={[
+                styles.fullScreenZoomButton,
+                imageScale >= 8.0 && styles.fullScreenZoomButtonDisabled
+              ]}
+              onPress={handleZoomIn}
+              disabled={imageScale >= 8.0}
+            >
+              <Ionicons name="add" size={24} color={imageScale >= 8.0 ? "#666" : "#FFFFFF"} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.fullScreenZoomButton,
+                imageScale <= 0.3 && styles.fullScreenZoomButtonDisabled
+              ]}
+              onPress={handleZoomOut}
+              disabled={imageScale <= 0.3}
+            >
+              <Ionicons name="remove" size={24} color={imageScale <= 0.3 ? "#666" : "#FFFFFF"} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.fullScreenZoomButton,
+                Math.abs(imageScale - 1) < 0.01 && Math.abs(imageTranslateX) < 0.01 && Math.abs(imageTranslateY) < 0.01 && styles.fullScreenZoomButtonDisabled
+              ]}
+              onPress={handleResetZoom}
+              disabled={Math.abs(imageScale - 1) < 0.01 && Math.abs(imageTranslateX) < 0.01 && Math.abs(imageTranslateY) < 0.01}
+            >
+              <Ionicons name="refresh" size={24} color={Math.abs(imageScale - 1) < 0.01 && Math.abs(imageTranslateX) < 0.01 && Math.abs(imageTranslateY) < 0.01 ? "#666" : "#FFFFFF"} />
+            </TouchableOpacity>
+          </View>
+          )}
+          
+          <View style={Platform.OS === 'web' ? {
+            width: Dimensions.get('window').width,
+            height: Dimensions.get('window').height,
+            overflow: 'hidden',
+          } : undefined}>
+            <ScrollView
+              horizontal
+              pagingEnabled
+              showsHorizontalScrollIndicator={false}
+              ref={(ref) => {
+                fullScreenScrollRef.current = ref;
+                if (ref && hasMultiplePages) {
+                  const pageWidth = Dimensions.get('window').width;
+                  ref.scrollTo({ x: fullScreenPageIndex * pageWidth, animated: false });
+                }
+              }}
+              onScroll={(event) => {
+                if (!hasMultiplePages) return;
+                const offsetX = event.nativeEvent.contentOffset.x;
+                const pageWidth = Dimensions.get('window').width;
+                const pageIndex = Math.round(offsetX / pageWidth);
+                if (pageIndex !== fullScreenPageIndex && pageIndex >= 0 && pageIndex < pages.length) {
+                  setFullScreenPageIndex(pageIndex);
+                }
+              }}
+              onMomentumScrollEnd={(event) => {
+                // Ensure proper page snapping on web
+                if (!hasMultiplePages || Platform.OS !== 'web') return;
+                const offsetX = event.nativeEvent.contentOffset.x;
+                const pageWidth = Dimensions.get('window').width;
+                const pageIndex = Math.round(offsetX / pageWidth);
+                if (pageIndex >= 0 && pageIndex < pages.length && fullScreenScrollRef.current) {
+                  fullScreenScrollRef.current.scrollTo({ 
+                    x: pageIndex * pageWidth, 
+                    animated: true 
+                  });
+                  setFullScreenPageIndex(pageIndex);
+                }
+              }}
+              onScrollEndDrag={(event) => {
+                // Additional snap handling for web
+                if (!hasMultiplePages || Platform.OS !== 'web') return;
+                const offsetX = event.nativeEvent.contentOffset.x;
+                const pageWidth = Dimensions.get('window').width;
+                const pageIndex = Math.round(offsetX / pageWidth);
+                if (pageIndex >= 0 && pageIndex < pages.length && fullScreenScrollRef.current) {
+                  fullScreenScrollRef.current.scrollTo({ 
+                    x: pageIndex * pageWidth, 
+                    animated: true 
+                  });
+                  setFullScreenPageIndex(pageIndex);
+                }
+              }}
+              scrollEventThrottle={16}
+              contentContainerStyle={[
+                styles.fullScreenPagesScrollContent,
+                Platform.OS === 'web' && hasMultiplePages && {
+                  width: Dimensions.get('window').width * pages.length,
+                }
+              ]}
+            onTouchStart={(e) => {
+              // Track touch start for tap detection
+              tapStartTimeRef.current = Date.now();
+              tapStartPositionRef.current = {
+                x: e.nativeEvent.pageX,
+                y: e.nativeEvent.pageY,
+              };
+            }}
+            onTouchEnd={(e) => {
+              // Detect if this was a tap (not a scroll)
+              const endTime = Date.now();
+              const timeDiff = endTime - tapStartTimeRef.current;
+              const endPosition = {
+                x: e.nativeEvent.pageX,
+                y: e.nativeEvent.pageY,
+              };
+              const distance = Math.sqrt(
+                Math.pow(endPosition.x - tapStartPositionRef.current.x, 2) +
+                Math.pow(endPosition.y - tapStartPositionRef.current.y, 2)
+              );
+              
+              // Only toggle if it was a quick tap (less than 200ms and less than 15px movement)
+              // and not on a control button
+              if (timeDiff < 200 && distance < 15) {
+                setShowFullScreenControls(!showFullScreenControls);
+              }
+            }}
+          >
+            {pages.map((pageUrl, index) => (
+              <View key={index} style={styles.fullScreenPageContainer}>
+                <GestureDetector
+                  gesture={Gesture.Simultaneous(
+                    Gesture.Pinch()
+                      .onStart(() => {
+                        imageLastScaleRef.current = 1.0;
+                      })
+                      .onUpdate((e) => {
+                        const scaleChange = e.scale / imageLastScaleRef.current;
+                        const newScale = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, imageScaleRef.current * scaleChange));
+                        imageLastScaleRef.current = e.scale;
+                        imageScaleRef.current = newScale;
+                        runOnJS(setImageScale)(newScale);
+                        imageScaleAnimated.setValue(newScale);
+                      })
+                      .onEnd(() => {
+                        imageLastScaleRef.current = 1.0;
+                      }),
+                    Gesture.Pan()
+                      .minPointers(1)
+                      .maxPointers(2)
+                      .minDistance(20)
+                      .onStart(() => {
+                        imageLastPanXRef.current = imageTranslateXRef.current;
+                        imageLastPanYRef.current = imageTranslateYRef.current;
+                      })
+                      .onUpdate((e) => {
+                        const newX = imageLastPanXRef.current + e.translationX;
+                        const newY = imageLastPanYRef.current + e.translationY;
+                        imageTranslateXRef.current = newX;
+                        imageTranslateYRef.current = newY;
+                        runOnJS(setImageTranslateX)(newX);
+                        runOnJS(setImageTranslateY)(newY);
+                      })
+                      .onEnd(() => {
+                        // Keep the current translation values
+                      })
+                  )}
+                >
+                  <View style={styles.fullScreenImageContainer}>
+            <Animated.Image
+                      source={{ uri: pageUrl }}
+              style={[
+                styles.fullScreenImage,
+                {
+                  transform: [
+                    { scale: imageScaleAnimated },
+                    { translateX: imageTranslateX },
+                    { translateY: imageTranslateY }
+                  ]
+                }
+              ]}
+              resizeMode="contain"
+            />
+                    <Watermark 
+                      text="© Ministério de Louvor" 
+                      opacity={0.12}
+                      fontSize={28}
+                    />
+                  </View>
+                </GestureDetector>
+              </View>
+            ))}
+          </ScrollView>
+          </View>
+
+          {hasMultiplePages && showFullScreenControls && (
+            <View style={[styles.fullScreenPageControls, { paddingBottom: insets.bottom + 15 }]}>
+              <TouchableOpacity
+                style={[
+                  styles.fullScreenPageButton,
+                  fullScreenPageIndex === 0 && styles.fullScreenPageButtonDisabled
+                ]}
+                onPress={() => navigateFullScreenPage('prev')}
+                disabled={fullScreenPageIndex === 0}
+              >
+                <Ionicons name="chevron-back" size={32} color={fullScreenPageIndex === 0 ? "#666" : "#FFFFFF"} />
+              </TouchableOpacity>
+              <Text style={styles.fullScreenPageIndicator}>
+                {fullScreenPageIndex + 1} / {pages.length}
+              </Text>
+              <TouchableOpacity
+                style={[
+                  styles.fullScreenPageButton,
+                  fullScreenPageIndex === pages.length - 1 && styles.fullScreenPageButtonDisabled
+                ]}
+                onPress={() => navigateFullScreenPage('next')}
+                disabled={fullScreenPageIndex === pages.length - 1}
+              >
+                <Ionicons name="chevron-forward" size={32} color={fullScreenPageIndex === pages.length - 1 ? "#666" : "#FFFFFF"} />
+              </TouchableOpacity>
+            </View>
+          )}
         </View>
+      </Modal>
+    );
+  };
+
+  const renderFullScreenLyrics = () => {
+    if (!isLyricsFullscreen || !selectedSong) return null;
+
+    const fullScreenButtons = (
+      <View style={styles.fullScreenButtonContainer}>
+        <TouchableOpacity
+          style={styles.fullScreenActionButton}
+          onPress={handleCopyLyrics}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="copy-outline" size={30} color="#FFFFFF" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.fullScreenCloseButton}
+          onPress={() => {
+            setIsLyricsFullscreen(false);
+          }}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="close" size={30} color="#FFFFFF" />
+        </TouchableOpacity>
       </View>
     );
+
+    // Synced lyrics follow the playhead, so they scroll instead of pinch/pan
+    if (selectedSong.syncedLyrics?.length && showSyncedLyrics && !showChordChart) {
+      return (
+        <Modal
+          visible={isLyricsFullscreen}
+          transparent={false}
+          animationType="fade"
+          presentationStyle="fullScreen"
+          onRequestClose={() => {
+            setIsLyricsFullscreen(false);
+          }}
+        >
+          <View style={styles.fullScreenContainer}>
+            <StatusBar hidden={true} />
+            <View style={styles.fullScreenLyricsContainer}>
+              <SyncedLyricsView
+                lines={selectedSong.syncedLyrics}
+                position={seekPosition}
+                onLinePress={handleSeekToTime}
+                fontScale={lyricsZoomScale}
+                fullScreen
+              />
+            </View>
+            {fullScreenButtons}
+          </View>
+        </Modal>
+      );
+    }
+
+    return (
+      <Modal
+        visible={isLyricsFullscreen}
+        transparent={false}
+        animationType="fade"
+        presentationStyle="fullScreen"
+        onRequestClose={() => {
+          setIsLyricsFullscreen(false);
+        }}
+      >
+        <GestureDetector
+          gesture={Gesture.Simultaneous(
+            Gesture.Pinch()
+              .onStart(() => {
+                lyricsLastScaleRef.current = 1.0;
+              })
+              .onUpdate((e) => {
+                const scaleChange = e.scale / lyricsLastScaleRef.current;
+                const newScale = Math.max(0.5, Math.min(5.0, lyricsZoomScaleRef.current * scaleChange));
+                lyricsLastScaleRef.current = e.scale;
+                lyricsZoomScaleRef.current = newScale;
+                runOnJS(setLyricsZoomScale)(newScale);
+              })
+              .onEnd(() => {
+                lyricsLastScaleRef.current = 1.0;
+              }),
+            Gesture.Pan()
+              .minPointers(1)
+              .maxPointers(2)
+              .onStart(() => {
+                lyricsLastPanXRef.current = lyricsTranslateXRef.current;
+                lyricsLastPanYRef.current = lyricsTranslateYRef.current;
+              })
+              .onUpdate((e) => {
+                const newX = lyricsLastPanXRef.current + e.translationX;
+                const newY = lyricsLastPanYRef.current + e.translationY;
+                lyricsTranslateXRef.current = newX;
+                lyricsTranslateYRef.current = newY;
+                runOnJS(setLyricsTranslateX)(newX);
+                runOnJS(setLyricsTranslateY)(newY);
+              })
+              .onEnd(() => {
+                // Keep the current translation values
+              })
+          )}
+        >
+          <View style={styles.fullScreenContainer}>
+            <StatusBar hidden={true} />
+            
+            <View style={styles.fullScreenLyricsContainer}>
+              <ScrollView
+                style={styles.fullScreenLyricsScrollView}
+                contentContainerStyle={styles.fullScreenLyricsScrollContent}
+                showsHorizontalScrollIndicator={lyricsZoomScale > 1.0}
+                showsVerticalScrollIndicator={lyricsZoomScale > 1.0}
+                scrollEnabled={false}
+                bounces={false}
+              >
+                <View
+                  style={[
+                    styles.fullScreenLyricsContent,
+                    {
+                      transform: [
+                        { translateX: lyricsTranslateX },
+                        { translateY: lyricsTranslateY },
+                        { scale: lyricsZoomScale },
+                      ],
+                    },
+                  ]}
+                >
+                  {showChordChart && selectedSong.chordChart ? (
+                    <ChordChartView
+                      source={selectedSong.chordChart}
+                      transpose={chordSettings.transpose}
+                      capo={chordSettings.capo}
+                      preferFlats={chordSettings.preferFlats}
+                      fontScale={1.5}
+                    />
+                  ) : (
+                    <Markdown style={markdownStyles}>
+                      {selectedSong.lyrics || ''}
+                    </Markdown>
+                  )}
+                </View>
+              </ScrollView>
+            </View>
+            
+            {fullScreenButtons}
+          </View>
+        </GestureDetector>
+      </Modal>
+    );
+  };
+
+  const uploadLyricsFromFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['text/plain', '*/*'],
+        copyToCacheDirectory: true
+      });
+      
+      if (result.assets && result.assets[0]) {
+        const file = result.assets[0];
+        const response = await fetch(file.uri);
+        const text = await response.text();
+
+        // LRC files carry timing; keep it as synced lyrics alongside the plain text
+        const syncedLyrics = isLrc(text) ? parseLrc(text) : undefined;
+        const lyrics = syncedLyrics ? syncedLyricsToText(syncedLyrics) : text;
+        
+        if (editingSong) {
+          setEditingSong(prev => prev ? { ...prev, lyrics, syncedLyrics } : null);
+        } else {
+          setNewSong(prev => ({ ...prev, lyrics, syncedLyrics }));
+        }
+      }
+    } catch (error) {
+      console.error('Error uploading lyrics file:', error);
+      Alert.alert('Error', 'Failed to upload lyrics file');
+    }
+  };
+
+  // Add fast forward function
+  const handleFastForward = async () => {
+    if (!isInitialized || !selectedSong || !selectedSong.tracks || selectedSong.tracks.length === 0) return;
+    
+    const newPosition = Math.min(
+      (trackProgress[selectedSong.tracks[0]?.id] || 0) + 10,
+      trackDurations[selectedSong.tracks[0]?.id] || 0
+    );
+    
+    await handleSeek(selectedSong.tracks![0].id, newPosition);
+    
+    // Sync with remote clients if admin
+    await publishSessionSeek(newPosition);
+  };
+
+  // Add rewind function
+  const handleRewind = async () => {
+    if (!isInitialized || !selectedSong || !selectedSong.tracks || selectedSong.tracks.length === 0) return;
+    
+    const newPosition = Math.max(
+      (trackProgress[selectedSong.tracks[0]?.id] || 0) - 10,
+      0
+    );
+    
+    await handleSeek(selectedSong.tracks![0].id, newPosition);
+    
+    // Sync with remote clients if admin
+    await publishSessionSeek(newPosition);
+  };
+
+  // Add handleRestart function before the return statement
+  const handleRestart = async () => {
+    if (!isInitialized || !selectedSong) return;
+    
+    try {
+      // Rewind every stem together and start again from the top
+      await multitrackEngine.stop();
+      
+      // Reset states
+      setIsFinished(false);
+      setSeekPosition(0);
+      setTrackProgress({});
+      
+      // Start playback
+      await (isPlaylistMode ? playlistPlayer.play() : multitrackEngine.play());
+      setIsPlaying(true);
+
+      // Sync with remote clients if admin
+      if (sessionSync && isAdmin) {
+        await sessionSync.publishTransport(true, 0);
+      }
+    } catch (error) {
+      console.error('Error restarting playback:', error);
+    }
+  };
+
+  // Add handleStop function
+  const handleStop = async () => {
+    if (!isInitialized || !selectedSong) return;
+    
+    try {
+      // Stop and rewind every stem
+      if (isPlaylistMode) {
+        await playlistPlayer.pause();
+      }
+      await multitrackEngine.stop();
+      
+      // Reset states
+      setIsFinished(false);
+      setIsPlaying(false);
+      setSeekPosition(0);
+      setTrackProgress({});
+
+      // Sync with remote clients if admin
+      if (sessionSync && isAdmin) {
+        await sessionSync.publishTransport(false, 0);
+      }
+    } catch (error) {
+      console.error('Error stopping playback:', error);
+    }
   };
 
-  const renderFullScreenImage = () => {
-    if (!fullScreenImage) return null;
+  // Add recording functions
+  const startRecording = async () => {
+    try {
+      await Audio.requestPermissionsAsync();
+      await Audio.setAudioModeAsync({
+        allowsRecordingIOS: true,
+        playsInSilentModeIOS: true,
+        staysActiveInBackground: true,
+        shouldDuckAndroid: true,
+      });
 
-    const pages = fullScreenImage.pages || [fullScreenImage.url];
-    const hasMultiplePages = pages.length > 1;
-    const currentPageUrl = pages[fullScreenPageIndex] || fullScreenImage.url;
+      if (isRecordAlong) {
+        await startRecordAlong();
+        return;
+      }
 
-    return (
-      <Modal
-        visible={!!fullScreenImage}
-        transparent={false}
-        animationType="fade"
-        presentationStyle="fullScreen"
-        onRequestClose={() => {
-          setFullScreenImage(null);
-          setImageScale(1);
-          setImageTranslateX(0);
-          setImageTranslateY(0);
-          setFullScreenPageIndex(0);
-          imageScaleRef.current = 1;
-          imageTranslateXRef.current = 0;
-          imageTranslateYRef.current = 0;
-          imageScaleAnimated.setValue(1);
-        }}
-      >
-        <View style={styles.fullScreenContainer}>
-          <StatusBar hidden={true} />
-          {showFullScreenControls && (
-            <View style={styles.fullScreenButtonContainer}>
-              <TouchableOpacity
-                style={styles.fullScreenCloseButton}
-                onPress={() => {
-                  setFullScreenImage(null);
-                  setImageScale(1);
-                  setImageTranslateX(0);
-                  setImageTranslateY(0);
-                  setFullScreenPageIndex(0);
-                  imageScaleRef.current = 1;
-                  imageTranslateXRef.current = 0;
-                  imageTranslateYRef.current = 0;
-                  imageScaleAnimated.setValue(1);
-                }}
-              >
-                <Ionicons name="close" size={30} color="#FFFFFF" />
-              </TouchableOpacity>
-            </View>
-          )}
+      console.log('Starting recording...');
+      const { recording } = await Audio.Recording.createAsync(
+        RECORDING_OPTIONS,
+        (status) => {
+          console.log('Recording status update:', status);
+        },
+        1000 // Update interval in milliseconds
+      );
+      
+      console.log('Recording created successfully');
+      setRecording(recording);
+      setIsRecording(true);
 
-          {/* Zoom Controls */}
-          {showFullScreenControls && (
-            <View style={styles.fullScreenZoomControls}>
-            <TouchableOpacity
-              style={[
-                styles.fullScreenZoomButton,
-                imageScale >= 8.0 && styles.fullScreenZoomButtonDisabled
-              ]}
-              onPress={handleZoomIn}
-              disabled={imageScale >= 8.0}
-            >
-              <Ionicons name="add" size={24} color={imageScale >= 8.0 ? "#666" : "#FFFFFF"} />
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={[
-                styles.fullScreenZoomButton,
-                imageScale <= 0.3 && styles.fullScreenZoomButtonDisabled
-              ]}
-              onPress={handleZoomOut}
-              disabled={imageScale <= 0.3}
-            >
-              <Ionicons name="remove" size={24} color={imageScale <= 0.3 ? "#666" : "#FFFFFF"} />
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={[
-                styles.fullScreenZoomButton,
-                Math.abs(imageScale - 1) < 0.01 && Math.abs(imageTranslateX) < 0.01 && Math.abs(imageTranslateY) < 0.01 && styles.fullScreenZoomButtonDisabled
-              ]}
-              onPress={handleResetZoom}
-              disabled={Math.abs(imageScale - 1) < 0.01 && Math.abs(imageTranslateX) < 0.01 && Math.abs(imageTranslateY) < 0.01}
-            >
-              <Ionicons name="refresh" size={24} color={Math.abs(imageScale - 1) < 0.01 && Math.abs(imageTranslateX) < 0.01 && Math.abs(imageTranslateY) < 0.01 ? "#666" : "#FFFFFF"} />
-            </TouchableOpacity>
-          </View>
-          )}
-          
-          <View style={Platform.OS === 'web' ? {
-            width: Dimensions.get('window').width,
-            height: Dimensions.get('window').height,
-            overflow: 'hidden',
-          } : undefined}>
-            <ScrollView
-              horizontal
-              pagingEnabled
-              showsHorizontalScrollIndicator={false}
-              ref={(ref) => {
-                fullScreenScrollRef.current = ref;
-                if (ref && hasMultiplePages) {
-                  const pageWidth = Dimensions.get('window').width;
-                  ref.scrollTo({ x: fullScreenPageIndex * pageWidth, animated: false });
-                }
-              }}
-              onScroll={(event) => {
-                if (!hasMultiplePages) return;
-                const offsetX = event.nativeEvent.contentOffset.x;
-                const pageWidth = Dimensions.get('window').width;
-                const pageIndex = Math.round(offsetX / pageWidth);
-                if (pageIndex !== fullScreenPageIndex && pageIndex >= 0 && pageIndex < pages.length) {
-                  setFullScreenPageIndex(pageIndex);
-                }
-              }}
-              onMomentumScrollEnd={(event) => {
-                // Ensure proper page snapping on web
-                if (!hasMultiplePages || Platform.OS !== 'web') return;
-                const offsetX = event.nativeEvent.contentOffset.x;
-                const pageWidth = Dimensions.get('window').width;
-                const pageIndex = Math.round(offsetX / pageWidth);
-                if (pageIndex >= 0 && pageIndex < pages.length && fullScreenScrollRef.current) {
-                  fullScreenScrollRef.current.scrollTo({ 
-                    x: pageIndex * pageWidth, 
-                    animated: true 
-                  });
-                  setFullScreenPageIndex(pageIndex);
-                }
-              }}
-              onScrollEndDrag={(event) => {
-                // Additional snap handling for web
-                if (!hasMultiplePages || Platform.OS !== 'web') return;
-                const offsetX = event.nativeEvent.contentOffset.x;
-                const pageWidth = Dimensions.get('window').width;
-                const pageIndex = Math.round(offsetX / pageWidth);
-                if (pageIndex >= 0 && pageIndex < pages.length && fullScreenScrollRef.current) {
-                  fullScreenScrollRef.current.scrollTo({ 
-                    x: pageIndex * pageWidth, 
-                    animated: true 
-                  });
-                  setFullScreenPageIndex(pageIndex);
-                }
-              }}
-              scrollEventThrottle={16}
-              contentContainerStyle={[
-                styles.fullScreenPagesScrollContent,
-                Platform.OS === 'web' && hasMultiplePages && {
-                  width: Dimensions.get('window').width * pages.length,
-                }
-              ]}
-            onTouchStart={(e) => {
-              // Track touch start for tap detection
-              tapStartTimeRef.current = Date.now();
-              tapStartPositionRef.current = {
-                x: e.nativeEvent.pageX,
-                y: e.nativeEvent.pageY,
-              };
-            }}
-            onTouchEnd={(e) => {
-              // Detect if this was a tap (not a scroll)
-              const endTime = Date.now();
-              const timeDiff = endTime - tapStartTimeRef.current;
-              const endPosition = {
-                x: e.nativeEvent.pageX,
-                y: e.nativeEvent.pageY,
-              };
-              const distance = Math.sqrt(
-                Math.pow(endPosition.x - tapStartPositionRef.current.x, 2) +
-                Math.pow(endPosition.y - tapStartPositionRef.current.y, 2)
-              );
-              
-              // Only toggle if it was a quick tap (less than 200ms and less than 15px movement)
-              // and not on a control button
-              if (timeDiff < 200 && distance < 15) {
-                setShowFullScreenControls(!showFullScreenControls);
-              }
-            }}
+      // Start song playback if a song is selected and not already playing
+      if (selectedSong && !isPlaying) {
+        await startLocalPlayback();
+      }
+    } catch (error) {
+      console.error('Failed to start recording:', error);
+      Alert.alert('Error', 'Failed to start recording');
+    }
+  };
+
+  /**
+   * Start the microphone first, then the stems, and work out where the take's
+   * first sample falls in the song from both clocks sampled together.
+   */
+  const startRecordAlong = async () => {
+    if (!selectedSong || !isInitialized) return;
+    if (playbackSpeed !== 1) {
+      Alert.alert('Record Along', 'Set the playback speed to 1x to record along with the song.');
+      return;
+    }
+    if (isPlaying) {
+      await stopLocalPlayback();
+    }
+    await latencyService.load();
+
+    const newRecording = new Audio.Recording();
+    await newRecording.prepareToRecordAsync(RECORDING_OPTIONS);
+    await newRecording.startAsync();
+    setRecording(newRecording);
+    setIsRecording(true);
+
+    await startLocalPlayback();
+    if (!multitrackEngine.isPlaying()) {
+      // Playback did not start (e.g. the count-in was cancelled)
+      await newRecording.stopAndUnloadAsync().catch(() => {});
+      setRecording(null);
+      setIsRecording(false);
+      return;
+    }
+
+    const status = await newRecording.getStatusAsync();
+    const songPositionMs = multitrackEngine.getPosition() * 1000;
+    const latencyMs = latencyService.getRoundTripLatencyMs();
+    recordAlongRef.current = {
+      offsetMs: getTakeOffsetMs(songPositionMs, status.durationMillis, latencyMs),
+      latencyMs
+    };
+  };
+
+  const stopRecording = async () => {
+    if (!recording) return;
+
+    try {
+      console.log('Stopping recording...');
+      await recording.stopAndUnloadAsync();
+      const uri = recording.getURI();
+      console.log('Recording URI:', uri);
+      
+      // Get the recording status to verify duration
+      const status = await recording.getStatusAsync();
+      console.log('Recording status:', status);
+
+      // Recordings made without Record Along are kept unaligned
+      const alignment = recordAlongRef.current || { offsetMs: 0, latencyMs: 0 };
+      recordAlongRef.current = null;
+      setPendingTake({
+        name: `Take ${takes.length + 1}`,
+        offsetMs: alignment.offsetMs,
+        latencyMs: alignment.latencyMs,
+        durationMs: status.durationMillis
+      });
+      
+      setRecordedUri(uri);
+      setRecording(null);
+      setIsRecording(false);
+
+      // Stop song playback if it's playing
+      if (isPlaying) {
+        await stopLocalPlayback();
+      }
+    } catch (error) {
+      console.error('Failed to stop recording:', error);
+      Alert.alert('Error', 'Failed to stop recording');
+    }
+  };
+
+  // Recordings go to the user's own takes; only an admin promotes one into the shared song tracks
+  const saveRecording = async () => {
+    if (!recordedUri || !selectedSong || !pendingTake) return;
+    if (!user) {
+      Alert.alert('My Takes', 'Sign in to keep your recordings.');
+      return;
+    }
+
+    try {
+      console.log('Saving recording from URI:', recordedUri);
+      const response = await fetch(recordedUri);
+      const blob = await response.blob();
+      console.log('Recording blob size:', blob.size);
+
+      const extension = Platform.OS === 'web' ? 'webm' : 'm4a';
+      const takeAsset = {
+        uri: recordedUri,
+        name: `take.${extension}`,
+        mimeType: blob.type || undefined,
+        size: blob.size,
+      };
+
+      const take = await takeService.saveTake(selectedSong.id, takeAsset, extension, pendingTake);
+      setTakes(prev => [...prev, take]);
+
+      setRecordedUri(null);
+      setPendingTake(null);
+      console.log('Recording saved successfully');
+    } catch (error) {
+      console.error('Failed to save recording:', error);
+      Alert.alert('Error', 'Failed to save recording');
+    }
+  };
+
+  const cancelRecording = () => {
+    setRecordedUri(null);
+    setPendingTake(null);
+    setShowRecordingControls(false);
+  };
+
+  // Play a take against the mix at its recorded offset as a private track, or stop playing it
+  const handleToggleTakeAudition = async (take: Take) => {
+    try {
+      if (auditionTake) {
+        await multitrackEngine.removeStem(takeService.toTrack(auditionTake).id);
+      }
+      if (auditionTake?.id === take.id) {
+        setAuditionTake(null);
+        return;
+      }
+
+      const audioFile = await AudioStorageService.getInstance().getAudioFile(take.path);
+      await multitrackEngine.addStem(takeService.toTrack(take), audioFile.localUri || audioFile.url, takeVolume);
+      setAuditionTake(take);
+    } catch (error) {
+      console.error('Error playing take:', error);
+      Alert.alert('Error', 'Failed to play take');
+    }
+  };
+
+  const handleTakeVolumeChange = (value: number) => {
+    setTakeVolume(value);
+    if (auditionTake) {
+      multitrackEngine.setTrackVolume(takeService.toTrack(auditionTake).id, value);
+    }
+  };
+
+  // Add a take to the song's tracks; everyone then hears it in the mix
+  const handlePromoteTake = async (take: Take) => {
+    if (!selectedSong || !isAdminMode) return;
+
+    try {
+      if (auditionTake?.id === take.id) {
+        await multitrackEngine.removeStem(takeService.toTrack(take).id);
+        setAuditionTake(null);
+      }
+      const track = takeService.toTrack(take, `${take.name} (${new Date(take.createdAt).toLocaleDateString()})`);
+      await updateSongInFirebase({ tracks: [...(selectedSong.tracks || []), track] });
+      if (take.createdBy === user?.id) {
+        const promoted = await takeService.markPromoted(take, track.id);
+        setTakes(prev => prev.map(t => (t.id === take.id ? promoted : t)));
+      }
+    } catch (error) {
+      console.error('Error promoting take:', error);
+      Alert.alert('Error', 'Failed to add take to the song');
+    }
+  };
+
+  const handleDeleteTake = async (take: Take) => {
+    try {
+      if (auditionTake?.id === take.id) {
+        await multitrackEngine.removeStem(takeService.toTrack(take).id);
+        setAuditionTake(null);
+      }
+      await takeService.deleteTake(take);
+      setTakes(prev => prev.filter(t => t.id !== take.id));
+    } catch (error) {
+      console.error('Error deleting take:', error);
+    }
+  };
+
+  // Share with a whole group, or only with the group's leader (the admin who created it)
+  const handleShareTake = (take: Take) => {
+    if (userGroupDetails.length === 0) {
+      Alert.alert('Share Take', 'You are not a member of any group yet.');
+      return;
+    }
+
+    const share = async (action: () => Promise<Take>) => {
+      try {
+        const shared = await action();
+        setTakes(prev => prev.map(t => (t.id === take.id ? shared : t)));
+      } catch (error) {
+        Alert.alert('Error', 'Failed to share take');
+      }
+    };
+
+    Alert.alert(
+      'Share Take',
+      `Share "${take.name}" for feedback with:`,
+      [
+        ...userGroupDetails.map(group => ({
+          text: group.name,
+          onPress: () => share(() => takeService.shareTakeWithGroup(take, group.id))
+        })),
+        ...userGroupDetails
+          .filter(group => group.createdBy && group.createdBy !== user?.id)
+          .map(group => ({
+            text: `Leader of ${group.name}`,
+            onPress: () => share(() => takeService.shareTakeWithUser(take, group.createdBy))
+          })),
+        { text: 'Cancel', style: 'cancel' as const }
+      ]
+    );
+  };
+
+  const handleSendTakeFeedback = async () => {
+    if (!takeFeedbackDraft?.text.trim() || !user) return;
+
+    try {
+      await takeService.addFeedback(takeFeedbackDraft.take, user.displayName || user.email || 'Member', takeFeedbackDraft.text);
+      setTakeFeedbackDraft(null);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to send feedback');
+    }
+  };
+
+  const renderTakeItem = (item: Take, isOwn: boolean) => {
+    const feedback = Object.values(item.feedback || {}).sort((a, b) => a.createdAt - b.createdAt);
+    const shareCount = Object.keys(item.sharedGroupIds || {}).length + Object.keys(item.sharedUserIds || {}).length;
+
+    return (
+      <View key={`take-${item.id}`}>
+        <View style={[styles.playlistItem, item.id === auditionTake?.id && styles.loopRegionItemActive]}>
+          <TouchableOpacity
+            style={styles.playlistItemContent}
+            onPress={() => handleToggleTakeAudition(item)}
           >
-            {pages.map((pageUrl, index) => (
-              <View key={index} style={styles.fullScreenPageContainer}>
-                <GestureDetector
-                  gesture={Gesture.Simultaneous(
-                    Gesture.Pinch()
-                      .onStart(() => {
-                        imageLastScaleRef.current = 1.0;
-                      })
-                      .onUpdate((e) => {
-                        const scaleChange = e.scale / imageLastScaleRef.current;
-                        const newScale = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, imageScaleRef.current * scaleChange));
-                        imageLastScaleRef.current = e.scale;
-                        imageScaleRef.current = newScale;
-                        runOnJS(setImageScale)(newScale);
-                        imageScaleAnimated.setValue(newScale);
-                      })
-                      .onEnd(() => {
-                        imageLastScaleRef.current = 1.0;
-                      }),
-                    Gesture.Pan()
-                      .minPointers(1)
-                      .maxPointers(2)
-                      .minDistance(20)
-                      .onStart(() => {
-                        imageLastPanXRef.current = imageTranslateXRef.current;
-                        imageLastPanYRef.current = imageTranslateYRef.current;
-                      })
-                      .onUpdate((e) => {
-                        const newX = imageLastPanXRef.current + e.translationX;
-                        const newY = imageLastPanYRef.current + e.translationY;
-                        imageTranslateXRef.current = newX;
-                        imageTranslateYRef.current = newY;
-                        runOnJS(setImageTranslateX)(newX);
-                        runOnJS(setImageTranslateY)(newY);
-                      })
-                      .onEnd(() => {
-                        // Keep the current translation values
-                      })
-                  )}
-                >
-                  <View style={styles.fullScreenImageContainer}>
-            <Animated.Image
-                      source={{ uri: pageUrl }}
-              style={[
-                styles.fullScreenImage,
-                {
-                  transform: [
-                    { scale: imageScaleAnimated },
-                    { translateX: imageTranslateX },
-                    { translateY: imageTranslateY }
-                  ]
-                }
-              ]}
-              resizeMode="contain"
+            <Ionicons
+              name={item.id === auditionTake?.id ? 'headset' : 'headset-outline'}
+              size={20}
+              color="#BB86FC"
             />
-                    <Watermark 
-                      text="© Ministério de Louvor" 
-                      opacity={0.12}
-                      fontSize={28}
-                    />
-                  </View>
-                </GestureDetector>
-              </View>
-            ))}
-          </ScrollView>
-          </View>
-
-          {hasMultiplePages && showFullScreenControls && (
-            <View style={[styles.fullScreenPageControls, { paddingBottom: insets.bottom + 15 }]}>
+            <View style={styles.playlistItemText}>
+              <Text style={styles.playlistItemName}>{item.name}</Text>
+              <Text style={styles.playlistItemInfo}>
+                {new Date(item.createdAt).toLocaleString()} · {formatTime(item.durationMs / 1000)}
+                {item.offsetMs > 0 ? ` · from ${formatTime(item.offsetMs / 1000)}` : ''}
+                {item.promotedTrackId ? ' · in song' : ''}
+                {isOwn && shareCount > 0 ? ` · shared ${shareCount}x` : ''}
+              </Text>
+            </View>
+          </TouchableOpacity>
+          {isAdminMode && !item.promotedTrackId && (
+            <TouchableOpacity
+              style={styles.iconButton}
+              onPress={() => handlePromoteTake(item)}
+            >
+              <Ionicons name="arrow-up-circle-outline" size={20} color="#03DAC6" />
+            </TouchableOpacity>
+          )}
+          {isOwn ? (
+            <>
               <TouchableOpacity
-                style={[
-                  styles.fullScreenPageButton,
-                  fullScreenPageIndex === 0 && styles.fullScreenPageButtonDisabled
-                ]}
-                onPress={() => navigateFullScreenPage('prev')}
-                disabled={fullScreenPageIndex === 0}
+                style={styles.iconButton}
+                onPress={() => handleShareTake(item)}
               >
-                <Ionicons name="chevron-back" size={32} color={fullScreenPageIndex === 0 ? "#666" : "#FFFFFF"} />
+                <Ionicons name="share-social-outline" size={20} color="#BB86FC" />
               </TouchableOpacity>
-              <Text style={styles.fullScreenPageIndicator}>
-                {fullScreenPageIndex + 1} / {pages.length}
-              </Text>
               <TouchableOpacity
-                style={[
-                  styles.fullScreenPageButton,
-                  fullScreenPageIndex === pages.length - 1 && styles.fullScreenPageButtonDisabled
-                ]}
-                onPress={() => navigateFullScreenPage('next')}
-                disabled={fullScreenPageIndex === pages.length - 1}
+                style={styles.iconButton}
+                onPress={() => handleDeleteTake(item)}
               >
-                <Ionicons name="chevron-forward" size={32} color={fullScreenPageIndex === pages.length - 1 ? "#666" : "#FFFFFF"} />
+                <Ionicons name="trash-outline" size={20} color="#FF5252" />
               </TouchableOpacity>
-            </View>
+            </>
+          ) : (
+            <TouchableOpacity
+              style={styles.iconButton}
+              onPress={() => setTakeFeedbackDraft({ take: item, text: '' })}
+            >
+              <Ionicons name="chatbubble-outline" size={20} color="#BB86FC" />
+            </TouchableOpacity>
           )}
         </View>
-      </Modal>
+        {isOwn && feedback.map(entry => (
+          <Text key={`feedback-${entry.id}`} style={styles.takeFeedbackText}>
+            {entry.userName}: {entry.text}
+          </Text>
+        ))}
+      </View>
     );
   };
 
-  const renderFullScreenLyrics = () => {
-    if (!isLyricsFullscreen || !selectedSong) return null;
+  const renderTakesModal = () => (
+    <Modal
+      visible={showTakesModal}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={() => setShowTakesModal(false)}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>My Takes</Text>
+            <TouchableOpacity
+              style={styles.modalCloseButton}
+              onPress={() => setShowTakesModal(false)}
+            >
+              <Ionicons name="close" size={24} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
 
-    return (
-      <Modal
-        visible={isLyricsFullscreen}
-        transparent={false}
-        animationType="fade"
-        presentationStyle="fullScreen"
-        onRequestClose={() => {
-          setIsLyricsFullscreen(false);
-        }}
-      >
-        <GestureDetector
-          gesture={Gesture.Simultaneous(
-            Gesture.Pinch()
-              .onStart(() => {
-                lyricsLastScaleRef.current = 1.0;
-              })
-              .onUpdate((e) => {
-                const scaleChange = e.scale / lyricsLastScaleRef.current;
-                const newScale = Math.max(0.5, Math.min(5.0, lyricsZoomScaleRef.current * scaleChange));
-                lyricsLastScaleRef.current = e.scale;
-                lyricsZoomScaleRef.current = newScale;
-                runOnJS(setLyricsZoomScale)(newScale);
-              })
-              .onEnd(() => {
-                lyricsLastScaleRef.current = 1.0;
-              }),
-            Gesture.Pan()
-              .minPointers(1)
-              .maxPointers(2)
-              .onStart(() => {
-                lyricsLastPanXRef.current = lyricsTranslateXRef.current;
-                lyricsLastPanYRef.current = lyricsTranslateYRef.current;
-              })
-              .onUpdate((e) => {
-                const newX = lyricsLastPanXRef.current + e.translationX;
-                const newY = lyricsLastPanYRef.current + e.translationY;
-                lyricsTranslateXRef.current = newX;
-                lyricsTranslateYRef.current = newY;
-                runOnJS(setLyricsTranslateX)(newX);
-                runOnJS(setLyricsTranslateY)(newY);
-              })
-              .onEnd(() => {
-                // Keep the current translation values
-              })
-          )}
-        >
-          <View style={styles.fullScreenContainer}>
-            <StatusBar hidden={true} />
-            
-            <View style={styles.fullScreenLyricsContainer}>
-              <ScrollView
-                style={styles.fullScreenLyricsScrollView}
-                contentContainerStyle={styles.fullScreenLyricsScrollContent}
-                showsHorizontalScrollIndicator={lyricsZoomScale > 1.0}
-                showsVerticalScrollIndicator={lyricsZoomScale > 1.0}
-                scrollEnabled={false}
-                bounces={false}
-              >
-                <View
-                  style={[
-                    styles.fullScreenLyricsContent,
-                    {
-                      transform: [
-                        { translateX: lyricsTranslateX },
-                        { translateY: lyricsTranslateY },
-                        { scale: lyricsZoomScale },
-                      ],
-                    },
-                  ]}
-                >
-                  <Markdown style={markdownStyles}>
-                    {selectedSong.lyrics || ''}
-                  </Markdown>
-                </View>
-              </ScrollView>
-            </View>
-            
-            <View style={styles.fullScreenButtonContainer}>
+          <Text style={styles.modalSubtitle}>
+            Your recordings of "{selectedSong?.title}" are only visible to you until you share them.
+            Tap one to hear it in the mixer.
+          </Text>
+
+          <ScrollView style={{ maxHeight: 360 }}>
+            {takes.map(take => renderTakeItem(take, true))}
+            {takes.length === 0 && (
+              <View style={styles.emptyPlaylists}>
+                <Ionicons name="mic-outline" size={48} color="#BBBBBB" />
+                <Text style={styles.emptyPlaylistsText}>No takes yet</Text>
+                <Text style={styles.emptyPlaylistsSubtext}>Turn on Record Along and press record</Text>
+              </View>
+            )}
+
+            {sharedTakes.length > 0 && (
+              <>
+                <Text style={styles.inputLabel}>Shared with me</Text>
+                {sharedTakes.map(take => renderTakeItem(take, false))}
+              </>
+            )}
+          </ScrollView>
+
+          {takeFeedbackDraft && (
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Feedback on "{takeFeedbackDraft.take.name}"</Text>
+              <TextInput
+                style={styles.textInput}
+                value={takeFeedbackDraft.text}
+                onChangeText={(text) => setTakeFeedbackDraft({ ...takeFeedbackDraft, text })}
+                placeholder="e.g. Great tone, watch the pitch in bar 12"
+                placeholderTextColor="#666666"
+                multiline
+              />
               <TouchableOpacity
-                style={styles.fullScreenActionButton}
-                onPress={handleCopyLyrics}
-                activeOpacity={0.7}
+                style={[styles.createButton, !takeFeedbackDraft.text.trim() && styles.createButtonDisabled]}
+                onPress={handleSendTakeFeedback}
+                disabled={!takeFeedbackDraft.text.trim()}
               >
-                <Ionicons name="copy-outline" size={30} color="#FFFFFF" />
+                <Text style={styles.createButtonText}>Send Feedback</Text>
               </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+
+  // The take being listened to, as a private row under the song's tracks
+  const renderTakeTrackRow = () => {
+    if (!auditionTake) return null;
+
+    return (
+      <View style={[styles.trackContainer, isLandscape && styles.trackContainerLandscape]}>
+        <View style={styles.trackInfo}>
+          <Text style={styles.trackName}>
+            {auditionTake.name}
+            <Text style={styles.trackPartLabel}>  {auditionTake.createdBy === user?.id ? 'My take' : 'Shared take'}</Text>
+          </Text>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={() => handleToggleTakeAudition(auditionTake)}
+          >
+            <Ionicons name="close-circle-outline" size={20} color="#BBBBBB" />
+          </TouchableOpacity>
+        </View>
+        <View style={styles.volumeContainer}>
+          <Ionicons name={takeVolume === 0 ? 'volume-mute' : 'mic'} size={20} color="#BBBBBB" />
+          <PlatformSlider
+            style={styles.volumeSlider}
+            minimumValue={0}
+            maximumValue={1}
+            value={takeVolume}
+            onValueChange={handleTakeVolumeChange}
+            minimumTrackTintColor="#03DAC6"
+            maximumTrackTintColor="#2C2C2C"
+          />
+        </View>
+      </View>
+    );
+  };
+
+  // Add recording controls to the UI
+  const renderRecordingControls = () => {
+    if (!showRecordingControls) return null;
+
+    return (
+      <View style={styles.recordingControls}>
+        {!isRecording && !recordedUri && (
+          <>
+            <TouchableOpacity
+              style={[styles.mixPresetChip, isRecordAlong && styles.mixPresetChipActive]}
+              onPress={() => setIsRecordAlong(!isRecordAlong)}
+            >
+              <Text style={styles.mixPresetChipText}>Record Along</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.controlButton, styles.recordButton]}
+              onPress={startRecording}
+            >
+              <Ionicons name="mic" size={32} color="#FF5252" />
+            </TouchableOpacity>
+            {user && (
               <TouchableOpacity
-                style={styles.fullScreenCloseButton}
-                onPress={() => {
-                  setIsLyricsFullscreen(false);
-                }}
-                activeOpacity={0.7}
+                style={styles.mixPresetChip}
+                onPress={() => setShowTakesModal(true)}
               >
-                <Ionicons name="close" size={30} color="#FFFFFF" />
+                <Text style={styles.mixPresetChipText}>Takes ({takes.length})</Text>
               </TouchableOpacity>
-            </View>
+            )}
+          </>
+        )}
+        {isRecording && (
+          <TouchableOpacity
+            style={[styles.controlButton, styles.stopButton]}
+            onPress={stopRecording}
+          >
+            <Ionicons name="stop-circle" size={32} color="#FF5252" />
+          </TouchableOpacity>
+        )}
+        {recordedUri && (
+          <View style={styles.recordingActions}>
+            <TextInput
+              style={styles.recordingNameInput}
+              placeholder="Enter take name"
+              placeholderTextColor="#666666"
+              value={pendingTake?.name || ''}
+              onChangeText={(text) => pendingTake && setPendingTake({ ...pendingTake, name: text })}
+            />
+            <TouchableOpacity
+              style={[styles.controlButton, styles.saveButton]}
+              onPress={saveRecording}
+            >
+              <Ionicons name="save" size={32} color="#4CAF50" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.controlButton, styles.cancelButton]}
+              onPress={cancelRecording}
+            >
+              <Ionicons name="close-circle" size={32} color="#FF5252" />
+            </TouchableOpacity>
           </View>
-        </GestureDetector>
-      </Modal>
+        )}
+      </View>
     );
   };
 
-  const uploadLyricsFromFile = async () => {
-    try {
-      const result = await DocumentPicker.getDocumentAsync({
-        type: ['text/plain'],
-        copyToCacheDirectory: true
-      });
-      
-      if (result.assets && result.assets[0]) {
-        const file = result.assets[0];
-        const response = await fetch(file.uri);
-        const text = await response.text();
-        
-        if (editingSong) {
-          setEditingSong(prev => prev ? { ...prev, lyrics: text } : null);
-        } else {
-          setNewSong(prev => ({ ...prev, lyrics: text }));
-        }
-      }
-    } catch (error) {
-      console.error('Error uploading lyrics file:', error);
-      Alert.alert('Error', 'Failed to upload lyrics file');
+  // Toggle repeat mode function
+  const handleToggleRepeatMode = () => {
+    if (repeatMode === 'none') {
+      setRepeatMode('track');
+      setIsRepeat(true);
+      setIsFilteredRepeating(false);
+      setIsPlaylistRepeating(false);
+    } else if (repeatMode === 'track') {
+      setRepeatMode('list');
+      setIsRepeat(false);
+      setIsFilteredRepeating(true);
+      setIsPlaylistRepeating(true);
+    } else {
+      setRepeatMode('none');
+      setIsRepeat(false);
+      setIsFilteredRepeating(false);
+      setIsPlaylistRepeating(false);
     }
   };
 
-  // Add fast forward function
-  const handleFastForward = async () => {
-    if (!isInitialized || !selectedSong || !selectedSong.tracks || selectedSong.tracks.length === 0) return;
-    
-    const newPosition = Math.min(
-      (trackProgress[selectedSong.tracks[0]?.id] || 0) + 10,
-      trackDurations[selectedSong.tracks[0]?.id] || 0
-    );
-    
-    await handleSeek(selectedSong.tracks![0].id, newPosition);
-    
-    // Sync with remote clients if admin
-    if (sessionId && isAdmin) {
-      const sessionRef = ref(database, `sessions/${sessionId}/state`);
-      await set(sessionRef, {
-        ...syncState,
-        seekPosition: newPosition
-      });
+  // Shuffle carries on from the current song and stays on for the next playlist or song list
+  const handleToggleShuffle = () => {
+    // A playlist's queue is kept by the playlist player
+    if (!isPlaylistMode && selectedSong) {
+      syncPlayQueue(selectedSong);
     }
+    playlistPlayer.toggleShuffle();
   };
 
-  // Add rewind function
-  const handleRewind = async () => {
-    if (!isInitialized || !selectedSong || !selectedSong.tracks || selectedSong.tracks.length === 0) return;
-    
-    const newPosition = Math.max(
-      (trackProgress[selectedSong.tracks[0]?.id] || 0) - 10,
-      0
-    );
-    
-    await handleSeek(selectedSong.tracks![0].id, newPosition);
-    
-    // Sync with remote clients if admin
-    if (sessionId && isAdmin) {
-      const sessionRef = ref(database, `sessions/${sessionId}/state`);
-      await set(sessionRef, {
-        ...syncState,
-        seekPosition: newPosition
-      });
-    }
-  };
+  // Pick up the queue restored from before the app was closed
+  const handleResumeQueue = async () => {
+    const song = playQueueService.getCurrentSong();
+    const playlistId = playQueue?.context.playlistId;
+    if (!song) return;
+    setShowQueueModal(false);
 
-  // Add handleRestart function before the return statement
-  const handleRestart = async () => {
-    if (!isInitialized || !selectedSong) return;
-    
     try {
-      // First stop all players
-      await Promise.all(
-        players
-          .filter(player => player != null)
-          .map(async (player) => {
-            try {
-              const status = await player.getStatusAsync();
-              if (status.isLoaded) {
-                await player.stopAsync();
-              }
-            } catch (error) {
-              console.warn('Error stopping player in restart:', error);
-            }
-          })
-      );
-      
-      // Reset states
-      setIsFinished(false);
-      setSeekPosition(0);
-      setTrackProgress({});
-      
-      // Reset all tracks to beginning
-      await Promise.all(
-        players
-          .filter(player => player != null)
-          .map(async (player) => {
-            try {
-              const status = await player.getStatusAsync();
-              if (status.isLoaded) {
-                await player.setPositionAsync(0);
-              }
-            } catch (error) {
-              console.warn('Error resetting player position:', error);
-            }
-          })
-      );
-      
-      // Start playback
-      const playPromises = players
-        .filter(player => player != null)
-        .map(async (player, index) => {
-          if (selectedSong.tracks && selectedSong.tracks[index] && activeTrackIds.includes(selectedSong.tracks[index].id)) {
-            try {
-              const status = await player.getStatusAsync();
-              if (status.isLoaded) {
-                await player.playAsync();
-              }
-            } catch (error) {
-              console.warn(`Error playing track ${selectedSong.tracks[index]?.name}:`, error);
-            }
-          }
-        });
-      await Promise.all(playPromises);
-      setIsPlaying(true);
-
-      // Sync with remote clients if admin
-      if (sessionId && isAdmin) {
-        const sessionRef = ref(database, `sessions/${sessionId}/state`);
-        await set(sessionRef, {
-          ...syncState,
-          isPlaying: true,
-          seekPosition: 0
-        });
+      if (playlistId) {
+        const { playlist, songs: savedSongs } = await playlistService.getPlaylistSongs(playlistId);
+        const resumedSongs = isSmartPlaylist(playlist)
+          ? getSmartPlaylistSongs(playlist.smart, accessibleSongs, favoriteSongs, songPlays)
+          : savedSongs;
+        // The player carries on from the queue's song, with its shuffle order and history
+        autoStartPlayerSongRef.current = true;
+        await playlistPlayer.resumePlaylist(playlist, resumedSongs);
+        const resumedSong = playlistPlayer.getCurrentSong();
+        if (!resumedSong) return;
+        setCurrentPlaylist(playlist);
+        setPlaylistSongs(resumedSongs);
+        setIsPlaylistMode(true);
+        showPlayerSong(resumedSong, playlistPlayer.getState().currentSongIndex);
+      } else {
+        setShouldAutoStartFiltered(true);
+        handleSongSelect(song);
       }
     } catch (error) {
-      console.error('Error restarting playback:', error);
+      console.error('Error resuming play queue:', error);
+      Alert.alert('Error', 'Failed to resume the queue');
     }
   };
 
-  // Add handleStop function
-  const handleStop = async () => {
-    if (!isInitialized || !selectedSong) return;
-    
-    try {
-      // Stop all players
-      await Promise.all(
-        players
-          .filter(player => player != null)
-          .map(async (player) => {
-            try {
-              const status = await player.getStatusAsync();
-              if (status.isLoaded) {
-                await player.stopAsync();
-              }
-            } catch (error) {
-              console.warn('Error stopping player:', error);
-            }
-          })
-      );
-      
-      // Reset states
-      setIsFinished(false);
-      setIsPlaying(false);
-      setSeekPosition(0);
-      setTrackProgress({});
-      
-      // Reset all tracks to beginning
-      await Promise.all(
-        players
-          .filter(player => player != null)
-          .map(async (player) => {
-            try {
-              const status = await player.getStatusAsync();
-              if (status.isLoaded) {
-                await player.setPositionAsync(0);
-              }
-            } catch (error) {
-              console.warn('Error resetting player position:', error);
-            }
-          })
-      );
+  const renderPlayQueueModal = () => {
+    const currentSong = playQueueService.getCurrentSong();
+    // What "next" plays: songs gone back past, songs the user queued, then the play order
+    const forward = playQueue ? playQueue.history.slice(playQueue.historyPosition + 1) : [];
+    const upcoming = playQueue ? [
+      ...forward.map(id => ({ id, queuedIndex: -1 })),
+      ...playQueue.upNext.map((id, index) => ({ id, queuedIndex: index })),
+      ...playQueue.order.slice(playQueue.orderPosition + 1).map(id => ({ id, queuedIndex: -1 })),
+    ].slice(0, 50) : [];
+    const canResume = !selectedSong && !!currentSong;
+
+    return (
+      <Modal
+        visible={showQueueModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        <SafeAreaView style={styles.playlistModalContainer}>
+          <View style={styles.playlistModalHeader}>
+            <TouchableOpacity onPress={() => setShowQueueModal(false)}>
+              <Text style={styles.playlistModalCancelText}>Close</Text>
+            </TouchableOpacity>
+            <Text style={styles.playlistModalTitle}>Play Queue</Text>
+            <TouchableOpacity style={{ width: 60, alignItems: 'flex-end' }} onPress={handleToggleShuffle}>
+              <Ionicons name="shuffle" size={24} color={isShuffled ? '#BB86FC' : '#BBBBBB'} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.playlistModalContent}>
+            {playQueue && currentSong ? (
+              <>
+                <Text style={styles.modalSubtitle}>Playing from {playQueue.context.name}</Text>
+                <View style={[styles.playlistSongItem, styles.playlistSongItemActive]}>
+                  <View style={styles.playlistSongInfo}>
+                    <Ionicons name="musical-note" size={20} color="#BB86FC" style={{ marginRight: 12 }} />
+                    <View style={styles.playlistSongDetails}>
+                      <Text style={[styles.playlistSongTitle, styles.playlistSongTitleActive]}>{currentSong.title}</Text>
+                      <Text style={styles.playlistSongArtist} numberOfLines={1} ellipsizeMode="tail">
+                        {currentSong.artist}
+                      </Text>
+                    </View>
+                  </View>
+                  {canResume && (
+                    <TouchableOpacity style={styles.iconButton} onPress={handleResumeQueue}>
+                      <Ionicons name="play" size={20} color="#BB86FC" />
+                    </TouchableOpacity>
+                  )}
+                </View>
+              </>
+            ) : (
+              <View style={styles.emptyPlaylists}>
+                <Ionicons name="list-outline" size={48} color="#BBBBBB" />
+                <Text style={styles.emptyPlaylistsText}>Nothing playing</Text>
+              </View>
+            )}
+
+            <FlatList
+              data={upcoming}
+              keyExtractor={(item, index) => `queue-song-${item.id}-${index}`}
+              renderItem={({ item, index }) => {
+                const song = playQueueService.getSong(item.id);
+                if (!song) return null;
+                return (
+                  <View style={styles.playlistSongItem}>
+                    <View style={styles.playlistSongInfo}>
+                      <Text style={styles.playlistSongNumber}>{index + 1}</Text>
+                      <View style={styles.playlistSongDetails}>
+                        <Text style={styles.playlistSongTitle}>{song.title}</Text>
+                        <Text style={styles.playlistSongArtist} numberOfLines={1} ellipsizeMode="tail">
+                          {item.queuedIndex >= 0 ? `Queued · ${song.artist}` : song.artist}
+                        </Text>
+                      </View>
+                    </View>
+                    {item.queuedIndex >= 0 && (
+                      <TouchableOpacity
+                        style={styles.iconButton}
+                        onPress={() => playlistPlayer.removeFromQueue(item.queuedIndex)}
+                      >
+                        <Ionicons name="close" size={20} color="#BBBBBB" />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                );
+              }}
+              showsVerticalScrollIndicator={false}
+            />
+          </View>
+        </SafeAreaView>
+      </Modal>
+    );
+  };
 
-      // Sync with remote clients if admin
-      if (sessionId && isAdmin) {
-        const sessionRef = ref(database, `sessions/${sessionId}/state`);
-        await set(sessionRef, {
-          ...syncState,
-          isPlaying: false,
-          seekPosition: 0
-        });
+  // Loop region functions
+  const handleSelectLoopRegion = async (region: LoopRegion | null) => {
+    if (!selectedSong) return;
+
+    setActiveLoopRegionId(region ? region.id : null);
+
+    try {
+      if (region) {
+        // Start from the count-in so the first pass has a lead-in
+        const startPosition = Math.max(0, region.start - (region.countIn || 0));
+        await handleSeek(selectedSong.tracks?.[0]?.id || '', startPosition);
+      }
+      if (user) {
+        await songStateService.setActiveLoopRegion(selectedSong.id, region ? region.id : null);
       }
     } catch (error) {
-      console.error('Error stopping playback:', error);
+      console.error('Error selecting loop region:', error);
     }
   };
 
-  // Add recording functions
-  const startRecording = async () => {
-    try {
-      await Audio.requestPermissionsAsync();
-      await Audio.setAudioModeAsync({
-        allowsRecordingIOS: true,
-        playsInSilentModeIOS: true,
-        staysActiveInBackground: true,
-        shouldDuckAndroid: true,
-      });
+  const handleSaveLoopRegion = async () => {
+    if (!selectedSong || !user || loopDraft.start === null || loopDraft.end === null) return;
 
-      console.log('Starting recording...');
-      const { recording } = await Audio.Recording.createAsync(
-        {
-          android: {
-            ...Audio.RecordingOptionsPresets.HIGH_QUALITY.android,
-            maxFileSize: 0, // No file size limit
-          },
-          ios: {
-            ...Audio.RecordingOptionsPresets.HIGH_QUALITY.ios,
-            outputFormat: Audio.RecordingOptionsPresets.HIGH_QUALITY.ios.outputFormat,
-            audioQuality: Audio.RecordingOptionsPresets.HIGH_QUALITY.ios.audioQuality,
-          },
-          web: {
-            mimeType: 'audio/webm',
-            bitsPerSecond: 128000,
-          },
-        },
-        (status) => {
-          console.log('Recording status update:', status);
-        },
-        1000 // Update interval in milliseconds
-      );
-      
-      console.log('Recording created successfully');
-      setRecording(recording);
-      setIsRecording(true);
+    if (loopDraft.end <= loopDraft.start) {
+      Alert.alert('Invalid Loop', 'The loop end (B) must be after the loop start (A).');
+      return;
+    }
 
-      // Start song playback if a song is selected and not already playing
-      if (selectedSong && !isPlaying) {
-        await startLocalPlayback();
-      }
+    try {
+      const region = await songStateService.saveLoopRegion(selectedSong.id, {
+        name: loopDraft.name || `Loop ${loopRegions.length + 1}`,
+        start: loopDraft.start,
+        end: loopDraft.end,
+        countIn: loopDraft.countIn
+      });
+      setLoopDraft({ name: '', start: null, end: null, countIn: 0 });
+      await handleSelectLoopRegion(region);
     } catch (error) {
-      console.error('Failed to start recording:', error);
-      Alert.alert('Error', 'Failed to start recording');
+      console.error('Error saving loop region:', error);
+      Alert.alert('Error', 'Failed to save loop region');
     }
   };
 
-  const stopRecording = async () => {
-    if (!recording) return;
+  const handleDeleteLoopRegion = async (region: LoopRegion) => {
+    if (!selectedSong || !user) return;
 
     try {
-      console.log('Stopping recording...');
-      await recording.stopAndUnloadAsync();
-      const uri = recording.getURI();
-      console.log('Recording URI:', uri);
-      
-      // Get the recording status to verify duration
-      const status = await recording.getStatusAsync();
-      console.log('Recording status:', status);
-      
-      setRecordedUri(uri);
-      setRecording(null);
-      setIsRecording(false);
-
-      // Stop song playback if it's playing
-      if (isPlaying) {
-        await stopLocalPlayback();
-      }
+      await songStateService.deleteLoopRegion(selectedSong.id, region.id);
     } catch (error) {
-      console.error('Failed to stop recording:', error);
-      Alert.alert('Error', 'Failed to stop recording');
+      console.error('Error deleting loop region:', error);
+      Alert.alert('Error', 'Failed to delete loop region');
     }
   };
 
-  const saveRecording = async () => {
-    if (!recordedUri || !selectedSong) return;
+  // Seek every stem to a time (marker, lyric line) and mirror it to the session
+  const handleSeekToTime = async (time: number) => {
+    if (!selectedSong?.tracks?.length) return;
 
-    try {
-      console.log('Saving recording from URI:', recordedUri);
-      
-      // Get file info to verify size and duration
-      const fileInfo = await FileSystem.getInfoAsync(recordedUri);
-      console.log('Recording file info:', fileInfo);
+    await handleSeek(selectedSong.tracks[0].id, time);
 
-      // Create a file object from the recorded URI
-      const response = await fetch(recordedUri);
-      const blob = await response.blob();
-      console.log('Recording blob size:', blob.size);
-      
-      const file = new File([blob], 'recording.mp3', { type: 'audio/mpeg' });
+    // Sync with remote clients if admin
+    await publishSessionSeek(time);
+  };
 
-      // Create a DocumentPickerAsset-like object
-      const recordingAsset = {
-        uri: recordedUri,
-        name: 'recording.mp3',
-        type: 'audio/mpeg',
-        size: blob.size,
-      };
+  // Section marker functions
+  const handleNextSection = async () => {
+    const marker = getNextMarker(selectedSong?.markers, seekPosition);
+    if (marker) {
+      await handleSeekToTime(marker.time);
+    }
+  };
 
-      // Create folder name from title
-      const folderName = selectedSong.title.toLowerCase().replace(/[^a-z0-9]/g, '_');
-      const filePath = `audio/${folderName}/${selectedSong.title} - ${recordingName}.mp3`;
-
-      console.log('Uploading recording to path:', filePath);
-      // Upload the recording
-      await AudioStorageService.getInstance().uploadAudioFile(recordingAsset, filePath);
-
-      // Add the new track to the song
-      const newTrack = {
-        id: generateId(),
-        name: recordingName,
-        path: filePath
-      };
+  const handlePreviousSection = async () => {
+    const marker = getPreviousMarker(selectedSong?.markers, seekPosition);
+    await handleSeekToTime(marker ? marker.time : 0);
+  };
 
-      // Update the song in Firebase
-      const songRef = ref(database, `songs/${selectedSong.id}`);
-      await set(songRef, {
-        ...selectedSong,
-        tracks: [...(selectedSong.tracks || []), newTrack]
-      });
+  const handleAddMarker = async () => {
+    if (!selectedSong || !isAdminMode || !markerDraft.label.trim()) return;
 
-      // Reset recording state
-      setRecordedUri(null);
-      setShowRecordingControls(false);
-      setRecordingName('Voice Recording');
+    const marker: SongMarker = {
+      id: Date.now().toString(),
+      label: markerDraft.label.trim(),
+      time: seekPosition,
+      color: markerDraft.color
+    };
 
-      // Reload the song to include the new track
-      const updatedSong = { ...selectedSong, tracks: [...(selectedSong.tracks || []), newTrack] };
-      setSelectedSong(updatedSong);
-      
-      console.log('Recording saved successfully');
+    try {
+      await updateSongInFirebase({ markers: sortMarkers([...(selectedSong.markers || []), marker]) });
+      setMarkerDraft({ label: '', color: markerDraft.color });
+      setShowMarkerModal(false);
     } catch (error) {
-      console.error('Failed to save recording:', error);
-      Alert.alert('Error', 'Failed to save recording');
+      console.error('Error adding marker:', error);
     }
   };
 
-  const cancelRecording = () => {
-    setRecordedUri(null);
-    setShowRecordingControls(false);
-    setRecordingName('Voice Recording');
+  const handleDeleteMarker = (marker: SongMarker) => {
+    if (!selectedSong || !isAdminMode) return;
+
+    Alert.alert(
+      'Delete Marker',
+      `Remove the "${marker.label}" marker?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await updateSongInFirebase({
+                markers: (selectedSong.markers || []).filter(m => m.id !== marker.id)
+              });
+            } catch (error) {
+              console.error('Error deleting marker:', error);
+            }
+          }
+        }
+      ]
+    );
   };
 
-  // Add recording controls to the UI
-  const renderRecordingControls = () => {
-    if (!showRecordingControls) return null;
+  const renderMarkerLane = () => {
+    if (!selectedSong?.tracks?.length) return null;
+
+    const markers = sortMarkers(selectedSong.markers);
+    if (markers.length === 0 && !isAdminMode) return null;
+
+    const duration = multitrackEngine.getDuration();
+    const currentMarker = getCurrentMarker(markers, seekPosition);
 
     return (
-      <View style={styles.recordingControls}>
-        {!isRecording && !recordedUri && (
-          <TouchableOpacity
-            style={[styles.controlButton, styles.recordButton]}
-            onPress={startRecording}
-          >
-            <Ionicons name="mic" size={32} color="#FF5252" />
+      <View style={styles.markerLaneContainer}>
+        <TouchableOpacity style={styles.markerNavButton} onPress={handlePreviousSection}>
+          <Ionicons name="play-skip-back-outline" size={16} color="#BBBBBB" />
+        </TouchableOpacity>
+        <View style={styles.markerLane}>
+          {duration > 0 && markers.map(marker => {
+            const isCurrent = currentMarker?.id === marker.id;
+            const color = marker.color || MARKER_COLORS[0];
+            return (
+              <TouchableOpacity
+                key={`marker-${marker.id}`}
+                style={[
+                  styles.markerChip,
+                  { left: `${Math.min(100, (marker.time / duration) * 100)}%`, borderColor: color },
+                  isCurrent && { backgroundColor: color }
+                ]}
+                onPress={() => handleSeekToTime(marker.time)}
+                onLongPress={() => handleDeleteMarker(marker)}
+              >
+                <Text
+                  style={[styles.markerChipText, { color: isCurrent ? '#121212' : color }]}
+                  numberOfLines={1}
+                >
+                  {marker.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <TouchableOpacity style={styles.markerNavButton} onPress={handleNextSection}>
+          <Ionicons name="play-skip-forward-outline" size={16} color="#BBBBBB" />
+        </TouchableOpacity>
+        {isAdminMode && (
+          <TouchableOpacity style={styles.markerNavButton} onPress={() => setShowMarkerModal(true)}>
+            <Ionicons name="bookmark-outline" size={16} color="#BB86FC" />
           </TouchableOpacity>
         )}
-        {isRecording && (
+      </View>
+    );
+  };
+
+  const renderMarkerModal = () => (
+    <Modal
+      visible={showMarkerModal}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={() => setShowMarkerModal(false)}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Add Marker</Text>
+            <TouchableOpacity
+              style={styles.modalCloseButton}
+              onPress={() => setShowMarkerModal(false)}
+            >
+              <Ionicons name="close" size={24} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.modalSubtitle}>
+            Mark a section of "{selectedSong?.title}" at {formatTime(seekPosition)}
+          </Text>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Label</Text>
+            <TextInput
+              style={styles.textInput}
+              value={markerDraft.label}
+              onChangeText={(text) => setMarkerDraft({ ...markerDraft, label: text })}
+              placeholder="Section or rehearsal letter (e.g. Chorus, B)"
+              placeholderTextColor="#666666"
+              autoFocus
+            />
+            <View style={styles.markerColorRow}>
+              {MARKER_COLORS.map(color => (
+                <TouchableOpacity
+                  key={`marker-color-${color}`}
+                  style={[
+                    styles.markerColorSwatch,
+                    { backgroundColor: color },
+                    markerDraft.color === color && styles.markerColorSwatchSelected
+                  ]}
+                  onPress={() => setMarkerDraft({ ...markerDraft, color })}
+                />
+              ))}
+            </View>
+          </View>
+
           <TouchableOpacity
-            style={[styles.controlButton, styles.stopButton]}
-            onPress={stopRecording}
+            style={[styles.createButton, !markerDraft.label.trim() && styles.createButtonDisabled]}
+            onPress={handleAddMarker}
+            disabled={!markerDraft.label.trim()}
           >
-            <Ionicons name="stop-circle" size={32} color="#FF5252" />
+            <Text style={styles.createButtonText}>Add Marker</Text>
           </TouchableOpacity>
-        )}
-        {recordedUri && (
-          <View style={styles.recordingActions}>
-            <TextInput
-              style={styles.recordingNameInput}
-              placeholder="Enter recording name"
-              placeholderTextColor="#666666"
-              value={recordingName}
-              onChangeText={setRecordingName}
+        </View>
+      </View>
+    </Modal>
+  );
+
+  const renderLoopRegionsModal = () => {
+    const countInOptions = [0, 1, 2, 4];
+
+    return (
+      <Modal
+        visible={showLoopRegionsModal}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setShowLoopRegionsModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Loop Regions</Text>
+              <TouchableOpacity
+                style={styles.modalCloseButton}
+                onPress={() => setShowLoopRegionsModal(false)}
+              >
+                <Ionicons name="close" size={24} color="#FFFFFF" />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.modalSubtitle}>
+              Repeat a passage of "{selectedSong?.title}" across all tracks
+            </Text>
+
+            <FlatList
+              data={loopRegions}
+              keyExtractor={(item) => `loop-${item.id}`}
+              style={{ maxHeight: 240 }}
+              renderItem={({ item }) => (
+                <TouchableOpacity
+                  style={[styles.playlistItem, item.id === activeLoopRegionId && styles.loopRegionItemActive]}
+                  onPress={() => handleSelectLoopRegion(item.id === activeLoopRegionId ? null : item)}
+                >
+                  <View style={styles.playlistItemContent}>
+                    <Ionicons
+                      name={item.id === activeLoopRegionId ? 'infinite' : 'infinite-outline'}
+                      size={20}
+                      color="#BB86FC"
+                    />
+                    <View style={styles.playlistItemText}>
+                      <Text style={styles.playlistItemName}>{item.name}</Text>
+                      <Text style={styles.playlistItemInfo}>
+                        {formatTime(item.start)} - {formatTime(item.end)}
+                        {item.countIn ? ` · ${item.countIn}s count-in` : ''}
+                      </Text>
+                    </View>
+                  </View>
+                  <TouchableOpacity
+                    style={styles.iconButton}
+                    onPress={() => handleDeleteLoopRegion(item)}
+                  >
+                    <Ionicons name="trash-outline" size={20} color="#FF5252" />
+                  </TouchableOpacity>
+                </TouchableOpacity>
+              )}
+              ListEmptyComponent={
+                <View style={styles.emptyPlaylists}>
+                  <Ionicons name="infinite-outline" size={48} color="#BBBBBB" />
+                  <Text style={styles.emptyPlaylistsText}>No loop regions yet</Text>
+                </View>
+              }
             />
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>New Loop</Text>
+              <TextInput
+                style={styles.textInput}
+                value={loopDraft.name}
+                onChangeText={(text) => setLoopDraft({ ...loopDraft, name: text })}
+                placeholder="Loop name (e.g. Chorus)"
+                placeholderTextColor="#666666"
+              />
+              <View style={styles.loopPointRow}>
+                <TouchableOpacity
+                  style={styles.loopPointButton}
+                  onPress={() => setLoopDraft({ ...loopDraft, start: seekPosition })}
+                >
+                  <Text style={styles.loopPointText}>
+                    A {loopDraft.start !== null ? formatTime(loopDraft.start) : '--:--'}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.loopPointButton}
+                  onPress={() => setLoopDraft({ ...loopDraft, end: seekPosition })}
+                >
+                  <Text style={styles.loopPointText}>
+                    B {loopDraft.end !== null ? formatTime(loopDraft.end) : '--:--'}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.loopPointButton}
+                  onPress={() => {
+                    const nextIndex = (countInOptions.indexOf(loopDraft.countIn) + 1) % countInOptions.length;
+                    setLoopDraft({ ...loopDraft, countIn: countInOptions[nextIndex] });
+                  }}
+                >
+                  <Text style={styles.loopPointText}>Count-in {loopDraft.countIn}s</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+
             <TouchableOpacity
-              style={[styles.controlButton, styles.saveButton]}
-              onPress={saveRecording}
-            >
-              <Ionicons name="save" size={32} color="#4CAF50" />
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={[styles.controlButton, styles.cancelButton]}
-              onPress={cancelRecording}
+              style={[
+                styles.createButton,
+                (loopDraft.start === null || loopDraft.end === null) && styles.createButtonDisabled
+              ]}
+              onPress={handleSaveLoopRegion}
+              disabled={loopDraft.start === null || loopDraft.end === null}
             >
-              <Ionicons name="close-circle" size={32} color="#FF5252" />
+              <Text style={styles.createButtonText}>Save Loop</Text>
             </TouchableOpacity>
           </View>
-        )}
-      </View>
+        </View>
+      </Modal>
     );
   };
 
-  // Toggle repeat mode function
-  const handleToggleRepeatMode = () => {
-    if (repeatMode === 'none') {
-      setRepeatMode('track');
-      setIsRepeat(true);
-      setIsFilteredRepeating(false);
-      setIsPlaylistRepeating(false);
-    } else if (repeatMode === 'track') {
-      setRepeatMode('list');
-      setIsRepeat(false);
-      setIsFilteredRepeating(true);
-      setIsPlaylistRepeating(true);
-    } else {
-      setRepeatMode('none');
-      setIsRepeat(false);
-      setIsFilteredRepeating(false);
-      setIsPlaylistRepeating(false);
-    }
-  };
-
   // Add playback controls to the UI
   const renderPlaybackControls = () => (
     <View style={styles.playbackControlsContainer}>
@@ -7789,12 +10283,48 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
                 } 
               />
             </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.controlButton, styles.smallButton]}
+              onPress={handleToggleShuffle}
+            >
+              <Ionicons name="shuffle" size={20} color={isShuffled ? '#BB86FC' : '#BBBBBB'} />
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.controlButton, styles.smallButton]}
+              onPress={() => setShowQueueModal(true)}
+            >
+              <Ionicons name="list" size={20} color={playQueue?.upNext.length ? '#BB86FC' : '#BBBBBB'} />
+            </TouchableOpacity>
+
+            {user && (
+              <TouchableOpacity
+                style={[styles.controlButton, styles.smallButton]}
+                onPress={() => setShowLoopRegionsModal(true)}
+              >
+                <Ionicons
+                  name={activeLoopRegionId ? 'infinite' : 'infinite-outline'}
+                  size={20}
+                  color={activeLoopRegionId ? '#BB86FC' : '#BBBBBB'}
+                />
+              </TouchableOpacity>
+            )}
           </>
         )}
 
         {/* Playlist Controls */}
       </View>
       {renderRecordingControls()}
+      {renderLoopRegionsModal()}
+      {renderTakesModal()}
+      {renderMarkerModal()}
+      {renderMixPresetsModal()}
+      {renderTrackToneModal()}
+      {renderBusModal()}
+      {renderTrackMetadataModal()}
+      {renderPitchShiftModal()}
+      {renderTempoModal()}
       
       {/* Add to Playlist Modal */}
       <Modal
@@ -7955,14 +10485,14 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     
     try {
       setPlaybackSpeed(speed);
-      await Promise.all(players.map(player => player.setRateAsync(speed, true)));
+      await multitrackEngine.setRate(speed);
       
-      // Sync with remote clients if admin
-      if (sessionId && isAdmin) {
-        const sessionRef = ref(database, `sessions/${sessionId}/state`);
-        await set(sessionRef, {
-          ...syncState,
-          playbackSpeed: speed
+      // Sync with remote clients if admin, re-anchoring so positions extrapolate at the new speed
+      if (sessionSync && isAdmin) {
+        await sessionSync.publish({
+          playbackSpeed: speed,
+          seekPosition: multitrackEngine.getPosition(),
+          startAt: isPlaying ? Math.round(sessionSync.getServerTime()) : null
         });
       }
     } catch (error) {
@@ -7970,6 +10500,366 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     }
   };
 
+  const handlePitchShiftChange = async (semitones: number, remember: boolean = true) => {
+    if (!isInitialized || !selectedSong) return;
+
+    const shift = Math.max(-MAX_PITCH_SHIFT, Math.min(MAX_PITCH_SHIFT, semitones));
+
+    try {
+      // Refused while some stem has no rendering in this key, so the mix never plays in two keys
+      const unrenderedTrackIds = await multitrackEngine.setPitchShift(shift);
+      if (unrenderedTrackIds.length > 0) {
+        setPitchShift(multitrackEngine.getPitchShift());
+        if (remember) {
+          const names = (selectedSong.tracks || [])
+            .filter(track => unrenderedTrackIds.includes(track.id))
+            .map(track => track.name)
+            .join(', ');
+          Alert.alert('Key Shift', `This key is not available until every track has been rendered in it. Missing: ${names}`);
+        }
+        return;
+      }
+      setPitchShift(shift);
+
+      if (remember && user) {
+        await songStateService.savePitchShift(selectedSong.id, shift);
+      }
+
+      // Sync with remote clients if admin
+      if (sessionSync && isAdmin) {
+        await sessionSync.publish({ pitchShift: shift });
+      }
+    } catch (error) {
+      console.error('Error changing pitch shift:', error);
+    }
+  };
+
+  // Metronome functions
+  const handleCountInChange = async () => {
+    if (!selectedSong) return;
+
+    const options = [0, 1, 2];
+    const nextBars = options[(options.indexOf(countInBars) + 1) % options.length];
+    setCountInBars(nextBars);
+
+    if (user) {
+      try {
+        await songStateService.saveCountInBars(selectedSong.id, nextBars);
+      } catch (error) {
+        console.error('Error saving count-in:', error);
+      }
+    }
+  };
+
+  const openTempoModal = () => {
+    if (!selectedSong) return;
+
+    setTempoDraft({
+      bpm: selectedSong.bpm ? String(selectedSong.bpm) : '',
+      timeSignature: formatTimeSignature(selectedSong.timeSignature),
+      firstDownbeat: selectedSong.firstDownbeat || 0,
+      tempoMap: [...(selectedSong.tempoMap || [])].sort((a, b) => a.time - b.time),
+      changeBpm: '',
+      changeTimeSignature: ''
+    });
+    setShowTempoModal(true);
+  };
+
+  const handleAddTempoChange = () => {
+    const bpm = parseFloat(tempoDraft.changeBpm);
+    const timeSignature = tempoDraft.changeTimeSignature.trim()
+      ? parseTimeSignature(tempoDraft.changeTimeSignature)
+      : undefined;
+
+    if (!(bpm > 0) || timeSignature === null) {
+      Alert.alert('Invalid Tempo Change', 'Enter a BPM and, optionally, a time signature such as 6/8.');
+      return;
+    }
+
+    const change: TempoChange = { time: seekPosition, bpm };
+    if (timeSignature) {
+      change.timeSignature = timeSignature;
+    }
+
+    setTempoDraft({
+      ...tempoDraft,
+      tempoMap: [...tempoDraft.tempoMap.filter(c => Math.abs(c.time - seekPosition) > 0.01), change]
+        .sort((a, b) => a.time - b.time),
+      changeBpm: '',
+      changeTimeSignature: ''
+    });
+  };
+
+  const handleSaveTempo = async () => {
+    const bpm = parseFloat(tempoDraft.bpm);
+    const timeSignature = parseTimeSignature(tempoDraft.timeSignature);
+
+    if (tempoDraft.bpm.trim() && (!(bpm > 0) || !timeSignature)) {
+      Alert.alert('Invalid Tempo', 'Enter a BPM greater than 0 and a time signature such as 4/4.');
+      return;
+    }
+
+    try {
+      // Clearing the BPM removes the tempo (and the click) from the song
+      await updateSongInFirebase(tempoDraft.bpm.trim() ? {
+        bpm,
+        timeSignature: timeSignature!,
+        firstDownbeat: tempoDraft.firstDownbeat || undefined,
+        tempoMap: tempoDraft.tempoMap.length > 0 ? tempoDraft.tempoMap : undefined
+      } : {
+        bpm: undefined,
+        timeSignature: undefined,
+        firstDownbeat: undefined,
+        tempoMap: undefined
+      });
+      setShowTempoModal(false);
+    } catch (error) {
+      console.error('Error saving tempo:', error);
+    }
+  };
+
+  const renderMetronomeTrack = () => {
+    if (!selectedSong) return null;
+
+    if (!hasTempo(selectedSong)) {
+      return isAdminMode ? (
+        <TouchableOpacity style={styles.addButton} onPress={openTempoModal}>
+          <Ionicons name="timer-outline" size={24} color="#BB86FC" />
+          <Text style={styles.addButtonText}>Add Tempo</Text>
+        </TouchableOpacity>
+      ) : null;
+    }
+
+    const trackId = METRONOME_TRACK_ID;
+    const isLoading = !isClickLoaded;
+
+    return (
+      <View style={[styles.trackContainer, isLandscape && styles.trackContainerLandscape]}>
+        <View style={styles.trackInfo}>
+          <Text style={styles.trackName}>
+            {METRONOME_TRACK.name} · {selectedSong.bpm} BPM · {formatTimeSignature(selectedSong.timeSignature)}
+            {selectedSong.tempoMap?.length ? ' · tempo map' : ''}
+          </Text>
+          <View style={styles.trackControls}>
+            <TouchableOpacity style={styles.trackToggleButton} onPress={handleCountInChange}>
+              <Text style={[styles.trackButtonText, countInBars > 0 && styles.soloActiveText]}>
+                {countInBars > 0 ? `${countInBars} bar${countInBars > 1 ? 's' : ''} in` : 'No count-in'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.trackToggleButton, soloedTrackIds.includes(trackId) && styles.soloActiveButton]}
+              onPress={() => toggleSolo(trackId)}
+              disabled={isLoading}
+            >
+              <Text style={[styles.trackButtonText, soloedTrackIds.includes(trackId) && styles.soloActiveText]}>S</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.trackToggleButton, !activeTrackIds.includes(trackId) && styles.muteActiveButton]}
+              onPress={() => toggleTrack(trackId)}
+              disabled={isLoading}
+            >
+              <Text style={[styles.trackButtonText, !activeTrackIds.includes(trackId) && styles.muteActiveText]}>M</Text>
+            </TouchableOpacity>
+            {isAdminMode && (
+              <TouchableOpacity style={styles.iconButton} onPress={openTempoModal}>
+                <Ionicons name="create-outline" size={20} color="#BB86FC" />
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+        <View style={styles.volumeContainer}>
+          <Ionicons name={isLoading ? 'hourglass-outline' : 'timer-outline'} size={20} color="#BBBBBB" />
+          <PlatformSlider
+            style={styles.volumeSlider}
+            minimumValue={0}
+            maximumValue={1}
+            value={trackVolumes[trackId] || 1}
+            onValueChange={(value) => handleVolumeChange(trackId, value)}
+            minimumTrackTintColor="#BB86FC"
+            maximumTrackTintColor="#2C2C2C"
+            disabled={isLoading}
+          />
+        </View>
+      </View>
+    );
+  };
+
+  const renderTempoModal = () => (
+    <Modal
+      visible={showTempoModal}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={() => setShowTempoModal(false)}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Tempo</Text>
+            <TouchableOpacity
+              style={styles.modalCloseButton}
+              onPress={() => setShowTempoModal(false)}
+            >
+              <Ionicons name="close" size={24} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.modalSubtitle}>
+            Tempo and meter of "{selectedSong?.title}" for the click track
+          </Text>
+
+          <View style={styles.inputGroup}>
+            <View style={styles.loopPointRow}>
+              <TextInput
+                style={[styles.textInput, { flex: 1 }]}
+                value={tempoDraft.bpm}
+                onChangeText={(text) => setTempoDraft({ ...tempoDraft, bpm: text })}
+                placeholder="BPM"
+                placeholderTextColor="#666666"
+                keyboardType="numeric"
+              />
+              <TextInput
+                style={[styles.textInput, { flex: 1 }]}
+                value={tempoDraft.timeSignature}
+                onChangeText={(text) => setTempoDraft({ ...tempoDraft, timeSignature: text })}
+                placeholder="4/4"
+                placeholderTextColor="#666666"
+              />
+            </View>
+            <View style={styles.loopPointRow}>
+              <TouchableOpacity
+                style={styles.loopPointButton}
+                onPress={() => setTempoDraft({ ...tempoDraft, firstDownbeat: seekPosition })}
+              >
+                <Text style={styles.loopPointText}>
+                  First downbeat {formatTime(tempoDraft.firstDownbeat)}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <FlatList
+            data={tempoDraft.tempoMap}
+            keyExtractor={(item) => `tempo-${item.time}`}
+            style={{ maxHeight: 160 }}
+            renderItem={({ item }) => (
+              <View style={styles.playlistItem}>
+                <View style={styles.playlistItemContent}>
+                  <Ionicons name="timer-outline" size={20} color="#BB86FC" />
+                  <View style={styles.playlistItemText}>
+                    <Text style={styles.playlistItemName}>
+                      {item.bpm} BPM{item.timeSignature ? ` · ${formatTimeSignature(item.timeSignature)}` : ''}
+                    </Text>
+                    <Text style={styles.playlistItemInfo}>from {formatTime(item.time)}</Text>
+                  </View>
+                </View>
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => setTempoDraft({
+                    ...tempoDraft,
+                    tempoMap: tempoDraft.tempoMap.filter(change => change !== item)
+                  })}
+                >
+                  <Ionicons name="trash-outline" size={20} color="#FF5252" />
+                </TouchableOpacity>
+              </View>
+            )}
+          />
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Tempo Change at {formatTime(seekPosition)}</Text>
+            <View style={styles.loopPointRow}>
+              <TextInput
+                style={[styles.textInput, { flex: 1 }]}
+                value={tempoDraft.changeBpm}
+                onChangeText={(text) => setTempoDraft({ ...tempoDraft, changeBpm: text })}
+                placeholder="BPM"
+                placeholderTextColor="#666666"
+                keyboardType="numeric"
+              />
+              <TextInput
+                style={[styles.textInput, { flex: 1 }]}
+                value={tempoDraft.changeTimeSignature}
+                onChangeText={(text) => setTempoDraft({ ...tempoDraft, changeTimeSignature: text })}
+                placeholder="Meter (optional)"
+                placeholderTextColor="#666666"
+              />
+              <TouchableOpacity style={styles.loopPointButton} onPress={handleAddTempoChange}>
+                <Ionicons name="add" size={20} color="#BB86FC" />
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <TouchableOpacity style={styles.createButton} onPress={handleSaveTempo}>
+            <Text style={styles.createButtonText}>Save Tempo</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+
+  const renderPitchShiftModal = () => {
+    const hasPitchVariants = (selectedSong?.tracks || []).some(track =>
+      track.pitchVariants && Object.keys(track.pitchVariants).length > 0
+    );
+
+    return (
+      <Modal
+        visible={showPitchShiftModal}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setShowPitchShiftModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Key Shift</Text>
+              <TouchableOpacity
+                style={styles.modalCloseButton}
+                onPress={() => setShowPitchShiftModal(false)}
+              >
+                <Ionicons name="close" size={24} color="#FFFFFF" />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.modalSubtitle}>
+              {hasPitchVariants
+                ? `Transpose every track of "${selectedSong?.title}" without changing the tempo`
+                : `Key shifting isn't available for "${selectedSong?.title}" yet`}
+            </Text>
+
+            <View style={styles.pitchShiftRow}>
+              <TouchableOpacity
+                style={styles.loopPointButton}
+                onPress={() => handlePitchShiftChange(pitchShift - 1)}
+                disabled={!hasPitchVariants || pitchShift <= -MAX_PITCH_SHIFT}
+              >
+                <Ionicons name="remove" size={24} color="#BB86FC" />
+              </TouchableOpacity>
+              <Text style={styles.pitchShiftValue}>
+                {pitchShift > 0 ? `+${pitchShift}` : pitchShift}
+              </Text>
+              <TouchableOpacity
+                style={styles.loopPointButton}
+                onPress={() => handlePitchShiftChange(pitchShift + 1)}
+                disabled={!hasPitchVariants || pitchShift >= MAX_PITCH_SHIFT}
+              >
+                <Ionicons name="add" size={24} color="#BB86FC" />
+              </TouchableOpacity>
+            </View>
+
+            <TouchableOpacity
+              style={[styles.createButton, pitchShift === 0 && styles.createButtonDisabled]}
+              onPress={() => handlePitchShiftChange(0)}
+              disabled={pitchShift === 0}
+            >
+              <Text style={styles.createButtonText}>Original Key</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    );
+  };
+
   // Add function to toggle lyrics expansion
   const toggleLyricsExpansion = (songId: string) => {
     setExpandedLyricsIds(prev => {
@@ -7983,27 +10873,38 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     });
   };
 
+  // Make sure the queue plays the song list and is at this song, e.g. after a song
+  // was picked from the list or the filters changed. The playlist player keeps a playlist's queue.
+  const syncPlayQueue = (song: Song) => {
+    if (!playQueueService.isPlaying()) {
+      playQueueService.start({ name: 'Library' }, filteredSongs, song);
+    } else if (playQueueService.getCurrentSong()?.id !== song.id) {
+      playQueueService.jumpTo(song);
+    }
+  };
+
+  // Load the song the queue moved to; it may have been queued from outside the song list
+  const goToQueuedSong = (song: Song, autoStart: boolean) => {
+    setCurrentFilteredIndex(filteredSongs.findIndex(s => s.id === song.id));
+    setShouldAutoStartFiltered(autoStart);
+    setSelectedSong(song);
+    setIsFinished(false);
+    // Stop current playback and progress tracking
+    setIsPlaying(false);
+    // Reset initialization state for new song
+    setIsInitialized(false);
+    // Small delay to ensure proper cleanup before loading new song
+    setTimeout(() => {
+      handleSongSelect(song);
+    }, 100);
+  };
+
   // Playlist control functions
   const handlePreviousSong = async () => {
-    if (currentPlaylist && playlistSongs.length > 0) {
+    if (currentPlaylist && playlistSongs.length > 0 && selectedSong) {
       try {
-        const newIndex = currentPlaylistIndex > 0 ? currentPlaylistIndex - 1 : playlistSongs.length - 1;
-        const previousSong = playlistSongs[newIndex];
-        
-        if (previousSong) {
-          setCurrentPlaylistIndex(newIndex);
-          setSelectedSong(previousSong);
-          setIsFinished(false);
-          // Stop current playback and progress tracking
-          setIsPlaying(false);
-          // Reset initialization state for new song
-          setIsInitialized(false);
-          setLastAutoStartedSong(null); // Reset auto-start tracking for new song
-          // Small delay to ensure proper cleanup before loading new song
-          setTimeout(() => {
-            handleSongSelect(previousSong);
-          }, 100);
-        }
+        startPlayerSongOnChange();
+        await playlistPlayer.previous();
       } catch (error) {
         console.error('Error going to previous song:', error);
         Alert.alert('Error', 'Failed to go to previous song');
@@ -8012,25 +10913,11 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
   };
 
   const handleNextSong = async () => {
-    if (currentPlaylist && playlistSongs.length > 0) {
+    if (currentPlaylist && playlistSongs.length > 0 && selectedSong) {
       try {
-        const newIndex = currentPlaylistIndex < playlistSongs.length - 1 ? currentPlaylistIndex + 1 : 0;
-        const nextSong = playlistSongs[newIndex];
-        
-        if (nextSong) {
-          setCurrentPlaylistIndex(newIndex);
-          setSelectedSong(nextSong);
-          setIsFinished(false);
-          // Stop current playback and progress tracking
-          setIsPlaying(false);
-          // Reset initialization state for new song
-          setIsInitialized(false);
-          setLastAutoStartedSong(null); // Reset auto-start tracking for new song
-          // Small delay to ensure proper cleanup before loading new song
-          setTimeout(() => {
-            handleSongSelect(nextSong);
-          }, 100);
-        }
+        // Skipping past the last song starts the playlist over
+        startPlayerSongOnChange();
+        await playlistPlayer.next();
       } catch (error) {
         console.error('Error going to next song:', error);
         Alert.alert('Error', 'Failed to go to next song');
@@ -8044,23 +10931,12 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
 
   // Filtered songs navigation functions
   const handlePreviousFilteredSong = async () => {
-    if (filteredSongs.length > 0 && currentFilteredIndex >= 0) {
+    if (selectedSong) {
       try {
-        const newIndex = currentFilteredIndex > 0 ? currentFilteredIndex - 1 : filteredSongs.length - 1;
-        const previousSong = filteredSongs[newIndex];
-        
+        syncPlayQueue(selectedSong);
+        const previousSong = playQueueService.previous();
         if (previousSong) {
-          setCurrentFilteredIndex(newIndex);
-          setSelectedSong(previousSong);
-          setIsFinished(false);
-          // Stop current playback and progress tracking
-          setIsPlaying(false);
-          // Reset initialization state for new song
-          setIsInitialized(false);
-          // Small delay to ensure proper cleanup before loading new song
-          setTimeout(() => {
-            handleSongSelect(previousSong);
-          }, 100);
+          goToQueuedSong(previousSong, false);
         }
       } catch (error) {
         console.error('Error going to previous filtered song:', error);
@@ -8070,30 +10946,13 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
   };
 
   const handleNextFilteredSong = async () => {
-    if (filteredSongs.length > 0 && currentFilteredIndex >= 0) {
+    if (selectedSong) {
       try {
-        let newIndex = currentFilteredIndex < filteredSongs.length - 1 ? currentFilteredIndex + 1 : 0;
-        
-        // If repeating is enabled and we're at the end, restart from beginning
-        if (newIndex === 0 && currentFilteredIndex === filteredSongs.length - 1 && !isFilteredRepeating) {
-          // Don't loop if repeat is not enabled
-          return;
-        }
-        
-        const nextSong = filteredSongs[newIndex];
-        
+        syncPlayQueue(selectedSong);
+        // Don't loop if repeat is not enabled
+        const nextSong = playQueueService.next(isFilteredRepeating);
         if (nextSong) {
-          setCurrentFilteredIndex(newIndex);
-          setSelectedSong(nextSong);
-          setIsFinished(false);
-          // Stop current playback and progress tracking
-          setIsPlaying(false);
-          // Reset initialization state for new song
-          setIsInitialized(false);
-          // Small delay to ensure proper cleanup before loading new song
-          setTimeout(() => {
-            handleSongSelect(nextSong);
-          }, 100);
+          goToQueuedSong(nextSong, false);
         }
       } catch (error) {
         console.error('Error going to next filtered song:', error);
@@ -8113,6 +10972,7 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
       
       // Stop current playback
       await stopLocalPlayback();
+      syncPlayQueue(targetSong);
       
       // Update filtered index
       setCurrentFilteredIndex(songIndex);
@@ -8173,27 +11033,13 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     }
 
     try {
-      const targetSong = playlistSongs[songIndex];
-      console.log('Jumping to song:', targetSong.title, 'at index:', songIndex);
-      
-      // Stop current playback
-      await stopLocalPlayback();
-      
-      // Update playlist state
-      setCurrentPlaylistIndex(songIndex);
-      setSelectedSong(targetSong);
-      setIsFinished(false);
-      setIsPlaying(false);
-      setIsInitialized(false);
-      setLastAutoStartedSong(null);
-      
+      console.log('Jumping to song:', playlistSongs[songIndex].title, 'at index:', songIndex);
+
       // Close modal
       setShowPlaylistSongsModal(false);
-      
-      // Small delay to ensure proper cleanup before loading new song
-      setTimeout(() => {
-        handleSongSelect(targetSong);
-      }, 100);
+
+      startPlayerSongOnChange();
+      await playlistPlayer.goToSong(songIndex);
     } catch (error) {
       console.error('Error jumping to song:', error);
       Alert.alert('Error', 'Failed to jump to song');
@@ -8208,35 +11054,14 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
 
     console.log('Restarting playlist:', currentPlaylist.name);
     try {
-      // Stop current playback first to ensure a clean restart
+      // Stop current playback first, so the first song starts once it is loaded
       console.log('Stopping current playback...');
       await stopLocalPlayback();
 
-      // Reset to the first song in the playlist
-      const firstSong = playlistSongs[0];
-      console.log('Restarting with first song:', firstSong.title);
-      setCurrentPlaylistIndex(0);
-      setSelectedSong(firstSong);
-      setIsFinished(false);
-      setIsPlaying(false);
-      setIsInitialized(false);
-      setLastAutoStartedSong(null); // Reset auto-start tracking
-
-      // Small delay to ensure proper cleanup before loading new song
-      setTimeout(async () => {
-        console.log('Loading first song...');
-        handleSongSelect(firstSong);
-        // Auto-start playback after a short delay to ensure players are loaded
-        setTimeout(async () => {
-          try {
-            console.log('Auto-starting playback...');
-            await startLocalPlayback();
-            console.log('Playback started successfully');
-          } catch (error) {
-            console.error('Error auto-starting playlist restart playback:', error);
-          }
-        }, 500);
-      }, 100);
+      // Reset to the first song in the playlist
+      console.log('Restarting with first song:', playlistSongs[0].title);
+      autoStartPlayerSongRef.current = true;
+      await playlistPlayer.goToSong(0);
 
       Alert.alert('Playlist Restarted', 'Playing from the beginning.');
     } catch (error) {
@@ -8245,6 +11070,29 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     }
   };
 
+  // The setlist's plan for the current song, shown under the title
+  const renderSetlistOverrides = () => {
+    if (!isPlaylistMode || !isSetlist(currentPlaylist) || !selectedSong) return null;
+    const overrides = getPlaylistItem(currentPlaylist, selectedSong.id)?.overrides;
+    if (!overrides) return null;
+
+    const sectionLabels = sortMarkers(selectedSong.markers)
+      .filter(marker => overrides.sectionIds?.includes(marker.id))
+      .map(marker => marker.label);
+    const details = [
+      overrides.key && `Key ${overrides.key}`,
+      overrides.bpm && `${overrides.bpm} bpm`,
+      sectionLabels.length > 0 && sectionLabels.join(', '),
+      overrides.leader && `Led by ${overrides.leader}`
+    ].filter(Boolean);
+
+    return (
+      <Text style={styles.setlistOverridesText} numberOfLines={2}>
+        {details.join(' · ')}
+      </Text>
+    );
+  };
+
   const handleBackToPlaylists = () => {
     // Navigate directly to playlists view without stopping the playlist
     if (onNavigateToPlaylists) {
@@ -8256,6 +11104,7 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     try {
       // Stop current playback
       await stopLocalPlayback();
+      await playlistPlayer.closePlaylist();
       
       // Reset playlist state
       setIsPlaylistMode(false);
@@ -8284,8 +11133,15 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     if (!user) return;
     
     try {
-      const playlists = await playlistService.getUserPlaylists(user.id);
-      setUserPlaylists(playlists);
+      // Playlists shared with the user as an editor take songs too; smart playlists pick their own
+      const [playlists, sharedPlaylists] = await Promise.all([
+        playlistService.getUserPlaylists(user.id),
+        playlistService.getSharedPlaylists(user.id, userGroups)
+      ]);
+      setUserPlaylists([
+        ...playlists,
+        ...sharedPlaylists.filter(playlist => canEditPlaylist(getPlaylistAccess(playlist, user.id, userGroups)))
+      ].filter(playlist => !isSmartPlaylist(playlist)));
     } catch (error) {
       console.error('Error loading playlists:', error);
       Alert.alert('Error', 'Failed to load playlists');
@@ -8314,6 +11170,23 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
     setShowAddToPlaylistModal(true);
   };
 
+  const handleCreateSmartPlaylist = async (rules: SmartPlaylistRules, name: string) => {
+    if (!user) return;
+
+    try {
+      const createdPlaylist = await playlistService.createPlaylist(user.id, {
+        name,
+        isPublic: false,
+        smart: rules
+      });
+      setShowSmartPlaylistModal(false);
+      Alert.alert('Success', `Smart playlist "${createdPlaylist.name}" created. It updates as songs are added or change.`);
+    } catch (error) {
+      console.error('Error creating smart playlist:', error);
+      Alert.alert('Error', 'Failed to create smart playlist');
+    }
+  };
+
   const handleCreatePlaylistAndAddSong = async () => {
     if (!user || !selectedSong || !newPlaylist.name.trim()) {
       Alert.alert('Error', 'Please enter a playlist name');
@@ -8379,14 +11252,14 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
                 
                 <View style={styles.songHeaderText}>
                   {/* Song counter with navigation arrows in header */}
-                  {((isPlaylistMode && currentPlaylist) || (filteredSongs.length > 0 && currentFilteredIndex >= 0)) && (
+                  {((isPlaylistMode && currentPlaylist) || (filteredSongs.length > 0 && currentFilteredIndex >= 0) || !!playQueue?.upNext.length) && (
                     <View style={styles.headerCounterContainer}>
                       <TouchableOpacity
                         style={styles.headerArrowButton}
                         onPress={() => {
                           if (isPlaylistMode && currentPlaylist) {
                             handlePreviousSong();
-                          } else if (filteredSongs.length > 0 && currentFilteredIndex >= 0) {
+                          } else {
                             handlePreviousFilteredSong();
                           }
                         }}
@@ -8403,9 +11276,11 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
                         }}
                       >
                         <Text style={styles.headerSongCounter}>
-                          {isPlaylistMode && currentPlaylist 
-                            ? `${currentPlaylistIndex + 1} of ${playlistSongs.length}`
-                            : `${currentFilteredIndex + 1} of ${filteredSongs.length}`
+                          {(isPlaylistMode && currentPlaylist ? currentPlaylistIndex : currentFilteredIndex) < 0
+                            ? 'Queued'
+                            : isPlaylistMode && currentPlaylist
+                              ? `${currentPlaylistIndex + 1} of ${playlistSongs.length}`
+                              : `${currentFilteredIndex + 1} of ${filteredSongs.length}`
                           }
                         </Text>
                       </TouchableOpacity>
@@ -8414,7 +11289,7 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
                         onPress={() => {
                           if (isPlaylistMode && currentPlaylist) {
                             handleNextSong();
-                          } else if (filteredSongs.length > 0 && currentFilteredIndex >= 0) {
+                          } else {
                             handleNextFilteredSong();
                           }
                         }}
@@ -8437,6 +11312,7 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
                       style={[styles.album, { textAlign: 'center' }]}
                     />
                   )}
+                  {renderSetlistOverrides()}
                 </View>
                 
                 <View style={styles.headerRightContainer}>
@@ -8476,13 +11352,7 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
                       await handleSeek(selectedSong.tracks![0].id, value);
                       
                       // Sync with remote clients if admin
-                      if (sessionId && isAdmin) {
-                        const sessionRef = ref(database, `sessions/${sessionId}/state`);
-                        await set(sessionRef, {
-                          ...syncState,
-                          seekPosition: value
-                        });
-                      }
+                      await publishSessionSeek(value);
                     }}
                     onValueChange={(value: number) => {
                       setSeekPosition(value);
@@ -8509,9 +11379,23 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
                         </Text>
                       </TouchableOpacity>
                     )}
+                    {selectedSong && (
+                      <TouchableOpacity
+                        style={[styles.speedButton, pitchShift !== 0 && styles.speedButtonActive]}
+                        onPress={() => setShowPitchShiftModal(true)}
+                      >
+                        <Text style={[styles.speedText, { color: pitchShift !== 0 ? '#BB86FC' : '#BBBBBB' }]}>
+                          {pitchShift > 0 ? `♯+${pitchShift}` : pitchShift < 0 ? `♭${pitchShift}` : '♮'}
+                        </Text>
+                      </TouchableOpacity>
+                    )}
                   </View>
                 </View>
               )}
+
+            {activeView === 'tracks' && renderMarkerLane()}
+            {activeView === 'tracks' && renderSuggestedMixBanner()}
+            {activeView === 'tracks' && renderMixPresetBar()}
             
             <View style={[styles.mainContent, { paddingBottom: insets.bottom }]}>
               {renderSongView()}
@@ -8582,6 +11466,7 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
       {showJoinDialog && renderJoinDialog()}
       {showSessionIdDialog && renderSessionIdDialog()}
       {showSessionsList && renderSessionsList()}
+      {showSessionRoster && renderSessionRoster()}
       {showAddSongDialog && renderAddSongDialog()}
       {showEditSongDialog && renderEditSongDialog()}
       {showDeleteConfirmDialog && renderDeleteConfirmDialog()}
@@ -8873,6 +11758,20 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigateToProfile, onNavigateToPl
           </View>
         </SafeAreaView>
       </Modal>
+
+      {renderPlayQueueModal()}
+
+      {/* Smart Playlist Modal: the current filters plus extra rules */}
+      <SmartPlaylistModal
+        visible={showSmartPlaylistModal}
+        rules={{ filters: currentFilters }}
+        name=""
+        songs={accessibleSongs}
+        favoriteIds={favoriteSongs}
+        plays={songPlays}
+        onSave={handleCreateSmartPlaylist}
+        onCancel={() => setShowSmartPlaylistModal(false)}
+      />
     </View>
   );
 };
@@ -8993,6 +11892,12 @@ const styles = StyleSheet.create({
     color: '#888888',
     marginTop: 2,
   },
+  setlistOverridesText: {
+    fontSize: 13,
+    color: '#BB86FC',
+    marginTop: 4,
+    textAlign: 'center',
+  },
   sessionInfo: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -9272,6 +12177,38 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: 8,
   },
+  takeFeedbackText: {
+    color: '#BBBBBB',
+    fontSize: 13,
+    marginLeft: 40,
+    marginBottom: 6,
+  },
+  trackMeter: {
+    height: 4,
+    marginTop: 4,
+    borderRadius: 2,
+    backgroundColor: '#2C2C2C',
+    overflow: 'hidden',
+  },
+  trackMeterFill: {
+    height: '100%',
+  },
+  waveformToolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 8,
+  },
+  waveformToolbarText: {
+    color: '#BBBBBB',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  trackPartLabel: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#03DAC6',
+  },
   trackControls: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -9308,6 +12245,64 @@ const styles = StyleSheet.create({
   muteActiveText: {
     color: '#FFFFFF',
   },
+  busStrip: {
+    marginBottom: 8,
+  },
+  busRow: {
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    borderLeftWidth: 3,
+    borderLeftColor: '#03DAC6',
+    padding: 12,
+    marginBottom: 8,
+  },
+  busHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  busName: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  busNameText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+    flexShrink: 1,
+  },
+  busCountText: {
+    color: '#BBBBBB',
+    fontSize: 12,
+  },
+  busDeleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 12,
+    padding: 8,
+  },
+  busDeleteText: {
+    color: '#FF5252',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  toneActiveButton: {
+    backgroundColor: '#BB86FC',
+  },
+  toneSliderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  toneSliderLabel: {
+    color: '#BBBBBB',
+    fontSize: 13,
+    fontWeight: '600',
+  },
   volumeContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -9442,6 +12437,103 @@ const styles = StyleSheet.create({
   sessionIdDisplay: {
     marginBottom: 12,
   },
+  mixPresetBar: {
+    flexGrow: 0,
+    marginBottom: 8,
+  },
+  mixPresetBarContent: {
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  mixPresetChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    maxWidth: 160,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#2C2C2C',
+  },
+  mixPresetChipActive: {
+    backgroundColor: '#BB86FC',
+  },
+  mixPresetChipText: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  mixPresetGroupRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  suggestedMixBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#2C2C2C',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
+  suggestedMixText: {
+    flex: 1,
+    color: '#FFFFFF',
+    fontSize: 14,
+  },
+  suggestedMixButton: {
+    backgroundColor: '#BB86FC',
+    borderRadius: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  suggestedMixButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rosterButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    marginRight: 8,
+  },
+  rosterButtonText: {
+    color: '#BB86FC',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rosterMemberHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  followModeRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  followModeOption: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#2C2C2C',
+    alignItems: 'center',
+  },
+  followModeOptionActive: {
+    backgroundColor: '#BB86FC',
+  },
+  followModeOptionText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '500',
+  },
   adminBadge: {
     fontSize: 10,
     color: '#4CAF50',
@@ -10151,6 +13243,20 @@ const styles = StyleSheet.create({
   speedButtonActive: {
     backgroundColor: '#1F1F1F',
   },
+  pitchShiftRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 24,
+    marginBottom: 16,
+  },
+  pitchShiftValue: {
+    color: '#FFFFFF',
+    fontSize: 28,
+    fontWeight: 'bold',
+    minWidth: 56,
+    textAlign: 'center',
+  },
   matchIndicator: {
     flexDirection: 'column',
     marginTop: 4,
@@ -10513,6 +13619,30 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: 8,
   },
+  chordToolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginBottom: 8,
+  },
+  chordToolbarGroup: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  chordToolbarButton: {
+    padding: 6,
+  },
+  chordToolbarText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+    minWidth: 56,
+    textAlign: 'center',
+  },
   adminButton: {
     backgroundColor: '#BB86FC',
   },
@@ -10838,6 +13968,72 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  // Loop Regions Modal Styles
+  loopRegionItemActive: {
+    borderWidth: 1,
+    borderColor: '#BB86FC',
+  },
+  loopPointRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  loopPointButton: {
+    flex: 1,
+    backgroundColor: '#2C2C2C',
+    borderRadius: 8,
+    paddingVertical: 10,
+    marginHorizontal: 4,
+    alignItems: 'center',
+  },
+  loopPointText: {
+    color: '#BB86FC',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  markerLaneContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingBottom: 4,
+  },
+  markerLane: {
+    flex: 1,
+    height: 24,
+    marginHorizontal: 8,
+    position: 'relative',
+  },
+  markerNavButton: {
+    padding: 4,
+  },
+  markerChip: {
+    position: 'absolute',
+    top: 0,
+    maxWidth: 80,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    borderLeftWidth: 2,
+    backgroundColor: '#1E1E1E',
+  },
+  markerChipText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  markerColorRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  markerColorSwatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+  },
+  markerColorSwatchSelected: {
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+  },
   // Dedicated Playlist Section Styles
   playlistSection: {
     backgroundColor: 'rgba(187, 134, 252, 0.1)',
@@ -0,0 +1,110 @@
+import React, { useMemo } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { parseChordPro, transposeChord } from '../utils/chordPro';
+
+interface ChordChartViewProps {
+  source: string; // ChordPro text
+  transpose?: number; // Semitones the song is played in relative to the chart
+  capo?: number;
+  preferFlats?: boolean;
+  fontScale?: number;
+}
+
+const ChordChartView: React.FC<ChordChartViewProps> = ({
+  source,
+  transpose = 0,
+  capo = 0,
+  preferFlats = false,
+  fontScale = 1,
+}) => {
+  const chart = useMemo(() => parseChordPro(source), [source]);
+
+  // With a capo the player fingers shapes that sound `capo` semitones higher
+  const shift = transpose - capo;
+  const fontSize = 16 * fontScale;
+
+  return (
+    <View style={styles.container}>
+      {chart.lines.map((line, index) => {
+        switch (line.type) {
+          case 'empty':
+            return <View key={`chord-line-${index}`} style={{ height: fontSize }} />;
+          case 'section':
+            return (
+              <Text key={`chord-line-${index}`} style={[styles.section, { fontSize }]}>
+                {line.label}
+              </Text>
+            );
+          case 'comment':
+            return (
+              <Text key={`chord-line-${index}`} style={[styles.comment, { fontSize: fontSize * 0.9 }]}>
+                {line.text}
+              </Text>
+            );
+          case 'lyric': {
+            const hasChords = line.segments.some(segment => segment.chord);
+            return (
+              <View
+                key={`chord-line-${index}`}
+                style={[styles.lyricLine, line.isChorus && styles.chorusLine]}
+              >
+                {line.segments.map((segment, segmentIndex) => (
+                  <View key={`segment-${segmentIndex}`} style={styles.segment}>
+                    {hasChords && (
+                      <Text style={[styles.chord, { fontSize: fontSize * 0.9 }]}>
+                        {segment.chord ? `${transposeChord(segment.chord, shift, preferFlats)} ` : ' '}
+                      </Text>
+                    )}
+                    <Text style={[styles.lyric, { fontSize, lineHeight: fontSize * 1.4 }]}>
+                      {segment.lyric || ' '}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            );
+          }
+        }
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+  lyricLine: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'flex-end',
+    marginBottom: 4,
+  },
+  chorusLine: {
+    borderLeftWidth: 2,
+    borderLeftColor: '#BB86FC',
+    paddingLeft: 8,
+  },
+  segment: {
+    flexDirection: 'column',
+  },
+  chord: {
+    color: '#BB86FC',
+    fontWeight: '700',
+  },
+  lyric: {
+    color: '#FFFFFF',
+  },
+  section: {
+    color: '#03DAC6',
+    fontWeight: '600',
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  comment: {
+    color: '#BBBBBB',
+    fontStyle: 'italic',
+    marginBottom: 4,
+  },
+});
+
+export default ChordChartView;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -13,15 +13,27 @@ import {
   ActivityIndicator,
   KeyboardAvoidingView,
   Platform,
+  Share,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import PlaylistService from '../services/playlistService';
-import { Playlist, CreatePlaylistForm, PlaylistItem } from '../types/playlist';
+import PlaylistService, { CollaboratorType } from '../services/playlistService';
+import GroupService from '../services/groupService';
+import FavoritesService from '../services/favoritesService';
+import PlayHistoryService, { SongPlays } from '../services/playHistoryService';
+import { Playlist, CreatePlaylistForm, PlaylistItem, PlaylistActivity, PlaylistRole, Setlist, SetlistEvent, SmartPlaylistRules, PlaylistTransition } from '../types/playlist';
 import { Song } from '../types/song';
 import { User } from '../types/user';
+import { UserGroup } from '../types/group';
+import { sortMarkers } from '../utils/songMarkers';
+import { formatEventDate, formatRunSheetHtml, formatRunSheetText, isSetlist } from '../utils/setlist';
+import { PlaylistAccess, canEditPlaylist, getPlaylistAccess } from '../utils/playlistRoles';
+import { EMPTY_FILTERS, canViewSong, describeSmartRules, getSmartPlaylistSongs, isSmartPlaylist } from '../utils/smartPlaylist';
+import { describeTransition, getPlaylistTransition } from '../utils/playlistTransition';
 import Header from './Header';
 import Button from './Button';
+import SmartPlaylistModal from './SmartPlaylistModal';
+import PlaylistTransitionModal from './PlaylistTransitionModal';
 import { commonStyles, spacingStyles } from '../theme/layout';
 
 interface PlaylistScreenProps {
@@ -31,6 +43,49 @@ interface PlaylistScreenProps {
   availableSongs: Song[];
 }
 
+interface OverridesDraft {
+  key: string;
+  bpm: string;
+  sectionIds: string[];
+  leader: string;
+}
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_REGEX = /^\d{1,2}:\d{2}$/;
+
+function getToday(): string {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+function isValidEvent(event: SetlistEvent): boolean {
+  return DATE_REGEX.test(event.date) && (!event.time || TIME_REGEX.test(event.time));
+}
+
+function describeActivity(activity: PlaylistActivity): string {
+  const who = activity.userName || 'Someone';
+  const song = activity.songTitle ? `"${activity.songTitle}"` : 'a song';
+  switch (activity.action) {
+    case 'created':
+      return `${who} created the playlist`;
+    case 'added':
+      return `${who} added ${song}`;
+    case 'removed':
+      return `${who} removed ${song}`;
+    case 'reordered':
+      return `${who} moved ${song} from #${(activity.fromPosition ?? 0) + 1} to #${(activity.toPosition ?? 0) + 1}`;
+    case 'edited':
+      return activity.songTitle
+        ? `${who} edited the ${activity.detail || 'details'} of ${song}`
+        : `${who} edited the ${activity.detail || 'details'}`;
+    case 'shared':
+      return `${who} shared the playlist with ${activity.detail}`;
+    case 'unshared':
+      return `${who} stopped sharing with ${activity.detail}`;
+  }
+}
+
 const PlaylistScreen: React.FC<PlaylistScreenProps> = ({ 
   onBack, 
   onPlayPlaylist,
@@ -49,6 +104,27 @@ const PlaylistScreen: React.FC<PlaylistScreenProps> = ({
   const [showPlaylistDetails, setShowPlaylistDetails] = useState(false);
   const [showPlaylistMenu, setShowPlaylistMenu] = useState(false);
   const [selectedPlaylistForMenu, setSelectedPlaylistForMenu] = useState<Playlist | null>(null);
+
+  // Setlists
+  const [groups, setGroups] = useState<UserGroup[]>([]);
+  const [sharedPlaylists, setSharedPlaylists] = useState<Playlist[]>([]);
+  const [showEventModal, setShowEventModal] = useState(false);
+  const [eventDraft, setEventDraft] = useState<SetlistEvent>({ date: getToday() });
+  const [editingItem, setEditingItem] = useState<{ item: PlaylistItem; song: Song } | null>(null);
+  const [overridesDraft, setOverridesDraft] = useState<OverridesDraft>({ key: '', bpm: '', sectionIds: [], leader: '' });
+
+  // Collaboration
+  const [showShareModal, setShowShareModal] = useState(false);
+  const [shareEmail, setShareEmail] = useState('');
+  const [shareRole, setShareRole] = useState<PlaylistRole>('editor');
+  const [showActivityModal, setShowActivityModal] = useState(false);
+  const [activity, setActivity] = useState<PlaylistActivity[]>([]);
+
+  // Smart playlists
+  const [favoriteIds, setFavoriteIds] = useState<Set<string>>(new Set());
+  const [songPlays, setSongPlays] = useState<SongPlays>({});
+  const [showSmartRulesModal, setShowSmartRulesModal] = useState(false);
+  const [showTransitionModal, setShowTransitionModal] = useState(false);
   
   // Create playlist form
   const [newPlaylist, setNewPlaylist] = useState<CreatePlaylistForm>({
@@ -58,6 +134,8 @@ const PlaylistScreen: React.FC<PlaylistScreenProps> = ({
   });
 
   const playlistService = PlaylistService.getInstance();
+  const groupService = GroupService.getInstance();
+  const playHistoryService = PlayHistoryService.getInstance();
 
   useEffect(() => {
     if (user) {
@@ -65,6 +143,67 @@ const PlaylistScreen: React.FC<PlaylistScreenProps> = ({
     }
   }, [user]);
 
+  useEffect(() => {
+    if (!user) return;
+    groupService.getUserGroups(user.id)
+      .then(setGroups)
+      .catch(error => console.error('Error loading groups:', error));
+  }, [user]);
+
+  useEffect(() => {
+    loadSharedPlaylists();
+  }, [user, groups]);
+
+  // Favorites and play counts, for the rules of smart playlists
+  useEffect(() => {
+    if (!user) return;
+    FavoritesService.getInstance().getFavoriteSongs()
+      .then(ids => setFavoriteIds(new Set(ids)))
+      .catch(error => console.error('Error loading favorites:', error));
+    playHistoryService.setCurrentUser(user.id);
+    return playHistoryService.subscribe(setSongPlays);
+  }, [user]);
+
+  const groupIds = groups.map(group => group.id);
+
+  // Smart playlists only pick songs the user can see
+  const librarySongs = useMemo(
+    () => user ? availableSongs.filter(song => canViewSong(song, user.id, groupIds)) : availableSongs,
+    [availableSongs, user, groups]
+  );
+
+  const getSmartSongs = (playlist: Playlist): Song[] =>
+    isSmartPlaylist(playlist) ? getSmartPlaylistSongs(playlist.smart, librarySongs, favoriteIds, songPlays) : [];
+
+  // An open smart playlist follows the library
+  useEffect(() => {
+    if (showPlaylistDetails && isSmartPlaylist(selectedPlaylist)) {
+      setPlaylistSongs(getSmartSongs(selectedPlaylist));
+    }
+  }, [librarySongs, favoriteIds, songPlays]);
+
+  const getAccess = (playlist: Playlist | null): PlaylistAccess | null =>
+    playlist && user ? getPlaylistAccess(playlist, user.id, groupIds) : null;
+
+  // Playlists shared with the user or their groups, and setlists planned for their groups
+  const loadSharedPlaylists = async () => {
+    if (!user) return;
+
+    try {
+      const [shared, setlists] = await Promise.all([
+        playlistService.getSharedPlaylists(user.id, groupIds),
+        groupIds.length > 0 ? playlistService.getGroupSetlists(groupIds) : Promise.resolve([] as Setlist[])
+      ]);
+      const byId = new Map<string, Playlist>();
+      [...shared, ...setlists]
+        .filter(playlist => playlist.userId !== user.id)
+        .forEach(playlist => byId.set(playlist.id, playlist));
+      setSharedPlaylists(Array.from(byId.values()));
+    } catch (error) {
+      console.error('Error loading shared playlists:', error);
+    }
+  };
+
 
   const loadPlaylists = async () => {
     if (!user) return;
@@ -87,12 +226,23 @@ const PlaylistScreen: React.FC<PlaylistScreenProps> = ({
       return;
     }
 
+    if (newPlaylist.event && !isValidEvent(newPlaylist.event)) {
+      Alert.alert('Error', 'Enter the date as YYYY-MM-DD and the time as HH:MM');
+      return;
+    }
+
     try {
-      await playlistService.createPlaylist(user.id, newPlaylist);
+      const createdPlaylist = await playlistService.createPlaylist(user.id, newPlaylist);
       setNewPlaylist({ name: '', description: '', isPublic: false });
       setShowCreateModal(false);
       loadPlaylists();
-      Alert.alert('Success', 'Playlist created successfully');
+      if (isSmartPlaylist(createdPlaylist)) {
+        // Straight on to choosing which songs it picks
+        setSelectedPlaylist(createdPlaylist);
+        setShowSmartRulesModal(true);
+        return;
+      }
+      Alert.alert('Success', newPlaylist.event ? 'Setlist created successfully' : 'Playlist created successfully');
     } catch (error) {
       console.error('Error creating playlist:', error);
       Alert.alert('Error', 'Failed to create playlist');
@@ -125,7 +275,9 @@ const PlaylistScreen: React.FC<PlaylistScreenProps> = ({
 
   const handlePlayPlaylist = async (playlist: Playlist) => {
     try {
-      const { songs } = await playlistService.getPlaylistSongs(playlist.id);
+      const songs = isSmartPlaylist(playlist)
+        ? getSmartSongs(playlist)
+        : (await playlistService.getPlaylistSongs(playlist.id)).songs;
       if (songs.length === 0) {
         Alert.alert('Empty Playlist', 'This playlist has no songs');
         return;
@@ -138,6 +290,14 @@ const PlaylistScreen: React.FC<PlaylistScreenProps> = ({
   };
 
   const handleViewPlaylistDetails = async (playlist: Playlist) => {
+    if (isSmartPlaylist(playlist)) {
+      setSelectedPlaylist(playlist);
+      setPlaylistSongs(getSmartSongs(playlist));
+      setPlaylistItems([]);
+      setShowPlaylistDetails(true);
+      return;
+    }
+
     try {
       const { playlist: freshPlaylist, songs } = await playlistService.getPlaylistSongs(playlist.id);
       
@@ -202,47 +362,408 @@ const PlaylistScreen: React.FC<PlaylistScreenProps> = ({
     setShowPlaylistMenu(true);
   };
 
-  const handleMenuAction = (action: 'edit' | 'delete') => {
+  const handleMenuAction = (action: 'edit' | 'rules' | 'transitions' | 'event' | 'share' | 'activity' | 'runSheet' | 'delete') => {
     if (!selectedPlaylistForMenu) return;
     
     setShowPlaylistMenu(false);
     
     if (action === 'edit') {
       handleViewPlaylistDetails(selectedPlaylistForMenu);
+    } else if (action === 'rules') {
+      setSelectedPlaylist(selectedPlaylistForMenu);
+      setShowSmartRulesModal(true);
+    } else if (action === 'transitions') {
+      setSelectedPlaylist(selectedPlaylistForMenu);
+      setShowTransitionModal(true);
+    } else if (action === 'event') {
+      setSelectedPlaylist(selectedPlaylistForMenu);
+      setEventDraft(selectedPlaylistForMenu.event || { date: getToday() });
+      setShowEventModal(true);
+    } else if (action === 'share') {
+      setSelectedPlaylist(selectedPlaylistForMenu);
+      setShareEmail('');
+      setShowShareModal(true);
+    } else if (action === 'activity') {
+      handleShowActivity(selectedPlaylistForMenu);
+    } else if (action === 'runSheet' && isSetlist(selectedPlaylistForMenu)) {
+      handlePrintRunSheet(selectedPlaylistForMenu);
     } else if (action === 'delete') {
       handleDeletePlaylist(selectedPlaylistForMenu);
     }
   };
 
+  const refreshSelectedPlaylist = async () => {
+    if (!selectedPlaylist) return;
+    const playlist = await playlistService.getPlaylist(selectedPlaylist.id);
+    if (playlist) setSelectedPlaylist(playlist);
+  };
 
-  const renderPlaylistItem = ({ item }: { item: Playlist }) => (
-    <TouchableOpacity 
-      style={styles.playlistItem}
-      onPress={() => handlePlayPlaylist(item)}
-    >
-      <View style={styles.playlistInfo}>
-        <Text style={styles.playlistName}>{item.name}</Text>
-        <Text style={styles.playlistMeta}>
-          {item.songs.length} song{item.songs.length !== 1 ? 's' : ''}
-        </Text>
-        {item.description && (
-          <Text style={styles.playlistDescription} numberOfLines={2}>
-            {item.description}
-          </Text>
-        )}
+  const handleShareWithUser = async () => {
+    if (!selectedPlaylist || !shareEmail.trim()) return;
+
+    try {
+      const found = await playlistService.findUserByEmail(shareEmail);
+      if (!found) {
+        Alert.alert('Not Found', 'No user has that email address');
+        return;
+      }
+      if (found.id === selectedPlaylist.userId) {
+        Alert.alert('Error', 'That is the owner of the playlist');
+        return;
+      }
+      await playlistService.addCollaborator(selectedPlaylist.id, 'user', found.id, found.displayName, shareRole);
+      setShareEmail('');
+      await refreshSelectedPlaylist();
+    } catch (error) {
+      console.error('Error sharing playlist:', error);
+      Alert.alert('Error', 'Failed to share playlist');
+    }
+  };
+
+  const handleShareWithGroup = async (group: UserGroup) => {
+    if (!selectedPlaylist) return;
+
+    try {
+      await playlistService.addCollaborator(selectedPlaylist.id, 'group', group.id, group.name, shareRole);
+      await refreshSelectedPlaylist();
+    } catch (error) {
+      console.error('Error sharing playlist:', error);
+      Alert.alert('Error', 'Failed to share playlist');
+    }
+  };
+
+  const handleChangeCollaboratorRole = async (type: CollaboratorType, id: string, name: string, role: PlaylistRole) => {
+    if (!selectedPlaylist) return;
+
+    try {
+      await playlistService.addCollaborator(selectedPlaylist.id, type, id, name, role);
+      await refreshSelectedPlaylist();
+    } catch (error) {
+      console.error('Error changing collaborator role:', error);
+      Alert.alert('Error', 'Failed to change role');
+    }
+  };
+
+  const handleRemoveCollaborator = async (type: CollaboratorType, id: string, name: string) => {
+    if (!selectedPlaylist) return;
+
+    try {
+      await playlistService.removeCollaborator(selectedPlaylist.id, type, id, name);
+      await refreshSelectedPlaylist();
+    } catch (error) {
+      console.error('Error removing collaborator:', error);
+      Alert.alert('Error', 'Failed to stop sharing');
+    }
+  };
+
+  const handleShowActivity = async (playlist: Playlist) => {
+    setSelectedPlaylist(playlist);
+    setActivity(await playlistService.getActivity(playlist.id));
+    setShowActivityModal(true);
+  };
+
+  const handleMoveSong = async (songId: string, newPosition: number) => {
+    if (!selectedPlaylist) return;
+
+    try {
+      await playlistService.reorderPlaylist(selectedPlaylist.id, { songId, newPosition });
+      handleViewPlaylistDetails(selectedPlaylist); // Refresh details
+    } catch (error) {
+      console.error('Error reordering playlist:', error);
+      Alert.alert('Error', 'Failed to move song');
+    }
+  };
+
+  const getMenuActions = (): { action: Parameters<typeof handleMenuAction>[0]; label: string }[] => {
+    const playlist = selectedPlaylistForMenu;
+    if (!playlist) return [];
+    const access = getAccess(playlist);
+    const actions: { action: Parameters<typeof handleMenuAction>[0]; label: string }[] = [];
+
+    if (isSmartPlaylist(playlist)) {
+      actions.push({ action: 'edit', label: 'Songs' });
+      if (canEditPlaylist(access)) {
+        actions.push({ action: 'rules', label: 'Edit Rules' });
+      }
+    } else if (canEditPlaylist(access)) {
+      actions.push({ action: 'edit', label: 'Edit' });
+      actions.push({ action: 'event', label: playlist.event ? 'Event Details' : 'Plan Event' });
+    } else {
+      actions.push({ action: 'edit', label: 'Songs' });
+    }
+    if (canEditPlaylist(access)) {
+      actions.push({ action: 'transitions', label: 'Transitions' });
+    }
+    if (access === 'owner') {
+      actions.push({ action: 'share', label: 'Share' });
+    }
+    actions.push({ action: 'activity', label: 'Activity' });
+    if (isSetlist(playlist)) {
+      actions.push({ action: 'runSheet', label: 'Run Sheet' });
+    }
+    if (access === 'owner') {
+      actions.push({ action: 'delete', label: 'Delete' });
+    }
+    return actions;
+  };
+
+  const handleSaveSmartRules = async (rules: SmartPlaylistRules) => {
+    if (!selectedPlaylist) return;
+
+    try {
+      await playlistService.updateSmartRules(selectedPlaylist.id, rules);
+      const updated = { ...selectedPlaylist, smart: rules };
+      setSelectedPlaylist(updated);
+      if (showPlaylistDetails) {
+        setPlaylistSongs(getSmartSongs(updated));
+      }
+      setShowSmartRulesModal(false);
+      loadPlaylists();
+    } catch (error) {
+      console.error('Error saving smart playlist rules:', error);
+      Alert.alert('Error', 'Failed to save smart playlist rules');
+    }
+  };
+
+  const handleSaveTransition = async (transition: PlaylistTransition) => {
+    if (!selectedPlaylist) return;
+
+    try {
+      await playlistService.updateTransition(selectedPlaylist.id, transition);
+      setSelectedPlaylist({ ...selectedPlaylist, transition });
+      setShowTransitionModal(false);
+      loadPlaylists();
+    } catch (error) {
+      console.error('Error saving playlist transitions:', error);
+      Alert.alert('Error', 'Failed to save transitions');
+    }
+  };
+
+  const handleSaveEvent = async () => {
+    if (!selectedPlaylist) return;
+    if (!isValidEvent(eventDraft)) {
+      Alert.alert('Error', 'Enter the date as YYYY-MM-DD and the time as HH:MM');
+      return;
+    }
+
+    try {
+      await playlistService.updateSetlistEvent(selectedPlaylist.id, eventDraft);
+      setShowEventModal(false);
+      loadPlaylists();
+    } catch (error) {
+      console.error('Error saving event:', error);
+      Alert.alert('Error', 'Failed to save event details');
+    }
+  };
+
+  const handleRemoveEvent = async () => {
+    if (!selectedPlaylist) return;
+
+    try {
+      await playlistService.updateSetlistEvent(selectedPlaylist.id, null);
+      setShowEventModal(false);
+      loadPlaylists();
+    } catch (error) {
+      console.error('Error removing event:', error);
+      Alert.alert('Error', 'Failed to remove event details');
+    }
+  };
+
+  const handlePrintRunSheet = async (setlist: Setlist) => {
+    try {
+      const { playlist, songs } = await playlistService.getPlaylistSongs(setlist.id);
+      if (!isSetlist(playlist)) return;
+
+      if (Platform.OS === 'web') {
+        const printWindow = window.open('', '_blank');
+        if (!printWindow) {
+          Alert.alert('Error', 'Allow pop-ups to print the run sheet');
+          return;
+        }
+        printWindow.document.write(formatRunSheetHtml(playlist, songs));
+        printWindow.document.close();
+        printWindow.focus();
+        printWindow.print();
+      } else {
+        await Share.share({ title: playlist.name, message: formatRunSheetText(playlist, songs) });
+      }
+    } catch (error) {
+      console.error('Error printing run sheet:', error);
+      Alert.alert('Error', 'Failed to create the run sheet');
+    }
+  };
+
+  const handleEditOverrides = (item: PlaylistItem, song: Song) => {
+    const overrides = item.overrides || {};
+    setOverridesDraft({
+      key: overrides.key || '',
+      bpm: overrides.bpm ? String(overrides.bpm) : '',
+      sectionIds: overrides.sectionIds || [],
+      leader: overrides.leader || '',
+    });
+    setEditingItem({ item, song });
+  };
+
+  const handleToggleSection = (markerId: string) => {
+    setOverridesDraft(prev => ({
+      ...prev,
+      sectionIds: prev.sectionIds.includes(markerId)
+        ? prev.sectionIds.filter(id => id !== markerId)
+        : [...prev.sectionIds, markerId]
+    }));
+  };
+
+  const handleSaveOverrides = async () => {
+    if (!selectedPlaylist || !editingItem) return;
+
+    const bpm = overridesDraft.bpm.trim() ? parseFloat(overridesDraft.bpm) : undefined;
+    if (bpm !== undefined && (isNaN(bpm) || bpm < 20 || bpm > 400)) {
+      Alert.alert('Error', 'Enter a tempo between 20 and 400 bpm');
+      return;
+    }
+
+    try {
+      await playlistService.updatePlaylistItemOverrides(selectedPlaylist.id, editingItem.item.songId, {
+        key: overridesDraft.key,
+        bpm,
+        sectionIds: overridesDraft.sectionIds,
+        leader: overridesDraft.leader,
+      });
+      setEditingItem(null);
+      handleViewPlaylistDetails(selectedPlaylist); // Refresh details
+    } catch (error) {
+      console.error('Error saving song overrides:', error);
+      Alert.alert('Error', 'Failed to save song details');
+    }
+  };
+
+  const getOverridesSummary = (item: PlaylistItem | undefined, song: Song): string => {
+    const overrides = item?.overrides;
+    if (!overrides) return 'As written';
+    const sectionLabels = sortMarkers(song.markers)
+      .filter(marker => overrides.sectionIds?.includes(marker.id))
+      .map(marker => marker.label);
+    return [
+      overrides.key && `Key ${overrides.key}`,
+      overrides.bpm && `${overrides.bpm} bpm`,
+      sectionLabels.length > 0 && sectionLabels.join(', '),
+      overrides.leader && `Led by ${overrides.leader}`
+    ].filter(Boolean).join(' · ') || 'As written';
+  };
+
+  const renderEventFields = (event: SetlistEvent, onChange: (event: SetlistEvent) => void) => (
+    <>
+      <View style={commonStyles.inputGroup}>
+        <Text style={commonStyles.inputLabel}>Date *</Text>
+        <TextInput
+          style={styles.textInput}
+          value={event.date}
+          onChangeText={(text) => onChange({ ...event, date: text })}
+          placeholder="YYYY-MM-DD"
+          placeholderTextColor="#666666"
+        />
       </View>
-      
-      <TouchableOpacity
-        style={styles.menuButton}
-        onPress={(e) => {
-          e.stopPropagation(); // Prevent triggering the tile click
-          handlePlaylistMenuPress(item);
-        }}
+
+      <View style={commonStyles.inputGroup}>
+        <Text style={commonStyles.inputLabel}>Time</Text>
+        <TextInput
+          style={styles.textInput}
+          value={event.time || ''}
+          onChangeText={(text) => onChange({ ...event, time: text })}
+          placeholder="HH:MM"
+          placeholderTextColor="#666666"
+        />
+      </View>
+
+      <View style={commonStyles.inputGroup}>
+        <Text style={commonStyles.inputLabel}>Venue</Text>
+        <TextInput
+          style={styles.textInput}
+          value={event.venue || ''}
+          onChangeText={(text) => onChange({ ...event, venue: text })}
+          placeholder="e.g. Main Hall"
+          placeholderTextColor="#666666"
+        />
+      </View>
+
+      {groups.length > 0 && (
+        <View style={commonStyles.inputGroup}>
+          <Text style={commonStyles.inputLabel}>Group</Text>
+          <View style={styles.chipRow}>
+            {groups.map(group => {
+              const isSelected = event.groupId === group.id;
+              return (
+                <TouchableOpacity
+                  key={group.id}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => onChange(isSelected
+                    ? { ...event, groupId: undefined, groupName: undefined }
+                    : { ...event, groupId: group.id, groupName: group.name })}
+                >
+                  <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{group.name}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      )}
+    </>
+  );
+
+
+  const renderPlaylistItem = ({ item }: { item: Playlist }) => {
+    // A smart playlist's count is worked out from the library
+    const songCount = isSmartPlaylist(item) ? getSmartSongs(item).length : item.songs.length;
+
+    return (
+      <TouchableOpacity 
+        style={styles.playlistItem}
+        onPress={() => handlePlayPlaylist(item)}
       >
-        <Ionicons name="ellipsis-vertical" size={20} color="#BBBBBB" />
+        <View style={styles.playlistInfo}>
+          <Text style={styles.playlistName}>{item.name}</Text>
+          <Text style={styles.playlistMeta}>
+            {songCount} song{songCount !== 1 ? 's' : ''}
+            {isSmartPlaylist(item) && ' · Smart'}
+            {item.userId !== user?.id && ` · Shared with you (${getAccess(item) === 'editor' ? 'editor' : 'viewer'})`}
+          </Text>
+          {isSmartPlaylist(item) && (
+            <View style={styles.eventRow}>
+              <Ionicons name="sparkles-outline" size={14} color="#BB86FC" />
+              <Text style={styles.eventText} numberOfLines={1}>{describeSmartRules(item.smart)}</Text>
+            </View>
+          )}
+          {item.event && (
+            <View style={styles.eventRow}>
+              <Ionicons name="calendar-outline" size={14} color="#BB86FC" />
+              <Text style={styles.eventText} numberOfLines={1}>
+                {[formatEventDate(item.event), item.event.venue, item.event.groupName].filter(Boolean).join(' · ')}
+              </Text>
+            </View>
+          )}
+          {item.description && (
+            <Text style={styles.playlistDescription} numberOfLines={2}>
+              {item.description}
+            </Text>
+          )}
+        </View>
+      
+        <TouchableOpacity
+          style={styles.menuButton}
+          onPress={(e) => {
+            e.stopPropagation(); // Prevent triggering the tile click
+            handlePlaylistMenuPress(item);
+          }}
+        >
+          <Ionicons name="ellipsis-vertical" size={20} color="#BBBBBB" />
+        </TouchableOpacity>
       </TouchableOpacity>
-    </TouchableOpacity>
-  );
+    );
+  };
+
+  const canEdit = canEditPlaylist(getAccess(selectedPlaylist));
+  // A smart playlist's songs come from its rules, not from editing the list
+  const canEditSongs = canEdit && !isSmartPlaylist(selectedPlaylist);
 
   const renderSongItem = ({ item, index }: { item: Song; index: number }) => {
     // Find the corresponding PlaylistItem for this Song
@@ -262,15 +783,50 @@ const PlaylistScreen: React.FC<PlaylistScreenProps> = ({
           <View style={styles.songDetails}>
             <Text style={styles.songTitle}>{item.title}</Text>
             <Text style={styles.songArtist}>{item.artist}</Text>
+            {isSetlist(selectedPlaylist) && (
+              <Text style={styles.overridesText} numberOfLines={2}>
+                {getOverridesSummary(playlistItem, item)}
+              </Text>
+            )}
           </View>
         </View>
+
+        {canEditSongs && (
+          <>
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => handleMoveSong(songId, index - 1)}
+              disabled={index === 0}
+            >
+              <Ionicons name="chevron-up" size={22} color={index === 0 ? '#444444' : '#BBBBBB'} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => handleMoveSong(songId, index + 1)}
+              disabled={index === playlistSongs.length - 1}
+            >
+              <Ionicons name="chevron-down" size={22} color={index === playlistSongs.length - 1 ? '#444444' : '#BBBBBB'} />
+            </TouchableOpacity>
+          </>
+        )}
+
+        {canEditSongs && isSetlist(selectedPlaylist) && playlistItem && (
+          <TouchableOpacity
+            style={styles.removeButton}
+            onPress={() => handleEditOverrides(playlistItem, item)}
+          >
+            <Ionicons name="options-outline" size={22} color="#BB86FC" />
+          </TouchableOpacity>
+        )}
         
-        <TouchableOpacity
-          style={styles.removeButton}
-          onPress={() => handleRemoveSongFromPlaylist(songId)}
-        >
-          <Ionicons name="close-circle" size={24} color="#FF6B6B" />
-        </TouchableOpacity>
+        {canEditSongs && (
+          <TouchableOpacity
+            style={styles.removeButton}
+            onPress={() => handleRemoveSongFromPlaylist(songId)}
+          >
+            <Ionicons name="close-circle" size={24} color="#FF6B6B" />
+          </TouchableOpacity>
+        )}
       </View>
     );
   };
@@ -318,7 +874,7 @@ const PlaylistScreen: React.FC<PlaylistScreenProps> = ({
 
       {/* Playlists List */}
       <View style={styles.content}>
-        {playlists.length === 0 ? (
+        {playlists.length === 0 && sharedPlaylists.length === 0 ? (
           <View style={commonStyles.emptyState}>
             <Ionicons name="musical-notes" size={64} color="#666666" />
             <Text style={commonStyles.emptyTitle}>No Playlists Yet</Text>
@@ -335,7 +891,7 @@ const PlaylistScreen: React.FC<PlaylistScreenProps> = ({
           </View>
         ) : (
           <FlatList
-            data={playlists}
+            data={[...playlists, ...sharedPlaylists]}
             renderItem={renderPlaylistItem}
             keyExtractor={(item) => `playlist-${item.id}`}
             contentContainerStyle={styles.playlistList}
@@ -407,6 +963,44 @@ const PlaylistScreen: React.FC<PlaylistScreenProps> = ({
                 <Text style={styles.checkboxLabel}>Make this playlist public</Text>
               </TouchableOpacity>
             </View>
+
+            <View style={commonStyles.inputGroup}>
+              <TouchableOpacity
+                style={styles.checkboxRow}
+                onPress={() => setNewPlaylist({
+                  ...newPlaylist,
+                  event: newPlaylist.event ? undefined : { date: getToday() },
+                  smart: undefined
+                })}
+              >
+                <Ionicons
+                  name={newPlaylist.event ? "checkbox" : "square-outline"}
+                  size={24}
+                  color="#BB86FC"
+                />
+                <Text style={styles.checkboxLabel}>Plan for a service or event</Text>
+              </TouchableOpacity>
+            </View>
+
+            {newPlaylist.event && renderEventFields(newPlaylist.event, (event) => setNewPlaylist({ ...newPlaylist, event }))}
+
+            <View style={commonStyles.inputGroup}>
+              <TouchableOpacity
+                style={styles.checkboxRow}
+                onPress={() => setNewPlaylist({
+                  ...newPlaylist,
+                  smart: newPlaylist.smart ? undefined : { filters: EMPTY_FILTERS },
+                  event: undefined
+                })}
+              >
+                <Ionicons
+                  name={newPlaylist.smart ? "checkbox" : "square-outline"}
+                  size={24}
+                  color="#BB86FC"
+                />
+                <Text style={styles.checkboxLabel}>Smart playlist: pick songs from the library by rules</Text>
+              </TouchableOpacity>
+            </View>
           </ScrollView>
         </SafeAreaView>
         </KeyboardAvoidingView>
@@ -426,26 +1020,83 @@ const PlaylistScreen: React.FC<PlaylistScreenProps> = ({
             <Text style={styles.modalTitle} numberOfLines={1}>
               {selectedPlaylist?.name}
             </Text>
-            <Button
-              title="Add Songs"
-              onPress={() => setShowAddSongModal(true)}
-              variant="primary"
-              size="medium"
-            />
+            {canEditSongs ? (
+              <Button
+                title="Add Songs"
+                onPress={() => setShowAddSongModal(true)}
+                variant="primary"
+                size="medium"
+              />
+            ) : (
+              <View style={{ width: 60 }} />
+            )}
           </View>
 
           <View style={commonStyles.modalContent}>
+            {isSetlist(selectedPlaylist) && (
+              <View style={styles.setlistHeader}>
+                <View style={styles.eventRow}>
+                  <Ionicons name="calendar-outline" size={16} color="#BB86FC" />
+                  <Text style={styles.eventText}>
+                    {[formatEventDate(selectedPlaylist.event), selectedPlaylist.event.venue, selectedPlaylist.event.groupName].filter(Boolean).join(' · ')}
+                  </Text>
+                </View>
+                <Button
+                  title="Run Sheet"
+                  onPress={() => handlePrintRunSheet(selectedPlaylist)}
+                  variant="secondary"
+                  size="small"
+                  icon={<Ionicons name="print-outline" size={16} color="#BB86FC" />}
+                />
+              </View>
+            )}
+            {isSmartPlaylist(selectedPlaylist) && (
+              <View style={styles.setlistHeader}>
+                <View style={styles.eventRow}>
+                  <Ionicons name="sparkles-outline" size={16} color="#BB86FC" />
+                  <Text style={styles.eventText}>{describeSmartRules(selectedPlaylist.smart)}</Text>
+                </View>
+                {canEdit && (
+                  <Button
+                    title="Edit Rules"
+                    onPress={() => setShowSmartRulesModal(true)}
+                    variant="secondary"
+                    size="small"
+                  />
+                )}
+              </View>
+            )}
+            {selectedPlaylist?.transition && (
+              <View style={styles.setlistHeader}>
+                <View style={styles.eventRow}>
+                  <Ionicons name="swap-horizontal-outline" size={16} color="#BB86FC" />
+                  <Text style={styles.eventText}>{describeTransition(getPlaylistTransition(selectedPlaylist))}</Text>
+                </View>
+                {canEdit && (
+                  <Button
+                    title="Change"
+                    onPress={() => setShowTransitionModal(true)}
+                    variant="secondary"
+                    size="small"
+                  />
+                )}
+              </View>
+            )}
             {playlistSongs.length === 0 ? (
               <View style={styles.emptyPlaylist}>
                 <Ionicons name="musical-notes" size={48} color="#666666" />
-                <Text style={styles.emptyPlaylistText}>No songs in this playlist</Text>
-                <Button
-                  title="Add Songs"
-                  onPress={() => setShowAddSongModal(true)}
-                  variant="primary"
-                  size="large"
-                  style={styles.addSongsButton}
-                />
+                <Text style={styles.emptyPlaylistText}>
+                  {isSmartPlaylist(selectedPlaylist) ? 'No songs match these rules yet' : 'No songs in this playlist'}
+                </Text>
+                {canEditSongs && (
+                  <Button
+                    title="Add Songs"
+                    onPress={() => setShowAddSongModal(true)}
+                    variant="primary"
+                    size="large"
+                    style={styles.addSongsButton}
+                  />
+                )}
               </View>
             ) : (
               <FlatList
@@ -498,23 +1149,324 @@ const PlaylistScreen: React.FC<PlaylistScreenProps> = ({
           onPress={() => setShowPlaylistMenu(false)}
         >
           <View style={styles.menuContainer}>
-            <TouchableOpacity
-              style={styles.menuItem}
-              onPress={() => handleMenuAction('edit')}
-            >
-              <Text style={styles.menuItemText}>Edit</Text>
+            {getMenuActions().map((entry, index) => (
+              <React.Fragment key={entry.action}>
+                {index > 0 && <View style={styles.menuSeparator} />}
+                <TouchableOpacity
+                  style={styles.menuItem}
+                  onPress={() => handleMenuAction(entry.action)}
+                >
+                  <Text style={[styles.menuItemText, entry.action === 'delete' && styles.deleteText]}>{entry.label}</Text>
+                </TouchableOpacity>
+              </React.Fragment>
+            ))}
+          </View>
+        </TouchableOpacity>
+      </Modal>
+
+      {/* Share Modal */}
+      <Modal
+        visible={showShareModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        <KeyboardAvoidingView
+          style={{ flex: 1 }}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          <SafeAreaView style={commonStyles.modalContainer}>
+            <View style={commonStyles.modalHeader}>
+              <TouchableOpacity onPress={() => { setShowShareModal(false); loadPlaylists(); }}>
+                <Text style={styles.modalCancelText}>Done</Text>
+              </TouchableOpacity>
+              <Text style={styles.modalTitle} numberOfLines={1}>Share "{selectedPlaylist?.name}"</Text>
+              <View style={{ width: 60 }} />
+            </View>
+
+            <ScrollView style={commonStyles.modalContent}>
+              <View style={commonStyles.inputGroup}>
+                <Text style={commonStyles.inputLabel}>Role</Text>
+                <View style={styles.chipRow}>
+                  {(['editor', 'viewer'] as PlaylistRole[]).map(role => (
+                    <TouchableOpacity
+                      key={role}
+                      style={[styles.chip, shareRole === role && styles.chipSelected]}
+                      onPress={() => setShareRole(role)}
+                    >
+                      <Text style={[styles.chipText, shareRole === role && styles.chipTextSelected]}>
+                        {role === 'editor' ? 'Can edit' : 'Can view'}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              <View style={commonStyles.inputGroup}>
+                <Text style={commonStyles.inputLabel}>Person</Text>
+                <View style={styles.shareInputRow}>
+                  <TextInput
+                    style={[styles.textInput, { flex: 1 }]}
+                    value={shareEmail}
+                    onChangeText={setShareEmail}
+                    placeholder="Email address"
+                    placeholderTextColor="#666666"
+                    autoCapitalize="none"
+                    keyboardType="email-address"
+                  />
+                  <Button
+                    title="Add"
+                    onPress={handleShareWithUser}
+                    variant="primary"
+                    size="medium"
+                    disabled={!shareEmail.trim()}
+                  />
+                </View>
+              </View>
+
+              {groups.length > 0 && (
+                <View style={commonStyles.inputGroup}>
+                  <Text style={commonStyles.inputLabel}>Group</Text>
+                  <View style={styles.chipRow}>
+                    {groups
+                      .filter(group => !selectedPlaylist?.collaborators?.groups?.[group.id])
+                      .map(group => (
+                        <TouchableOpacity
+                          key={group.id}
+                          style={styles.chip}
+                          onPress={() => handleShareWithGroup(group)}
+                        >
+                          <Text style={styles.chipText}>+ {group.name}</Text>
+                        </TouchableOpacity>
+                      ))}
+                  </View>
+                </View>
+              )}
+
+              <View style={commonStyles.inputGroup}>
+                <Text style={commonStyles.inputLabel}>Shared with</Text>
+                {[
+                  ...Object.entries(selectedPlaylist?.collaborators?.users || {}).map(([id, collaborator]) => ({ type: 'user' as CollaboratorType, id, ...collaborator })),
+                  ...Object.entries(selectedPlaylist?.collaborators?.groups || {}).map(([id, collaborator]) => ({ type: 'group' as CollaboratorType, id, ...collaborator }))
+                ].map(collaborator => (
+                  <View key={`${collaborator.type}-${collaborator.id}`} style={styles.songItem}>
+                    <Ionicons
+                      name={collaborator.type === 'group' ? 'people-outline' : 'person-outline'}
+                      size={20}
+                      color="#BBBBBB"
+                    />
+                    <View style={styles.songDetails}>
+                      <Text style={styles.songTitle}>{collaborator.name}</Text>
+                      <Text style={styles.songArtist}>{collaborator.role === 'editor' ? 'Can edit' : 'Can view'}</Text>
+                    </View>
+                    <TouchableOpacity
+                      style={styles.removeButton}
+                      onPress={() => handleChangeCollaboratorRole(
+                        collaborator.type,
+                        collaborator.id,
+                        collaborator.name,
+                        collaborator.role === 'editor' ? 'viewer' : 'editor'
+                      )}
+                    >
+                      <Ionicons name="swap-horizontal" size={22} color="#BB86FC" />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.removeButton}
+                      onPress={() => handleRemoveCollaborator(collaborator.type, collaborator.id, collaborator.name)}
+                    >
+                      <Ionicons name="close-circle" size={24} color="#FF6B6B" />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+                {!selectedPlaylist?.collaborators?.users && !selectedPlaylist?.collaborators?.groups && (
+                  <Text style={styles.overridesText}>Only you can see this playlist</Text>
+                )}
+              </View>
+            </ScrollView>
+          </SafeAreaView>
+        </KeyboardAvoidingView>
+      </Modal>
+
+      {/* Activity Modal */}
+      <Modal
+        visible={showActivityModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        <SafeAreaView style={commonStyles.modalContainer}>
+          <View style={commonStyles.modalHeader}>
+            <TouchableOpacity onPress={() => setShowActivityModal(false)}>
+              <Text style={styles.modalCancelText}>Back</Text>
             </TouchableOpacity>
-            
-            <View style={styles.menuSeparator} />
-            
-            <TouchableOpacity
-              style={styles.menuItem}
-              onPress={() => handleMenuAction('delete')}
-            >
-              <Text style={[styles.menuItemText, styles.deleteText]}>Delete</Text>
+            <Text style={styles.modalTitle} numberOfLines={1}>Activity</Text>
+            <View style={{ width: 60 }} />
+          </View>
+
+          <View style={commonStyles.modalContent}>
+            {activity.length === 0 ? (
+              <Text style={styles.overridesText}>No changes recorded yet</Text>
+            ) : (
+              <FlatList
+                data={activity}
+                keyExtractor={(item) => `activity-${item.id}`}
+                renderItem={({ item }) => (
+                  <View style={styles.activityItem}>
+                    <Text style={styles.activityText}>{describeActivity(item)}</Text>
+                    <Text style={styles.overridesText}>{new Date(item.createdAt).toLocaleString()}</Text>
+                  </View>
+                )}
+                showsVerticalScrollIndicator={false}
+              />
+            )}
+          </View>
+        </SafeAreaView>
+      </Modal>
+
+      {/* Event Details Modal */}
+      <Modal
+        visible={showEventModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        <SafeAreaView style={commonStyles.modalContainer}>
+          <View style={commonStyles.modalHeader}>
+            <TouchableOpacity onPress={() => setShowEventModal(false)}>
+              <Text style={styles.modalCancelText}>Cancel</Text>
             </TouchableOpacity>
+            <Text style={styles.modalTitle} numberOfLines={1}>{selectedPlaylist?.name}</Text>
+            <Button
+              title="Save"
+              onPress={handleSaveEvent}
+              variant="primary"
+              size="medium"
+            />
           </View>
-        </TouchableOpacity>
+
+          <ScrollView style={commonStyles.modalContent}>
+            {renderEventFields(eventDraft, setEventDraft)}
+            {selectedPlaylist?.event && (
+              <Button
+                title="Make Plain Playlist"
+                onPress={handleRemoveEvent}
+                variant="danger"
+                size="medium"
+              />
+            )}
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
+
+      {/* Smart Playlist Rules Modal */}
+      <SmartPlaylistModal
+        visible={showSmartRulesModal}
+        rules={selectedPlaylist?.smart || { filters: EMPTY_FILTERS }}
+        songs={librarySongs}
+        favoriteIds={favoriteIds}
+        plays={songPlays}
+        onSave={handleSaveSmartRules}
+        onCancel={() => setShowSmartRulesModal(false)}
+      />
+
+      {/* Transitions Modal */}
+      <PlaylistTransitionModal
+        visible={showTransitionModal}
+        transition={getPlaylistTransition(selectedPlaylist)}
+        onSave={handleSaveTransition}
+        onCancel={() => setShowTransitionModal(false)}
+      />
+
+      {/* Song Overrides Modal */}
+      <Modal
+        visible={!!editingItem}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        <KeyboardAvoidingView
+          style={{ flex: 1 }}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          <SafeAreaView style={commonStyles.modalContainer}>
+            <View style={commonStyles.modalHeader}>
+              <TouchableOpacity onPress={() => setEditingItem(null)}>
+                <Text style={styles.modalCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <Text style={styles.modalTitle} numberOfLines={1}>{editingItem?.song.title}</Text>
+              <Button
+                title="Save"
+                onPress={handleSaveOverrides}
+                variant="primary"
+                size="medium"
+              />
+            </View>
+
+            {editingItem && (
+              <ScrollView style={commonStyles.modalContent}>
+                <View style={commonStyles.inputGroup}>
+                  <Text style={commonStyles.inputLabel}>
+                    Key{editingItem.song.key ? ` (written in ${editingItem.song.key})` : ''}
+                  </Text>
+                  <TextInput
+                    style={styles.textInput}
+                    value={overridesDraft.key}
+                    onChangeText={(text) => setOverridesDraft({ ...overridesDraft, key: text })}
+                    placeholder={editingItem.song.key || 'e.g. G'}
+                    placeholderTextColor="#666666"
+                    autoCapitalize="none"
+                  />
+                </View>
+
+                <View style={commonStyles.inputGroup}>
+                  <Text style={commonStyles.inputLabel}>
+                    Tempo{editingItem.song.bpm ? ` (recorded at ${editingItem.song.bpm} bpm)` : ''}
+                  </Text>
+                  <TextInput
+                    style={styles.textInput}
+                    value={overridesDraft.bpm}
+                    onChangeText={(text) => setOverridesDraft({ ...overridesDraft, bpm: text })}
+                    placeholder={editingItem.song.bpm ? String(editingItem.song.bpm) : 'bpm'}
+                    placeholderTextColor="#666666"
+                    keyboardType="numeric"
+                  />
+                </View>
+
+                <View style={commonStyles.inputGroup}>
+                  <Text style={commonStyles.inputLabel}>Sections</Text>
+                  {sortMarkers(editingItem.song.markers).length === 0 ? (
+                    <Text style={styles.overridesText}>This song has no section markers; it plays in full</Text>
+                  ) : (
+                    <View style={styles.chipRow}>
+                      {sortMarkers(editingItem.song.markers).map(marker => {
+                        const isSelected = overridesDraft.sectionIds.includes(marker.id);
+                        return (
+                          <TouchableOpacity
+                            key={marker.id}
+                            style={[styles.chip, isSelected && styles.chipSelected]}
+                            onPress={() => handleToggleSection(marker.id)}
+                          >
+                            <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{marker.label}</Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  )}
+                  {overridesDraft.sectionIds.length === 0 && sortMarkers(editingItem.song.markers).length > 0 && (
+                    <Text style={styles.overridesText}>None picked: the whole song plays</Text>
+                  )}
+                </View>
+
+                <View style={commonStyles.inputGroup}>
+                  <Text style={commonStyles.inputLabel}>Leader</Text>
+                  <TextInput
+                    style={styles.textInput}
+                    value={overridesDraft.leader}
+                    onChangeText={(text) => setOverridesDraft({ ...overridesDraft, leader: text })}
+                    placeholder="Who leads this song"
+                    placeholderTextColor="#666666"
+                  />
+                </View>
+              </ScrollView>
+            )}
+          </SafeAreaView>
+        </KeyboardAvoidingView>
       </Modal>
     </SafeAreaView>
   );
@@ -704,6 +1656,67 @@ const styles = StyleSheet.create({
   deleteText: {
     color: '#FF6B6B',
   },
+  eventRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 4,
+  },
+  eventText: {
+    fontSize: 14,
+    color: '#BB86FC',
+    flexShrink: 1,
+  },
+  setlistHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginBottom: 12,
+  },
+  overridesText: {
+    fontSize: 13,
+    color: '#999999',
+    marginTop: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#2C2C2C',
+    backgroundColor: '#1E1E1E',
+  },
+  chipSelected: {
+    borderColor: '#BB86FC',
+    backgroundColor: 'rgba(187, 134, 252, 0.15)',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#BBBBBB',
+  },
+  chipTextSelected: {
+    color: '#BB86FC',
+  },
+  shareInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  activityItem: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2C2C2C',
+  },
+  activityText: {
+    fontSize: 15,
+    color: '#FFFFFF',
+  },
 });
 
 export default PlaylistScreen;
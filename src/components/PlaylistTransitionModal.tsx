@@ -0,0 +1,182 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  ScrollView,
+  Modal,
+  Switch,
+} from 'react-native';
+import { PlaylistTransition } from '../types/playlist';
+import { describeTransition } from '../utils/playlistTransition';
+import Button from './Button';
+import { commonStyles } from '../theme/layout';
+
+const GAP_OPTIONS = [0, 2, 5, 10];
+const CROSSFADE_OPTIONS = [0, 2, 4, 8];
+
+interface PlaylistTransitionModalProps {
+  visible: boolean;
+  transition: PlaylistTransition;
+  onSave: (transition: PlaylistTransition) => void;
+  onCancel: () => void;
+}
+
+/**
+ * How a playlist moves from one song to the next: back to back, with a gap,
+ * crossfading, or stopping on each song until play is pressed.
+ */
+const PlaylistTransitionModal: React.FC<PlaylistTransitionModalProps> = ({
+  visible,
+  transition,
+  onSave,
+  onCancel,
+}) => {
+  const [draft, setDraft] = useState<PlaylistTransition>(transition);
+
+  useEffect(() => {
+    if (visible) {
+      setDraft(transition);
+    }
+  }, [visible]);
+
+  const renderChip = (label: string, isSelected: boolean, onPress: () => void, disabled: boolean) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, isSelected && styles.chipSelected, disabled && styles.chipDisabled]}
+      onPress={onPress}
+      disabled={disabled}
+    >
+      <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+    >
+      <SafeAreaView style={commonStyles.modalContainer}>
+        <View style={commonStyles.modalHeader}>
+          <TouchableOpacity onPress={onCancel}>
+            <Text style={styles.modalCancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle} numberOfLines={1}>Transitions</Text>
+          <Button
+            title="Save"
+            onPress={() => onSave(draft)}
+            variant="primary"
+            size="medium"
+          />
+        </View>
+
+        <ScrollView style={commonStyles.modalContent}>
+          <View style={[commonStyles.inputGroup, styles.switchRow]}>
+            <View style={styles.switchText}>
+              <Text style={commonStyles.inputLabel}>Pause between songs</Text>
+              <Text style={styles.descriptionText}>The next song loads and waits for play</Text>
+            </View>
+            <Switch
+              value={draft.pauseBetweenSongs}
+              onValueChange={(value) => setDraft({ ...draft, pauseBetweenSongs: value })}
+              trackColor={{ false: '#767577', true: '#BB86FC' }}
+              thumbColor={draft.pauseBetweenSongs ? '#FFFFFF' : '#f4f3f4'}
+            />
+          </View>
+
+          {/* A crossfade overlaps the songs, so it replaces the gap */}
+          <View style={commonStyles.inputGroup}>
+            <Text style={commonStyles.inputLabel}>Crossfade</Text>
+            <View style={styles.chipRow}>
+              {CROSSFADE_OPTIONS.map(seconds => renderChip(
+                seconds === 0 ? 'Off' : `${seconds}s`,
+                draft.crossfadeSeconds === seconds,
+                () => setDraft({ ...draft, crossfadeSeconds: seconds, gapSeconds: seconds > 0 ? 0 : draft.gapSeconds }),
+                draft.pauseBetweenSongs
+              ))}
+            </View>
+          </View>
+
+          <View style={commonStyles.inputGroup}>
+            <Text style={commonStyles.inputLabel}>Gap</Text>
+            <View style={styles.chipRow}>
+              {GAP_OPTIONS.map(seconds => renderChip(
+                seconds === 0 ? 'None' : `${seconds}s`,
+                draft.gapSeconds === seconds,
+                () => setDraft({ ...draft, gapSeconds: seconds, crossfadeSeconds: seconds > 0 ? 0 : draft.crossfadeSeconds }),
+                draft.pauseBetweenSongs
+              ))}
+            </View>
+          </View>
+
+          <Text style={styles.summaryText}>{describeTransition(draft)}</Text>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    flex: 1,
+    textAlign: 'center',
+  },
+  modalCancelText: {
+    color: '#BB86FC',
+    fontSize: 16,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  switchText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  descriptionText: {
+    fontSize: 14,
+    color: '#999999',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#2C2C2C',
+    backgroundColor: '#1E1E1E',
+  },
+  chipSelected: {
+    borderColor: '#BB86FC',
+    backgroundColor: 'rgba(187, 134, 252, 0.15)',
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#BBBBBB',
+  },
+  chipTextSelected: {
+    color: '#BB86FC',
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#999999',
+    marginTop: 8,
+    marginBottom: 24,
+  },
+});
+
+export default PlaylistTransitionModal;
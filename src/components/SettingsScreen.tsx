@@ -13,7 +13,9 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import AuthService from '../services/authService';
-import { User, UserPreferences } from '../types/user';
+import LatencyService, { DeviceLatency } from '../services/latencyService';
+import { User, UserPreferences, VoicePartPreference } from '../types/user';
+import { VoicePart } from '../types/song';
 import Header from './Header';
 import Button from './Button';
 import { commonStyles, spacingStyles } from '../theme/layout';
@@ -51,8 +53,12 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
     type: 'displayName' | 'preferences';
   }>({ visible: false, message: '', type: 'displayName' });
   const [displayNameError, setDisplayNameError] = useState<string>('');
+  const [latency, setLatency] = useState<DeviceLatency | null>(null);
+  const [manualLatency, setManualLatency] = useState('');
+  const [measuringLatency, setMeasuringLatency] = useState(false);
 
   const authService = AuthService.getInstance();
+  const latencyService = LatencyService.getInstance();
   const bannerAnimation = new Animated.Value(0);
 
   // Show error banner with animation
@@ -107,6 +113,57 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
     return unsubscribe;
   }, []);
 
+  useEffect(() => {
+    latencyService.load().then(calibration => {
+      setLatency(calibration);
+      setManualLatency(String(latencyService.getRoundTripLatencyMs()));
+    });
+  }, []);
+
+  const handleMeasureLatency = async () => {
+    setMeasuringLatency(true);
+    try {
+      const measured = await latencyService.measureRoundTrip();
+      if (measured === null) {
+        toast.showError(t('settings.latencyMeasureFailed'), t('settings.latencyMeasureHint'));
+        return;
+      }
+      const calibration = await latencyService.saveCalibration(measured, 'measured');
+      setLatency(calibration);
+      setManualLatency(String(calibration.roundTripMs));
+      toast.showSuccess(t('settings.latencyMeasured'), `${calibration.roundTripMs} ms`);
+    } catch (error) {
+      console.error('Error measuring latency:', error);
+      toast.showError(t('common.error'), t('settings.latencyMeasureFailed'));
+    } finally {
+      setMeasuringLatency(false);
+    }
+  };
+
+  const handleManualLatencySave = async () => {
+    const value = parseInt(manualLatency, 10);
+    if (isNaN(value) || value < 0 || value > 1000) {
+      toast.showError(t('common.error'), t('settings.latencyInvalid'));
+      return;
+    }
+    setLatency(await latencyService.saveCalibration(value, 'manual'));
+  };
+
+  const handleLatencyReset = async () => {
+    await latencyService.clearCalibration();
+    setLatency(null);
+    setManualLatency(String(latencyService.getRoundTripLatencyMs()));
+  };
+
+  const handleMyPartChange = (changes: Partial<VoicePartPreference> | null) => {
+    if (!changes) {
+      handlePreferenceChange('myPart', null);
+      return;
+    }
+    const current: VoicePartPreference = preferences?.myPart || { voicePart: 'S', boostDb: 6, othersDb: -6 };
+    handlePreferenceChange('myPart', { ...current, ...changes });
+  };
+
   const handlePreferenceChange = async (key: keyof UserPreferences, value: any) => {
     if (!user || !preferences) return;
 
@@ -425,6 +482,150 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
           </View>
         </View>
 
+        {/* My Part Section */}
+        <View style={commonStyles.section}>
+          <View style={commonStyles.sectionHeader}>
+            <Ionicons name="mic-outline" size={20} color="#BB86FC" />
+            <Text style={commonStyles.sectionTitle}>{t('settings.myPart')}</Text>
+          </View>
+          
+          <View style={styles.settingItem}>
+            <Text style={styles.settingLabel}>{t('settings.myPart')}</Text>
+            <Text style={styles.settingDescription}>
+              {t('settings.myPartDescription')}
+            </Text>
+            <View style={styles.tabOptions}>
+              {([
+                { value: null, label: t('settings.myPartNone') },
+                { value: 'S', label: t('settings.partSoprano') },
+                { value: 'A', label: t('settings.partAlto') },
+                { value: 'T', label: t('settings.partTenor') },
+                { value: 'B', label: t('settings.partBass') },
+              ] as { value: VoicePart | null; label: string }[]).map((part) => {
+                const isSelected = (preferences.myPart?.voicePart || null) === part.value;
+                return (
+                  <TouchableOpacity
+                    key={part.value || 'none'}
+                    style={[styles.tabOption, isSelected && styles.tabOptionSelected]}
+                    onPress={() => handleMyPartChange(part.value ? { voicePart: part.value } : null)}
+                  >
+                    <Text style={[styles.tabOptionText, isSelected && styles.tabOptionTextSelected]}>
+                      {part.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          {preferences.myPart && (
+            <>
+              <View style={styles.settingItem}>
+                <Text style={styles.settingLabel}>{t('settings.myPartBoost')}</Text>
+                <View style={styles.tabOptions}>
+                  {[0, 3, 6].map((db) => (
+                    <TouchableOpacity
+                      key={`boost-${db}`}
+                      style={[styles.tabOption, preferences.myPart?.boostDb === db && styles.tabOptionSelected]}
+                      onPress={() => handleMyPartChange({ boostDb: db })}
+                    >
+                      <Text style={[styles.tabOptionText, preferences.myPart?.boostDb === db && styles.tabOptionTextSelected]}>
+                        +{db} dB
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              <View style={styles.settingItem}>
+                <Text style={styles.settingLabel}>{t('settings.myPartOthers')}</Text>
+                <View style={styles.tabOptions}>
+                  {[0, -6, -12, -24].map((db) => (
+                    <TouchableOpacity
+                      key={`others-${db}`}
+                      style={[styles.tabOption, preferences.myPart?.othersDb === db && styles.tabOptionSelected]}
+                      onPress={() => handleMyPartChange({ othersDb: db })}
+                    >
+                      <Text style={[styles.tabOptionText, preferences.myPart?.othersDb === db && styles.tabOptionTextSelected]}>
+                        {db === 0 ? '0' : db} dB
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            </>
+          )}
+        </View>
+
+        {/* Latency Section */}
+        <View style={commonStyles.section}>
+          <View style={commonStyles.sectionHeader}>
+            <Ionicons name="timer-outline" size={20} color="#BB86FC" />
+            <Text style={commonStyles.sectionTitle}>{t('settings.latency')}</Text>
+          </View>
+
+          <View style={styles.settingItem}>
+            <View style={styles.valueContainer}>
+              <Text style={styles.settingLabel}>{t('settings.latencyRoundTrip')}</Text>
+              <Text style={styles.settingValue}>
+                {latency ? latency.roundTripMs : latencyService.getRoundTripLatencyMs()} ms
+                {' · '}
+                {latency ? t(latency.method === 'measured' ? 'settings.latencyMethodMeasured' : 'settings.latencyMethodManual') : t('settings.latencyMethodDefault')}
+              </Text>
+            </View>
+            <Text style={styles.settingDescription}>
+              {t('settings.latencyDescription')}
+            </Text>
+          </View>
+
+          <View style={styles.settingItem}>
+            <Text style={styles.settingLabel}>{t('settings.latencyMeasure')}</Text>
+            <Text style={styles.settingDescription}>
+              {t('settings.latencyMeasureHint')}
+            </Text>
+            <View style={styles.tabOptions}>
+              <Button
+                title={t('settings.latencyMeasure')}
+                onPress={handleMeasureLatency}
+                loading={measuringLatency}
+                disabled={measuringLatency}
+                variant="primary"
+                size="small"
+              />
+              {latency && (
+                <Button
+                  title={t('settings.latencyReset')}
+                  onPress={handleLatencyReset}
+                  variant="secondary"
+                  size="small"
+                />
+              )}
+            </View>
+          </View>
+
+          <View style={styles.settingItem}>
+            <Text style={styles.settingLabel}>{t('settings.latencyManual')}</Text>
+            <View style={styles.editContainer}>
+              <TextInput
+                style={styles.textInput}
+                value={manualLatency}
+                onChangeText={setManualLatency}
+                keyboardType="number-pad"
+                placeholder="ms"
+                placeholderTextColor="#666"
+              />
+              <Button
+                title=""
+                onPress={handleManualLatencySave}
+                variant="primary"
+                size="small"
+                icon={<Ionicons name="checkmark" size={24} color="#FFFFFF" />}
+                style={styles.saveButton}
+              />
+            </View>
+          </View>
+        </View>
+
         {/* Language Section */}
         <View style={commonStyles.section}>
           <View style={commonStyles.sectionHeader}>
@@ -0,0 +1,265 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Modal,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SmartPlaylistRules } from '../types/playlist';
+import { Song } from '../types/song';
+import { SongPlayStats } from '../types/user';
+import { describeSmartRules, getLibraryTags, getSmartPlaylistSongs, parseTags } from '../utils/smartPlaylist';
+import Button from './Button';
+import { commonStyles } from '../theme/layout';
+
+const ADDED_WITHIN_OPTIONS = [7, 30, 90, 365];
+
+interface SmartPlaylistModalProps {
+  visible: boolean;
+  rules: SmartPlaylistRules;
+  name?: string; // Asked for when creating; left out when editing an existing playlist's rules
+  songs: Song[]; // Songs the user can see, for the live count and tag suggestions
+  favoriteIds: Set<string>;
+  plays: { [songId: string]: SongPlayStats };
+  onSave: (rules: SmartPlaylistRules, name: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Rules of a smart playlist on top of its saved song list filters: how recently
+ * songs were added, whether they were played, their tags and how many to keep.
+ */
+const SmartPlaylistModal: React.FC<SmartPlaylistModalProps> = ({
+  visible,
+  rules,
+  name,
+  songs,
+  favoriteIds,
+  plays,
+  onSave,
+  onCancel,
+}) => {
+  const [draft, setDraft] = useState<SmartPlaylistRules>(rules);
+  const [nameText, setNameText] = useState(name || '');
+  const [tagsText, setTagsText] = useState('');
+  const [limitText, setLimitText] = useState('');
+
+  useEffect(() => {
+    if (!visible) return;
+    setDraft(rules);
+    setNameText(name || '');
+    setTagsText((rules.tags || []).join(', '));
+    setLimitText(rules.limit ? String(rules.limit) : '');
+  }, [visible]);
+
+  const currentRules = useMemo((): SmartPlaylistRules => {
+    const limit = parseInt(limitText, 10);
+    return {
+      ...draft,
+      tags: parseTags(tagsText),
+      limit: limit > 0 ? limit : undefined,
+    };
+  }, [draft, tagsText, limitText]);
+
+  const matchCount = useMemo(
+    () => getSmartPlaylistSongs(currentRules, songs, favoriteIds, plays).length,
+    [currentRules, songs, favoriteIds, plays]
+  );
+  const libraryTags = useMemo(() => getLibraryTags(songs), [songs]);
+
+  const toggleTag = (tag: string) => {
+    const tags = parseTags(tagsText);
+    const next = tags.some(existing => existing.toLowerCase() === tag.toLowerCase())
+      ? tags.filter(existing => existing.toLowerCase() !== tag.toLowerCase())
+      : [...tags, tag];
+    setTagsText(next.join(', '));
+  };
+
+  const renderChip = (label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, isSelected && styles.chipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const selectedTags = currentRules.tags || [];
+  const canSave = name === undefined || nameText.trim().length > 0;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+    >
+      <KeyboardAvoidingView
+        style={{ flex: 1 }}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <SafeAreaView style={commonStyles.modalContainer}>
+          <View style={commonStyles.modalHeader}>
+            <TouchableOpacity onPress={onCancel}>
+              <Text style={styles.modalCancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={styles.modalTitle} numberOfLines={1}>Smart Playlist</Text>
+            <Button
+              title="Save"
+              onPress={() => onSave(currentRules, nameText.trim())}
+              variant="primary"
+              size="medium"
+              disabled={!canSave}
+            />
+          </View>
+
+          <ScrollView style={commonStyles.modalContent}>
+            {name !== undefined && (
+              <View style={commonStyles.inputGroup}>
+                <Text style={commonStyles.inputLabel}>Name *</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={nameText}
+                  onChangeText={setNameText}
+                  placeholder="e.g. New this month"
+                  placeholderTextColor="#666666"
+                  maxLength={50}
+                />
+              </View>
+            )}
+
+            <View style={commonStyles.inputGroup}>
+              <Text style={commonStyles.inputLabel}>Filters</Text>
+              <Text style={styles.descriptionText}>
+                {describeSmartRules({ filters: draft.filters })}
+              </Text>
+            </View>
+
+            <View style={commonStyles.inputGroup}>
+              <Text style={commonStyles.inputLabel}>Added to the library</Text>
+              <View style={styles.chipRow}>
+                {renderChip('Any time', !draft.addedWithinDays, () => setDraft({ ...draft, addedWithinDays: undefined }))}
+                {ADDED_WITHIN_OPTIONS.map(days =>
+                  renderChip(`Last ${days} days`, draft.addedWithinDays === days, () => setDraft({ ...draft, addedWithinDays: days }))
+                )}
+              </View>
+            </View>
+
+            <View style={commonStyles.inputGroup}>
+              <Text style={commonStyles.inputLabel}>Played</Text>
+              <View style={styles.chipRow}>
+                {renderChip('Any', !draft.playStatus, () => setDraft({ ...draft, playStatus: undefined }))}
+                {renderChip('Never played', draft.playStatus === 'never', () => setDraft({ ...draft, playStatus: 'never' }))}
+                {renderChip('Played before', draft.playStatus === 'played', () => setDraft({ ...draft, playStatus: 'played' }))}
+              </View>
+            </View>
+
+            <View style={commonStyles.inputGroup}>
+              <Text style={commonStyles.inputLabel}>Tagged (any of)</Text>
+              <TextInput
+                style={styles.textInput}
+                value={tagsText}
+                onChangeText={setTagsText}
+                placeholder="e.g. Christmas, Advent"
+                placeholderTextColor="#666666"
+              />
+              {libraryTags.length > 0 && (
+                <View style={[styles.chipRow, styles.suggestions]}>
+                  {libraryTags.map(tag => renderChip(
+                    tag,
+                    selectedTags.some(selected => selected.toLowerCase() === tag.toLowerCase()),
+                    () => toggleTag(tag)
+                  ))}
+                </View>
+              )}
+            </View>
+
+            <View style={commonStyles.inputGroup}>
+              <Text style={commonStyles.inputLabel}>Most songs</Text>
+              <TextInput
+                style={styles.textInput}
+                value={limitText}
+                onChangeText={setLimitText}
+                placeholder="No limit"
+                placeholderTextColor="#666666"
+                keyboardType="number-pad"
+              />
+            </View>
+
+            <Text style={styles.matchCountText}>
+              {matchCount === 1 ? '1 song matches now' : `${matchCount} songs match now`}
+            </Text>
+          </ScrollView>
+        </SafeAreaView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    flex: 1,
+    textAlign: 'center',
+  },
+  modalCancelText: {
+    color: '#BB86FC',
+    fontSize: 16,
+  },
+  textInput: {
+    backgroundColor: '#1E1E1E',
+    borderWidth: 1,
+    borderColor: '#2C2C2C',
+    borderRadius: 8,
+    padding: 12,
+    color: '#FFFFFF',
+    fontSize: 16,
+  },
+  descriptionText: {
+    fontSize: 15,
+    color: '#BBBBBB',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  suggestions: {
+    marginTop: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#2C2C2C',
+    backgroundColor: '#1E1E1E',
+  },
+  chipSelected: {
+    borderColor: '#BB86FC',
+    backgroundColor: 'rgba(187, 134, 252, 0.15)',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#BBBBBB',
+  },
+  chipTextSelected: {
+    color: '#BB86FC',
+  },
+  matchCountText: {
+    fontSize: 14,
+    color: '#999999',
+    marginTop: 8,
+    marginBottom: 24,
+  },
+});
+
+export default SmartPlaylistModal;
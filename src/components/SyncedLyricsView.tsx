@@ -0,0 +1,122 @@
+import React, { useEffect, useRef } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { SyncedLyricLine } from '../types/song';
+import { getActiveLyricIndex } from '../utils/lrc';
+
+interface SyncedLyricsViewProps {
+  lines: SyncedLyricLine[];
+  position: number; // Playhead position in seconds
+  onLinePress: (time: number) => void;
+  fontScale?: number;
+  fullScreen?: boolean;
+}
+
+// Pause auto-scroll for this long after the user scrolls by hand
+const MANUAL_SCROLL_HOLD_MS = 4000;
+
+const SyncedLyricsView: React.FC<SyncedLyricsViewProps> = ({
+  lines,
+  position,
+  onLinePress,
+  fontScale = 1,
+  fullScreen = false,
+}) => {
+  const scrollViewRef = useRef<ScrollView>(null);
+  const lineOffsetsRef = useRef<Record<number, number>>({});
+  const viewportHeightRef = useRef(0);
+  const lastManualScrollRef = useRef(0);
+
+  const activeIndex = getActiveLyricIndex(lines, position);
+
+  // Keep the active line around the upper third of the viewport
+  useEffect(() => {
+    if (activeIndex < 0) return;
+    if (Date.now() - lastManualScrollRef.current < MANUAL_SCROLL_HOLD_MS) return;
+
+    const offset = lineOffsetsRef.current[activeIndex];
+    if (offset === undefined) return;
+
+    scrollViewRef.current?.scrollTo({
+      y: Math.max(0, offset - viewportHeightRef.current / 3),
+      animated: true,
+    });
+  }, [activeIndex]);
+
+  const fontSize = (fullScreen ? 24 : 16) * fontScale;
+
+  return (
+    <ScrollView
+      ref={scrollViewRef}
+      style={styles.container}
+      contentContainerStyle={[styles.content, fullScreen && styles.fullScreenContent]}
+      onLayout={(e) => {
+        viewportHeightRef.current = e.nativeEvent.layout.height;
+      }}
+      onScrollBeginDrag={() => {
+        lastManualScrollRef.current = Date.now();
+      }}
+    >
+      {lines.map((line, index) => {
+        const isActive = index === activeIndex;
+        const isPast = index < activeIndex;
+        return (
+          <TouchableOpacity
+            key={`lyric-${index}-${line.time}`}
+            onLayout={(e) => {
+              lineOffsetsRef.current[index] = e.nativeEvent.layout.y;
+            }}
+            onPress={() => onLinePress(line.time)}
+            activeOpacity={0.6}
+          >
+            {line.text ? (
+              <Text
+                style={[
+                  styles.line,
+                  { fontSize, lineHeight: fontSize * 1.5 },
+                  fullScreen && styles.fullScreenLine,
+                  isPast && styles.pastLine,
+                  isActive && styles.activeLine,
+                ]}
+              >
+                {line.text}
+              </Text>
+            ) : (
+              // Empty LRC lines mark instrumental breaks / stanza gaps
+              <View style={{ height: fontSize }} />
+            )}
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 200,
+  },
+  fullScreenContent: {
+    padding: 40,
+    paddingBottom: 400,
+  },
+  line: {
+    color: '#BBBBBB',
+    paddingVertical: 4,
+  },
+  fullScreenLine: {
+    textAlign: 'center',
+  },
+  pastLine: {
+    color: '#666666',
+  },
+  activeLine: {
+    color: '#BB86FC',
+    fontWeight: '600',
+  },
+});
+
+export default SyncedLyricsView;
@@ -0,0 +1,179 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { GestureResponderEvent, LayoutChangeEvent, PanResponder, StyleSheet, View } from 'react-native';
+import { WaveformPeaks, getPeakBars } from '../utils/waveform';
+
+interface WaveformLaneProps {
+  peaks: WaveformPeaks;
+  start: number; // Visible window start in seconds
+  end: number; // Visible window end in seconds
+  position: number; // Playhead position in seconds
+  loop?: { start: number; end: number } | null;
+  onSeek: (time: number) => void;
+  onLoopDraw?: (start: number, end: number) => void;
+  color?: string;
+  height?: number;
+}
+
+const BAR_WIDTH = 2;
+const BAR_GAP = 1;
+// Horizontal drag distance (px) that turns a tap into loop drawing
+const DRAG_THRESHOLD = 8;
+
+const WaveformLane: React.FC<WaveformLaneProps> = ({
+  peaks,
+  start,
+  end,
+  position,
+  loop,
+  onSeek,
+  onLoopDraw,
+  color = '#BB86FC',
+  height = 36,
+}) => {
+  const [width, setWidth] = useState(0);
+  const [draft, setDraft] = useState<{ from: number; to: number } | null>(null);
+  const gestureRef = useRef({ startX: 0, dragging: false });
+  const layoutRef = useRef({ width: 0, start, end });
+  layoutRef.current = { width, start, end };
+
+  const bars = useMemo(
+    () => getPeakBars(peaks, start, end, Math.floor(width / (BAR_WIDTH + BAR_GAP))),
+    [peaks, start, end, width]
+  );
+
+  // Bars only change with the window, not with the playhead
+  const barViews = useMemo(() => (
+    <View style={styles.bars} pointerEvents="none">
+      {bars.map((peak, index) => (
+        <View
+          key={index}
+          style={[styles.bar, { height: Math.max(1, peak * height), backgroundColor: color }]}
+        />
+      ))}
+    </View>
+  ), [bars, height, color]);
+
+  const timeAt = (x: number) => {
+    const { width: laneWidth, start: windowStart, end: windowEnd } = layoutRef.current;
+    if (laneWidth <= 0) return windowStart;
+    const ratio = Math.max(0, Math.min(1, x / laneWidth));
+    return windowStart + ratio * (windowEnd - windowStart);
+  };
+
+  const xAt = (time: number) => {
+    if (end <= start) return 0;
+    return ((time - start) / (end - start)) * width;
+  };
+
+  // Tap to seek; drag to draw a loop region
+  const panResponder = useMemo(() => PanResponder.create({
+    onStartShouldSetPanResponder: () => true,
+    onMoveShouldSetPanResponder: () => true,
+    onPanResponderTerminationRequest: () => false,
+    onPanResponderGrant: (event: GestureResponderEvent) => {
+      gestureRef.current = { startX: event.nativeEvent.locationX, dragging: false };
+    },
+    onPanResponderMove: (_event, gesture) => {
+      if (!onLoopDraw) return;
+      if (Math.abs(gesture.dx) > DRAG_THRESHOLD) {
+        gestureRef.current.dragging = true;
+      }
+      if (gestureRef.current.dragging) {
+        const from = timeAt(gestureRef.current.startX);
+        const to = timeAt(gestureRef.current.startX + gesture.dx);
+        setDraft({ from: Math.min(from, to), to: Math.max(from, to) });
+      }
+    },
+    onPanResponderRelease: (_event, gesture) => {
+      const from = timeAt(gestureRef.current.startX);
+      if (gestureRef.current.dragging && onLoopDraw) {
+        const to = timeAt(gestureRef.current.startX + gesture.dx);
+        onLoopDraw(Math.min(from, to), Math.max(from, to));
+      } else {
+        onSeek(from);
+      }
+      gestureRef.current.dragging = false;
+      setDraft(null);
+    },
+    onPanResponderTerminate: () => {
+      gestureRef.current.dragging = false;
+      setDraft(null);
+    },
+  }), [onSeek, onLoopDraw]);
+
+  const renderRegion = (from: number, to: number, style: object, key: string) => {
+    const left = Math.max(0, xAt(from));
+    const right = Math.min(width, xAt(to));
+    if (right <= left) return null;
+    return <View key={key} style={[styles.region, style, { left, width: right - left }]} />;
+  };
+
+  const playheadX = xAt(position);
+
+  return (
+    <View
+      style={[styles.lane, { height }]}
+      onLayout={(event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width)}
+      {...panResponder.panHandlers}
+    >
+      {loop && renderRegion(loop.start, loop.end, styles.loopRegion, 'loop')}
+      {draft && renderRegion(draft.from, draft.to, styles.draftRegion, 'draft')}
+      {barViews}
+      {playheadX > 0 && (
+        <View style={[styles.played, { width: Math.min(width, playheadX) }]} pointerEvents="none" />
+      )}
+      {playheadX >= 0 && playheadX <= width && (
+        <View style={[styles.playhead, { left: playheadX }]} pointerEvents="none" />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  lane: {
+    marginTop: 6,
+    borderRadius: 4,
+    backgroundColor: '#181818',
+    overflow: 'hidden',
+  },
+  bars: {
+    ...StyleSheet.absoluteFillObject,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  bar: {
+    width: BAR_WIDTH,
+    marginRight: BAR_GAP,
+    borderRadius: 1,
+  },
+  region: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+  },
+  loopRegion: {
+    backgroundColor: 'rgba(3, 218, 198, 0.2)',
+    borderLeftWidth: 1,
+    borderRightWidth: 1,
+    borderColor: '#03DAC6',
+  },
+  draftRegion: {
+    backgroundColor: 'rgba(187, 134, 252, 0.25)',
+  },
+  played: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: 0,
+    backgroundColor: 'rgba(255, 255, 255, 0.12)',
+  },
+  playhead: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 1,
+    backgroundColor: '#FFFFFF',
+  },
+});
+
+export default WaveformLane;
@@ -1,5 +1,5 @@
 import { initializeApp } from 'firebase/app';
-import { getDatabase } from 'firebase/database';
+import { getDatabase, connectDatabaseEmulator } from 'firebase/database';
 import { getStorage } from 'firebase/storage';
 import { initializeAuth, getAuth, getReactNativePersistence } from 'firebase/auth';
 import { Platform } from 'react-native';
@@ -20,6 +20,13 @@ const app = initializeApp(firebaseConfig);
 const database = getDatabase(app);
 const storage = getStorage(app);
 
+// Use the local Realtime Database emulator when a host is configured (e.g. "127.0.0.1:9000")
+const databaseEmulatorHost = process.env.EXPO_PUBLIC_DATABASE_EMULATOR_HOST;
+if (databaseEmulatorHost) {
+  const [host, port] = databaseEmulatorHost.split(':');
+  connectDatabaseEmulator(database, host, Number(port) || 9000);
+}
+
 // Initialize Auth with platform-specific persistence
 // On web, use getAuth (browser persistence by default)
 // On native, use initializeAuth with AsyncStorage persistence
@@ -59,6 +59,28 @@ export default {
     tabScore: 'Score',
     tabTracks: 'Tracks',
     tabResources: 'Resources',
+    myPart: 'My Part',
+    myPartDescription: 'The first time you open a song, its mix starts with your part raised and the other voices lowered',
+    myPartNone: 'None',
+    myPartBoost: 'Boost my part',
+    myPartOthers: 'Other voices',
+    partSoprano: 'Soprano',
+    partAlto: 'Alto',
+    partTenor: 'Tenor',
+    partBass: 'Bass',
+    latency: 'Latency',
+    latencyRoundTrip: 'Round trip on this device',
+    latencyDescription: 'Used to line up recordings with the song and to start this device in time with the others in a shared session',
+    latencyMeasure: 'Measure',
+    latencyMeasureHint: 'Turn the volume up, unplug headphones and keep the room quiet while clicks play',
+    latencyMeasured: 'Latency measured',
+    latencyMeasureFailed: 'Could not hear the clicks',
+    latencyReset: 'Use default',
+    latencyManual: 'Manual offset (ms)',
+    latencyInvalid: 'Enter a value between 0 and 1000 ms',
+    latencyMethodMeasured: 'measured',
+    latencyMethodManual: 'manual',
+    latencyMethodDefault: 'default',
   },
   
   // Home Page
@@ -59,6 +59,28 @@ export default {
     tabScore: 'Partitura',
     tabTracks: 'Pistas',
     tabResources: 'Recursos',
+    myPart: 'Mi Voz',
+    myPartDescription: 'La primera vez que abras una canción, la mezcla empezará con tu voz más alta y las demás voces más bajas',
+    myPartNone: 'Ninguna',
+    myPartBoost: 'Subir mi voz',
+    myPartOthers: 'Otras voces',
+    partSoprano: 'Soprano',
+    partAlto: 'Contralto',
+    partTenor: 'Tenor',
+    partBass: 'Bajo',
+    latency: 'Latencia',
+    latencyRoundTrip: 'Ida y vuelta en este dispositivo',
+    latencyDescription: 'Se usa para alinear las grabaciones con la canción y para que este dispositivo empiece a tiempo con los demás en una sesión compartida',
+    latencyMeasure: 'Medir',
+    latencyMeasureHint: 'Sube el volumen, desconecta los auriculares y mantén silencio mientras suenan los clics',
+    latencyMeasured: 'Latencia medida',
+    latencyMeasureFailed: 'No se pudieron oír los clics',
+    latencyReset: 'Usar valor por defecto',
+    latencyManual: 'Ajuste manual (ms)',
+    latencyInvalid: 'Introduce un valor entre 0 y 1000 ms',
+    latencyMethodMeasured: 'medido',
+    latencyMethodManual: 'manual',
+    latencyMethodDefault: 'por defecto',
   },
   
   // Home Page
@@ -112,6 +112,28 @@ export default {
     tabScore: 'Partitura',
     tabTracks: 'Pistas',
     tabResources: 'Extras',
+    myPart: 'Minha Voz',
+    myPartDescription: 'Na primeira vez que você abrir uma música, a mixagem começa com a sua voz mais alta e as outras vozes mais baixas',
+    myPartNone: 'Nenhuma',
+    myPartBoost: 'Aumentar minha voz',
+    myPartOthers: 'Outras vozes',
+    partSoprano: 'Soprano',
+    partAlto: 'Contralto',
+    partTenor: 'Tenor',
+    partBass: 'Baixo',
+    latency: 'Latência',
+    latencyRoundTrip: 'Ida e volta neste dispositivo',
+    latencyDescription: 'Usada para alinhar as gravações com a música e para que este dispositivo comece junto com os outros numa sessão compartilhada',
+    latencyMeasure: 'Medir',
+    latencyMeasureHint: 'Aumente o volume, desconecte os fones e mantenha silêncio enquanto os cliques tocam',
+    latencyMeasured: 'Latência medida',
+    latencyMeasureFailed: 'Não foi possível ouvir os cliques',
+    latencyReset: 'Usar padrão',
+    latencyManual: 'Ajuste manual (ms)',
+    latencyInvalid: 'Digite um valor entre 0 e 1000 ms',
+    latencyMethodMeasured: 'medido',
+    latencyMethodManual: 'manual',
+    latencyMethodDefault: 'padrão',
   },
   
   // Home Page
@@ -0,0 +1,385 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { Song, Track } from '../../types/song';
+
+jest.mock('expo-av', () => ({ Audio: { Sound: { createAsync: jest.fn() } } }));
+
+jest.mock('../audioStorage', () => {
+  const instance = {
+    getAudioFile: jest.fn(async (path: string) => ({ id: path, name: path, url: path })),
+    loadAudioFile: jest.fn()
+  };
+  return { __esModule: true, default: { getInstance: () => instance } };
+});
+
+jest.mock('../offlineStorageService', () => {
+  const instance = { isSongOffline: () => false, getCachedTrackUri: async () => null };
+  return { __esModule: true, default: { getInstance: () => instance } };
+});
+
+import AudioStorageService from '../audioStorage';
+import MultitrackEngine, {
+  DRIFT_TOLERANCE_MS,
+  computeDriftReport,
+  getMedianDrift,
+  getStemPositionMs,
+  getUnrenderedTrackIds
+} from '../multitrackEngine';
+
+type AnyMock = jest.Mock<(...args: any[]) => any>;
+
+interface MockSound {
+  isPlaying: boolean;
+  /** Move the playhead without a seek, as when a stem drifts or stalls */
+  drift: (offsetMs: number) => void;
+  getStatusAsync: AnyMock;
+  setStatusAsync: AnyMock;
+  setPositionAsync: AnyMock;
+  playAsync: AnyMock;
+  pauseAsync: AnyMock;
+  unloadAsync: AnyMock;
+  setVolumeAsync: AnyMock;
+  setRateAsync: AnyMock;
+  setProgressUpdateIntervalAsync: AnyMock;
+  setOnPlaybackStatusUpdate: AnyMock;
+}
+
+/**
+ * Stand-in for Audio.Sound whose playhead advances with the (fake) wall clock
+ */
+function createMockSound(durationMillis: number): MockSound {
+  let anchorPositionMs = 0;
+  let anchorTime = Date.now();
+  let rate = 1;
+
+  const getPositionMs = () => Math.min(
+    durationMillis,
+    sound.isPlaying ? anchorPositionMs + (Date.now() - anchorTime) * rate : anchorPositionMs
+  );
+  const reanchor = (positionMs: number = getPositionMs()) => {
+    anchorPositionMs = positionMs;
+    anchorTime = Date.now();
+  };
+
+  const sound: MockSound = {
+    isPlaying: false,
+    drift: (offsetMs) => reanchor(getPositionMs() + offsetMs),
+    getStatusAsync: jest.fn(async () => ({
+      isLoaded: true,
+      positionMillis: getPositionMs(),
+      durationMillis,
+      isPlaying: sound.isPlaying
+    })),
+    setStatusAsync: jest.fn(async (status: { positionMillis?: number; rate?: number; shouldPlay?: boolean }) => {
+      reanchor(status.positionMillis);
+      if (status.rate !== undefined) rate = status.rate;
+      if (status.shouldPlay !== undefined) sound.isPlaying = status.shouldPlay;
+    }),
+    setPositionAsync: jest.fn(async (positionMillis: number) => {
+      reanchor(positionMillis);
+    }),
+    playAsync: jest.fn(async () => {
+      reanchor();
+      sound.isPlaying = true;
+    }),
+    pauseAsync: jest.fn(async () => {
+      reanchor();
+      sound.isPlaying = false;
+    }),
+    unloadAsync: jest.fn(async () => {}),
+    setVolumeAsync: jest.fn(async () => {}),
+    setRateAsync: jest.fn(async (newRate: number) => {
+      reanchor();
+      rate = newRate;
+    }),
+    setProgressUpdateIntervalAsync: jest.fn(async () => {}),
+    setOnPlaybackStatusUpdate: jest.fn()
+  };
+  return sound;
+}
+
+function createTrack(id: string, offsetMs?: number): Track {
+  return { id, name: id, path: `audio/${id}.mp3`, offsetMs } as Track;
+}
+
+function createSong(tracks: Track[]): Song {
+  return { id: 'song-1', title: 'Song', artist: 'Artist', tracks } as Song;
+}
+
+/**
+ * Load a song whose stems are backed by the given mock sounds, in track order
+ */
+async function loadEngine(tracks: Track[], sounds: MockSound[]): Promise<MultitrackEngine> {
+  const audioStorage = AudioStorageService.getInstance() as unknown as { loadAudioFile: AnyMock };
+  sounds.forEach(sound => audioStorage.loadAudioFile.mockResolvedValueOnce(sound));
+
+  const engine = new MultitrackEngine();
+  await engine.load(createSong(tracks));
+  return engine;
+}
+
+// Let pending promise chains started from timers settle
+async function flushPromises(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+}
+
+describe('getStemPositionMs', () => {
+  it('maps song positions onto a stem without an offset unchanged', () => {
+    expect(getStemPositionMs(createTrack('a'), 12000)).toBe(12000);
+  });
+
+  it('is behind the song for stems that start late', () => {
+    expect(getStemPositionMs(createTrack('a', 1500), 4000)).toBe(2500);
+  });
+
+  it('is negative before a late stem has started', () => {
+    expect(getStemPositionMs(createTrack('a', 1500), 1000)).toBe(-500);
+  });
+
+  it('is ahead of the song for stems trimmed at the start', () => {
+    expect(getStemPositionMs(createTrack('a', -250), 1000)).toBe(1250);
+  });
+});
+
+describe('getUnrenderedTrackIds', () => {
+  it('lists tracks without a rendering for the shift', () => {
+    const song = createSong([
+      { ...createTrack('a'), pitchVariants: { '2': 'audio/pitch/a (+2).mp3' } },
+      createTrack('b')
+    ]);
+
+    expect(getUnrenderedTrackIds(song, 2)).toEqual(['b']);
+    expect(getUnrenderedTrackIds(song, 0)).toEqual([]);
+  });
+});
+
+describe('computeDriftReport', () => {
+  it('is phase locked when every stem is within tolerance', () => {
+    const report = computeDriftReport([
+      { trackId: 'a', positionMs: 1010, clockPositionMs: 1000 },
+      { trackId: 'b', positionMs: 990, clockPositionMs: 1000 }
+    ]);
+
+    expect(report.maxDriftMs).toBe(10);
+    expect(report.isPhaseLocked).toBe(true);
+  });
+
+  it('reports the stem furthest from the clock', () => {
+    const report = computeDriftReport([
+      { trackId: 'a', positionMs: 1000, clockPositionMs: 1000 },
+      { trackId: 'b', positionMs: 900, clockPositionMs: 1000 }
+    ]);
+
+    expect(report.stems.find(stem => stem.trackId === 'b')?.driftMs).toBe(-100);
+    expect(report.maxDriftMs).toBe(100);
+    expect(report.isPhaseLocked).toBe(false);
+  });
+
+  it('takes the median of an even number of stems as the mean of the middle two', () => {
+    const report = computeDriftReport([
+      { trackId: 'a', positionMs: 1040, clockPositionMs: 1000 },
+      { trackId: 'b', positionMs: 1000, clockPositionMs: 1000 },
+      { trackId: 'c', positionMs: 1020, clockPositionMs: 1000 },
+      { trackId: 'd', positionMs: 1500, clockPositionMs: 1000 }
+    ]);
+
+    expect(getMedianDrift(report)).toBe(30);
+  });
+});
+
+describe('MultitrackEngine', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 100000 });
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  describe('correctDrift', () => {
+    it('re-seeks a stem that wanders away from the others', async () => {
+      const sounds = [createMockSound(60000), createMockSound(60000), createMockSound(60000)];
+      const engine = await loadEngine([createTrack('a'), createTrack('b'), createTrack('c')], sounds);
+      await engine.play();
+
+      sounds[2].drift(DRIFT_TOLERANCE_MS * 4);
+      jest.advanceTimersByTime(1000);
+      await flushPromises();
+
+      expect(sounds[2].setPositionAsync).toHaveBeenCalledWith(1000, expect.anything());
+      expect(sounds[0].setPositionAsync).not.toHaveBeenCalled();
+      expect(sounds[1].setPositionAsync).not.toHaveBeenCalled();
+      await engine.unload();
+    });
+
+    it('moves the clock with the stems when they all stall together', async () => {
+      const sounds = [createMockSound(60000), createMockSound(60000)];
+      const engine = await loadEngine([createTrack('a'), createTrack('b')], sounds);
+      await engine.play();
+
+      // One second of wall time passes while the stems only got 600 ms in
+      sounds[0].drift(-400);
+      sounds[1].drift(-400);
+      jest.advanceTimersByTime(1000);
+      await flushPromises();
+
+      expect(engine.getPosition()).toBeCloseTo(0.6, 2);
+      expect(sounds[0].setPositionAsync).not.toHaveBeenCalled();
+      expect(sounds[1].setPositionAsync).not.toHaveBeenCalled();
+      await engine.unload();
+    });
+
+    it('re-seeks offset stems to their own position, not the song position', async () => {
+      const sounds = [createMockSound(60000), createMockSound(60000), createMockSound(60000)];
+      const engine = await loadEngine(
+        [createTrack('a'), createTrack('b'), createTrack('late', 500)],
+        sounds
+      );
+      await engine.play();
+
+      // The late stem starts half a second in, then runs ahead
+      jest.advanceTimersByTime(600);
+      await flushPromises();
+      expect(sounds[2].isPlaying).toBe(true);
+      sounds[2].drift(400);
+      jest.advanceTimersByTime(400);
+      await flushPromises();
+
+      expect(sounds[2].setPositionAsync).toHaveBeenCalledWith(500, expect.anything());
+      await engine.unload();
+    });
+
+    it('ignores stems that have not reached their offset yet', async () => {
+      const sounds = [createMockSound(60000), createMockSound(60000)];
+      const engine = await loadEngine([createTrack('a'), createTrack('late', 5000)], sounds);
+      await engine.play();
+
+      expect(sounds[1].playAsync).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1000);
+      await flushPromises();
+
+      expect(sounds[1].setPositionAsync).not.toHaveBeenCalled();
+      await engine.unload();
+    });
+  });
+
+  describe('setPitchShift', () => {
+    it('keeps the original key while some track has no rendering', async () => {
+      const sounds = [createMockSound(60000), createMockSound(60000)];
+      const engine = await loadEngine(
+        [{ ...createTrack('a'), pitchVariants: { '2': 'audio/pitch/a (+2).mp3' } }, createTrack('b')],
+        sounds
+      );
+
+      expect(await engine.setPitchShift(2)).toEqual(['b']);
+      expect(engine.getPitchShift()).toBe(0);
+      expect(sounds[0].unloadAsync).not.toHaveBeenCalled();
+      await engine.unload();
+    });
+  });
+
+  describe('loop wrapping', () => {
+    it('jumps every stem back to the loop start at the loop end', async () => {
+      const sounds = [createMockSound(60000), createMockSound(60000)];
+      const engine = await loadEngine([createTrack('a'), createTrack('b')], sounds);
+      engine.setLoop({ start: 2, end: 4 });
+      await engine.seek(3);
+      await engine.play();
+
+      jest.advanceTimersByTime(999);
+      expect(sounds[0].setPositionAsync).not.toHaveBeenCalledWith(2000, expect.anything());
+
+      jest.advanceTimersByTime(1);
+      await flushPromises();
+
+      expect(sounds[0].setPositionAsync).toHaveBeenCalledWith(2000, expect.anything());
+      expect(sounds[1].setPositionAsync).toHaveBeenCalledWith(2000, expect.anything());
+      expect(engine.getPosition()).toBeCloseTo(2, 2);
+      await engine.unload();
+    });
+
+    it('waits longer for the loop end at a slower rate', async () => {
+      const sounds = [createMockSound(60000)];
+      const engine = await loadEngine([createTrack('a')], sounds);
+      await engine.setRate(0.5);
+      engine.setLoop({ start: 0, end: 1 });
+      await engine.play();
+
+      jest.advanceTimersByTime(1000);
+      await flushPromises();
+      expect(engine.getPosition()).toBeCloseTo(0.5, 2);
+
+      jest.advanceTimersByTime(1000);
+      await flushPromises();
+      expect(sounds[0].setPositionAsync).toHaveBeenCalledWith(0, expect.anything());
+      expect(engine.getPosition()).toBeCloseTo(0, 2);
+      await engine.unload();
+    });
+
+    it('restarts stems that ran out before the loop end', async () => {
+      const sounds = [createMockSound(60000), createMockSound(3000)];
+      const engine = await loadEngine([createTrack('a'), createTrack('short')], sounds);
+      engine.setLoop({ start: 1, end: 5 });
+      await engine.play();
+
+      jest.advanceTimersByTime(5000);
+      await flushPromises();
+
+      expect(sounds[0].setPositionAsync).toHaveBeenCalledWith(1000, expect.anything());
+      expect(sounds[1].setStatusAsync).toHaveBeenLastCalledWith(expect.objectContaining({
+        positionMillis: 1000,
+        shouldPlay: true
+      }));
+      await engine.unload();
+    });
+
+    it('repeats a loop that ends with the song instead of finishing', async () => {
+      const sounds = [createMockSound(10000)];
+      const engine = await loadEngine([createTrack('a')], sounds);
+      const onFinish = jest.fn();
+      engine.setCallbacks({ onFinish });
+      engine.setLoop({ start: 2, end: 10 });
+      await engine.seek(9);
+      await engine.play();
+
+      // The stem reports its end just before the loop timer fires
+      jest.advanceTimersByTime(990);
+      const onStatus = sounds[0].setOnPlaybackStatusUpdate.mock.calls[0][0] as (status: object) => void;
+      onStatus({ isLoaded: true, didJustFinish: true });
+      await flushPromises();
+
+      expect(onFinish).not.toHaveBeenCalled();
+      expect(sounds[0].setStatusAsync).toHaveBeenLastCalledWith(expect.objectContaining({
+        positionMillis: 2000,
+        shouldPlay: true
+      }));
+      expect(engine.isPlaying()).toBe(true);
+      expect(engine.getPosition()).toBeCloseTo(2, 2);
+      await engine.unload();
+    });
+
+    it('parks stems that start after the loop start until the clock reaches them', async () => {
+      const sounds = [createMockSound(60000), createMockSound(60000)];
+      const engine = await loadEngine([createTrack('a'), createTrack('late', 3000)], sounds);
+      engine.setLoop({ start: 1, end: 5 });
+      await engine.seek(4);
+      await engine.play();
+
+      jest.advanceTimersByTime(1000);
+      await flushPromises();
+
+      expect(sounds[0].setPositionAsync).toHaveBeenCalledWith(1000, expect.anything());
+      expect(sounds[1].setStatusAsync).toHaveBeenLastCalledWith({ positionMillis: 0, shouldPlay: false });
+      expect(sounds[1].isPlaying).toBe(false);
+
+      // The late stem comes back in two seconds after the wrap
+      jest.advanceTimersByTime(2000);
+      await flushPromises();
+      expect(sounds[1].isPlaying).toBe(true);
+      await engine.unload();
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { Song } from '../../types/song';
+import { createQueue } from '../../utils/playQueue';
+
+type AnyMock = jest.Mock<(...args: any[]) => any>;
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(() => Promise.resolve()),
+  removeItem: jest.fn(() => Promise.resolve())
+}));
+
+const song = (id: string): Song => ({ id, title: `Song ${id}`, artist: 'Artist' });
+
+describe('PlayQueueService with songs that left the library', () => {
+  let service: any;
+
+  // A queue saved before a restart, of songs a, b and c, playing a
+  beforeEach(async () => {
+    jest.resetModules();
+    const AsyncStorage = require('@react-native-async-storage/async-storage');
+    (AsyncStorage.getItem as AnyMock).mockResolvedValue(
+      JSON.stringify(createQueue({ name: 'Library' }, ['a', 'b', 'c'], 'a', false))
+    );
+    service = require('../playQueueService').default.getInstance();
+    await service.load();
+  });
+
+  it('skips them going forward', () => {
+    service.setLibrary([song('a'), song('c')]);
+
+    expect(service.peekNext(false)?.id).toBe('c');
+    expect(service.next(false)?.id).toBe('c');
+    expect(service.getCurrentSong()?.id).toBe('c');
+  });
+
+  it('skips them going back', () => {
+    service.setLibrary([song('a'), song('c')]);
+    service.next(false);
+
+    expect(service.previous()?.id).toBe('a');
+  });
+
+  it('stops without moving when nothing left resolves, even on repeat', () => {
+    const queue = service.getQueue();
+
+    expect(service.next(true)).toBeNull();
+    expect(service.getQueue()).toBe(queue);
+  });
+});
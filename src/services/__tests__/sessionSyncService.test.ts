@@ -0,0 +1,181 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect, jest, beforeAll, afterAll } from '@jest/globals';
+import { initializeApp, deleteApp, FirebaseApp } from 'firebase/app';
+import { getDatabase, connectDatabaseEmulator, ref, remove, goOffline } from 'firebase/database';
+
+// The app-wide database is never used here; every simulated device brings its own
+jest.mock('../../config/firebase', () => ({ database: null }));
+
+import {
+  DEFAULT_SESSION_STATE,
+  SessionState,
+  SessionSyncClient,
+  SESSION_EXPIRY_MS,
+  START_LEAD_MS,
+  estimateClockOffset,
+  getSessionPosition,
+  isSessionExpired,
+  parseSessionSummary
+} from '../sessionSyncService';
+
+const PLAYING: SessionState = {
+  ...DEFAULT_SESSION_STATE,
+  isPlaying: true,
+  seekPosition: 30,
+  startAt: 1000000
+};
+
+describe('estimateClockOffset', () => {
+  it('returns null without samples', () => {
+    expect(estimateClockOffset([])).toBeNull();
+  });
+
+  it('places the server time halfway through the fastest probe', () => {
+    const estimate = estimateClockOffset([
+      { sentAt: 1000, serverTime: 6100, receivedAt: 1300 },
+      { sentAt: 2000, serverTime: 7020, receivedAt: 2040 },
+      { sentAt: 3000, serverTime: 8000, receivedAt: 3200 }
+    ]);
+
+    expect(estimate).toEqual({ offset: 5000, roundTrip: 40 });
+  });
+});
+
+describe('getSessionPosition', () => {
+  it('holds the seek position while paused', () => {
+    expect(getSessionPosition({ ...PLAYING, isPlaying: false }, 2000000)).toBe(30);
+  });
+
+  it('does not run before the scheduled start', () => {
+    expect(getSessionPosition(PLAYING, PLAYING.startAt! - 300)).toBe(30);
+  });
+
+  it('advances from the anchor at the playback speed', () => {
+    expect(getSessionPosition(PLAYING, PLAYING.startAt! + 2000)).toBe(32);
+    expect(getSessionPosition({ ...PLAYING, playbackSpeed: 0.5 }, PLAYING.startAt! + 2000)).toBe(31);
+  });
+});
+
+describe('isSessionExpired', () => {
+  const session = parseSessionSummary('session', {
+    admin: 'leader',
+    createdAt: 1000,
+    members: { leader: { deviceId: 'leader', displayName: 'Leader', lastSeen: 500000 } }
+  });
+
+  it('measures the leader heartbeat against server time', () => {
+    expect(isSessionExpired(session, 500000 + SESSION_EXPIRY_MS)).toBe(false);
+    expect(isSessionExpired(session, 500001 + SESSION_EXPIRY_MS)).toBe(true);
+  });
+});
+
+describe('SessionSyncClient scheduling', () => {
+  // Clock offsets only come from probing the server, so these clients run unsynced (offset 0)
+  const createClient = (now: number) => new SessionSyncClient('session', 'device', { now: () => now });
+
+  it('starts early by the output latency', () => {
+    const client = createClient(PLAYING.startAt! - 400);
+    expect(client.getStartDelay(PLAYING.startAt!)).toBe(400);
+
+    client.setOutputLatency(120);
+    expect(client.getStartDelay(PLAYING.startAt!)).toBe(280);
+  });
+
+  it('expects the player ahead of the session by the output latency', () => {
+    const client = createClient(PLAYING.startAt! + 1000);
+    expect(client.getExpectedPosition(PLAYING)).toBe(31);
+
+    client.setOutputLatency(250);
+    expect(client.getExpectedPosition(PLAYING)).toBe(31.25);
+  });
+});
+
+/**
+ * Several devices with skewed clocks against the Realtime Database emulator
+ * configured in firebase.json. Runs when an emulator host is set, e.g.
+ * `npx firebase-tools emulators:exec --only database "npx jest --ci"`.
+ */
+const emulatorHost = process.env.FIREBASE_DATABASE_EMULATOR_HOST || process.env.EXPO_PUBLIC_DATABASE_EMULATOR_HOST;
+const describeWithEmulator = emulatorHost ? describe : describe.skip;
+
+describeWithEmulator('SessionSyncClient against the database emulator', () => {
+  const sessionId = `test_${Date.now()}`;
+  const skews = { leader: 0, ahead: 4000, behind: -2500 };
+  const apps: FirebaseApp[] = [];
+  const clients: { [name: string]: SessionSyncClient } = {};
+
+  // Tolerance for comparing devices: localhost round trips are a few ms
+  const toleranceMs = 30;
+
+  beforeAll(async () => {
+    const [host, port] = (emulatorHost || '').split(':');
+
+    for (const [name, skew] of Object.entries(skews)) {
+      // Separate apps give each device its own connection, as on separate phones
+      const app = initializeApp(
+        { projectId: 'demo-multitrack', databaseURL: 'https://demo-multitrack.firebaseio.com' },
+        `device-${name}`
+      );
+      const database = getDatabase(app);
+      connectDatabaseEmulator(database, host, Number(port) || 9000);
+      apps.push(app);
+
+      clients[name] = new SessionSyncClient(sessionId, name, {
+        database,
+        now: () => Date.now() + skew
+      });
+      await clients[name].measureClockOffset();
+    }
+  });
+
+  afterAll(async () => {
+    Object.values(clients).forEach(client => client.dispose());
+    if (apps.length > 0) {
+      await remove(ref(getDatabase(apps[0]), `sessions/${sessionId}`));
+    }
+    apps.forEach(app => goOffline(getDatabase(app)));
+    await Promise.all(apps.map(app => deleteApp(app)));
+  });
+
+  it('estimates each device clock against the server', () => {
+    for (const [name, skew] of Object.entries(skews)) {
+      const estimate = clients[name].getClockEstimate();
+      expect(estimate).not.toBeNull();
+      // The emulator stamps with this machine's clock, so the offset undoes the skew
+      expect(Math.abs(estimate!.offset + skew)).toBeLessThan(estimate!.roundTrip / 2 + toleranceMs);
+    }
+  });
+
+  it('schedules every device to start at the same moment', async () => {
+    const received = new Promise<SessionState>(resolve => {
+      const unsubscribe = clients.ahead.subscribe(state => {
+        if (state?.isPlaying) {
+          unsubscribe();
+          resolve(state);
+        }
+      });
+    });
+
+    const transport = await clients.leader.publishTransport(true, 12, START_LEAD_MS);
+    const state = await received;
+    expect(state.startAt).toBe(transport.startAt);
+
+    // Wall-clock instant at which each device would start, read at one moment
+    const now = Date.now();
+    const starts = Object.values(clients).map(client => now + client.getStartDelay(state.startAt!));
+    expect(Math.max(...starts) - Math.min(...starts)).toBeLessThan(toleranceMs);
+  });
+
+  it('agrees on the song position across devices', () => {
+    const state: SessionState = {
+      ...PLAYING,
+      startAt: Math.round(clients.leader.getServerTime() - 5000)
+    };
+
+    const positions = Object.values(clients).map(client => client.getExpectedPosition(state));
+    expect(Math.max(...positions) - Math.min(...positions)).toBeLessThan(toleranceMs / 1000);
+    expect(positions[0]).toBeCloseTo(35, 1);
+  });
+});
@@ -794,7 +794,7 @@ IMPORTANT RULES:
       // Add MCP tools information (always show when MCP is enabled)
       if (enableMCP) {
         const mcpToolsDescription = this.mcpClient.getToolsDescription();
-        systemPrompt += `\n\n=== MCP (MODEL CONTEXT PROTOCOL) TOOLS ===\n\nYou have COMPLETE access to ALL data in the project through these MCP tools. USE THESE TOOLS to access ANY information:\n\n${mcpToolsDescription}\n\nIMPORTANT WORKFLOW FOR GETTING SONG LYRICS:\nWhen users ask for lyrics of a song, follow this workflow:\n1. If user provides song title (and optionally artist), use "get_song_by_title" tool - THIS IS THE BEST TOOL FOR LYRICS\n2. If you only have song ID, use "get_song_details" tool\n3. If you need to search first, use "search_songs" then use "get_song_details" with the song ID\n\nWHEN TO USE EACH TOOL (COMPREHENSIVE GUIDE):\n\nSONG TOOLS:\n- "get_song_by_title": BEST CHOICE when users ask for lyrics by song name. Returns full lyrics immediately.\n- "search_songs": Use to find songs when user provides partial information or keywords\n- "search_songs_advanced": Use when users want filtered results (e.g., "songs with lyrics", "my favorites", "songs with audio tracks")\n- "get_songs_by_artist": Use when users ask for all songs by a specific artist\n- "get_songs_by_album": Use when users ask for all songs from a specific album\n- "get_song_details": Use when you have a song ID. Returns COMPLETE song data including lyrics, tracks, scores, resources with URLs\n- "get_song_resources": Use to get tracks, scores, and links. Returns FULL URLs and paths for all resources\n- "get_song_access_control": Use when users ask about song permissions, access control, or who can access a song\n- "get_song_state": Use when users ask about playback state, active tracks, or track volumes for a song\n- "find_similar_songs": Use when users want songs similar to a specific song\n- "search_songs_by_theme": Use to find songs matching a theme or topic in lyrics\n- "search_with_suggestions": Use when search returns no results - provides helpful suggestions\n\nPLAYLIST TOOLS:\n- "get_playlists": Use to get all playlists for the user (summary list)\n- "get_playlist_details": Use to get detailed information about a specific playlist including all songs with positions and notes\n\nGROUP TOOLS:\n- "get_user_groups": Use to get all groups the user belongs to (summary list)\n- "get_group_details": Use to get detailed information about a specific group including all members\n\nUSER TOOLS:\n- "get_user_info": Use when users ask about their profile, stats, preferences, or activity\n- "get_favorite_songs": Use when users ask for their favorite songs\n- "get_all_user_data": Use when users want comprehensive information about everything - returns profile, stats, favorites, playlists, groups, library stats, and song/track states\n\nTRACK TOOLS:\n- "get_track_states": Use when users ask about individual track states (solo, mute, volume) for tracks in a song\n\nANALYTICS TOOLS:\n- "get_library_statistics": Use when users ask about library stats, counts, or want to see what's available\n\nCRITICAL: When users ask "show me lyrics of [song name]" or "what are the lyrics of [song]", you MUST use "get_song_by_title" tool with the song title. Do not try to answer from memory or summary - always use the tool to get the actual lyrics.\n\nREMEMBER: You have access to EVERYTHING in the project. If a user asks about any data, there is a tool to access it. Use the appropriate tool to get the information.\n\nEMBEDDING MEDIA IN RESPONSES:\nWhen you provide information about songs that includes scores (PDFs) or tracks (audio files), you can embed them directly in your response so they render in the chat interface.\n\nTo embed media, include a JSON code block with the score/track data:\n\nFor scores:\n\`\`\`json\n{\n  "scores": [\n    {\n      "url": "https://...",\n      "name": "Score Name",\n      "pages": ["url1", "url2"] // optional, for multi-page PDFs\n    }\n  ]\n}\n\`\`\`\n\nFor tracks:\n\`\`\`json\n{\n  "tracks": [\n    {\n      "path": "audio/path/to/file.mp3",\n      "name": "Track Name"\n    }\n  ]\n}\n\`\`\`\n\nFor resources (videos, links, downloads, etc.):\n\`\`\`json\n{\n  "resources": [\n    {\n      "url": "https://...",\n      "name": "Resource Name",\n      "type": "youtube", // or "audio", "download", "link", "pdf"\n      "description": "Optional description"\n    }\n  ]\n}\n\`\`\`\n\nYou can include scores, tracks, and resources in the same JSON block. The chat interface will automatically render:\n- PDF viewers for scores\n- Audio players for tracks\n- YouTube video players for youtube resources\n- PDF viewers for pdf resources\n- Audio players for audio resources\n- Clickable links for download and link resources\n\nExample: When a user asks "show me the score for [song name]" or "show me the video for [song name]", use get_song_details or get_song_by_title, then include the score/resource data in a JSON code block in your response.\n\nThe summary below provides an overview, but for detailed queries, always use the MCP tools.\n\n=== END OF MCP TOOLS ===\n\n`;
+        systemPrompt += `\n\n=== MCP (MODEL CONTEXT PROTOCOL) TOOLS ===\n\nYou have COMPLETE access to ALL data in the project through these MCP tools. USE THESE TOOLS to access ANY information:\n\n${mcpToolsDescription}\n\nIMPORTANT WORKFLOW FOR GETTING SONG LYRICS:\nWhen users ask for lyrics of a song, follow this workflow:\n1. If user provides song title (and optionally artist), use "get_song_by_title" tool - THIS IS THE BEST TOOL FOR LYRICS\n2. If you only have song ID, use "get_song_details" tool\n3. If you need to search first, use "search_songs" then use "get_song_details" with the song ID\n\nWHEN TO USE EACH TOOL (COMPREHENSIVE GUIDE):\n\nSONG TOOLS:\n- "get_song_by_title": BEST CHOICE when users ask for lyrics by song name. Returns full lyrics immediately.\n- "search_songs": Use to find songs when user provides partial information or keywords\n- "search_songs_advanced": Use when users want filtered results (e.g., "songs with lyrics", "my favorites", "songs with audio tracks"). Pass "voicePart" for requests like "songs with a tenor stem"\n- "get_songs_by_artist": Use when users ask for all songs by a specific artist\n- "get_songs_by_album": Use when users ask for all songs from a specific album\n- "get_song_details": Use when you have a song ID. Returns COMPLETE song data including lyrics, tracks, scores, resources with URLs\n- "get_song_resources": Use to get tracks, scores, and links. Returns FULL URLs and paths for all resources\n- "get_song_access_control": Use when users ask about song permissions, access control, or who can access a song\n- "get_song_state": Use when users ask about playback state, active tracks, or track volumes for a song\n- "find_similar_songs": Use when users want songs similar to a specific song\n- "search_songs_by_theme": Use to find songs matching a theme or topic in lyrics\n- "search_with_suggestions": Use when search returns no results - provides helpful suggestions\n\nPLAYLIST TOOLS:\n- "get_playlists": Use to get all playlists for the user (summary list)\n- "get_playlist_details": Use to get detailed information about a specific playlist including all songs with positions and notes\n\nGROUP TOOLS:\n- "get_user_groups": Use to get all groups the user belongs to (summary list)\n- "get_group_details": Use to get detailed information about a specific group including all members\n\nUSER TOOLS:\n- "get_user_info": Use when users ask about their profile, stats, preferences, or activity\n- "get_favorite_songs": Use when users ask for their favorite songs\n- "get_all_user_data": Use when users want comprehensive information about everything - returns profile, stats, favorites, playlists, groups, library stats, and song/track states\n\nTRACK TOOLS:\n- "get_track_states": Use when users ask about individual track states (solo, mute, volume) for tracks in a song\n- Tracks returned by "get_song_details" carry role (vocal/instrument/click/guide), voicePart (S/A/T/B) and instrument; use them to find "my part" instead of guessing from track names\n- "get_loop_regions": Use when users ask about the practice loops (A-B regions) saved for a song\n- "select_loop_region": Use when users ask to loop, repeat or practise a saved passage of a song, or to stop looping\n- "get_mix_presets": Use when users ask which named mixes (e.g. "Soprano practice", "No click") exist for a song\n- "apply_mix_preset": Use when users ask to switch to one of those named mixes\n\nANALYTICS TOOLS:\n- "get_library_statistics": Use when users ask about library stats, counts, or want to see what's available\n\nCRITICAL: When users ask "show me lyrics of [song name]" or "what are the lyrics of [song]", you MUST use "get_song_by_title" tool with the song title. Do not try to answer from memory or summary - always use the tool to get the actual lyrics.\n\nREMEMBER: You have access to EVERYTHING in the project. If a user asks about any data, there is a tool to access it. Use the appropriate tool to get the information.\n\nEMBEDDING MEDIA IN RESPONSES:\nWhen you provide information about songs that includes scores (PDFs) or tracks (audio files), you can embed them directly in your response so they render in the chat interface.\n\nTo embed media, include a JSON code block with the score/track data:\n\nFor scores:\n\`\`\`json\n{\n  "scores": [\n    {\n      "url": "https://...",\n      "name": "Score Name",\n      "pages": ["url1", "url2"] // optional, for multi-page PDFs\n    }\n  ]\n}\n\`\`\`\n\nFor tracks:\n\`\`\`json\n{\n  "tracks": [\n    {\n      "path": "audio/path/to/file.mp3",\n      "name": "Track Name"\n    }\n  ]\n}\n\`\`\`\n\nFor resources (videos, links, downloads, etc.):\n\`\`\`json\n{\n  "resources": [\n    {\n      "url": "https://...",\n      "name": "Resource Name",\n      "type": "youtube", // or "audio", "download", "link", "pdf"\n      "description": "Optional description"\n    }\n  ]\n}\n\`\`\`\n\nYou can include scores, tracks, and resources in the same JSON block. The chat interface will automatically render:\n- PDF viewers for scores\n- Audio players for tracks\n- YouTube video players for youtube resources\n- PDF viewers for pdf resources\n- Audio players for audio resources\n- Clickable links for download and link resources\n\nExample: When a user asks "show me the score for [song name]" or "show me the video for [song name]", use get_song_details or get_song_by_title, then include the score/resource data in a JSON code block in your response.\n\nThe summary below provides an overview, but for detailed queries, always use the MCP tools.\n\n=== END OF MCP TOOLS ===\n\n`;
       }
 
       systemPrompt += `\n=== ${enableMCP ? 'LIBRARY SUMMARY' : 'COMPLETE DATABASE CONTEXT'} ===\n\n${contextData}\n\n=== END OF ${enableMCP ? 'SUMMARY' : 'DATABASE CONTEXT'} ===\n\n${enableMCP ? 'Remember: Use MCP tools to query detailed information when users ask specific questions. The summary above is just an overview.' : 'Remember: You have access to the complete database context above. Use this full information to answer the user\'s questions accurately and comprehensively.'}`;
@@ -4,6 +4,10 @@ import * as FileSystem from 'expo-file-system';
 import * as DocumentPicker from 'expo-document-picker';
 import { Platform } from 'react-native';
 import { storage } from '../config/firebase';
+import { Track } from '../types/song';
+import { WaveformPeaks, computePeaks, getPeaksPath } from '../utils/waveform';
+import { analyzeLoudness } from '../utils/loudness';
+import OfflineStorageService from './offlineStorageService';
 
 interface AudioFile {
   id: string;
@@ -12,9 +16,15 @@ interface AudioFile {
   localUri?: string;
 }
 
+interface DecodedAudio {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
 class AudioStorageService {
   private static instance: AudioStorageService;
   private cacheDirectory = `${FileSystem.cacheDirectory}audio/`;
+  private peaksCache = new Map<string, WaveformPeaks>();
 
   private constructor() {
     // Initialize cache directory (only on native platforms)
@@ -79,6 +89,102 @@ class AudioStorageService {
     }
   }
 
+  /**
+   * Upload a track's audio together with its waveform peaks and loudness.
+   * Both are only measured where the audio can be decoded (web). expo-av plays
+   * files on iOS and Android but gives no access to their samples, so tracks
+   * uploaded there have neither until scripts/generateWaveforms.js and
+   * scripts/normalizeLoudness.js fill them in.
+   */
+  async uploadTrackAudio(
+    file: DocumentPicker.DocumentPickerAsset,
+    path: string
+  ): Promise<Pick<Track, 'path' | 'peaksPath' | 'loudness'>> {
+    await this.uploadAudioFile(file, path);
+
+    const uploaded: Pick<Track, 'path' | 'peaksPath' | 'loudness'> = { path };
+    let decoded: DecodedAudio | null = null;
+    try {
+      decoded = await this.decodeAudio(file);
+    } catch (error) {
+      // The track is still usable without a waveform or normalization
+      console.warn('Error decoding uploaded audio:', error);
+    }
+    if (!decoded) return uploaded;
+
+    const peaksPath = await this.uploadWaveformPeaks(computePeaks(decoded.channels, decoded.sampleRate), path);
+    if (peaksPath) {
+      uploaded.peaksPath = peaksPath;
+    }
+
+    const loudness = await analyzeLoudness(decoded.channels, decoded.sampleRate);
+    if (loudness) {
+      uploaded.loudness = loudness;
+    }
+    return uploaded;
+  }
+
+  private async decodeAudio(file: DocumentPicker.DocumentPickerAsset): Promise<DecodedAudio | null> {
+    if (Platform.OS !== 'web' || typeof window === 'undefined') return null;
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    if (!AudioContextClass) return null;
+
+    const context: AudioContext = new AudioContextClass();
+    try {
+      const response = await fetch(file.uri);
+      const audioBuffer = await context.decodeAudioData(await response.arrayBuffer());
+      const channels: Float32Array[] = [];
+      for (let i = 0; i < audioBuffer.numberOfChannels; i++) {
+        channels.push(audioBuffer.getChannelData(i));
+      }
+      return { channels, sampleRate: audioBuffer.sampleRate };
+    } finally {
+      context.close().catch(() => {});
+    }
+  }
+
+  private async uploadWaveformPeaks(peaks: WaveformPeaks, path: string): Promise<string | undefined> {
+    try {
+      const peaksPath = getPeaksPath(path);
+      const blob = new Blob([JSON.stringify(peaks)], { type: 'application/json' });
+      await uploadBytes(ref(storage, peaksPath), blob);
+      this.peaksCache.set(peaksPath, peaks);
+      return peaksPath;
+    } catch (error) {
+      // The track is still usable without a waveform
+      console.warn('Error uploading waveform peaks:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Load a track's waveform peaks, preferring the offline copy of the song
+   */
+  async getWaveformPeaks(track: Track, songId: string): Promise<WaveformPeaks | null> {
+    if (!track.peaksPath) return null;
+
+    const cached = this.peaksCache.get(track.peaksPath);
+    if (cached) return cached;
+
+    try {
+      let peaks = Platform.OS !== 'web'
+        ? await OfflineStorageService.getInstance().getCachedPeaks(track, songId)
+        : null;
+
+      if (!peaks) {
+        const url = await getDownloadURL(ref(storage, track.peaksPath));
+        const response = await fetch(url);
+        peaks = await response.json() as WaveformPeaks;
+      }
+
+      this.peaksCache.set(track.peaksPath, peaks);
+      return peaks;
+    } catch (error) {
+      console.error('Error loading waveform peaks:', error);
+      return null;
+    }
+  }
+
   async deleteAudioFile(path: string): Promise<void> {
     try {
       const storageRef = ref(storage, path);
@@ -0,0 +1,146 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Audio } from 'expo-av';
+import { Platform } from 'react-native';
+import { renderClickWav } from '../utils/metronome';
+import { MeterSample, findClickLatencyMs, getDefaultRoundTripLatencyMs, getMedian } from '../utils/latency';
+
+export interface DeviceLatency {
+  roundTripMs: number; // Output + input latency
+  method: 'measured' | 'manual';
+  calibratedAt: number;
+}
+
+const STORAGE_KEY = 'device_latency';
+const CALIBRATION_CLICKS = 6;
+const CLICK_INTERVAL_MS = 700;
+// Silence recorded before the first click to measure the room noise
+const NOISE_FLOOR_MS = 800;
+const METER_INTERVAL_MS = 10;
+
+/**
+ * Output and input latency of this device. Latency belongs to the hardware,
+ * not the user, so it is kept on the device rather than in the user's profile.
+ */
+class LatencyService {
+  private static instance: LatencyService;
+  private calibration: DeviceLatency | null = null;
+  private loaded = false;
+
+  private constructor() {}
+
+  public static getInstance(): LatencyService {
+    if (!LatencyService.instance) {
+      LatencyService.instance = new LatencyService();
+    }
+    return LatencyService.instance;
+  }
+
+  public async load(): Promise<DeviceLatency | null> {
+    if (this.loaded) return this.calibration;
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEY);
+      this.calibration = data ? JSON.parse(data) : null;
+    } catch (error) {
+      console.error('Error loading latency calibration:', error);
+    }
+    this.loaded = true;
+    return this.calibration;
+  }
+
+  public getCalibration(): DeviceLatency | null {
+    return this.calibration;
+  }
+
+  /**
+   * Calibrated round trip, or a typical value for the platform
+   */
+  public getRoundTripLatencyMs(): number {
+    return this.calibration?.roundTripMs ?? getDefaultRoundTripLatencyMs(Platform.OS);
+  }
+
+  /**
+   * Output latency alone cannot be measured with a loopback, so half the round trip stands in for it
+   */
+  public getOutputLatencyMs(): number {
+    return Math.round(this.getRoundTripLatencyMs() / 2);
+  }
+
+  public async saveCalibration(roundTripMs: number, method: DeviceLatency['method']): Promise<DeviceLatency> {
+    const calibration: DeviceLatency = {
+      roundTripMs: Math.max(0, Math.round(roundTripMs)),
+      method,
+      calibratedAt: Date.now(),
+    };
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(calibration));
+    this.calibration = calibration;
+    this.loaded = true;
+    return calibration;
+  }
+
+  public async clearCalibration(): Promise<void> {
+    await AsyncStorage.removeItem(STORAGE_KEY);
+    this.calibration = null;
+  }
+
+  /**
+   * Play a few clicks through the speaker while recording the microphone and
+   * time how long each takes to come back. Works best with the volume up in a quiet room,
+   * and not with headphones, which keep the click away from the microphone.
+   *
+   * @returns Median round trip in ms, or null when too few clicks were heard
+   */
+  public async measureRoundTrip(): Promise<number | null> {
+    await Audio.requestPermissionsAsync();
+    await Audio.setAudioModeAsync({
+      allowsRecordingIOS: true,
+      playsInSilentModeIOS: true,
+    });
+
+    const samples: MeterSample[] = [];
+    const recording = new Audio.Recording();
+    recording.setOnRecordingStatusUpdate((status) => {
+      if (status.isRecording && typeof status.metering === 'number') {
+        samples.push({ timeMs: status.durationMillis, db: status.metering });
+      }
+    });
+    recording.setProgressUpdateInterval(METER_INTERVAL_MS);
+
+    const { sound: click } = await Audio.Sound.createAsync(
+      { uri: `data:audio/wav;base64,${renderClickWav([{ time: 0, isDownbeat: true }], 0.2)}` },
+      { shouldPlay: false, volume: 1 }
+    );
+
+    const clickTimes: number[] = [];
+    try {
+      await recording.prepareToRecordAsync({ ...Audio.RecordingOptionsPresets.HIGH_QUALITY, isMeteringEnabled: true });
+      await recording.startAsync();
+      await wait(NOISE_FLOOR_MS);
+
+      for (let i = 0; i < CALIBRATION_CLICKS; i++) {
+        const status = await recording.getStatusAsync();
+        clickTimes.push(status.durationMillis);
+        await click.replayAsync();
+        await wait(CLICK_INTERVAL_MS);
+      }
+    } finally {
+      await recording.stopAndUnloadAsync().catch(() => {});
+      await click.unloadAsync().catch(() => {});
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: false, playsInSilentModeIOS: true }).catch(() => {});
+    }
+
+    const noiseFloor = getMedian(samples.filter(sample => sample.timeMs < clickTimes[0]).map(sample => sample.db));
+    const latencies = clickTimes
+      .map(clickAt => findClickLatencyMs(samples, clickAt, noiseFloor ?? -60))
+      .filter((latency): latency is number => latency !== null);
+
+    // Require most clicks to be heard, or a stray noise could pass for the result
+    if (latencies.length < Math.ceil(CALIBRATION_CLICKS / 2)) return null;
+    return getMedian(latencies);
+  }
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export default LatencyService;
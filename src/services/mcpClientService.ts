@@ -6,6 +6,8 @@
 import { ref, get } from 'firebase/database';
 import { database } from '../config/firebase';
 import { Song } from '../types/song';
+import { sortMarkers } from '../utils/songMarkers';
+import { parseVoicePart, getVoicePartTracks, getSongVoiceParts } from '../utils/trackMetadata';
 import { Playlist } from '../types/playlist';
 import { UserGroup } from '../types/group';
 import AuthService from './authService';
@@ -15,6 +17,7 @@ import GroupService from './groupService';
 import FavoritesService from './favoritesService';
 import SongStateService from './songStateService';
 import TrackStateService from './trackStateService';
+import MixPresetService, { MixPreset } from './mixPresetService';
 
 // MCP Protocol Types
 export interface MCPTool {
@@ -62,6 +65,7 @@ class MCPClientService {
   private favoritesService: FavoritesService;
   private songStateService: SongStateService;
   private trackStateService: TrackStateService;
+  private mixPresetService: MixPresetService;
 
   // Available MCP Tools
   private tools: MCPTool[] = [
@@ -86,7 +90,7 @@ class MCPClientService {
     },
     {
       name: 'get_song_details',
-      description: 'Get detailed information about a specific song including FULL LYRICS, metadata, tracks, scores, and resources. Use this when you have the song ID.',
+      description: 'Get detailed information about a specific song including FULL LYRICS, metadata, tracks, scores, resources, and section markers (intro, verse, chorus, rehearsal letters with their times). Use this when you have the song ID.',
       inputSchema: {
         type: 'object',
         properties: {
@@ -209,6 +213,10 @@ class MCPClientService {
             type: 'boolean',
             description: 'Only return songs that are in user\'s favorites'
           },
+          voicePart: {
+            type: 'string',
+            description: 'Only return songs with a stem for this voice part: S, A, T or B (or soprano, alto, tenor, bass)'
+          },
           limit: {
             type: 'number',
             description: 'Maximum number of results to return (default: 50)',
@@ -416,6 +424,70 @@ class MCPClientService {
         required: ['songId']
       }
     },
+    {
+      name: 'get_loop_regions',
+      description: 'Get the saved A-B loop regions (name, start/end in seconds, count-in) for a specific song, and which one is currently active.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          songId: {
+            type: 'string',
+            description: 'The ID of the song to get loop regions for'
+          }
+        },
+        required: ['songId']
+      }
+    },
+    {
+      name: 'select_loop_region',
+      description: 'Select which saved loop region the player should repeat for a song. Pass an empty loopRegionId to turn looping off.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          songId: {
+            type: 'string',
+            description: 'The ID of the song'
+          },
+          loopRegionId: {
+            type: 'string',
+            description: 'The ID of the loop region to activate (get this from get_loop_regions), or empty to stop looping'
+          }
+        },
+        required: ['songId']
+      }
+    },
+    {
+      name: 'get_mix_presets',
+      description: 'Get the named mix presets (e.g. "Soprano practice", "Full band", "No click") saved for a song, both the user\'s own and those shared with their groups, with the solo/mute/volume of every track.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          songId: {
+            type: 'string',
+            description: 'The ID of the song to get mix presets for'
+          }
+        },
+        required: ['songId']
+      }
+    },
+    {
+      name: 'apply_mix_preset',
+      description: 'Switch the player to one of the saved mix presets for a song.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          songId: {
+            type: 'string',
+            description: 'The ID of the song'
+          },
+          presetId: {
+            type: 'string',
+            description: 'The ID of the mix preset (get this from get_mix_presets)'
+          }
+        },
+        required: ['songId', 'presetId']
+      }
+    },
     {
       name: 'get_all_user_data',
       description: 'Get comprehensive user data including profile, stats, preferences, favorites, playlists, groups, and song states. Returns everything about the current user.',
@@ -440,6 +512,7 @@ class MCPClientService {
     this.favoritesService = FavoritesService.getInstance();
     this.songStateService = SongStateService.getInstance();
     this.trackStateService = TrackStateService.getInstance();
+    this.mixPresetService = MixPresetService.getInstance();
   }
 
   public static getInstance(): MCPClientService {
@@ -520,6 +593,14 @@ class MCPClientService {
           return await this.getSongState(toolCall.arguments);
         case 'get_track_states':
           return await this.getTrackStates(toolCall.arguments);
+        case 'get_loop_regions':
+          return await this.getLoopRegions(toolCall.arguments as { songId: string });
+        case 'select_loop_region':
+          return await this.selectLoopRegion(toolCall.arguments as { songId: string; loopRegionId?: string });
+        case 'get_mix_presets':
+          return await this.getMixPresets(toolCall.arguments as { songId: string });
+        case 'apply_mix_preset':
+          return await this.applyMixPreset(toolCall.arguments as { songId: string; presetId: string });
         case 'get_all_user_data':
           return await this.getAllUserData(toolCall.arguments);
         default:
@@ -719,10 +800,20 @@ class MCPClientService {
         lyrics: song.lyrics || null,
         hasLyrics: !!song.lyrics,
         lyricsLength: song.lyrics ? song.lyrics.length : 0,
+        key: song.key || null,
+        chordChart: song.chordChart || null, // ChordPro: [G] chords inline before the syllable they fall on
+        hasChordChart: !!song.chordChart,
+        bpm: song.bpm || null,
+        timeSignature: song.timeSignature ? `${song.timeSignature.beats}/${song.timeSignature.noteValue}` : null,
+        tempoMap: song.tempoMap || [],
         tracks: (song.tracks || []).map(track => ({
           id: track.id,
           name: track.name,
           path: track.path, // Full path/URL to audio file
+          role: track.role || null, // vocal, instrument, click or guide
+          voicePart: track.voicePart || null, // S, A, T or B
+          instrument: track.instrument || null,
+          defaultGain: track.defaultGain ?? null,
           note: 'This path can be used to access the audio track'
         })),
         scores: (song.scores || []).map(score => ({
@@ -740,9 +831,16 @@ class MCPClientService {
           description: resource.description,
           note: 'This URL can be used to access the external resource'
         })),
+        markers: sortMarkers(song.markers).map(marker => ({
+          id: marker.id,
+          label: marker.label, // Section name or rehearsal letter
+          time: marker.time, // Seconds from the start of the song
+          color: marker.color || null
+        })),
         tracksCount: song.tracks?.length || 0,
         scoresCount: song.scores?.length || 0,
         resourcesCount: song.resources?.length || 0,
+        markersCount: song.markers?.length || 0,
         note: 'All tracks, scores, and resources include full URLs/paths that can be used to access the files'
       };
 
@@ -1263,6 +1361,7 @@ class MCPClientService {
     hasScores?: boolean;
     hasResources?: boolean;
     favoritesOnly?: boolean;
+    voicePart?: string;
     limit?: number;
   }): Promise<MCPToolResult> {
     const user = this.authService.getCurrentUser();
@@ -1278,6 +1377,13 @@ class MCPClientService {
       const query = args.query?.toLowerCase() || '';
       const artistFilter = args.artist?.toLowerCase() || '';
       const albumFilter = args.album?.toLowerCase() || '';
+      const voicePart = parseVoicePart(args.voicePart);
+      if (args.voicePart && !voicePart) {
+        return {
+          content: [{ type: 'text', text: `Error: Unknown voice part "${args.voicePart}". Use S, A, T or B.` }],
+          isError: true
+        };
+      }
 
       // Get favorites if needed
       let favoriteIds: string[] = [];
@@ -1341,6 +1447,7 @@ class MCPClientService {
         if (args.hasTracks && (!songDataTyped.tracks || songDataTyped.tracks.length === 0)) continue;
         if (args.hasScores && (!songDataTyped.scores || songDataTyped.scores.length === 0)) continue;
         if (args.hasResources && (!songDataTyped.resources || songDataTyped.resources.length === 0)) continue;
+        if (voicePart && getVoicePartTracks(songDataTyped, voicePart).length === 0) continue;
 
         const title = (songDataTyped.title || '').toLowerCase();
         const artist = (songDataTyped.artist || '').toLowerCase();
@@ -1383,7 +1490,8 @@ class MCPClientService {
               hasLyrics: !!song.lyrics,
               hasTracks: (song.tracks?.length || 0) > 0,
               hasScores: (song.scores?.length || 0) > 0,
-              hasResources: (song.resources?.length || 0) > 0
+              hasResources: (song.resources?.length || 0) > 0,
+              voiceParts: getSongVoiceParts(song)
             })),
             count: matchingSongs.length,
             filters: args
@@ -2338,6 +2446,9 @@ class MCPClientService {
             activeTrackIds: songState.activeTrackIds,
             soloedTrackIds: songState.soloedTrackIds,
             trackVolumes: songState.trackVolumes,
+            loopRegions: songState.loopRegions,
+            activeLoopRegionId: songState.activeLoopRegionId,
+            chordSettings: songState.chordSettings,
             lastUpdated: songState.lastUpdated,
             activeTracksCount: songState.activeTrackIds.length,
             soloedTracksCount: songState.soloedTrackIds.length
@@ -2404,6 +2515,207 @@ class MCPClientService {
     }
   }
 
+  /**
+   * Get loop regions implementation
+   */
+  private async getLoopRegions(args: { songId: string }): Promise<MCPToolResult> {
+    const user = this.authService.getCurrentUser();
+    if (!user) {
+      return {
+        content: [{ type: 'text', text: 'Error: User not authenticated' }],
+        isError: true
+      };
+    }
+
+    try {
+      this.songStateService.setUserId(user.id);
+      const songState = await this.songStateService.getSongState(args.songId);
+      const loopRegions = songState?.loopRegions || [];
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            songId: args.songId,
+            loopRegions: loopRegions.map(region => ({
+              id: region.id,
+              name: region.name,
+              start: region.start,
+              end: region.end,
+              countIn: region.countIn || 0,
+              isActive: region.id === songState?.activeLoopRegionId
+            })),
+            activeLoopRegionId: songState?.activeLoopRegionId || null,
+            loopRegionsCount: loopRegions.length
+          }, null, 2)
+        }]
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: 'text', text: `Error getting loop regions: ${error.message}` }],
+        isError: true
+      };
+    }
+  }
+
+  /**
+   * Select loop region implementation
+   */
+  private async selectLoopRegion(args: { songId: string; loopRegionId?: string }): Promise<MCPToolResult> {
+    const user = this.authService.getCurrentUser();
+    if (!user) {
+      return {
+        content: [{ type: 'text', text: 'Error: User not authenticated' }],
+        isError: true
+      };
+    }
+
+    try {
+      this.songStateService.setUserId(user.id);
+      const loopRegionId = args.loopRegionId || null;
+
+      let region = null;
+      if (loopRegionId) {
+        const loopRegions = await this.songStateService.getLoopRegions(args.songId);
+        region = loopRegions.find(r => r.id === loopRegionId);
+        if (!region) {
+          return {
+            content: [{ type: 'text', text: `Error: Loop region "${loopRegionId}" not found for song "${args.songId}"` }],
+            isError: true
+          };
+        }
+      }
+
+      await this.songStateService.setActiveLoopRegion(args.songId, loopRegionId);
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            songId: args.songId,
+            activeLoopRegionId: loopRegionId,
+            message: region
+              ? `Now looping "${region.name}" (${region.start}s - ${region.end}s)`
+              : 'Looping turned off'
+          }, null, 2)
+        }]
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: 'text', text: `Error selecting loop region: ${error.message}` }],
+        isError: true
+      };
+    }
+  }
+
+  /**
+   * Load the user's own and group-shared presets for a song
+   */
+  private async loadMixPresets(userId: string, songId: string): Promise<MixPreset[]> {
+    this.mixPresetService.setCurrentUser(userId);
+    const groups = await this.groupService.getUserGroups(userId);
+    const [ownPresets, groupPresets] = await Promise.all([
+      this.mixPresetService.getPresets(songId),
+      this.mixPresetService.getGroupPresets(songId, groups.map(group => group.id))
+    ]);
+    return [...ownPresets, ...groupPresets];
+  }
+
+  /**
+   * Get mix presets implementation
+   */
+  private async getMixPresets(args: { songId: string }): Promise<MCPToolResult> {
+    const user = this.authService.getCurrentUser();
+    if (!user) {
+      return {
+        content: [{ type: 'text', text: 'Error: User not authenticated' }],
+        isError: true
+      };
+    }
+
+    try {
+      const presets = await this.loadMixPresets(user.id, args.songId);
+      const songSnapshot = await get(ref(database, `songs/${args.songId}`));
+      const song: Song | null = songSnapshot.exists() ? songSnapshot.val() : null;
+      const trackNames: { [trackId: string]: string } = {};
+      (song?.tracks || []).forEach(track => {
+        trackNames[track.id] = track.name;
+      });
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            songId: args.songId,
+            presets: presets.map(preset => ({
+              id: preset.id,
+              name: preset.name,
+              sharedWithGroupId: preset.groupId || null,
+              tracks: Object.entries(preset.trackStates).map(([trackId, state]) => ({
+                trackId,
+                name: trackNames[trackId] || trackId,
+                solo: state.solo,
+                mute: state.mute,
+                volume: state.volume
+              }))
+            })),
+            presetsCount: presets.length
+          }, null, 2)
+        }]
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: 'text', text: `Error getting mix presets: ${error.message}` }],
+        isError: true
+      };
+    }
+  }
+
+  /**
+   * Apply mix preset implementation
+   */
+  private async applyMixPreset(args: { songId: string; presetId: string }): Promise<MCPToolResult> {
+    const user = this.authService.getCurrentUser();
+    if (!user) {
+      return {
+        content: [{ type: 'text', text: 'Error: User not authenticated' }],
+        isError: true
+      };
+    }
+
+    try {
+      const presets = await this.loadMixPresets(user.id, args.songId);
+      const preset = presets.find(p => p.id === args.presetId);
+      if (!preset) {
+        return {
+          content: [{ type: 'text', text: `Error: Mix preset "${args.presetId}" not found for song "${args.songId}"` }],
+          isError: true
+        };
+      }
+
+      // The player listens to the user's track states, so it switches mix right away
+      this.trackStateService.setCurrentUser(user.id);
+      const current = await this.trackStateService.loadSongTrackStates(args.songId);
+      await this.trackStateService.saveSongTrackStates(args.songId, { ...(current || {}), ...preset.trackStates });
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            songId: args.songId,
+            presetId: preset.id,
+            message: `Now using the "${preset.name}" mix`
+          }, null, 2)
+        }]
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: 'text', text: `Error applying mix preset: ${error.message}` }],
+        isError: true
+      };
+    }
+  }
+
   /**
    * Get all user data implementation
    */
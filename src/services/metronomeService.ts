@@ -0,0 +1,129 @@
+import { Platform } from 'react-native';
+import { Audio } from 'expo-av';
+import * as FileSystem from 'expo-file-system';
+import { Song, Track } from '../types/song';
+import {
+  getBeats,
+  getCountInBeats,
+  getCountInDuration,
+  getTempoSignature,
+  renderClickWav
+} from '../utils/metronome';
+
+// Track id used for the generated click in track states and the engine
+export const METRONOME_TRACK_ID = 'metronome';
+
+export const METRONOME_TRACK: Track = {
+  id: METRONOME_TRACK_ID,
+  name: 'Click',
+  path: '',
+  role: 'click'
+};
+
+class MetronomeService {
+  private static instance: MetronomeService;
+  private cacheDirectory = `${FileSystem.cacheDirectory}metronome/`;
+  private countInSound: Audio.Sound | null = null;
+  private countInToken = 0;
+
+  private constructor() {
+    if (Platform.OS !== 'web') {
+      FileSystem.makeDirectoryAsync(this.cacheDirectory, { intermediates: true })
+        .catch(error => console.log('Metronome cache directory already exists:', error));
+    }
+  }
+
+  public static getInstance(): MetronomeService {
+    if (!MetronomeService.instance) {
+      MetronomeService.instance = new MetronomeService();
+    }
+    return MetronomeService.instance;
+  }
+
+  /**
+   * Get a playable click track for the whole song.
+   * Files are synthesized locally and cached per tempo settings, so no network is needed.
+   */
+  public async getClickTrackUri(song: Song, duration: number): Promise<string> {
+    if (Platform.OS === 'web') {
+      return `data:audio/wav;base64,${renderClickWav(getBeats(song, duration), duration)}`;
+    }
+
+    const uri = `${this.cacheDirectory}click_${song.id}_${getTempoSignature(song, duration)}.wav`;
+    const fileInfo = await FileSystem.getInfoAsync(uri);
+    if (!fileInfo.exists) {
+      await FileSystem.writeAsStringAsync(uri, renderClickWav(getBeats(song, duration), duration), {
+        encoding: FileSystem.EncodingType.Base64
+      });
+    }
+    return uri;
+  }
+
+  /**
+   * Play a count-in for starting at a position and resolve when it ends
+   * 
+   * @returns False if the count-in was cut short by stopCountIn
+   */
+  public async playCountIn(song: Song, position: number, bars: number, rate: number = 1, volume: number = 1): Promise<boolean> {
+    const beats = getCountInBeats(song, position, bars);
+    if (beats.length === 0) return true;
+
+    await this.stopCountIn();
+    const token = this.countInToken;
+
+    const duration = getCountInDuration(song, position, bars);
+    const { sound } = await Audio.Sound.createAsync(
+      { uri: `data:audio/wav;base64,${renderClickWav(beats, duration)}` },
+      { shouldPlay: false, volume, rate, shouldCorrectPitch: true }
+    );
+    if (token !== this.countInToken) {
+      await sound.unloadAsync().catch(() => {});
+      return false;
+    }
+    this.countInSound = sound;
+
+    await new Promise<void>(resolve => {
+      sound.setOnPlaybackStatusUpdate(status => {
+        if (!status.isLoaded || status.didJustFinish) {
+          resolve();
+        }
+      });
+      // Resolve on time even if the finish event is late or never arrives
+      setTimeout(resolve, (duration / rate) * 1000 + 250);
+      sound.playAsync().catch(() => resolve());
+    });
+
+    const completed = token === this.countInToken;
+    if (this.countInSound === sound) {
+      await this.stopCountIn();
+    }
+    return completed;
+  }
+
+  /**
+   * Cut a running count-in short
+   */
+  public async stopCountIn(): Promise<void> {
+    this.countInToken++;
+    const sound = this.countInSound;
+    this.countInSound = null;
+    if (sound) {
+      await sound.unloadAsync().catch(() => {});
+    }
+  }
+
+  /**
+   * Remove cached click files
+   */
+  public async clearCache(): Promise<void> {
+    if (Platform.OS === 'web') return;
+    try {
+      await FileSystem.deleteAsync(this.cacheDirectory, { idempotent: true });
+      await FileSystem.makeDirectoryAsync(this.cacheDirectory, { intermediates: true });
+    } catch (error) {
+      console.error('Error clearing metronome cache:', error);
+    }
+  }
+}
+
+export default MetronomeService;
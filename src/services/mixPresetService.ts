@@ -0,0 +1,174 @@
+import { ref, set, get, remove } from 'firebase/database';
+import { database } from '../config/firebase';
+import { SongTrackStates } from './trackStateService';
+
+export interface MixPreset {
+  id: string;
+  songId: string;
+  name: string; // e.g. "Soprano practice", "Full band", "No click"
+  trackStates: SongTrackStates;
+  createdBy: string;
+  createdAt: number;
+  groupId?: string; // Set on presets shared with a UserGroup
+}
+
+/**
+ * Named mixes per song. Personal presets live under the user; shared copies
+ * live under the group so every member starts from the same mix.
+ */
+class MixPresetService {
+  private static instance: MixPresetService;
+  private currentUserId: string | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): MixPresetService {
+    if (!MixPresetService.instance) {
+      MixPresetService.instance = new MixPresetService();
+    }
+    return MixPresetService.instance;
+  }
+
+  public setCurrentUser(userId: string | null) {
+    this.currentUserId = userId;
+  }
+
+  private getUserPresetsPath(songId: string): string {
+    if (!this.currentUserId) {
+      throw new Error('No user ID set');
+    }
+    return `users/${this.currentUserId}/mixPresets/${songId}`;
+  }
+
+  private getGroupPresetsPath(groupId: string, songId: string): string {
+    return `groupMixPresets/${groupId}/${songId}`;
+  }
+
+  /**
+   * Get the user's own presets for a song, ordered by name
+   */
+  public async getPresets(songId: string): Promise<MixPreset[]> {
+    try {
+      if (!this.currentUserId) return [];
+      const snapshot = await get(ref(database, this.getUserPresetsPath(songId)));
+      return this.parsePresets(snapshot.val());
+    } catch (error) {
+      console.error('Error loading mix presets:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the presets shared with any of the given groups for a song
+   */
+  public async getGroupPresets(songId: string, groupIds: string[]): Promise<MixPreset[]> {
+    const results = await Promise.all(groupIds.map(async (groupId) => {
+      try {
+        const snapshot = await get(ref(database, this.getGroupPresetsPath(groupId, songId)));
+        return this.parsePresets(snapshot.val()).map(preset => ({ ...preset, groupId }));
+      } catch (error) {
+        console.error('Error loading group mix presets:', error);
+        return [];
+      }
+    }));
+    return results.flat();
+  }
+
+  /**
+   * Create or replace one of the user's presets
+   */
+  public async savePreset(
+    songId: string,
+    name: string,
+    trackStates: SongTrackStates,
+    id?: string
+  ): Promise<MixPreset> {
+    try {
+      const preset: MixPreset = {
+        id: id || this.generateId(),
+        songId,
+        name: name.trim() || 'Mix',
+        trackStates,
+        createdBy: this.currentUserId || '',
+        createdAt: Date.now(),
+      };
+
+      await set(ref(database, `${this.getUserPresetsPath(songId)}/${preset.id}`), preset);
+      console.log('Mix preset saved for song:', songId);
+      return preset;
+    } catch (error) {
+      console.error('Error saving mix preset:', error);
+      throw error;
+    }
+  }
+
+  public async deletePreset(preset: MixPreset): Promise<void> {
+    try {
+      const path = preset.groupId
+        ? this.getGroupPresetsPath(preset.groupId, preset.songId)
+        : this.getUserPresetsPath(preset.songId);
+      await remove(ref(database, `${path}/${preset.id}`));
+    } catch (error) {
+      console.error('Error deleting mix preset:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Copy a preset to a group. Sharing again replaces the group's copy.
+   */
+  public async sharePresetWithGroup(preset: MixPreset, groupId: string): Promise<MixPreset> {
+    try {
+      const { groupId: _previousGroupId, ...personal } = preset;
+      const shared: MixPreset = { ...personal, groupId };
+      await set(ref(database, `${this.getGroupPresetsPath(groupId, preset.songId)}/${preset.id}`), personal);
+      return shared;
+    } catch (error) {
+      console.error('Error sharing mix preset:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Serialize a preset for sharing outside the app
+   */
+  public exportPreset(preset: MixPreset, trackNames: { [trackId: string]: string } = {}): string {
+    return JSON.stringify({
+      name: preset.name,
+      songId: preset.songId,
+      tracks: Object.entries(preset.trackStates).map(([trackId, state]) => ({
+        trackId,
+        name: trackNames[trackId] || trackId,
+        ...state
+      }))
+    }, null, 2);
+  }
+
+  /**
+   * Find the preset matching a mix, so the active one can be highlighted
+   */
+  public findMatchingPreset(presets: MixPreset[], trackStates: SongTrackStates): MixPreset | null {
+    return presets.find(preset =>
+      Object.entries(preset.trackStates).every(([trackId, state]) => {
+        const current = trackStates[trackId];
+        return !!current &&
+          current.solo === state.solo &&
+          current.mute === state.mute &&
+          Math.abs(current.volume - state.volume) < 0.01;
+      })
+    ) || null;
+  }
+
+  private parsePresets(data: { [presetId: string]: MixPreset } | null | undefined): MixPreset[] {
+    if (!data) return [];
+    return Object.values(data)
+      .filter(preset => preset && preset.trackStates)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private generateId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+  }
+}
+
+export default MixPresetService;
@@ -0,0 +1,835 @@
+import { Audio } from 'expo-av';
+import { Song, Track } from '../types/song';
+import AudioStorageService from './audioStorage';
+import OfflineStorageService from './offlineStorageService';
+import { TrackEffects, TrackEffectsChain, NEUTRAL_EFFECTS, isNeutralEffects, supportsTrackEffects } from './trackEffects';
+import { getNormalizationGain } from '../utils/loudness';
+
+export interface StemSample {
+  trackId: string;
+  positionMs: number;
+  clockPositionMs: number; // Shared clock position at the moment the stem was sampled
+}
+
+export interface StemDrift {
+  trackId: string;
+  positionMs: number;
+  driftMs: number; // Positive when the stem is ahead of the clock
+}
+
+export interface DriftReport {
+  clockPositionMs: number;
+  stems: StemDrift[];
+  maxDriftMs: number;
+  isPhaseLocked: boolean;
+}
+
+export interface MultitrackEngineCallbacks {
+  onTrackLoaded?: (trackId: string) => void;
+  onProgress?: (position: number, duration: number) => void;
+  onFinish?: () => void;
+  onError?: (error: string) => void;
+}
+
+export interface LoopBounds {
+  start: number; // in seconds
+  end: number; // in seconds
+}
+
+interface Stem {
+  track: Track;
+  sound: Audio.Sound;
+  durationMs: number;
+  volume: number; // As set by the mixer, before loudness normalization
+  effectsChain: TrackEffectsChain | null; // Created the first time the stem gets pan or EQ
+}
+
+// Stems further apart than this are considered out of phase and get re-seeked
+export const DRIFT_TOLERANCE_MS = 25;
+const DRIFT_CHECK_INTERVAL_MS = 1000;
+// Progress is reported often enough for a playlist to skip sections and start crossfades on time
+const PROGRESS_UPDATE_INTERVAL_MS = 50;
+const EXACT_SEEK = { toleranceMillisBefore: 0, toleranceMillisAfter: 0 };
+
+// Key shifts are pre-rendered per stem, so the range matches what the render script produces
+export const MAX_PITCH_SHIFT = 6;
+
+/**
+ * Storage path of a track rendered at a key shift, or null when none exists.
+ * A shift of 0 is the original recording.
+ */
+export function getPitchVariantPath(track: Track, semitones: number): string | null {
+  if (semitones === 0) return track.path;
+  return track.pitchVariants?.[String(semitones)] || null;
+}
+
+/**
+ * Tracks of a song that have no rendering for a key shift.
+ * A shift is only applied when this is empty, so stems never play in two keys at once.
+ */
+export function getUnrenderedTrackIds(song: Song, semitones: number): string[] {
+  return (song.tracks || [])
+    .filter(track => !getPitchVariantPath(track, semitones))
+    .map(track => track.id);
+}
+
+function getStemEndMs(stem: Stem): number {
+  return stem.durationMs + (stem.track.offsetMs || 0);
+}
+
+/**
+ * Position inside a stem's audio that plays at a song position.
+ * Negative while the song has not yet reached the stem's first sample.
+ */
+export function getStemPositionMs(track: Track, songPositionMs: number): number {
+  return songPositionMs - (track.offsetMs || 0);
+}
+
+/**
+ * Compare sampled stem positions against the shared clock.
+ * Kept free of any audio objects so the phase-lock logic can be exercised on its own.
+ */
+export function computeDriftReport(samples: StemSample[], toleranceMs: number = DRIFT_TOLERANCE_MS): DriftReport {
+  const stems = samples.map(sample => ({
+    trackId: sample.trackId,
+    positionMs: sample.positionMs,
+    driftMs: sample.positionMs - sample.clockPositionMs
+  }));
+  const maxDriftMs = stems.reduce((max, stem) => Math.max(max, Math.abs(stem.driftMs)), 0);
+
+  return {
+    clockPositionMs: samples.length > 0 ? samples[samples.length - 1].clockPositionMs : 0,
+    stems,
+    maxDriftMs,
+    isPhaseLocked: maxDriftMs <= toleranceMs
+  };
+}
+
+/**
+ * Median drift of a report, used to pull the clock back onto the stems
+ * when all of them stall together (buffering, audio focus loss).
+ */
+export function getMedianDrift(report: DriftReport): number {
+  if (report.stems.length === 0) return 0;
+
+  const drifts = report.stems.map(stem => stem.driftMs).sort((a, b) => a - b);
+  const middle = Math.floor(drifts.length / 2);
+  return drifts.length % 2 === 0 ? (drifts[middle - 1] + drifts[middle]) / 2 : drifts[middle];
+}
+
+/**
+ * Transport clock shared by every stem of a song.
+ * Position advances from an anchor at the current rate while running.
+ */
+class TransportClock {
+  private anchorPositionMs = 0;
+  private anchorTime = 0;
+  private rate = 1;
+  private running = false;
+  private generation = 0; // Bumped on every jump, so samples taken before it can be told apart
+
+  public getPositionMs(at: number = Date.now()): number {
+    if (!this.running) return this.anchorPositionMs;
+    return this.anchorPositionMs + (at - this.anchorTime) * this.rate;
+  }
+
+  public isRunning(): boolean {
+    return this.running;
+  }
+
+  public getRate(): number {
+    return this.rate;
+  }
+
+  public getGeneration(): number {
+    return this.generation;
+  }
+
+  public start(positionMs: number, at: number = Date.now()): void {
+    this.anchorPositionMs = positionMs;
+    this.anchorTime = at;
+    this.running = true;
+    this.generation++;
+  }
+
+  public stop(at: number = Date.now()): void {
+    this.anchorPositionMs = this.getPositionMs(at);
+    this.anchorTime = at;
+    this.running = false;
+  }
+
+  public setPosition(positionMs: number, at: number = Date.now()): void {
+    this.anchorPositionMs = positionMs;
+    this.anchorTime = at;
+    this.generation++;
+  }
+
+  public setRate(rate: number, at: number = Date.now()): void {
+    this.anchorPositionMs = this.getPositionMs(at);
+    this.anchorTime = at;
+    this.rate = rate;
+  }
+
+  public nudge(offsetMs: number): void {
+    this.anchorPositionMs += offsetMs;
+  }
+
+  public reset(): void {
+    this.anchorPositionMs = 0;
+    this.anchorTime = 0;
+    this.running = false;
+    this.generation++;
+  }
+}
+
+/**
+ * Plays every stem of a song against one transport clock.
+ * Stems are parked at the same position before starting, and a periodic
+ * drift check re-seeks any stem that wanders away from the clock.
+ */
+class MultitrackEngine {
+  private stems: Stem[] = [];
+  private clock = new TransportClock();
+  private callbacks: MultitrackEngineCallbacks = {};
+  private driftTimer: ReturnType<typeof setInterval> | null = null;
+  private loopTimer: ReturnType<typeof setTimeout> | null = null;
+  private loop: LoopBounds | null = null;
+  private loadToken = 0;
+  private song: Song | null = null;
+  private pitchShift = 0;
+  private extraStems = new Map<string, { track: Track; uri: string }>();
+  private trackEffects = new Map<string, TrackEffects>();
+  private stemStartTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private fadeGain = 1; // Scales every stem together, for fades between songs
+
+  /**
+   * Set callbacks for engine events
+   */
+  public setCallbacks(callbacks: MultitrackEngineCallbacks): void {
+    this.callbacks = { ...this.callbacks, ...callbacks };
+  }
+
+  /**
+   * Load every track of a song, preferring offline copies when available.
+   * Stems are loaded in the given key shift, or in the original key when
+   * some track has no rendered version for that shift.
+   */
+  public async load(song: Song, pitchShift: number = this.pitchShift): Promise<void> {
+    // Pan and EQ survive reloads of the same song (key shifts), not a song change
+    if (this.song?.id !== song.id) {
+      this.trackEffects.clear();
+    }
+    await this.unload();
+    const token = this.loadToken;
+    this.song = song;
+    this.extraStems.clear();
+    const shift = Math.max(-MAX_PITCH_SHIFT, Math.min(MAX_PITCH_SHIFT, Math.round(pitchShift)));
+    this.pitchShift = getUnrenderedTrackIds(song, shift).length > 0 ? 0 : shift;
+
+    const audioStorage = AudioStorageService.getInstance();
+    const offlineStorage = OfflineStorageService.getInstance();
+    const isOffline = offlineStorage.isSongOffline(song.id);
+
+    const results = await Promise.allSettled(
+      (song.tracks || []).map(async (track): Promise<Stem> => {
+        const variantPath = getPitchVariantPath(track, this.pitchShift);
+        let audioFile;
+
+        if (variantPath && variantPath !== track.path) {
+          // Key-shifted stems are not part of the offline download and always stream
+          audioFile = await audioStorage.getAudioFile(variantPath);
+        } else if (isOffline) {
+          const cachedUri = await offlineStorage.getCachedTrackUri(track, song.id);
+          audioFile = cachedUri
+            ? { id: track.path, name: track.name, url: track.path, localUri: cachedUri }
+            : await audioStorage.getAudioFile(track.path);
+        } else {
+          audioFile = await audioStorage.getAudioFile(track.path);
+        }
+
+        const sound = await audioStorage.loadAudioFile(audioFile);
+        const status = await sound.getStatusAsync();
+        this.callbacks.onTrackLoaded?.(track.id);
+
+        return {
+          track,
+          sound,
+          durationMs: status.isLoaded ? status.durationMillis || 0 : 0,
+          volume: 1,
+          effectsChain: null
+        };
+      })
+    );
+
+    const stems = results
+      .filter((result): result is PromiseFulfilledResult<Stem> => result.status === 'fulfilled')
+      .map(result => result.value);
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+
+    // A newer load or unload happened while we were loading, or a stem failed
+    if (token !== this.loadToken || failure) {
+      await Promise.all(stems.map(stem => stem.sound.unloadAsync().catch(() => {})));
+      if (failure) {
+        throw failure.reason;
+      }
+      return;
+    }
+
+    this.stems = stems;
+    this.clock.reset();
+    this.attachReferenceListener();
+    this.stems.forEach(stem => this.applyTrackEffects(stem));
+    await Promise.all(this.stems.map(stem => stem.sound.setVolumeAsync(this.getOutputGain(stem))));
+  }
+
+  /**
+   * Unload every stem and reset the clock
+   */
+  public async unload(): Promise<void> {
+    this.loadToken++;
+    this.song = null;
+    this.stopDriftCorrection();
+    this.cancelLoopWrap();
+    this.cancelStemStarts();
+    this.loop = null;
+    const stems = this.stems;
+    this.stems = [];
+    this.clock.reset();
+
+    await Promise.all(
+      stems.map(async (stem) => {
+        try {
+          stem.effectsChain?.disconnect();
+          await stem.sound.unloadAsync();
+        } catch (error) {
+          console.warn(`Error unloading track ${stem.track.name}:`, error);
+        }
+      })
+    );
+  }
+
+  /**
+   * Start all stems together from the current clock position
+   */
+  public async play(): Promise<void> {
+    if (this.stems.length === 0 || this.clock.isRunning()) return;
+
+    const startMs = Math.min(this.clock.getPositionMs(), this.getDurationMs());
+    const rate = this.clock.getRate();
+
+    // Park every stem on the same position before any of them starts
+    await Promise.all(
+      this.stems.map(stem => stem.sound.setStatusAsync({
+        positionMillis: Math.max(0, getStemPositionMs(stem.track, startMs)),
+        seekMillisToleranceBefore: 0,
+        seekMillisToleranceAfter: 0,
+        rate,
+        shouldCorrectPitch: true,
+        shouldPlay: false
+      }))
+    );
+    await Promise.all(
+      this.stems
+        .filter(stem => getStemPositionMs(stem.track, startMs) >= 0)
+        .map(stem => stem.sound.playAsync())
+    );
+
+    this.clock.start(startMs);
+    this.scheduleStemStarts();
+    this.startDriftCorrection();
+    this.scheduleLoopWrap();
+  }
+
+  /**
+   * Pause all stems and freeze the clock
+   */
+  public async pause(): Promise<void> {
+    this.stopDriftCorrection();
+    this.cancelLoopWrap();
+    this.cancelStemStarts();
+    this.clock.stop();
+
+    await Promise.all(
+      this.stems.map(async (stem) => {
+        try {
+          await stem.sound.pauseAsync();
+        } catch (error) {
+          console.warn(`Error pausing track ${stem.track.name}:`, error);
+        }
+      })
+    );
+  }
+
+  /**
+   * Pause and rewind to the beginning
+   */
+  public async stop(): Promise<void> {
+    await this.pause();
+    await this.seek(0);
+  }
+
+  /**
+   * Move every stem to a position in seconds, keeping the play state
+   */
+  public async seek(position: number): Promise<void> {
+    const wasPlaying = this.clock.isRunning();
+    if (wasPlaying) {
+      await this.pause();
+    }
+
+    const positionMs = Math.max(0, Math.min(position * 1000, this.getDurationMs()));
+    this.clock.setPosition(positionMs);
+
+    if (wasPlaying) {
+      await this.play();
+    } else {
+      await Promise.all(
+        this.stems.map(stem => stem.sound
+          .setPositionAsync(Math.max(0, getStemPositionMs(stem.track, positionMs)), EXACT_SEEK)
+          .catch(() => {}))
+      );
+    }
+  }
+
+  /**
+   * Change playback rate on all stems (pitch-corrected) and re-align them
+   */
+  public async setRate(rate: number): Promise<void> {
+    this.clock.setRate(rate);
+    await Promise.all(this.stems.map(stem => stem.sound.setRateAsync(rate, true)));
+
+    if (this.clock.isRunning()) {
+      await this.correctDrift();
+      this.scheduleStemStarts();
+      this.scheduleLoopWrap();
+    }
+  }
+
+  /**
+   * Loop all stems between two positions, or stop looping with null.
+   * Playback runs on to the loop end before wrapping, so a lead-in before
+   * the loop start plays once.
+   */
+  public setLoop(loop: LoopBounds | null): void {
+    this.loop = loop && loop.end > loop.start ? loop : null;
+    this.scheduleLoopWrap();
+  }
+
+  public getLoop(): LoopBounds | null {
+    return this.loop;
+  }
+
+  /**
+   * Move the whole mix to another key without changing its tempo.
+   * Reloads the stems in the new key and restores position, volumes,
+   * loop and playback state. The shift is refused while any track has
+   * no rendering for it.
+   *
+   * @returns Ids of tracks that have no rendering for this shift; empty when the shift was applied
+   */
+  public async setPitchShift(semitones: number): Promise<string[]> {
+    const shift = Math.max(-MAX_PITCH_SHIFT, Math.min(MAX_PITCH_SHIFT, Math.round(semitones)));
+    const song = this.song;
+
+    if (!song || this.stems.length === 0) {
+      // Applied on the next load
+      this.pitchShift = shift;
+      return [];
+    }
+    const unrenderedTrackIds = getUnrenderedTrackIds(song, shift);
+    if (unrenderedTrackIds.length > 0 || shift === this.pitchShift) {
+      return unrenderedTrackIds;
+    }
+
+    const wasPlaying = this.clock.isRunning();
+    const position = this.getPosition();
+    const volumes = new Map(this.stems.map(stem => [stem.track.id, stem.volume]));
+    const extraStems = Array.from(this.extraStems.values());
+    const loop = this.loop;
+
+    await this.load(song, shift);
+    if (this.song !== song) return [];
+
+    for (const { track, uri } of extraStems) {
+      await this.addStem(track, uri, volumes.get(track.id) ?? 1);
+    }
+
+    await Promise.all(
+      Array.from(volumes.entries()).map(([trackId, volume]) => this.setTrackVolume(trackId, volume))
+    );
+    this.setLoop(loop);
+    await this.seek(position);
+    if (wasPlaying) {
+      await this.play();
+    }
+
+    return [];
+  }
+
+  /**
+   * Add a stem that is not stored with the song (e.g. the generated click).
+   * It joins the running transport at the clock position and is re-added
+   * when the stems reload for a key shift; loading another song drops it.
+   */
+  public async addStem(track: Track, uri: string, volume: number = 1): Promise<void> {
+    await this.removeStem(track.id);
+    const token = this.loadToken;
+
+    const { sound } = await Audio.Sound.createAsync(
+      { uri },
+      { shouldPlay: false, volume: Math.min(1, volume * getNormalizationGain(track)) * this.fadeGain, rate: this.clock.getRate(), shouldCorrectPitch: true }
+    );
+    if (token !== this.loadToken) {
+      await sound.unloadAsync().catch(() => {});
+      return;
+    }
+
+    const status = await sound.getStatusAsync();
+    const stem: Stem = {
+      track,
+      sound,
+      durationMs: status.isLoaded ? status.durationMillis || 0 : 0,
+      volume,
+      effectsChain: null
+    };
+    this.stems.push(stem);
+    this.extraStems.set(track.id, { track, uri });
+    this.applyTrackEffects(stem);
+
+    const positionMs = getStemPositionMs(track, this.clock.getPositionMs());
+    await sound.setStatusAsync({
+      positionMillis: Math.max(0, positionMs),
+      seekMillisToleranceBefore: 0,
+      seekMillisToleranceAfter: 0,
+      shouldPlay: this.clock.isRunning() && positionMs >= 0
+    });
+    if (this.clock.isRunning() && positionMs < 0) {
+      this.scheduleStemStart(stem);
+    }
+  }
+
+  /**
+   * Remove a stem added with addStem
+   */
+  public async removeStem(trackId: string): Promise<void> {
+    this.extraStems.delete(trackId);
+    const stem = this.stems.find(s => s.track.id === trackId);
+    if (!stem) return;
+
+    this.stems = this.stems.filter(s => s !== stem);
+    this.cancelStemStart(trackId);
+    stem.effectsChain?.disconnect();
+    await stem.sound.unloadAsync().catch(() => {});
+  }
+
+  public hasStem(trackId: string): boolean {
+    return this.stems.some(stem => stem.track.id === trackId);
+  }
+
+  public getPitchShift(): number {
+    return this.pitchShift;
+  }
+
+  /**
+   * Set the mixer volume of a single stem; its loudness normalization is applied on top
+   */
+  public async setTrackVolume(trackId: string, volume: number): Promise<void> {
+    const stem = this.stems.find(s => s.track.id === trackId);
+    if (!stem) return;
+
+    stem.volume = volume;
+    await stem.sound.setVolumeAsync(this.getOutputGain(stem));
+  }
+
+  /**
+   * Fade the whole song, e.g. into or out of a crossfade with the next one.
+   * Mixer volumes stay as they are; the fade applies on top of them across all stems.
+   */
+  public async setFadeGain(gain: number): Promise<void> {
+    this.fadeGain = Math.max(0, Math.min(1, gain));
+    await Promise.all(this.stems.map(stem => stem.sound.setVolumeAsync(this.getOutputGain(stem))));
+  }
+
+  public getFadeGain(): number {
+    return this.fadeGain;
+  }
+
+  /**
+   * Gain a stem actually plays at: its mixer volume times its normalization gain, then the fade.
+   * Players cannot amplify, so stems measured quieter than the target are capped at full volume.
+   */
+  private getOutputGain(stem: Stem): number {
+    return Math.min(1, stem.volume * getNormalizationGain(stem.track)) * this.fadeGain;
+  }
+
+  /**
+   * Output gain of a stem (0 when it is not loaded), for level metering
+   */
+  public getTrackOutputGain(trackId: string): number {
+    const stem = this.stems.find(s => s.track.id === trackId);
+    return stem ? this.getOutputGain(stem) : 0;
+  }
+
+  /**
+   * Set the stereo pan and EQ of a single stem.
+   * Only takes effect where the platform supports it (see supportsTrackEffects),
+   * but is remembered either way so key-shift reloads keep it.
+   */
+  public setTrackEffects(trackId: string, effects: TrackEffects): void {
+    this.trackEffects.set(trackId, effects);
+    const stem = this.stems.find(s => s.track.id === trackId);
+    if (stem) {
+      this.applyTrackEffects(stem);
+    }
+  }
+
+  public getTrackEffects(trackId: string): TrackEffects {
+    return this.trackEffects.get(trackId) || NEUTRAL_EFFECTS;
+  }
+
+  public supportsTrackEffects(): boolean {
+    return supportsTrackEffects();
+  }
+
+  /**
+   * Sample every stem against the clock
+   */
+  public async getDriftReport(): Promise<DriftReport> {
+    const samples = await Promise.all(
+      this.stems.map(async (stem): Promise<StemSample | null> => {
+        const status = await stem.sound.getStatusAsync();
+        const sampledAt = Date.now();
+        const clockPositionMs = getStemPositionMs(stem.track, this.clock.getPositionMs(sampledAt));
+        // Stems that already ran out or have not started yet are not expected to follow the clock
+        if (!status.isLoaded || status.positionMillis >= stem.durationMs || clockPositionMs < 0) return null;
+
+        return {
+          trackId: stem.track.id,
+          positionMs: status.positionMillis,
+          clockPositionMs
+        };
+      })
+    );
+
+    return computeDriftReport(samples.filter((sample): sample is StemSample => sample !== null));
+  }
+
+  public isLoaded(): boolean {
+    return this.stems.length > 0;
+  }
+
+  public isPlaying(): boolean {
+    return this.clock.isRunning();
+  }
+
+  public getTrackIds(): string[] {
+    return this.stems.map(stem => stem.track.id);
+  }
+
+  /**
+   * Current clock position in seconds
+   */
+  public getPosition(): number {
+    return Math.min(this.clock.getPositionMs(), this.getDurationMs()) / 1000;
+  }
+
+  /**
+   * Length of the longest stem in seconds
+   */
+  public getDuration(): number {
+    return this.getDurationMs() / 1000;
+  }
+
+  public getTrackDuration(trackId: string): number {
+    const stem = this.stems.find(s => s.track.id === trackId);
+    return stem ? stem.durationMs / 1000 : 0;
+  }
+
+  public getRate(): number {
+    return this.clock.getRate();
+  }
+
+  // Private methods
+
+  private applyTrackEffects(stem: Stem): void {
+    const effects = this.trackEffects.get(stem.track.id);
+    if (!effects || (!stem.effectsChain && isNeutralEffects(effects))) return;
+
+    if (!stem.effectsChain) {
+      stem.effectsChain = TrackEffectsChain.attach(stem.sound);
+    }
+    stem.effectsChain?.setEffects(effects);
+  }
+
+  private getDurationMs(): number {
+    return this.stems.reduce((max, stem) => Math.max(max, getStemEndMs(stem)), 0);
+  }
+
+  /**
+   * The stem that ends last reports progress and the end of the song
+   */
+  private attachReferenceListener(): void {
+    const reference = this.stems.reduce<Stem | null>(
+      (longest, stem) => (!longest || getStemEndMs(stem) > getStemEndMs(longest) ? stem : longest),
+      null
+    );
+    if (!reference) return;
+
+    reference.sound.setProgressUpdateIntervalAsync(PROGRESS_UPDATE_INTERVAL_MS).catch(() => {});
+    reference.sound.setOnPlaybackStatusUpdate((status) => {
+      if (!status.isLoaded) return;
+
+      this.callbacks.onProgress?.(this.getPosition(), this.getDuration());
+
+      if (status.didJustFinish) {
+        // A loop that ends with the song can see the song finish before its wrap timer fires
+        if (this.loop && this.clock.isRunning()) {
+          this.cancelLoopWrap();
+          this.wrapLoop(this.getDurationMs()).catch(error => {
+            console.warn('Error wrapping loop:', error);
+          });
+          return;
+        }
+        this.stopDriftCorrection();
+        this.clock.stop();
+        this.clock.setPosition(this.getDurationMs());
+        this.callbacks.onFinish?.();
+      }
+    });
+  }
+
+  private startDriftCorrection(): void {
+    this.stopDriftCorrection();
+    this.driftTimer = setInterval(() => {
+      this.correctDrift().catch(error => {
+        console.warn('Error correcting stem drift:', error);
+      });
+    }, DRIFT_CHECK_INTERVAL_MS);
+  }
+
+  private stopDriftCorrection(): void {
+    if (this.driftTimer) {
+      clearInterval(this.driftTimer);
+      this.driftTimer = null;
+    }
+  }
+
+  private scheduleLoopWrap(): void {
+    this.cancelLoopWrap();
+    if (!this.loop || !this.clock.isRunning()) return;
+
+    const endMs = Math.min(this.loop.end * 1000, this.getDurationMs());
+    const remainingMs = (endMs - this.clock.getPositionMs()) / this.clock.getRate();
+    this.loopTimer = setTimeout(() => {
+      this.loopTimer = null;
+      this.wrapLoop().catch(error => {
+        console.warn('Error wrapping loop:', error);
+      });
+    }, Math.max(0, remainingMs));
+  }
+
+  private cancelLoopWrap(): void {
+    if (this.loopTimer) {
+      clearTimeout(this.loopTimer);
+      this.loopTimer = null;
+    }
+  }
+
+  /**
+   * Jump every stem back to the loop start without pausing,
+   * so the seam stays as short as the seek itself.
+   * Stems that already ran out before the loop end are started again.
+   */
+  private async wrapLoop(loopEndMs: number = this.clock.getPositionMs()): Promise<void> {
+    if (!this.loop || !this.clock.isRunning()) return;
+
+    const startMs = this.loop.start * 1000;
+    this.clock.start(startMs);
+    await Promise.all(
+      this.stems.map(stem => {
+        const positionMs = getStemPositionMs(stem.track, startMs);
+        if (positionMs < 0) {
+          return stem.sound.setStatusAsync({ positionMillis: 0, shouldPlay: false }).catch(() => {});
+        }
+        return (getStemPositionMs(stem.track, loopEndMs) >= stem.durationMs
+          ? stem.sound.setStatusAsync({
+            positionMillis: positionMs,
+            seekMillisToleranceBefore: 0,
+            seekMillisToleranceAfter: 0,
+            shouldPlay: true
+          })
+          : stem.sound.setPositionAsync(positionMs, EXACT_SEEK)
+        ).catch(() => {});
+      })
+    );
+    this.scheduleStemStarts();
+    this.scheduleLoopWrap();
+  }
+
+  /**
+   * Start stems that begin after the clock position (positive offsetMs) when the clock reaches them
+   */
+  private scheduleStemStarts(): void {
+    this.cancelStemStarts();
+    if (!this.clock.isRunning()) return;
+    this.stems
+      .filter(stem => getStemPositionMs(stem.track, this.clock.getPositionMs()) < 0)
+      .forEach(stem => this.scheduleStemStart(stem));
+  }
+
+  private scheduleStemStart(stem: Stem): void {
+    this.cancelStemStart(stem.track.id);
+    const delayMs = -getStemPositionMs(stem.track, this.clock.getPositionMs()) / this.clock.getRate();
+    this.stemStartTimers.set(stem.track.id, setTimeout(() => {
+      this.stemStartTimers.delete(stem.track.id);
+      if (!this.clock.isRunning() || !this.stems.includes(stem)) return;
+      stem.sound.setStatusAsync({
+        positionMillis: Math.max(0, getStemPositionMs(stem.track, this.clock.getPositionMs())),
+        seekMillisToleranceBefore: 0,
+        seekMillisToleranceAfter: 0,
+        shouldPlay: true
+      }).catch(error => {
+        console.warn(`Error starting track ${stem.track.name}:`, error);
+      });
+    }, Math.max(0, delayMs)));
+  }
+
+  private cancelStemStart(trackId: string): void {
+    const timer = this.stemStartTimers.get(trackId);
+    if (timer) {
+      clearTimeout(timer);
+      this.stemStartTimers.delete(trackId);
+    }
+  }
+
+  private cancelStemStarts(): void {
+    this.stemStartTimers.forEach(timer => clearTimeout(timer));
+    this.stemStartTimers.clear();
+  }
+
+  private async correctDrift(): Promise<void> {
+    const generation = this.clock.getGeneration();
+    const report = await this.getDriftReport();
+    // A seek or loop wrap while sampling makes the stem positions stale
+    if (!this.clock.isRunning() || generation !== this.clock.getGeneration() || report.stems.length === 0) return;
+
+    // Follow the stems as a group, then bring stragglers back in line
+    const medianDrift = getMedianDrift(report);
+    if (Math.abs(medianDrift) > DRIFT_TOLERANCE_MS) {
+      this.clock.nudge(medianDrift);
+    }
+
+    this.scheduleLoopWrap();
+
+    const outliers = report.stems.filter(stem => Math.abs(stem.driftMs - medianDrift) > DRIFT_TOLERANCE_MS);
+    await Promise.all(
+      outliers.map(async (drift) => {
+        const stem = this.stems.find(s => s.track.id === drift.trackId);
+        if (!stem) return;
+        await stem.sound.setPositionAsync(getStemPositionMs(stem.track, this.clock.getPositionMs()), EXACT_SEEK);
+      })
+    );
+  }
+}
+
+export default MultitrackEngine;
@@ -3,10 +3,12 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { ref, getDownloadURL } from 'firebase/storage';
 import { storage } from '../config/firebase';
 import { Song, Track, Score } from '../types/song';
+import { WaveformPeaks } from '../utils/waveform';
 
 interface OfflineSongData {
   songId: string;
   tracks: { [trackId: string]: string }; // trackId -> localUri
+  peaks?: { [trackId: string]: string }; // trackId -> localUri of the waveform peaks
   scores: { [scoreId: string]: string[] }; // scoreId -> array of localUris for pages
   cachedAt: number;
 }
@@ -78,6 +80,7 @@ class OfflineStorageService {
       const offlineData: OfflineSongData = {
         songId: song.id,
         tracks: {},
+        peaks: {},
         scores: {},
         cachedAt: Date.now()
       };
@@ -100,6 +103,17 @@ class OfflineStorageService {
             console.error(`Error downloading track ${track.name}:`, error);
             throw error;
           }
+
+          if (track.peaksPath) {
+            try {
+              const peaksUrl = await getDownloadURL(ref(storage, track.peaksPath));
+              const peaksResult = await FileSystem.downloadAsync(peaksUrl, `${songCacheDir}tracks/${track.id}.peaks.json`);
+              offlineData.peaks![track.id] = peaksResult.uri;
+            } catch (error) {
+              // Playback works without the waveform
+              console.error(`Error downloading waveform for ${track.name}:`, error);
+            }
+          }
         }
       }
 
@@ -212,6 +226,37 @@ class OfflineStorageService {
     }
   }
 
+  /**
+   * Get cached waveform peaks for offline use
+   */
+  public async getCachedPeaks(track: Track, songId: string): Promise<WaveformPeaks | null> {
+    try {
+      if (!this.isSongOffline(songId)) {
+        return null;
+      }
+
+      const offlineDataStr = await AsyncStorage.getItem(`offline_song_${songId}`);
+      if (!offlineDataStr) {
+        return null;
+      }
+
+      const offlineData: OfflineSongData = JSON.parse(offlineDataStr);
+      const localUri = offlineData.peaks?.[track.id];
+      if (!localUri) {
+        return null;
+      }
+
+      const fileInfo = await FileSystem.getInfoAsync(localUri);
+      if (!fileInfo.exists) {
+        return null;
+      }
+      return JSON.parse(await FileSystem.readAsStringAsync(localUri));
+    } catch (error) {
+      console.error('Error getting cached waveform peaks:', error);
+      return null;
+    }
+  }
+
   /**
    * Get cached score page URIs for offline use
    */
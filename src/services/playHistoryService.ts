@@ -0,0 +1,61 @@
+import { ref, onValue, runTransaction } from 'firebase/database';
+import { database } from '../config/firebase';
+import { SongPlayStats } from '../types/user';
+
+export type SongPlays = { [songId: string]: SongPlayStats };
+
+/**
+ * Which songs the user has played and how often, under users/{uid}/songPlays.
+ * Smart playlists use it for rules such as "never played".
+ */
+class PlayHistoryService {
+  private static instance: PlayHistoryService;
+  private currentUserId: string | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): PlayHistoryService {
+    if (!PlayHistoryService.instance) {
+      PlayHistoryService.instance = new PlayHistoryService();
+    }
+    return PlayHistoryService.instance;
+  }
+
+  public setCurrentUser(userId: string | null) {
+    this.currentUserId = userId;
+  }
+
+  /**
+   * Count one play of a song. Failures are only logged, as they should never stop playback.
+   */
+  public async recordPlay(songId: string): Promise<void> {
+    if (!this.currentUserId) return;
+    try {
+      await runTransaction(ref(database, `users/${this.currentUserId}/songPlays/${songId}`), (current: SongPlayStats | null) => ({
+        count: (current?.count || 0) + 1,
+        lastPlayedAt: Date.now(),
+      }));
+    } catch (error) {
+      console.error('Error recording song play:', error);
+    }
+  }
+
+  /**
+   * Listen to the user's play counts
+   *
+   * @returns Function that stops listening
+   */
+  public subscribe(onChange: (plays: SongPlays) => void): () => void {
+    if (!this.currentUserId) {
+      onChange({});
+      return () => {};
+    }
+    return onValue(ref(database, `users/${this.currentUserId}/songPlays`), (snapshot) => {
+      onChange(snapshot.val() || {});
+    }, (error) => {
+      console.error('Error listening to song plays:', error);
+    });
+  }
+}
+
+export default PlayHistoryService;
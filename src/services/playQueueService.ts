@@ -0,0 +1,248 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Song } from '../types/song';
+import {
+  PlayQueue,
+  QueueContext,
+  addSongToQueue,
+  advanceQueue,
+  createQueue,
+  getCurrentSongId,
+  getUpcomingSongIds,
+  jumpToSong,
+  playSongNext,
+  removeQueuedSong,
+  retreatQueue,
+  setQueueShuffled,
+  updateQueueSongs
+} from '../utils/playQueue';
+
+const STORAGE_KEY = 'play_queue';
+
+/**
+ * The play queue shared by everything that plays songs one after another:
+ * shuffle order, history for previous/next and the songs queued with
+ * "play next" or "add to queue". The queue is kept on the device so it
+ * survives a restart; songs are stored by id and looked up in the library.
+ */
+class PlayQueueService {
+  private static instance: PlayQueueService;
+  private queue: PlayQueue | null = null;
+  private shuffled = false; // Carries over to the next playlist or song list that starts
+  private songs = new Map<string, Song>();
+  private listeners: ((queue: PlayQueue | null) => void)[] = [];
+  private loaded = false;
+
+  private constructor() {}
+
+  public static getInstance(): PlayQueueService {
+    if (!PlayQueueService.instance) {
+      PlayQueueService.instance = new PlayQueueService();
+    }
+    return PlayQueueService.instance;
+  }
+
+  /**
+   * Restore the queue saved before the app was closed
+   */
+  public async load(): Promise<PlayQueue | null> {
+    if (this.loaded) return this.queue;
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEY);
+      // Something may have been queued before loading finished
+      if (data && !this.queue) {
+        this.queue = JSON.parse(data);
+        this.shuffled = !!this.queue?.shuffled;
+      }
+    } catch (error) {
+      console.error('Error loading play queue:', error);
+    }
+    this.loaded = true;
+    this.notify();
+    return this.queue;
+  }
+
+  /**
+   * Songs that queued ids can be resolved to, e.g. the whole library
+   */
+  public setLibrary(songs: Song[]): void {
+    songs.forEach(song => this.songs.set(song.id, song));
+  }
+
+  public getSong(songId: string | null): Song | null {
+    return songId ? this.songs.get(songId) || null : null;
+  }
+
+  public getQueue(): PlayQueue | null {
+    return this.queue;
+  }
+
+  public getCurrentSong(): Song | null {
+    return this.queue ? this.getSong(getCurrentSongId(this.queue)) : null;
+  }
+
+  public isShuffled(): boolean {
+    return this.shuffled;
+  }
+
+  /**
+   * Start playing a playlist or song list from one of its songs
+   */
+  public start(context: QueueContext, songs: Song[], startSong: Song): void {
+    this.setLibrary([...songs, startSong]);
+    this.setQueue(createQueue(context, songs.map(song => song.id), startSong.id, this.shuffled, this.queue?.upNext));
+  }
+
+  /**
+   * Whether the queue is playing this playlist (or the song list, without an id)
+   */
+  public isPlaying(playlistId?: string): boolean {
+    return !!this.queue && this.queue.context.playlistId === playlistId;
+  }
+
+  /**
+   * Move on to the next song, skipping songs that are no longer in the library
+   *
+   * @returns The song to play, or null at the end of the queue
+   */
+  public next(repeat: boolean): Song | null {
+    if (!this.queue) return null;
+    return this.moveTo(this.findSong(this.queue, queue => advanceQueue(queue, repeat)));
+  }
+
+  /**
+   * The song next() would move to, without moving, e.g. to load it ahead
+   */
+  public peekNext(repeat: boolean): Song | null {
+    if (!this.queue) return null;
+    return this.findSong(this.queue, queue => advanceQueue(queue, repeat))?.song || null;
+  }
+
+  /**
+   * Go back to the song played before, skipping songs that are no longer in the library
+   *
+   * @returns The song to play, or null at the start of the history
+   */
+  public previous(): Song | null {
+    if (!this.queue) return null;
+    return this.moveTo(this.findSong(this.queue, retreatQueue));
+  }
+
+  /**
+   * Play a song the user picked from the current playlist or song list
+   */
+  public jumpTo(song: Song): void {
+    if (!this.queue) return;
+    this.setLibrary([song]);
+    this.setQueue(jumpToSong(this.queue, song.id));
+  }
+
+  public setShuffled(shuffled: boolean): void {
+    this.shuffled = shuffled;
+    if (this.queue) {
+      this.setQueue(setQueueShuffled(this.queue, shuffled));
+    } else {
+      this.notify();
+    }
+  }
+
+  /**
+   * Follow changes to the playing playlist or song list
+   */
+  public updateSongs(songs: Song[]): void {
+    if (!this.queue) return;
+    const songIds = songs.map(song => song.id);
+    if (songIds.length === this.queue.songIds.length && songIds.every((id, index) => id === this.queue?.songIds[index])) {
+      return;
+    }
+    this.setLibrary(songs);
+    this.setQueue(updateQueueSongs(this.queue, songIds));
+  }
+
+  public playNext(song: Song): void {
+    this.setLibrary([song]);
+    this.setQueue(playSongNext(this.getOrCreateQueue(), song.id));
+  }
+
+  public addToQueue(song: Song): void {
+    this.setLibrary([song]);
+    this.setQueue(addSongToQueue(this.getOrCreateQueue(), song.id));
+  }
+
+  public removeFromQueue(index: number): void {
+    if (!this.queue) return;
+    this.setQueue(removeQueuedSong(this.queue, index));
+  }
+
+  /**
+   * Songs that will play next, skipping any that are no longer in the library
+   */
+  public getUpcomingSongs(count: number): Song[] {
+    if (!this.queue) return [];
+    return getUpcomingSongIds(this.queue, count)
+      .map(id => this.getSong(id))
+      .filter((song): song is Song => !!song);
+  }
+
+  public subscribe(listener: (queue: PlayQueue | null) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  public clear(): void {
+    this.setQueue(null);
+  }
+
+  // Queuing a song with nothing playing yet starts an empty song list
+  private getOrCreateQueue(): PlayQueue {
+    return this.queue || {
+      context: { name: 'Library' },
+      songIds: [],
+      order: [],
+      orderPosition: -1,
+      shuffled: this.shuffled,
+      seed: 0,
+      upNext: [],
+      history: [],
+      historyPosition: -1,
+    };
+  }
+
+  // Steps through the queue until a song resolves in the library. The steps are
+  // bounded, so a repeating queue whose songs have all gone still comes to an end
+  private findSong(
+    queue: PlayQueue,
+    step: (queue: PlayQueue) => { queue: PlayQueue; songId: string | null }
+  ): { queue: PlayQueue; song: Song } | null {
+    const maxSteps = queue.history.length + queue.upNext.length + queue.songIds.length + 1;
+    let current = queue;
+    for (let steps = 0; steps < maxSteps; steps++) {
+      const result = step(current);
+      if (!result.songId) return null;
+      current = result.queue;
+      const song = this.getSong(result.songId);
+      if (song) return { queue: current, song };
+    }
+    return null;
+  }
+
+  private moveTo(found: { queue: PlayQueue; song: Song } | null): Song | null {
+    if (!found) return null;
+    this.setQueue(found.queue);
+    return found.song;
+  }
+
+  private setQueue(queue: PlayQueue | null): void {
+    this.queue = queue;
+    this.notify();
+    const saved = queue ? AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(queue)) : AsyncStorage.removeItem(STORAGE_KEY);
+    saved.catch(error => console.error('Error saving play queue:', error));
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.queue));
+  }
+}
+
+export default PlayQueueService;
@@ -1,20 +1,60 @@
-import { Audio } from 'expo-av';
-import { Playlist } from '../types/playlist';
+import { Playlist, PlaylistItemOverrides } from '../types/playlist';
 import { Song } from '../types/song';
 import PlaylistService from './playlistService';
-import AudioStorageService from './audioStorage';
+import PlayHistoryService from './playHistoryService';
+import PlayQueueService from './playQueueService';
+import MultitrackEngine from './multitrackEngine';
+import { getNextMarker, getPreviousMarker } from '../utils/songMarkers';
+import {
+  SectionRange,
+  getOverridePitchShift,
+  getOverrideRate,
+  getPlaylistItem,
+  getSectionJump,
+  getSectionRanges
+} from '../utils/setlist';
+import { isSmartPlaylist } from '../utils/smartPlaylist';
+import { getCrossfadeGains, getCrossfadeStart, getPlaylistTransition } from '../utils/playlistTransition';
+
+// How often fade levels change during a crossfade
+const FADE_STEP_MS = 50;
 
 export interface PlaylistPlayerState {
   currentPlaylist: Playlist | null;
   currentSongIndex: number;
   isPlaying: boolean;
   isShuffled: boolean;
-  isRepeating: boolean;
+  isRepeating: boolean; // The playlist starts over after its last song
+  isRepeatingSong: boolean;
   currentSong: Song | null;
   progress: number;
   duration: number;
+  currentOverrides: PlaylistItemOverrides | null; // How the setlist plays the current song
 }
 
+// A song loaded into an engine the way the playlist plays it
+interface PreparedSong {
+  song: Song;
+  overrides: PlaylistItemOverrides | null;
+  duration: number;
+  sectionRanges: SectionRange[];
+}
+
+/**
+ * Loads a song's stems into an engine for the playlist, given how its setlist plays it
+ */
+export type PlaylistSongLoader = (
+  engine: MultitrackEngine,
+  song: Song,
+  overrides: PlaylistItemOverrides | null
+) => Promise<void>;
+
+// Without a loader from the song view, songs load in their setlist key and tempo
+const loadSongWithOverrides: PlaylistSongLoader = async (engine, song, overrides) => {
+  await engine.load(song, getOverridePitchShift(song, overrides || undefined));
+  await engine.setRate(getOverrideRate(song, overrides || undefined));
+};
+
 export interface PlaylistPlayerCallbacks {
   onSongChange?: (song: Song, index: number) => void;
   onPlaylistEnd?: () => void;
@@ -26,22 +66,47 @@ class PlaylistPlayerService {
   private static instance: PlaylistPlayerService;
   private currentState: PlaylistPlayerState;
   private callbacks: PlaylistPlayerCallbacks = {};
+  private songLoader: PlaylistSongLoader = loadSongWithOverrides;
   private playlistService: PlaylistService;
-  private currentPlayers: Audio.Sound[] = [];
+  private playQueue = PlayQueueService.getInstance();
+  private engine = new MultitrackEngine(); // Plays the current song
+  // Holds the next song's stems, loaded while the current song plays, so songs
+  // change without waiting for a load. The two engines swap on every song change.
+  private standbyEngine = new MultitrackEngine();
+  private standby: PreparedSong | null = null;
+  private preloading: Promise<void> = Promise.resolve();
+  private isChangingSong = false;
+  private fadingEngine: MultitrackEngine | null = null; // The song before, while it fades out
+  private fadeTimer: ReturnType<typeof setInterval> | null = null;
+  private gapTimer: ReturnType<typeof setTimeout> | null = null;
+  private isLiveSession = false;
   private isInitialized = false;
+  // The playlist's songs in its own order; the play order is kept by PlayQueueService.
+  // Plain playlists are fetched again on song changes; smart ones are kept up to date with updateSongs
+  private songs: Song[] = [];
+  private playRecorded = false;
+  // Parts of the current song the setlist plays; empty plays all of it
+  private sectionRanges: SectionRange[] = [];
+  private isSkippingSection = false;
 
   private constructor() {
     this.currentState = {
       currentPlaylist: null,
       currentSongIndex: -1,
       isPlaying: false,
-      isShuffled: false,
+      isShuffled: this.playQueue.isShuffled(),
       isRepeating: false,
+      isRepeatingSong: false,
       currentSong: null,
       progress: 0,
-      duration: 0
+      duration: 0,
+      currentOverrides: null
     };
     this.playlistService = PlaylistService.getInstance();
+    this.attachEngine(this.engine);
+    this.attachEngine(this.standbyEngine);
+    // Queuing a song or changing the playlist can change which song comes next
+    this.playQueue.subscribe(() => this.preloadNextSong());
   }
 
   public static getInstance(): PlaylistPlayerService {
@@ -59,35 +124,62 @@ class PlaylistPlayerService {
   }
 
   /**
-   * Load a playlist for playback
+   * Set how songs are loaded, e.g. with the song view's click track and saved mix
    */
-  public async loadPlaylist(playlist: Playlist, songs: Song[]): Promise<void> {
-    try {
-      // Stop current playback
-      await this.stop();
-
-      // Update state
-      this.currentState = {
-        ...this.currentState,
-        currentPlaylist: playlist,
-        currentSongIndex: 0,
-        isPlaying: false,
-        currentSong: songs.length > 0 ? songs[0] : null,
-        progress: 0,
-        duration: 0
-      };
+  public setSongLoader(loader: PlaylistSongLoader | null): void {
+    this.songLoader = loader || loadSongWithOverrides;
+  }
 
-      this.notifyStateChange();
+  /**
+   * The engine playing the current song. It changes on every song change,
+   * as the current and standby engines swap.
+   */
+  public getEngine(): MultitrackEngine {
+    return this.engine;
+  }
 
-      // Load first song if available
-      if (songs.length > 0) {
-        await this.loadCurrentSong();
-      }
+  /**
+   * Load a playlist for playback. For a setlist, each song is played in the
+   * key, tempo and sections planned for it; for a smart playlist, songs are
+   * its current matches in the library.
+   */
+  public async loadPlaylist(playlist: Playlist, songs: Song[]): Promise<void> {
+    // With shuffle on, the playlist starts at a random song
+    const firstSong = this.playQueue.isShuffled()
+      ? songs[Math.floor(Math.random() * songs.length)]
+      : songs[0];
+    if (firstSong) {
+      this.playQueue.start({ name: playlist.name, playlistId: playlist.id }, songs, firstSong);
+    }
+    await this.openPlaylist(playlist, songs, firstSong || null);
+  }
 
-    } catch (error) {
-      console.error('Error loading playlist:', error);
-      this.callbacks.onError?.('Failed to load playlist');
+  /**
+   * Pick up a playlist's queue restored from before the app was closed,
+   * at the song it was on, with its shuffle order and history
+   */
+  public async resumePlaylist(playlist: Playlist, songs: Song[]): Promise<void> {
+    const song = this.playQueue.getCurrentSong();
+    if (!song || !this.playQueue.isPlaying(playlist.id)) {
+      await this.loadPlaylist(playlist, songs);
+      return;
     }
+    this.playQueue.updateSongs(songs);
+    await this.openPlaylist(playlist, songs, song);
+  }
+
+  /**
+   * Leave the playlist. The current song's stems stay loaded, so the song
+   * can still be played on its own; the next song's are let go.
+   */
+  public async closePlaylist(): Promise<void> {
+    this.endTransition();
+    this.clearPlaylist();
+    this.notifyStateChange();
+
+    const standbyEngine = this.standbyEngine;
+    this.preloading = this.preloading.then(() => standbyEngine.unload());
+    await this.preloading;
   }
 
   /**
@@ -100,17 +192,22 @@ class PlaylistPlayerService {
         return;
       }
 
-      if (this.currentPlayers.length === 0) {
+      if (!this.engine.isLoaded()) {
         await this.loadCurrentSong();
       }
 
-      // Play all active tracks
-      await Promise.all(
-        this.currentPlayers.map(player => player.playAsync())
-      );
+      // Start all stems together on the engine clock
+      this.clearGapTimer();
+      await this.engine.play();
+
+      if (!this.playRecorded) {
+        this.playRecorded = true;
+        PlayHistoryService.getInstance().recordPlay(this.currentState.currentSong.id);
+      }
 
       this.currentState.isPlaying = true;
       this.notifyStateChange();
+      this.preloadNextSong();
 
     } catch (error) {
       console.error('Error playing song:', error);
@@ -123,9 +220,8 @@ class PlaylistPlayerService {
    */
   public async pause(): Promise<void> {
     try {
-      await Promise.all(
-        this.currentPlayers.map(player => player.pauseAsync())
-      );
+      this.endTransition();
+      await this.engine.pause();
 
       this.currentState.isPlaying = false;
       this.notifyStateChange();
@@ -141,11 +237,9 @@ class PlaylistPlayerService {
    */
   public async stop(): Promise<void> {
     try {
-      await Promise.all(
-        this.currentPlayers.map(player => player.stopAsync())
-      );
-
-      await this.unloadCurrentSong();
+      this.endTransition();
+      this.standby = null;
+      await Promise.all([this.unloadCurrentSong(), this.standbyEngine.unload()]);
 
       this.currentState = {
         ...this.currentState,
@@ -162,34 +256,33 @@ class PlaylistPlayerService {
   }
 
   /**
-   * Play next song in playlist
+   * Play the next song in the queue: one queued with playNext or addToQueue,
+   * or the next in the playlist's (shuffled) order. Skipping past the last
+   * song starts the playlist over.
    */
   public async next(): Promise<void> {
     if (!this.currentState.currentPlaylist) return;
 
-    const nextIndex = this.getNextSongIndex();
-    if (nextIndex === -1) {
-      // End of playlist
-      this.callbacks.onPlaylistEnd?.();
-      return;
-    }
+    await this.getCurrentPlaylistSongs();
+    const song = this.playQueue.next(true);
+    if (!song) return;
 
-    await this.goToSong(nextIndex);
+    await this.playSong(song);
   }
 
   /**
-   * Play previous song in playlist
+   * Go back to the song played before the current one
    */
   public async previous(): Promise<void> {
     if (!this.currentState.currentPlaylist) return;
 
-    const prevIndex = this.getPreviousSongIndex();
-    if (prevIndex === -1) {
-      // Beginning of playlist
+    const song = this.playQueue.previous();
+    if (!song) {
+      // Beginning of the history
       return;
     }
 
-    await this.goToSong(prevIndex);
+    await this.playSong(song);
   }
 
   /**
@@ -201,45 +294,96 @@ class PlaylistPlayerService {
     const songs = await this.getCurrentPlaylistSongs();
     if (index < 0 || index >= songs.length) return;
 
-    try {
-      // Stop current song
-      await this.stop();
+    this.playQueue.jumpTo(songs[index]);
+    await this.playSong(songs[index]);
+  }
 
-      // Update state
-      this.currentState.currentSongIndex = index;
-      this.currentState.currentSong = songs[index];
-      this.currentState.progress = 0;
-      this.currentState.duration = 0;
+  /**
+   * Play a song right after the current one, e.g. from the song list
+   */
+  public playNext(song: Song): void {
+    this.playQueue.playNext(song);
+  }
 
-      this.notifyStateChange();
-      this.callbacks.onSongChange?.(songs[index], index);
+  /**
+   * Play a song after the other queued songs
+   */
+  public addToQueue(song: Song): void {
+    this.playQueue.addToQueue(song);
+  }
 
-      // Load and play new song
-      await this.loadCurrentSong();
-      if (this.currentState.isPlaying) {
-        await this.play();
-      }
+  /**
+   * Take a song the user queued back out of the queue
+   */
+  public removeFromQueue(index: number): void {
+    this.playQueue.removeFromQueue(index);
+  }
 
-    } catch (error) {
-      console.error('Error going to song:', error);
-      this.callbacks.onError?.('Failed to change song');
+  /**
+   * Songs that will play next, in order
+   */
+  public getUpcomingSongs(count: number = 20): Song[] {
+    return this.playQueue.getUpcomingSongs(count);
+  }
+
+  /**
+   * Take a smart playlist's latest matches. The playing song keeps playing even
+   * when it no longer matches.
+   */
+  public updateSongs(songs: Song[]): void {
+    if (!isSmartPlaylist(this.currentState.currentPlaylist)) return;
+
+    this.songs = songs;
+    this.playQueue.updateSongs(songs);
+    const current = this.currentState.currentSong;
+    this.currentState.currentSongIndex = current ? songs.findIndex(song => song.id === current.id) : -1;
+    if (!current && songs.length > 0) {
+      this.playQueue.start({ name: this.currentState.currentPlaylist.name, playlistId: this.currentState.currentPlaylist.id }, songs, songs[0]);
+      this.currentState.currentSongIndex = 0;
+      this.currentState.currentSong = songs[0];
     }
+    this.notifyStateChange();
   }
 
   /**
    * Toggle shuffle mode
    */
   public toggleShuffle(): void {
-    this.currentState.isShuffled = !this.currentState.isShuffled;
+    // The queue's setting, as it was restored from the device after the player started
+    this.playQueue.setShuffled(!this.playQueue.isShuffled());
+    this.currentState.isShuffled = this.playQueue.isShuffled();
     this.notifyStateChange();
   }
 
   /**
-   * Toggle repeat mode
+   * Set what repeats: the current song, or the playlist after its last song
    */
-  public toggleRepeat(): void {
-    this.currentState.isRepeating = !this.currentState.isRepeating;
+  public setRepeat(repeatSong: boolean, repeatPlaylist: boolean): void {
+    if (this.currentState.isRepeatingSong === repeatSong && this.currentState.isRepeating === repeatPlaylist) return;
+    this.currentState.isRepeatingSong = repeatSong;
+    this.currentState.isRepeating = repeatPlaylist;
     this.notifyStateChange();
+    this.preloadNextSong(); // Repeating changes what follows the last song
+  }
+
+  /**
+   * In a live session songs load as they come up, without preloading or crossfades,
+   * so every device changes song together
+   */
+  public setLiveSession(isLive: boolean): void {
+    if (this.isLiveSession === isLive) return;
+    this.isLiveSession = isLive;
+    if (!isLive) {
+      this.preloadNextSong();
+      return;
+    }
+
+    this.standby = null;
+    this.preloading = this.preloading.then(() => {
+      // A song change or crossfade already under way uses the standby engine
+      if (this.isChangingSong || this.fadingEngine) return;
+      return this.standbyEngine.unload();
+    });
   }
 
   /**
@@ -247,10 +391,7 @@ class PlaylistPlayerService {
    */
   public async seekTo(position: number): Promise<void> {
     try {
-      const positionMs = position * 1000; // Convert to milliseconds
-      await Promise.all(
-        this.currentPlayers.map(player => player.setPositionAsync(positionMs))
-      );
+      await this.engine.seek(position);
 
       this.currentState.progress = position;
       this.notifyStateChange();
@@ -261,6 +402,24 @@ class PlaylistPlayerService {
     }
   }
 
+  /**
+   * Jump to the next section marker of the current song
+   */
+  public async nextSection(): Promise<void> {
+    const marker = getNextMarker(this.currentState.currentSong?.markers, this.engine.getPosition());
+    if (marker) {
+      await this.seekTo(marker.time);
+    }
+  }
+
+  /**
+   * Jump back to the start of the current section, or the one before it
+   */
+  public async previousSection(): Promise<void> {
+    const marker = getPreviousMarker(this.currentState.currentSong?.markers, this.engine.getPosition());
+    await this.seekTo(marker ? marker.time : 0);
+  }
+
   /**
    * Get current player state
    */
@@ -298,52 +457,30 @@ class PlaylistPlayerService {
 
   // Private methods
 
+  // Both engines report here; only the one playing the current song of a playlist counts
+  private attachEngine(engine: MultitrackEngine): void {
+    engine.setCallbacks({
+      onProgress: (position, duration) => {
+        if (engine !== this.engine || !this.currentState.currentPlaylist) return;
+        this.currentState.progress = position;
+        this.currentState.duration = duration;
+        this.notifyStateChange();
+        this.skipLeftOutSections(position, duration);
+        this.startCrossfadeIfDue(position);
+      },
+      onFinish: () => {
+        if (engine !== this.engine || !this.currentState.currentPlaylist) return;
+        this.handleSongFinished();
+      }
+    });
+  }
+
   private async loadCurrentSong(): Promise<void> {
-    if (!this.currentState.currentSong) return;
+    const song = this.currentState.currentSong;
+    if (!song) return;
 
     try {
-      // Unload previous players
-      await this.unloadCurrentSong();
-
-      // Load new song tracks
-      const audioStorage = AudioStorageService.getInstance();
-
-      this.currentPlayers = await Promise.all(
-        (this.currentState.currentSong.tracks || []).map(async (track) => {
-          try {
-            const audioFile = await audioStorage.getAudioFile(track.path);
-            const sound = await audioStorage.loadAudioFile(audioFile);
-            
-            // Set up playback status listener
-            sound.setOnPlaybackStatusUpdate((status) => {
-              if (status.isLoaded) {
-                this.currentState.progress = (status.positionMillis || 0) / 1000;
-                this.currentState.duration = (status.durationMillis || 0) / 1000;
-                this.notifyStateChange();
-
-                // Check if song finished
-                if (status.didJustFinish) {
-                  this.handleSongFinished();
-                }
-              }
-            });
-
-            return sound;
-          } catch (error) {
-            console.error(`Error loading track ${track.name}:`, error);
-            throw error;
-          }
-        })
-      );
-
-      // Get duration from first track
-      if (this.currentPlayers.length > 0) {
-        const status = await this.currentPlayers[0].getStatusAsync();
-        if (status.isLoaded) {
-          this.currentState.duration = (status.durationMillis || 0) / 1000;
-        }
-      }
-
+      this.applyPreparedSong(await this.prepareSong(this.engine, song));
       this.notifyStateChange();
 
     } catch (error) {
@@ -352,12 +489,81 @@ class PlaylistPlayerService {
     }
   }
 
+  /**
+   * Load a song into an engine in the key and tempo the playlist plays it,
+   * parked at the first section planned for it
+   */
+  private async prepareSong(engine: MultitrackEngine, song: Song): Promise<PreparedSong> {
+    const overrides = getPlaylistItem(this.currentState.currentPlaylist, song.id)?.overrides || null;
+
+    // Unloads the engine's previous song before loading the new stems
+    await this.songLoader(engine, song, overrides);
+    await engine.setFadeGain(1);
+    const duration = engine.getDuration();
+
+    const sectionRanges = getSectionRanges(song, overrides?.sectionIds, duration);
+    if (sectionRanges.length > 0) {
+      await engine.seek(sectionRanges[0].start);
+    }
+    return { song, overrides, duration, sectionRanges };
+  }
+
+  private applyPreparedSong(prepared: PreparedSong): void {
+    this.playRecorded = false;
+    this.currentState.currentOverrides = prepared.overrides;
+    this.currentState.duration = prepared.duration;
+    this.currentState.progress = prepared.sectionRanges[0]?.start || 0;
+    this.sectionRanges = prepared.sectionRanges;
+  }
+
+  private async openPlaylist(playlist: Playlist, songs: Song[], firstSong: Song | null): Promise<void> {
+    try {
+      // Stop current playback
+      await this.stop();
+      this.songs = songs;
+
+      this.currentState = {
+        ...this.currentState,
+        currentPlaylist: playlist,
+        currentSongIndex: firstSong ? songs.findIndex(song => song.id === firstSong.id) : -1,
+        isPlaying: false,
+        isShuffled: this.playQueue.isShuffled(),
+        currentSong: firstSong,
+        progress: 0,
+        duration: 0
+      };
+
+      this.notifyStateChange();
+
+      // Load first song if available
+      if (firstSong) {
+        await this.loadCurrentSong();
+      }
+
+    } catch (error) {
+      console.error('Error loading playlist:', error);
+      this.callbacks.onError?.('Failed to load playlist');
+    }
+  }
+
+  private clearPlaylist(): void {
+    this.standby = null;
+    this.songs = [];
+    this.sectionRanges = [];
+    this.currentState = {
+      ...this.currentState,
+      currentPlaylist: null,
+      currentSongIndex: -1,
+      isPlaying: false,
+      currentSong: null,
+      currentOverrides: null
+    };
+  }
+
   private async unloadCurrentSong(): Promise<void> {
     try {
-      await Promise.all(
-        this.currentPlayers.map(player => player.unloadAsync())
-      );
-      this.currentPlayers = [];
+      this.sectionRanges = [];
+      await this.engine.unload();
     } catch (error) {
       console.error('Error unloading current song:', error);
     }
@@ -365,9 +571,12 @@ class PlaylistPlayerService {
 
   private async getCurrentPlaylistSongs(): Promise<Song[]> {
     if (!this.currentState.currentPlaylist) return [];
+    if (isSmartPlaylist(this.currentState.currentPlaylist)) return this.songs;
 
     try {
       const { songs } = await this.playlistService.getPlaylistSongs(this.currentState.currentPlaylist.id);
+      this.songs = songs;
+      this.playQueue.updateSongs(songs);
       return songs;
     } catch (error) {
       console.error('Error getting playlist songs:', error);
@@ -375,67 +584,241 @@ class PlaylistPlayerService {
     }
   }
 
-  private getNextSongIndex(): number {
-    if (!this.currentState.currentPlaylist) return -1;
+  /**
+   * Load the song that comes next into the standby engine. Loads run one after
+   * another, as they share the engine.
+   */
+  private preloadNextSong(): void {
+    this.preloading = this.preloading.then(() => this.loadStandby());
+  }
 
-    const songs = this.currentState.currentPlaylist.songs;
-    if (songs.length === 0) return -1;
+  private async loadStandby(): Promise<void> {
+    const playlist = this.currentState.currentPlaylist;
+    // Song changes and crossfades use the standby engine themselves
+    if (!playlist || this.isLiveSession || this.isChangingSong || this.fadingEngine) return;
 
-    if (this.currentState.isShuffled) {
-      // Simple shuffle: pick random song that's not current
-      const availableIndices = songs
-        .map((_, index) => index)
-        .filter(index => index !== this.currentState.currentSongIndex);
-      
-      if (availableIndices.length === 0) {
-        return this.currentState.isRepeating ? 0 : -1;
+    try {
+      // Done ahead of time so the playlist's latest songs don't hold up the song change
+      await this.getCurrentPlaylistSongs();
+      const song = this.playQueue.peekNext(this.currentState.isRepeating);
+      if (!song || song.id === this.standby?.song.id || this.isChangingSong || this.fadingEngine) return;
+
+      this.standby = null;
+      const prepared = await this.prepareSong(this.standbyEngine, song);
+      if (this.currentState.currentPlaylist?.id === playlist.id) {
+        this.standby = prepared;
       }
+    } catch (error) {
+      // The song loads when it comes up instead
+      console.warn('Error preloading next song:', error);
+    }
+  }
+
+  /**
+   * Make a song the current one. Its stems come from the standby engine when they
+   * were loaded ahead, otherwise they load now. The song before is unloaded, or
+   * with fadeOut, keeps playing as the fading engine.
+   *
+   * @returns The fading engine with fadeOut, otherwise null
+   */
+  private async switchToSong(song: Song, fadeOut: boolean): Promise<MultitrackEngine | null> {
+    this.isChangingSong = true;
+    try {
+      await this.preloading;
+      const prepared = this.standby?.song.id === song.id
+        ? this.standby
+        : await this.prepareSong(this.standbyEngine, song);
+      this.standby = null;
+
+      const outgoing = this.engine;
+      this.engine = this.standbyEngine;
+      this.standbyEngine = outgoing;
+
+      // Songs queued from outside the playlist have no index in it
+      const index = this.songs.findIndex(candidate => candidate.id === song.id);
+      this.currentState.currentSongIndex = index;
+      this.currentState.currentSong = song;
+      this.applyPreparedSong(prepared);
 
-      return availableIndices[Math.floor(Math.random() * availableIndices.length)];
-    } else {
-      // Sequential playback
-      const nextIndex = this.currentState.currentSongIndex + 1;
-      if (nextIndex >= songs.length) {
-        return this.currentState.isRepeating ? 0 : -1;
+      this.notifyStateChange();
+      this.callbacks.onSongChange?.(song, index);
+
+      if (fadeOut) {
+        this.fadingEngine = outgoing;
+        return outgoing;
       }
-      return nextIndex;
+      await outgoing.unload();
+      return null;
+    } finally {
+      this.isChangingSong = false;
     }
   }
 
-  private getPreviousSongIndex(): number {
-    if (!this.currentState.currentPlaylist) return -1;
-
-    const songs = this.currentState.currentPlaylist.songs;
-    if (songs.length === 0) return -1;
+  /**
+   * Stop the current song and start another; keeps playing if the player was playing
+   */
+  private async playSong(song: Song): Promise<void> {
+    const wasPlaying = this.currentState.isPlaying;
+    try {
+      // Stop current song
+      this.endTransition();
+      await this.engine.pause();
+      this.currentState.isPlaying = false;
 
-    if (this.currentState.isShuffled) {
-      // In shuffle mode, previous goes to a random song
-      const availableIndices = songs
-        .map((_, index) => index)
-        .filter(index => index !== this.currentState.currentSongIndex);
-      
-      if (availableIndices.length === 0) {
-        return this.currentState.isRepeating ? songs.length - 1 : -1;
+      // Load (or take the preloaded) new song and play it
+      await this.switchToSong(song, false);
+      if (wasPlaying) {
+        await this.play();
       }
 
-      return availableIndices[Math.floor(Math.random() * availableIndices.length)];
-    } else {
-      // Sequential playback
-      const prevIndex = this.currentState.currentSongIndex - 1;
-      if (prevIndex < 0) {
-        return this.currentState.isRepeating ? songs.length - 1 : -1;
+    } catch (error) {
+      console.error('Error going to song:', error);
+      this.callbacks.onError?.('Failed to change song');
+    }
+  }
+
+  /**
+   * Jump over the sections a setlist leaves out, and end the song after its last planned section
+   */
+  private async skipLeftOutSections(position: number, duration: number): Promise<void> {
+    if (this.isSkippingSection) return;
+    const jump = getSectionJump(this.sectionRanges, position, duration);
+    if (jump === null) return;
+
+    this.isSkippingSection = true;
+    try {
+      if (jump >= duration) {
+        await this.engine.pause();
+        await this.handleSongFinished();
+      } else {
+        await this.seekTo(jump);
       }
-      return prevIndex;
+    } finally {
+      this.isSkippingSection = false;
+    }
+  }
+
+  // Where the current song ends: after its last planned section in a setlist
+  private getSongEnd(): number {
+    const lastRange = this.sectionRanges[this.sectionRanges.length - 1];
+    return lastRange ? lastRange.end : this.currentState.duration;
+  }
+
+  /**
+   * With a crossfade, start the next song under the end of the current one
+   */
+  private async startCrossfadeIfDue(position: number): Promise<void> {
+    const transition = getPlaylistTransition(this.currentState.currentPlaylist);
+    const songEnd = this.getSongEnd();
+    const rate = this.engine.getRate();
+    const start = getCrossfadeStart(transition, songEnd, rate);
+    if (start === null || position < start) return;
+    if (!this.currentState.isPlaying || this.currentState.isRepeatingSong || this.isChangingSong || this.fadingEngine) return;
+    // A loop region keeps the song playing
+    if (this.isLiveSession || this.engine.getLoop()) return;
+
+    // At the end of the playlist the last song plays out, as does a song whose
+    // next one isn't loaded yet; the next song then loads when it comes up
+    const song = this.playQueue.peekNext(this.currentState.isRepeating);
+    if (!song || this.standby?.song.id !== song.id) return;
+    this.playQueue.next(this.currentState.isRepeating);
+
+    // Positions are song seconds; the fade runs in wall-clock time until the song ends
+    const fadeMs = Math.max(FADE_STEP_MS, (songEnd - position) / rate * 1000);
+    try {
+      const outgoing = await this.switchToSong(song, true);
+      await this.engine.setFadeGain(0);
+      await this.play();
+
+      const incoming = this.engine;
+      const startedAt = Date.now();
+      this.fadeTimer = setInterval(() => {
+        const progress = (Date.now() - startedAt) / fadeMs;
+        const gains = getCrossfadeGains(progress);
+        outgoing?.setFadeGain(gains.outgoing).catch(() => {});
+        incoming.setFadeGain(gains.incoming).catch(() => {});
+        if (progress >= 1) {
+          this.endTransition();
+          this.preloadNextSong();
+        }
+      }, FADE_STEP_MS);
+
+    } catch (error) {
+      console.error('Error crossfading to next song:', error);
+      this.endTransition();
+      this.callbacks.onError?.('Failed to change song');
+    }
+  }
+
+  /**
+   * Finish or cut short a crossfade or gap: the song fading out stops and the current one plays at full level
+   */
+  private endTransition(): void {
+    if (this.fadeTimer) {
+      clearInterval(this.fadeTimer);
+      this.fadeTimer = null;
+    }
+    this.clearGapTimer();
+
+    const fading = this.fadingEngine;
+    if (!fading) return;
+    this.fadingEngine = null;
+    this.engine.setFadeGain(1).catch(() => {});
+    // The standby engine is free again once the song before is unloaded
+    this.preloading = this.preloading.then(() => fading.unload());
+  }
+
+  private clearGapTimer(): void {
+    if (this.gapTimer) {
+      clearTimeout(this.gapTimer);
+      this.gapTimer = null;
     }
   }
 
+  /**
+   * Move on when a song ends: straight into the preloaded next song, after the
+   * playlist's gap, or stopped on it when the playlist pauses between songs
+   */
   private async handleSongFinished(): Promise<void> {
-    if (this.currentState.isRepeating) {
-      // Repeat current song
-      await this.goToSong(this.currentState.currentSongIndex);
-    } else {
-      // Go to next song
-      await this.next();
+    if (this.isChangingSong) return;
+
+    if (this.currentState.isRepeatingSong && this.currentState.currentSong) {
+      // Repeat current song; its stems are still loaded
+      await this.engine.seek(this.sectionRanges[0]?.start || 0);
+      await this.engine.play();
+      return;
+    }
+
+    const song = this.playQueue.next(this.currentState.isRepeating);
+    if (!song) {
+      // End of playlist
+      this.currentState.isPlaying = false;
+      this.notifyStateChange();
+      this.callbacks.onPlaylistEnd?.();
+      return;
+    }
+
+    const transition = getPlaylistTransition(this.currentState.currentPlaylist);
+    try {
+      await this.switchToSong(song, false);
+
+      if (transition.pauseBetweenSongs) {
+        this.currentState.isPlaying = false;
+        this.notifyStateChange();
+        this.preloadNextSong();
+      } else if (transition.gapSeconds > 0) {
+        // Still playing as far as the controls go; pausing cancels the gap
+        this.gapTimer = setTimeout(() => {
+          this.gapTimer = null;
+          this.play();
+        }, transition.gapSeconds * 1000);
+      } else {
+        await this.play();
+      }
+
+    } catch (error) {
+      console.error('Error going to next song:', error);
+      this.callbacks.onError?.('Failed to change song');
     }
   }
 
@@ -1,10 +1,39 @@
-import { ref, set, get, push, remove, query, orderByChild, equalTo, onValue, off } from 'firebase/database';
+import { ref, set, get, push, update, query, orderByChild, equalTo, limitToLast, onValue, off, runTransaction } from 'firebase/database';
 import { database } from '../config/firebase';
-import { Playlist, PlaylistItem, CreatePlaylistForm, UpdatePlaylistForm, AddSongToPlaylistForm, ReorderPlaylistForm } from '../types/playlist';
+import {
+  Playlist,
+  PlaylistItem,
+  PlaylistItemOverrides,
+  PlaylistActivity,
+  PlaylistRole,
+  PlaylistTransition,
+  Setlist,
+  SetlistEvent,
+  SmartPlaylistRules,
+  CreatePlaylistForm,
+  UpdatePlaylistForm,
+  AddSongToPlaylistForm,
+  ReorderPlaylistForm
+} from '../types/playlist';
 import { Song } from '../types/song';
-
+import { FilterState } from '../types/user';
+import { EMPTY_FILTERS } from '../utils/smartPlaylist';
+
+export type CollaboratorType = 'user' | 'group';
+
+/**
+ * Playlists and setlists under playlists/{id}. Besides the owner, a playlist can
+ * be shared with users and groups as editors or viewers; shares are indexed under
+ * sharedPlaylists/{uid} and groupPlaylists/{groupId}. Songs are kept under
+ * playlists/{id}/songs/{songId}; each edit is one multi-path update of only the
+ * songs it adds, removes or moves, so editors working at the same time don't
+ * overwrite each other's songs, and every change is logged under playlistActivity/{id}.
+ */
 class PlaylistService {
   private static instance: PlaylistService;
+  private currentUserId: string | null = null;
+  private currentUserName = '';
+  private currentGroupIds: string[] = [];
 
   private constructor() {}
 
@@ -15,6 +44,15 @@ class PlaylistService {
     return PlaylistService.instance;
   }
 
+  /**
+   * Set who is making changes, for the activity log and for editing through a group
+   */
+  public setCurrentUser(userId: string | null, userName: string = '', groupIds: string[] = []) {
+    this.currentUserId = userId;
+    this.currentUserName = userName;
+    this.currentGroupIds = groupIds;
+  }
+
   /**
    * Create a new playlist
    */
@@ -34,9 +72,16 @@ class PlaylistService {
         isPublic: playlistData.isPublic || false,
         playCount: 0
       };
+      if (playlistData.event) {
+        playlist.event = playlistData.event;
+      }
+      if (playlistData.smart) {
+        playlist.smart = playlistData.smart;
+      }
 
       const playlistRef = ref(database, `playlists/${playlistId}`);
       await set(playlistRef, this.cleanPlaylistDataForFirebase(playlist));
+      await this.logActivity(playlistId, { action: 'created' });
 
       return playlist;
     } catch (error) {
@@ -71,6 +116,51 @@ class PlaylistService {
     }
   }
 
+  /**
+   * Get the playlists other people shared with the user or their groups
+   */
+  public async getSharedPlaylists(userId: string, groupIds: string[]): Promise<Playlist[]> {
+    try {
+      const indexPaths = [
+        `sharedPlaylists/${userId}`,
+        ...groupIds.map(groupId => `groupPlaylists/${groupId}`)
+      ];
+      const snapshots = await Promise.all(indexPaths.map(path => get(ref(database, path))));
+      const playlistIds = new Set<string>();
+      snapshots.forEach(snapshot => Object.keys(snapshot.val() || {}).forEach(id => playlistIds.add(id)));
+
+      const playlists = await Promise.all(Array.from(playlistIds).map(id => this.getPlaylist(id).catch(() => null)));
+      return playlists
+        .filter((playlist): playlist is Playlist => !!playlist && playlist.userId !== userId)
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    } catch (error) {
+      console.error('Error fetching shared playlists:', error);
+      throw new Error('Failed to fetch shared playlists');
+    }
+  }
+
+  /**
+   * Get the setlists planned for the user's groups, soonest first
+   */
+  public async getGroupSetlists(groupIds: string[]): Promise<Setlist[]> {
+    try {
+      const playlistsRef = ref(database, 'playlists');
+      const results = await Promise.all(groupIds.map(async (groupId) => {
+        const snapshot = await get(query(playlistsRef, orderByChild('event/groupId'), equalTo(groupId)));
+        const setlists: Setlist[] = [];
+        snapshot.forEach((childSnapshot) => {
+          setlists.push(this.parsePlaylistFromFirebase(childSnapshot.val()) as Setlist);
+        });
+        return setlists;
+      }));
+
+      return results.flat().sort((a, b) => a.event.date.localeCompare(b.event.date));
+    } catch (error) {
+      console.error('Error fetching group setlists:', error);
+      throw new Error('Failed to fetch setlists');
+    }
+  }
+
   /**
    * Get a specific playlist by ID
    */
@@ -95,13 +185,16 @@ class PlaylistService {
    */
   public async updatePlaylist(playlistId: string, updateData: UpdatePlaylistForm): Promise<void> {
     try {
-      const playlistRef = ref(database, `playlists/${playlistId}`);
-      const updates: any = {
-        ...updateData,
+      await this.getPlaylistForEdit(playlistId);
+      const updates: { [key: string]: any } = {
         updatedAt: new Date().toISOString()
       };
+      Object.entries(updateData).forEach(([key, value]) => {
+        if (value !== undefined) updates[key] = value;
+      });
 
-      await set(playlistRef, { ...updates }, { merge: true });
+      await update(ref(database, `playlists/${playlistId}`), updates);
+      await this.logActivity(playlistId, { action: 'edited', detail: 'details' });
     } catch (error) {
       console.error('Error updating playlist:', error);
       throw new Error('Failed to update playlist');
@@ -109,12 +202,110 @@ class PlaylistService {
   }
 
   /**
-   * Delete a playlist
+   * Plan a playlist for an event, or turn a setlist back into a plain playlist with null
+   */
+  public async updateSetlistEvent(playlistId: string, event: SetlistEvent | null): Promise<void> {
+    try {
+      await this.getPlaylistForEdit(playlistId);
+      await update(ref(database, `playlists/${playlistId}`), {
+        event: event ? this.cleanEventForFirebase(event) : null,
+        updatedAt: new Date().toISOString()
+      });
+      await this.logActivity(playlistId, { action: 'edited', detail: event ? 'event details' : 'removed the event' });
+    } catch (error) {
+      console.error('Error updating setlist event:', error);
+      throw new Error('Failed to update setlist event');
+    }
+  }
+
+  /**
+   * Change which songs a smart playlist holds
+   */
+  public async updateSmartRules(playlistId: string, rules: SmartPlaylistRules): Promise<void> {
+    try {
+      await this.getPlaylistForEdit(playlistId);
+      await update(ref(database, `playlists/${playlistId}`), {
+        smart: this.cleanSmartRulesForFirebase(rules),
+        updatedAt: new Date().toISOString()
+      });
+      await this.logActivity(playlistId, { action: 'edited', detail: 'smart playlist rules' });
+    } catch (error) {
+      console.error('Error updating smart playlist rules:', error);
+      throw new Error('Failed to update smart playlist');
+    }
+  }
+
+  /**
+   * Change how the playlist moves from one song to the next
+   */
+  public async updateTransition(playlistId: string, transition: PlaylistTransition): Promise<void> {
+    try {
+      await this.getPlaylistForEdit(playlistId);
+      await update(ref(database, `playlists/${playlistId}`), {
+        transition: {
+          gapSeconds: Math.max(0, transition.gapSeconds),
+          crossfadeSeconds: Math.max(0, transition.crossfadeSeconds),
+          pauseBetweenSongs: transition.pauseBetweenSongs
+        },
+        updatedAt: new Date().toISOString()
+      });
+      await this.logActivity(playlistId, { action: 'edited', detail: 'song transitions' });
+    } catch (error) {
+      console.error('Error updating playlist transition:', error);
+      throw new Error('Failed to update transitions');
+    }
+  }
+
+  /**
+   * Set how a song is played in a setlist (key, tempo, sections, leader)
+   */
+  public async updatePlaylistItemOverrides(playlistId: string, songId: string, overrides: PlaylistItemOverrides): Promise<void> {
+    try {
+      await this.getPlaylistForEdit(playlistId);
+      await this.getSongItems(playlistId);
+
+      const result = await runTransaction(this.getSongItemRef(playlistId, songId), (current) => {
+        if (current === null) return current;
+
+        const cleaned = this.cleanOverridesForFirebase(overrides);
+        if (cleaned) {
+          current.overrides = cleaned;
+        } else {
+          delete current.overrides;
+        }
+        return current;
+      });
+
+      const edited = result.snapshot.val();
+      if (!edited) {
+        throw new Error('Song not found in playlist');
+      }
+      await this.touchPlaylist(playlistId);
+      await this.logActivity(playlistId, { action: 'edited', songId, songTitle: edited.songTitle, detail: 'setlist details' });
+    } catch (error) {
+      console.error('Error updating playlist item overrides:', error);
+      throw new Error('Failed to update song overrides');
+    }
+  }
+
+  /**
+   * Delete a playlist along with its shares. The activity log can only be
+   * appended to, so it is kept.
    */
   public async deletePlaylist(playlistId: string): Promise<void> {
     try {
-      const playlistRef = ref(database, `playlists/${playlistId}`);
-      await remove(playlistRef);
+      const playlist = await this.getPlaylist(playlistId);
+      const updates: { [path: string]: null } = {
+        [`playlists/${playlistId}`]: null
+      };
+      Object.keys(playlist?.collaborators?.users || {}).forEach(userId => {
+        updates[`sharedPlaylists/${userId}/${playlistId}`] = null;
+      });
+      Object.keys(playlist?.collaborators?.groups || {}).forEach(groupId => {
+        updates[`groupPlaylists/${groupId}/${playlistId}`] = null;
+      });
+
+      await update(ref(database), updates);
     } catch (error) {
       console.error('Error deleting playlist:', error);
       throw new Error('Failed to delete playlist');
@@ -131,45 +322,39 @@ class PlaylistService {
         throw new Error('Invalid song data provided');
       }
 
-      const playlist = await this.getPlaylist(playlistId);
-      if (!playlist) {
-        throw new Error('Playlist not found');
-      }
-
-      // Check if song is already in playlist
-      const existingSong = playlist.songs.find(item => item.songId === songData.songId);
-      if (existingSong) {
-        throw new Error('Song is already in this playlist');
-      }
+      await this.getPlaylistForEdit(playlistId);
 
       const newPlaylistItem: any = {
         id: this.generateId(),
         songId: songData.songId,
         songTitle: song.title,
         songArtist: song.artist,
-        position: songData.position !== undefined ? songData.position : playlist.songs.length,
-        addedAt: new Date()
+        addedAt: new Date().toISOString()
       };
+      if (this.currentUserId) {
+        newPlaylistItem.addedBy = this.currentUserId;
+      }
 
       // Only include notes if it has a value
       if (songData.notes && songData.notes.trim()) {
         newPlaylistItem.notes = songData.notes;
       }
 
-      // If position is specified, adjust other songs' positions
-      if (songData.position !== undefined) {
-        playlist.songs.forEach(item => {
-          if (item.position >= songData.position!) {
-            item.position += 1;
-          }
-        });
+      const items = this.toSortedItems(await this.getSongItems(playlistId));
+      if (items.some(item => item.songId === songData.songId)) {
+        throw new Error('Song is already in this playlist');
       }
-
-      playlist.songs.push(newPlaylistItem);
-      playlist.updatedAt = new Date();
-
-      const playlistRef = ref(database, `playlists/${playlistId}`);
-      await set(playlistRef, this.cleanPlaylistDataForFirebase(playlist));
+      const position = songData.position !== undefined ? Math.min(songData.position, items.length) : items.length;
+      newPlaylistItem.position = position;
+      items.splice(position, 0, newPlaylistItem);
+
+      // Keyed by song id, so a song added twice at the same time is only added once;
+      // the new song and the songs it shifts are written in one update
+      const updates = this.getPositionUpdates(items);
+      updates[songData.songId] = newPlaylistItem;
+      await update(this.getSongsRef(playlistId), updates);
+      await this.touchPlaylist(playlistId);
+      await this.logActivity(playlistId, { action: 'added', songId: song.id, songTitle: song.title, toPosition: position });
     } catch (error) {
       console.error('Error adding song to playlist:', error);
       throw new Error('Failed to add song to playlist');
@@ -181,31 +366,21 @@ class PlaylistService {
    */
   public async removeSongFromPlaylist(playlistId: string, songId: string): Promise<void> {
     try {
-      const playlist = await this.getPlaylist(playlistId);
-      if (!playlist) {
-        throw new Error('Playlist not found');
-      }
+      await this.getPlaylistForEdit(playlistId);
 
-      const songIndex = playlist.songs.findIndex(item => item.songId === songId);
-      
-      if (songIndex === -1) {
+      const items = this.toSortedItems(await this.getSongItems(playlistId));
+      const fromPosition = items.findIndex(item => item.songId === songId);
+      const removed = items[fromPosition];
+      if (!removed) {
         throw new Error('Song not found in playlist');
       }
 
-      const removedPosition = playlist.songs[songIndex].position;
-      playlist.songs.splice(songIndex, 1);
-
-      // Adjust positions of remaining songs
-      playlist.songs.forEach(item => {
-        if (item.position > removedPosition) {
-          item.position -= 1;
-        }
-      });
-
-      playlist.updatedAt = new Date();
-
-      const playlistRef = ref(database, `playlists/${playlistId}`);
-      await set(playlistRef, this.cleanPlaylistDataForFirebase(playlist));
+      // The song is removed together with the positions of the songs after it
+      items.splice(fromPosition, 1);
+      const updates: { [path: string]: number | null } = { ...this.getPositionUpdates(items), [songId]: null };
+      await update(this.getSongsRef(playlistId), updates);
+      await this.touchPlaylist(playlistId);
+      await this.logActivity(playlistId, { action: 'removed', songId, songTitle: removed.songTitle, fromPosition });
     } catch (error) {
       console.error('Error removing song from playlist:', error);
       throw error;
@@ -217,47 +392,32 @@ class PlaylistService {
    */
   public async reorderPlaylist(playlistId: string, reorderData: ReorderPlaylistForm): Promise<void> {
     try {
-      const playlist = await this.getPlaylist(playlistId);
-      if (!playlist) {
-        throw new Error('Playlist not found');
-      }
+      await this.getPlaylistForEdit(playlistId);
 
-      const songIndex = playlist.songs.findIndex(item => item.songId === reorderData.songId);
-      if (songIndex === -1) {
+      const items = this.toSortedItems(await this.getSongItems(playlistId));
+      const oldPosition = items.findIndex(item => item.songId === reorderData.songId);
+      const moved = items[oldPosition];
+      if (!moved) {
         throw new Error('Song not found in playlist');
       }
 
-      const oldPosition = playlist.songs[songIndex].position;
-      const newPosition = reorderData.newPosition;
-
+      const newPosition = Math.max(0, Math.min(reorderData.newPosition, items.length - 1));
       if (oldPosition === newPosition) {
         return; // No change needed
       }
 
-      // Update the moved song's position
-      playlist.songs[songIndex].position = newPosition;
-
-      // Adjust other songs' positions
-      playlist.songs.forEach((item, index) => {
-        if (index !== songIndex) {
-          if (oldPosition < newPosition) {
-            // Moving down: shift songs between old and new position up
-            if (item.position > oldPosition && item.position <= newPosition) {
-              item.position -= 1;
-            }
-          } else {
-            // Moving up: shift songs between new and old position down
-            if (item.position >= newPosition && item.position < oldPosition) {
-              item.position += 1;
-            }
-          }
-        }
+      // Only the songs between the old and new position move
+      items.splice(oldPosition, 1);
+      items.splice(newPosition, 0, moved);
+      await update(this.getSongsRef(playlistId), this.getPositionUpdates(items));
+      await this.touchPlaylist(playlistId);
+      await this.logActivity(playlistId, {
+        action: 'reordered',
+        songId: reorderData.songId,
+        songTitle: moved.songTitle,
+        fromPosition: oldPosition,
+        toPosition: newPosition
       });
-
-      playlist.updatedAt = new Date();
-
-      const playlistRef = ref(database, `playlists/${playlistId}`);
-      await set(playlistRef, this.cleanPlaylistDataForFirebase(playlist));
     } catch (error) {
       console.error('Error reordering playlist:', error);
       throw new Error('Failed to reorder playlist');
@@ -269,20 +429,92 @@ class PlaylistService {
    */
   public async updatePlaylistStats(playlistId: string): Promise<void> {
     try {
-      const playlistRef = ref(database, `playlists/${playlistId}`);
-      const updates = {
-        playCount: 1, // This will be incremented by Firebase
+      await runTransaction(ref(database, `playlists/${playlistId}/playCount`), (count) => (count || 0) + 1);
+      await update(ref(database, `playlists/${playlistId}`), {
         lastPlayedAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
-      };
-
-      await set(playlistRef, updates, { merge: true });
+      });
     } catch (error) {
       console.error('Error updating playlist stats:', error);
       throw new Error('Failed to update playlist stats');
     }
   }
 
+  /**
+   * Share a playlist with a user or a group, or change their role
+   */
+  public async addCollaborator(
+    playlistId: string,
+    type: CollaboratorType,
+    collaboratorId: string,
+    name: string,
+    role: PlaylistRole
+  ): Promise<void> {
+    try {
+      await update(ref(database), {
+        [`playlists/${playlistId}/collaborators/${type}s/${collaboratorId}`]: { role, name },
+        [`${this.getShareIndexPath(type, collaboratorId)}/${playlistId}`]: true
+      });
+      await this.logActivity(playlistId, { action: 'shared', detail: `${name} (${role})` });
+    } catch (error) {
+      console.error('Error adding playlist collaborator:', error);
+      throw new Error('Failed to share playlist');
+    }
+  }
+
+  /**
+   * Stop sharing a playlist with a user or a group
+   */
+  public async removeCollaborator(playlistId: string, type: CollaboratorType, collaboratorId: string, name: string): Promise<void> {
+    try {
+      await update(ref(database), {
+        [`playlists/${playlistId}/collaborators/${type}s/${collaboratorId}`]: null,
+        [`${this.getShareIndexPath(type, collaboratorId)}/${playlistId}`]: null
+      });
+      await this.logActivity(playlistId, { action: 'unshared', detail: name });
+    } catch (error) {
+      console.error('Error removing playlist collaborator:', error);
+      throw new Error('Failed to stop sharing playlist');
+    }
+  }
+
+  /**
+   * Look up a user to share a playlist with
+   */
+  public async findUserByEmail(email: string): Promise<{ id: string; displayName: string } | null> {
+    try {
+      const snapshot = await get(query(ref(database, 'users'), orderByChild('email'), equalTo(email.trim())));
+      let found: { id: string; displayName: string } | null = null;
+      snapshot.forEach((childSnapshot) => {
+        const data = childSnapshot.val();
+        found = { id: childSnapshot.key as string, displayName: data.displayName || data.email || '' };
+        return true;
+      });
+      return found;
+    } catch (error) {
+      console.error('Error finding user:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the latest changes to a playlist, newest first
+   */
+  public async getActivity(playlistId: string, limit: number = 50): Promise<PlaylistActivity[]> {
+    try {
+      const activityQuery = query(ref(database, `playlistActivity/${playlistId}`), orderByChild('createdAt'), limitToLast(limit));
+      const snapshot = await get(activityQuery);
+      const activity: PlaylistActivity[] = [];
+      snapshot.forEach((childSnapshot) => {
+        activity.push(childSnapshot.val());
+      });
+      return activity.reverse();
+    } catch (error) {
+      console.error('Error fetching playlist activity:', error);
+      return [];
+    }
+  }
+
   /**
    * Listen to playlist changes in real-time
    */
@@ -332,7 +564,7 @@ class PlaylistService {
 
       // Get full song data for each playlist item
       const songs: Song[] = [];
-      for (const item of playlist.songs || []) {
+      for (const item of [...(playlist.songs || [])].sort((a, b) => a.position - b.position)) {
         try {
           const songRef = ref(database, `songs/${item.songId}`);
           const songSnapshot = await get(songRef);
@@ -357,6 +589,107 @@ class PlaylistService {
   }
 
   // Helper methods
+  private getSongsRef(playlistId: string) {
+    return ref(database, `playlists/${playlistId}/songs`);
+  }
+
+  private getShareIndexPath(type: CollaboratorType, collaboratorId: string): string {
+    return type === 'user' ? `sharedPlaylists/${collaboratorId}` : `groupPlaylists/${collaboratorId}`;
+  }
+
+  private getSongItemRef(playlistId: string, songId: string) {
+    return ref(database, `playlists/${playlistId}/songs/${songId}`);
+  }
+
+  // The database rules can't look through a user's groups, so someone who edits
+  // through a group first records which of their editor groups they are using
+  private async getPlaylistForEdit(playlistId: string): Promise<Playlist> {
+    const playlist = await this.getPlaylist(playlistId);
+    if (!playlist) {
+      throw new Error('Playlist not found');
+    }
+
+    const userId = this.currentUserId;
+    if (!userId || playlist.userId === userId || playlist.collaborators?.users?.[userId]) {
+      return playlist;
+    }
+    const groupId = this.currentGroupIds.find(id => playlist.collaborators?.groups?.[id]?.role === 'editor');
+    if (groupId && playlist.editorGroups?.[userId] !== groupId) {
+      await set(ref(database, `playlists/${playlistId}/editorGroups/${userId}`), groupId);
+    }
+    return playlist;
+  }
+
+  // Songs used to be stored as an array; the first edit moves them under their song ids
+  private async getSongItems(playlistId: string): Promise<{ [songId: string]: any }> {
+    const snapshot = await get(this.getSongsRef(playlistId));
+    if (!this.isLegacySongList(snapshot.val())) {
+      return snapshot.val() || {};
+    }
+
+    const result = await runTransaction(this.getSongsRef(playlistId), (current) =>
+      this.isLegacySongList(current) ? this.toKeyedItems(this.toItemArray(current)) : current
+    );
+    return result.snapshot.val() || {};
+  }
+
+  private isLegacySongList(current: any): boolean {
+    if (!current) return false;
+    return Array.isArray(current) || Object.entries(current).some(([key, item]: [string, any]) => item?.songId !== key);
+  }
+
+  // Songs come back keyed by song id, or as an array from before they were keyed;
+  // a position written for a song removed at the same moment leaves an entry without a song
+  private toItemArray(current: any): any[] {
+    if (!current) return [];
+    return (Array.isArray(current) ? current : Object.values(current)).filter(item => item?.songId);
+  }
+
+  private toSortedItems(current: any): any[] {
+    return this.toItemArray(current).sort((a, b) => a.position - b.position);
+  }
+
+  // Positions are renumbered from the order, which also repairs any gaps;
+  // only the songs whose position changes are written
+  private getPositionUpdates(items: any[]): { [path: string]: any } {
+    const updates: { [path: string]: any } = {};
+    items.forEach((item, index) => {
+      if (item.position !== index) {
+        updates[`${item.songId}/position`] = index;
+      }
+    });
+    return updates;
+  }
+
+  private toKeyedItems<T extends { songId: string }>(items: T[]): { [songId: string]: T } {
+    return items.reduce((keyed, item) => ({ ...keyed, [item.songId]: item }), {} as { [songId: string]: T });
+  }
+
+  private async touchPlaylist(playlistId: string): Promise<void> {
+    await set(ref(database, `playlists/${playlistId}/updatedAt`), new Date().toISOString());
+  }
+
+  // The log is best effort: a failed entry never fails the change itself
+  private async logActivity(playlistId: string, entry: Omit<PlaylistActivity, 'id' | 'userId' | 'userName' | 'createdAt'>): Promise<void> {
+    try {
+      const activityRef = push(ref(database, `playlistActivity/${playlistId}`));
+      const activity: PlaylistActivity = {
+        id: activityRef.key as string,
+        userId: this.currentUserId || '',
+        userName: this.currentUserName,
+        createdAt: Date.now(),
+        ...entry
+      };
+      // Firebase rejects undefined values, e.g. a song title that was never set
+      const cleaned = Object.fromEntries(
+        Object.entries(activity).filter(([, value]) => value !== undefined)
+      ) as PlaylistActivity;
+      await set(activityRef, cleaned);
+    } catch (error) {
+      console.error('Error logging playlist activity:', error);
+    }
+  }
+
   private generateId(): string {
     return Date.now().toString(36) + Math.random().toString(36).substr(2);
   }
@@ -366,7 +699,7 @@ class PlaylistService {
       ...playlist,
       createdAt: playlist.createdAt.toISOString(),
       updatedAt: playlist.updatedAt.toISOString(),
-      songs: playlist.songs ? playlist.songs.map(item => {
+      songs: this.toKeyedItems((playlist.songs || []).map(item => {
         const cleanedItem: any = {
           ...item,
           addedAt: item.addedAt.toISOString()
@@ -376,9 +709,16 @@ class PlaylistService {
         if (item.notes && item.notes.trim()) {
           cleanedItem.notes = item.notes;
         }
+
+        const overrides = item.overrides ? this.cleanOverridesForFirebase(item.overrides) : null;
+        if (overrides) {
+          cleanedItem.overrides = overrides;
+        } else {
+          delete cleanedItem.overrides;
+        }
         
         return cleanedItem;
-      }) : []
+      }))
     };
 
     // Only include lastPlayedAt if it exists
@@ -386,18 +726,87 @@ class PlaylistService {
       cleanedData.lastPlayedAt = playlist.lastPlayedAt.toISOString();
     }
 
+    if (playlist.event) {
+      cleanedData.event = this.cleanEventForFirebase(playlist.event);
+    } else {
+      delete cleanedData.event;
+    }
+
+    if (playlist.smart) {
+      cleanedData.smart = this.cleanSmartRulesForFirebase(playlist.smart);
+    } else {
+      delete cleanedData.smart;
+    }
+
     return cleanedData;
   }
 
+  // Firebase rejects undefined values, so optional fields are left out when empty
+  private cleanEventForFirebase(event: SetlistEvent): SetlistEvent {
+    const cleaned: SetlistEvent = { date: event.date };
+    if (event.time?.trim()) cleaned.time = event.time.trim();
+    if (event.venue?.trim()) cleaned.venue = event.venue.trim();
+    if (event.groupId) {
+      cleaned.groupId = event.groupId;
+      if (event.groupName) cleaned.groupName = event.groupName;
+    }
+    return cleaned;
+  }
+
+  private cleanOverridesForFirebase(overrides: PlaylistItemOverrides): PlaylistItemOverrides | null {
+    const cleaned: PlaylistItemOverrides = {};
+    if (overrides.key?.trim()) cleaned.key = overrides.key.trim();
+    if (overrides.bpm && overrides.bpm > 0) cleaned.bpm = overrides.bpm;
+    if (overrides.sectionIds?.length) cleaned.sectionIds = overrides.sectionIds;
+    if (overrides.leader?.trim()) cleaned.leader = overrides.leader.trim();
+    return Object.keys(cleaned).length > 0 ? cleaned : null;
+  }
+
+  private cleanSmartRulesForFirebase(rules: SmartPlaylistRules): SmartPlaylistRules {
+    const filters = rules.filters;
+    const cleaned: SmartPlaylistRules = {
+      filters: {
+        searchQuery: filters.searchQuery?.trim() || '',
+        selectedArtists: filters.selectedArtists || [],
+        selectedAlbums: filters.selectedAlbums || [],
+        showFavoritesOnly: !!filters.showFavoritesOnly,
+        hasTracks: !!filters.hasTracks,
+        hasLyrics: !!filters.hasLyrics,
+        hasScores: !!filters.hasScores,
+        hasLinks: !!filters.hasLinks,
+        voiceParts: filters.voiceParts || [],
+        sortOrder: filters.sortOrder || 'asc'
+      }
+    };
+    if (rules.addedWithinDays && rules.addedWithinDays > 0) cleaned.addedWithinDays = rules.addedWithinDays;
+    if (rules.playStatus) cleaned.playStatus = rules.playStatus;
+    if (rules.tags?.length) cleaned.tags = rules.tags;
+    if (rules.limit && rules.limit > 0) cleaned.limit = rules.limit;
+    return cleaned;
+  }
+
+  // Firebase drops empty lists, so they are filled back in
+  private parseSmartRulesFromFirebase(data: any): SmartPlaylistRules {
+    const filters: FilterState = {
+      ...EMPTY_FILTERS,
+      ...data.filters,
+      selectedArtists: data.filters?.selectedArtists || [],
+      selectedAlbums: data.filters?.selectedAlbums || [],
+      voiceParts: data.filters?.voiceParts || []
+    };
+    return { ...data, filters };
+  }
+
   private parsePlaylistFromFirebase(data: any): Playlist {
     const playlist: any = {
       ...data,
       createdAt: new Date(data.createdAt),
       updatedAt: new Date(data.updatedAt),
-      songs: data.songs ? data.songs.map((item: any) => ({
+      // Keyed songs come back in song id order, so they are put back in playlist order
+      songs: this.toItemArray(data.songs).sort((a, b) => a.position - b.position).map((item: any) => ({
         ...item,
         addedAt: new Date(item.addedAt)
-      })) : []
+      }))
     };
 
     // Only include lastPlayedAt if it exists in the data
@@ -405,6 +814,10 @@ class PlaylistService {
       playlist.lastPlayedAt = new Date(data.lastPlayedAt);
     }
 
+    if (data.smart) {
+      playlist.smart = this.parseSmartRulesFromFirebase(data.smart);
+    }
+
     return playlist;
   }
 }
@@ -0,0 +1,516 @@
+import { Database, ref, set, get, update, remove, onValue, onDisconnect, serverTimestamp } from 'firebase/database';
+import { database as defaultDatabase } from '../config/firebase';
+import { SongTrackStates, SongBusStates, TrackEQ } from './trackStateService';
+import { TrackBus } from '../types/song';
+import { getBusGain } from '../utils/trackBuses';
+
+/**
+ * Shared state of a session, written by the leader.
+ * While playing, `seekPosition` is the song position at server time `startAt`;
+ * followers extrapolate from that anchor instead of trusting message arrival time.
+ */
+export interface SessionState {
+  isPlaying: boolean;
+  seekPosition: number; // Seconds
+  startAt: number | null; // Server time (ms) at which seekPosition plays
+  activeTracks: string[];
+  soloedTracks: string[];
+  trackVolumes: { [trackId: string]: number };
+  trackPans: { [trackId: string]: number };
+  trackEqs: { [trackId: string]: TrackEQ };
+  busStates: SongBusStates;
+  playbackSpeed: number;
+  pitchShift: number; // Key shift of the mix in semitones
+  updatedBy?: string; // Device id of the last writer
+}
+
+export interface SessionMix {
+  activeTracks: string[];
+  soloedTracks: string[];
+  trackVolumes: { [trackId: string]: number };
+  trackPans: { [trackId: string]: number };
+  trackEqs: { [trackId: string]: TrackEQ };
+  busStates: SongBusStates;
+}
+
+/**
+ * One clock probe: local send time, server timestamp and local receive time (ms)
+ */
+export interface ClockSample {
+  sentAt: number;
+  serverTime: number;
+  receivedAt: number;
+}
+
+export interface ClockEstimate {
+  offset: number; // serverTime - localTime in ms
+  roundTrip: number; // ms
+}
+
+export type FollowMode = 'transport' | 'transport_and_mix';
+
+/**
+ * Presence entry of one device in a session roster
+ */
+export interface SessionMember {
+  deviceId: string;
+  userId: string | null;
+  displayName: string;
+  deviceName: string;
+  followMode: FollowMode;
+  latency: number | null; // Round trip to the server in ms
+  lastSeen: number; // Server time of the last heartbeat
+  joinedAt: number;
+}
+
+/**
+ * Mix the leader offers to participants, who can take it over as their own
+ */
+export interface SuggestedMix {
+  id: string;
+  songId: string;
+  trackStates: SongTrackStates;
+  suggestedBy: string; // Display name of the leader
+  createdAt: number;
+}
+
+/**
+ * Summary of a session for the sessions list
+ */
+export interface SessionSummary {
+  id: string;
+  admin: string;
+  leaderName: string | null;
+  memberCount: number;
+  createdAt: number;
+  lastSeen: number; // Latest leader heartbeat, or creation time for sessions without a roster
+}
+
+export interface SessionSyncOptions {
+  database?: Database;
+  now?: () => number; // Local clock, replaceable to simulate skewed devices
+}
+
+export const DEFAULT_SESSION_STATE: SessionState = {
+  isPlaying: false,
+  seekPosition: 0,
+  startAt: null,
+  activeTracks: [],
+  soloedTracks: [],
+  trackVolumes: {},
+  trackPans: {},
+  trackEqs: {},
+  busStates: {},
+  playbackSpeed: 1.0,
+  pitchShift: 0
+};
+
+// Delay between the leader pressing play and every device starting together
+export const START_LEAD_MS = 400;
+
+// How far a device may wander from the session position before it re-seeks
+export const SESSION_DRIFT_TOLERANCE_MS = 80;
+
+export const DRIFT_CHECK_INTERVAL_MS = 2000;
+
+export const HEARTBEAT_INTERVAL_MS = 10000;
+
+// A session whose leader has not sent a heartbeat for this long is considered gone
+export const SESSION_EXPIRY_MS = 60000;
+
+const CLOCK_SAMPLE_COUNT = 5;
+const CLOCK_RESYNC_INTERVAL_MS = 30000;
+
+/**
+ * NTP-style offset estimate from a set of probes.
+ * The sample with the shortest round trip is the least affected by queuing,
+ * and the server time is assumed to fall halfway through it.
+ *
+ * @returns The estimate, or null when there are no samples
+ */
+export function estimateClockOffset(samples: ClockSample[]): ClockEstimate | null {
+  if (samples.length === 0) return null;
+
+  const best = samples.reduce((fastest, sample) =>
+    sample.receivedAt - sample.sentAt < fastest.receivedAt - fastest.sentAt ? sample : fastest
+  );
+  return {
+    offset: best.serverTime - (best.sentAt + best.receivedAt) / 2,
+    roundTrip: best.receivedAt - best.sentAt
+  };
+}
+
+/**
+ * Song position (seconds) a session state implies at a given server time
+ */
+export function getSessionPosition(state: SessionState, serverTime: number): number {
+  if (!state.isPlaying || state.startAt === null) return state.seekPosition;
+  return state.seekPosition + Math.max(0, serverTime - state.startAt) / 1000 * state.playbackSpeed;
+}
+
+/**
+ * Volume a track should play at under solo/mute rules, including its bus
+ */
+export function getMixVolume(mix: SessionMix, trackId: string, buses?: TrackBus[]): number {
+  const audible = mix.soloedTracks.length > 0
+    ? mix.soloedTracks.includes(trackId)
+    : mix.activeTracks.includes(trackId);
+  return audible ? (mix.trackVolumes[trackId] ?? 1) * getBusGain(buses, mix.busStates, trackId) : 0;
+}
+
+/**
+ * Fills in fields Firebase drops (empty arrays and objects) or older clients never wrote
+ */
+export function parseSessionState(data: any): SessionState {
+  return {
+    isPlaying: data?.isPlaying || false,
+    seekPosition: data?.seekPosition || 0,
+    startAt: typeof data?.startAt === 'number' ? data.startAt : null,
+    activeTracks: data?.activeTracks || [],
+    soloedTracks: data?.soloedTracks || [],
+    trackVolumes: data?.trackVolumes || {},
+    trackPans: data?.trackPans || {},
+    trackEqs: data?.trackEqs || {},
+    busStates: data?.busStates || {},
+    playbackSpeed: data?.playbackSpeed || 1.0,
+    pitchShift: data?.pitchShift || 0,
+    updatedBy: data?.updatedBy
+  };
+}
+
+/**
+ * Summarize a raw session node from the database
+ */
+export function parseSessionSummary(id: string, data: any): SessionSummary {
+  const members: { [deviceId: string]: SessionMember } = data?.members || {};
+  const leader = members[data?.admin];
+  return {
+    id,
+    admin: data?.admin || '',
+    leaderName: leader?.displayName || null,
+    memberCount: Object.keys(members).length,
+    createdAt: data?.createdAt || 0,
+    lastSeen: leader?.lastSeen || data?.createdAt || 0
+  };
+}
+
+/**
+ * Whether a session's leader has stopped sending heartbeats.
+ * Sessions normally disappear on their own when the leader disconnects;
+ * this hides ones left behind by crashed clients.
+ *
+ * @param serverTime - Current server time, as `lastSeen` is stamped by the server
+ */
+export function isSessionExpired(session: SessionSummary, serverTime: number): boolean {
+  return serverTime - session.lastSeen > SESSION_EXPIRY_MS;
+}
+
+/**
+ * Listen to the offset between this device's clock and the server's, as the
+ * connection reports it. Coarser than a SessionSyncClient estimate, but available
+ * without joining a session.
+ */
+export function subscribeServerTimeOffset(
+  callback: (offset: number) => void,
+  database: Database = defaultDatabase
+): () => void {
+  return onValue(ref(database, '.info/serverTimeOffset'), snapshot => {
+    callback(snapshot.val() || 0);
+  });
+}
+
+/**
+ * Connection of one device to one shared session.
+ * Unlike the app-wide services this is created per session and device,
+ * so several devices can be simulated side by side against the database emulator.
+ */
+export class SessionSyncClient {
+  private database: Database;
+  private now: () => number;
+  private estimate: ClockEstimate | null = null;
+  private resyncTimer: ReturnType<typeof setInterval> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private isLeader = false;
+  private disposed = false;
+  private outputLatencyMs = 0;
+
+  constructor(
+    private sessionId: string,
+    private deviceId: string,
+    options: SessionSyncOptions = {}
+  ) {
+    this.database = options.database || defaultDatabase;
+    this.now = options.now || Date.now;
+  }
+
+  /**
+   * Probe the server clock a few times and keep the best estimate
+   */
+  public async measureClockOffset(sampleCount: number = CLOCK_SAMPLE_COUNT): Promise<ClockEstimate | null> {
+    const probeRef = this.getProbeRef();
+    const samples: ClockSample[] = [];
+
+    for (let i = 0; i < sampleCount && !this.disposed; i++) {
+      try {
+        const sentAt = this.now();
+        // The write resolves once the server has stamped it
+        await set(probeRef, serverTimestamp());
+        const receivedAt = this.now();
+        const snapshot = await get(probeRef);
+        if (typeof snapshot.val() === 'number') {
+          samples.push({ sentAt, serverTime: snapshot.val(), receivedAt });
+        }
+      } catch (error) {
+        console.warn('Clock probe failed:', error);
+      }
+    }
+
+    const estimate = estimateClockOffset(samples);
+    if (estimate && (!this.estimate || estimate.roundTrip <= this.estimate.roundTrip * 2)) {
+      this.estimate = estimate;
+    }
+    return this.estimate;
+  }
+
+  /**
+   * Measure now and again periodically, as device clocks drift apart over a rehearsal
+   */
+  public async startClockSync(intervalMs: number = CLOCK_RESYNC_INTERVAL_MS): Promise<ClockEstimate | null> {
+    this.stopClockSync();
+    const estimate = await this.measureClockOffset();
+    if (!this.disposed) {
+      this.resyncTimer = setInterval(() => {
+        this.measureClockOffset().catch(error => console.warn('Clock resync failed:', error));
+      }, intervalMs);
+    }
+    return estimate;
+  }
+
+  public stopClockSync(): void {
+    if (this.resyncTimer) {
+      clearInterval(this.resyncTimer);
+      this.resyncTimer = null;
+    }
+  }
+
+  public getClockEstimate(): ClockEstimate | null {
+    return this.estimate;
+  }
+
+  public getServerTime(localTime: number = this.now()): number {
+    return localTime + (this.estimate?.offset || 0);
+  }
+
+  public toLocalTime(serverTime: number): number {
+    return serverTime - (this.estimate?.offset || 0);
+  }
+
+  /**
+   * Time sound takes from this device's player to its speaker (see LatencyService).
+   * Scheduling runs that much early so every device is heard together.
+   */
+  public setOutputLatency(latencyMs: number): void {
+    this.outputLatencyMs = Math.max(0, latencyMs);
+  }
+
+  /**
+   * Song position this device's player should be at right now, so that what
+   * leaves its speaker matches the session
+   */
+  public getExpectedPosition(state: SessionState): number {
+    return getSessionPosition(state, this.getServerTime() + this.outputLatencyMs);
+  }
+
+  /**
+   * Milliseconds until this device has to start playing to be heard at a server time
+   */
+  public getStartDelay(serverTime: number): number {
+    return this.toLocalTime(serverTime) - this.outputLatencyMs - this.now();
+  }
+
+  /**
+   * Resolve when this device has to start playing to be heard at a server time
+   */
+  public waitUntil(serverTime: number): Promise<void> {
+    const delay = this.getStartDelay(serverTime);
+    return new Promise(resolve => setTimeout(resolve, Math.max(0, delay)));
+  }
+
+  /**
+   * Publish the transport. Starting playback is scheduled `leadMs` ahead so that
+   * every device, the leader included, can begin at the same server time.
+   *
+   * @returns The anchor that was written
+   */
+  public async publishTransport(
+    isPlaying: boolean,
+    position: number,
+    leadMs: number = 0
+  ): Promise<Pick<SessionState, 'isPlaying' | 'seekPosition' | 'startAt'>> {
+    const transport = {
+      isPlaying,
+      seekPosition: position,
+      startAt: isPlaying ? Math.round(this.getServerTime() + leadMs) : null
+    };
+    await this.publish(transport);
+    return transport;
+  }
+
+  /**
+   * Merge fields into the shared state
+   */
+  public async publish(changes: Partial<SessionState>): Promise<void> {
+    const values: { [key: string]: any } = { updatedBy: this.deviceId };
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value !== undefined) values[key] = value;
+    });
+    await update(ref(this.database, `sessions/${this.sessionId}/state`), values);
+  }
+
+  /**
+   * Listen to the shared state. The callback receives null when the session is deleted.
+   */
+  public subscribe(callback: (state: SessionState | null) => void): () => void {
+    const stateRef = ref(this.database, `sessions/${this.sessionId}/state`);
+    return onValue(stateRef, snapshot => {
+      callback(snapshot.exists() ? parseSessionState(snapshot.val()) : null);
+    });
+  }
+
+  /**
+   * Add this device to the roster and keep its heartbeat going.
+   * The entry and clock probe are removed by the server if the connection drops.
+   */
+  public async join(
+    member: Pick<SessionMember, 'userId' | 'displayName' | 'deviceName' | 'followMode'>
+  ): Promise<void> {
+    const memberRef = this.getMemberRef();
+    await onDisconnect(memberRef).remove();
+    await onDisconnect(this.getProbeRef()).remove();
+    await set(memberRef, {
+      ...member,
+      deviceId: this.deviceId,
+      latency: this.estimate ? Math.round(this.estimate.roundTrip) : null,
+      lastSeen: serverTimestamp(),
+      joinedAt: serverTimestamp()
+    });
+
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      this.heartbeat().catch(error => console.warn('Session heartbeat failed:', error));
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  /**
+   * Refresh this device's last-seen time and latency
+   */
+  public async heartbeat(): Promise<void> {
+    if (this.disposed) return;
+    await update(this.getMemberRef(), {
+      latency: this.estimate ? Math.round(this.estimate.roundTrip) : null,
+      lastSeen: serverTimestamp()
+    });
+  }
+
+  public async setFollowMode(followMode: FollowMode): Promise<void> {
+    await update(this.getMemberRef(), { followMode });
+  }
+
+  /**
+   * Listen to the roster, ordered by join time
+   */
+  public subscribeMembers(callback: (members: SessionMember[]) => void): () => void {
+    const membersRef = ref(this.database, `sessions/${this.sessionId}/members`);
+    return onValue(membersRef, snapshot => {
+      const members: SessionMember[] = Object.values(snapshot.val() || {});
+      callback(members.sort((a, b) => (a.joinedAt || 0) - (b.joinedAt || 0)));
+    });
+  }
+
+  /**
+   * Listen to who leads the session. While this device leads, the server is told
+   * to delete the whole session if its connection drops, so sessions expire with their leader.
+   */
+  public subscribeLeader(callback: (leaderDeviceId: string | null) => void): () => void {
+    const sessionRef = ref(this.database, `sessions/${this.sessionId}`);
+    return onValue(ref(this.database, `sessions/${this.sessionId}/admin`), snapshot => {
+      const leaderDeviceId: string | null = snapshot.val();
+      const isLeader = leaderDeviceId === this.deviceId;
+
+      if (isLeader && !this.isLeader && !this.disposed) {
+        onDisconnect(sessionRef).remove().catch(error => console.warn('Error registering session expiry:', error));
+      } else if (!isLeader && this.isLeader) {
+        // Hand-off: the session now lives as long as the new leader is connected
+        // (cancel() also drops the queued removals of this device's own entries, so queue them again)
+        onDisconnect(sessionRef).cancel()
+          .then(() => Promise.all([
+            onDisconnect(this.getMemberRef()).remove(),
+            onDisconnect(this.getProbeRef()).remove()
+          ]))
+          .catch(error => console.warn('Error releasing session expiry:', error));
+      }
+      this.isLeader = isLeader;
+      callback(leaderDeviceId);
+    });
+  }
+
+  /**
+   * Offer a mix to every participant. Only the latest suggestion is kept.
+   */
+  public async suggestMix(songId: string, trackStates: SongTrackStates, suggestedBy: string): Promise<void> {
+    await set(ref(this.database, `sessions/${this.sessionId}/suggestedMix`), {
+      id: `${this.deviceId}_${this.now()}`,
+      songId,
+      trackStates,
+      suggestedBy,
+      createdAt: serverTimestamp()
+    });
+  }
+
+  public subscribeSuggestedMix(callback: (mix: SuggestedMix | null) => void): () => void {
+    return onValue(ref(this.database, `sessions/${this.sessionId}/suggestedMix`), snapshot => {
+      callback(snapshot.exists() ? snapshot.val() : null);
+    });
+  }
+
+  /**
+   * Make another member the leader
+   */
+  public async handOffLeadership(deviceId: string): Promise<void> {
+    await update(ref(this.database, `sessions/${this.sessionId}`), { admin: deviceId });
+  }
+
+  /**
+   * Stop syncing and remove this device from the roster
+   */
+  public async leave(): Promise<void> {
+    this.dispose();
+    await Promise.all([
+      remove(this.getMemberRef()),
+      remove(this.getProbeRef()),
+      onDisconnect(this.getMemberRef()).cancel(),
+      onDisconnect(this.getProbeRef()).cancel()
+    ]);
+  }
+
+  public dispose(): void {
+    this.disposed = true;
+    this.stopClockSync();
+    this.stopHeartbeat();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private getMemberRef() {
+    return ref(this.database, `sessions/${this.sessionId}/members/${this.deviceId}`);
+  }
+
+  private getProbeRef() {
+    return ref(this.database, `sessions/${this.sessionId}/clockProbes/${this.deviceId}`);
+  }
+}
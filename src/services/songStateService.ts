@@ -1,14 +1,42 @@
-import { ref, set, get, remove } from 'firebase/database';
+import { ref, set, get, remove, update, onValue } from 'firebase/database';
 import { database } from '../config/firebase';
 
+export interface LoopRegion {
+  id: string;
+  name: string;
+  start: number; // in seconds
+  end: number; // in seconds
+  countIn?: number; // Seconds of lead-in played before the first pass
+  createdAt: number;
+}
+
+export interface ChordSettings {
+  transpose: number; // Semitones from the chart's written key
+  capo: number; // Fret the capo is on; chord shapes are shown relative to it
+  preferFlats: boolean;
+}
+
+export const DEFAULT_CHORD_SETTINGS: ChordSettings = {
+  transpose: 0,
+  capo: 0,
+  preferFlats: false,
+};
+
 export interface SongState {
   songId: string;
   activeTrackIds: string[];
   soloedTrackIds: string[];
   trackVolumes: { [key: string]: number };
+  loopRegions: LoopRegion[];
+  activeLoopRegionId: string | null;
+  chordSettings: ChordSettings;
+  pitchShift: number; // Semitones the backing mix is shifted by
+  countInBars: number; // Metronome bars played before playback starts
   lastUpdated: number;
 }
 
+type SongMixState = Omit<SongState, 'songId' | 'lastUpdated' | 'loopRegions' | 'activeLoopRegionId' | 'chordSettings' | 'pitchShift' | 'countInBars'>;
+
 class SongStateService {
   private static instance: SongStateService;
   private songStates: Map<string, SongState> = new Map();
@@ -62,6 +90,11 @@ class SongStateService {
           activeTrackIds: data.activeTrackIds || [],
           soloedTrackIds: data.soloedTrackIds || [],
           trackVolumes: data.trackVolumes || {},
+          loopRegions: this.parseLoopRegions(data.loopRegions),
+          activeLoopRegionId: data.activeLoopRegionId || null,
+          chordSettings: this.parseChordSettings(data.chordSettings),
+          pitchShift: data.pitchShift || 0,
+          countInBars: data.countInBars || 0,
           lastUpdated: data.lastUpdated || Date.now(),
         };
       }
@@ -73,19 +106,20 @@ class SongStateService {
   }
 
   /**
-   * Save the state for a specific song to database
+   * Save the mix state for a specific song to database
+   * Loop regions, chord settings, key shift and count-in stored for the song are left untouched
    */
-  public async saveSongState(songId: string, state: Partial<Omit<SongState, 'songId' | 'lastUpdated'>>): Promise<void> {
+  public async saveSongState(songId: string, state: Partial<SongMixState>): Promise<void> {
     try {
       const songStateRef = ref(database, this.getSongStatePath(songId));
-      const newState: Omit<SongState, 'songId'> = {
+      const newState: SongMixState & { lastUpdated: number } = {
         activeTrackIds: state.activeTrackIds || [],
         soloedTrackIds: state.soloedTrackIds || [],
         trackVolumes: state.trackVolumes || {},
         lastUpdated: Date.now(),
       };
 
-      await set(songStateRef, newState);
+      await update(songStateRef, newState);
       console.log('Song state saved to database for:', songId);
     } catch (error) {
       console.error('Error saving song state:', error);
@@ -96,7 +130,7 @@ class SongStateService {
   /**
    * Update specific properties of a song's state
    */
-  public async updateSongState(songId: string, updates: Partial<Omit<SongState, 'songId' | 'lastUpdated'>>): Promise<void> {
+  public async updateSongState(songId: string, updates: Partial<SongMixState>): Promise<void> {
     try {
       const songStateRef = ref(database, this.getSongStatePath(songId));
       const currentSnapshot = await get(songStateRef);
@@ -165,6 +199,11 @@ class SongStateService {
             activeTrackIds: data[songId].activeTrackIds || [],
             soloedTrackIds: data[songId].soloedTrackIds || [],
             trackVolumes: data[songId].trackVolumes || {},
+            loopRegions: this.parseLoopRegions(data[songId].loopRegions),
+            activeLoopRegionId: data[songId].activeLoopRegionId || null,
+            chordSettings: this.parseChordSettings(data[songId].chordSettings),
+            pitchShift: data[songId].pitchShift || 0,
+            countInBars: data[songId].countInBars || 0,
             lastUpdated: data[songId].lastUpdated || Date.now(),
           });
         });
@@ -189,6 +228,222 @@ class SongStateService {
       return false;
     }
   }
+
+  /**
+   * Get the saved loop regions for a song, ordered by start time
+   */
+  public async getLoopRegions(songId: string): Promise<LoopRegion[]> {
+    try {
+      const loopRegionsRef = ref(database, `${this.getSongStatePath(songId)}/loopRegions`);
+      const snapshot = await get(loopRegionsRef);
+      return this.parseLoopRegions(snapshot.val());
+    } catch (error) {
+      console.error('Error getting loop regions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create or replace a loop region for a song
+   */
+  public async saveLoopRegion(songId: string, region: Omit<LoopRegion, 'id' | 'createdAt'> & { id?: string }): Promise<LoopRegion> {
+    if (region.end <= region.start) {
+      throw new Error('Loop end must be after loop start');
+    }
+
+    try {
+      const id = region.id || this.generateId();
+      const loopRegionRef = ref(database, `${this.getSongStatePath(songId)}/loopRegions/${id}`);
+
+      // Regions are listed by their start; editing one keeps its original creation time
+      const existingSnapshot = region.id ? await get(ref(database, `${this.getSongStatePath(songId)}/loopRegions/${id}/createdAt`)) : null;
+      const loopRegion: LoopRegion = {
+        id,
+        name: region.name.trim() || 'Loop',
+        start: Math.max(0, region.start),
+        end: region.end,
+        createdAt: existingSnapshot?.val() || Date.now(),
+      };
+      if (region.countIn && region.countIn > 0) {
+        loopRegion.countIn = region.countIn;
+      }
+
+      await set(loopRegionRef, loopRegion);
+      console.log('Loop region saved for song:', songId);
+      return loopRegion;
+    } catch (error) {
+      console.error('Error saving loop region:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a loop region, clearing it as the active loop if needed
+   */
+  public async deleteLoopRegion(songId: string, regionId: string): Promise<void> {
+    try {
+      const songStatePath = this.getSongStatePath(songId);
+      const activeSnapshot = await get(ref(database, `${songStatePath}/activeLoopRegionId`));
+
+      const updates: { [path: string]: null } = {
+        [`loopRegions/${regionId}`]: null,
+      };
+      if (activeSnapshot.val() === regionId) {
+        updates.activeLoopRegionId = null;
+      }
+
+      await update(ref(database, songStatePath), updates);
+      console.log('Loop region deleted for song:', songId);
+    } catch (error) {
+      console.error('Error deleting loop region:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Select which loop region is active for a song (null turns looping off)
+   */
+  public async setActiveLoopRegion(songId: string, regionId: string | null): Promise<void> {
+    try {
+      await update(ref(database, this.getSongStatePath(songId)), {
+        activeLoopRegionId: regionId,
+        lastUpdated: Date.now(),
+      });
+    } catch (error) {
+      console.error('Error setting active loop region:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Listen to loop region changes for a song in real-time
+   */
+  public listenToLoopRegions(
+    songId: string,
+    callback: (loopRegions: LoopRegion[], activeLoopRegionId: string | null) => void
+  ): () => void {
+    if (!this.currentUserId) {
+      console.warn('No user ID set, cannot listen to loop regions');
+      return () => {};
+    }
+
+    const songStateRef = ref(database, this.getSongStatePath(songId));
+    return onValue(songStateRef, (snapshot) => {
+      const data = snapshot.val() || {};
+      callback(this.parseLoopRegions(data.loopRegions), data.activeLoopRegionId || null);
+    }, (error) => {
+      console.error('Error listening to loop regions:', error);
+    });
+  }
+
+  /**
+   * Get the user's chord chart settings (key, capo, accidentals) for a song
+   */
+  public async getChordSettings(songId: string): Promise<ChordSettings> {
+    try {
+      const chordSettingsRef = ref(database, `${this.getSongStatePath(songId)}/chordSettings`);
+      const snapshot = await get(chordSettingsRef);
+      return this.parseChordSettings(snapshot.val());
+    } catch (error) {
+      console.error('Error getting chord settings:', error);
+      return { ...DEFAULT_CHORD_SETTINGS };
+    }
+  }
+
+  /**
+   * Save the user's chord chart settings for a song
+   */
+  public async saveChordSettings(songId: string, settings: ChordSettings): Promise<void> {
+    try {
+      await update(ref(database, this.getSongStatePath(songId)), {
+        chordSettings: {
+          transpose: Math.max(-11, Math.min(11, Math.round(settings.transpose))),
+          capo: Math.max(0, Math.round(settings.capo)),
+          preferFlats: settings.preferFlats,
+        },
+        lastUpdated: Date.now(),
+      });
+      console.log('Chord settings saved for song:', songId);
+    } catch (error) {
+      console.error('Error saving chord settings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the key shift (in semitones) the user last played a song's mix in
+   */
+  public async getPitchShift(songId: string): Promise<number> {
+    try {
+      const pitchShiftRef = ref(database, `${this.getSongStatePath(songId)}/pitchShift`);
+      const snapshot = await get(pitchShiftRef);
+      return snapshot.val() || 0;
+    } catch (error) {
+      console.error('Error getting pitch shift:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Remember the key shift for a song's mix
+   */
+  public async savePitchShift(songId: string, pitchShift: number): Promise<void> {
+    try {
+      await update(ref(database, this.getSongStatePath(songId)), {
+        pitchShift: Math.round(pitchShift),
+        lastUpdated: Date.now(),
+      });
+    } catch (error) {
+      console.error('Error saving pitch shift:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get how many bars of metronome count-in the user wants before a song starts
+   */
+  public async getCountInBars(songId: string): Promise<number> {
+    try {
+      const countInRef = ref(database, `${this.getSongStatePath(songId)}/countInBars`);
+      const snapshot = await get(countInRef);
+      return snapshot.val() || 0;
+    } catch (error) {
+      console.error('Error getting count-in bars:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Remember the count-in length for a song
+   */
+  public async saveCountInBars(songId: string, bars: number): Promise<void> {
+    try {
+      await update(ref(database, this.getSongStatePath(songId)), {
+        countInBars: Math.max(0, Math.round(bars)),
+        lastUpdated: Date.now(),
+      });
+    } catch (error) {
+      console.error('Error saving count-in bars:', error);
+      throw error;
+    }
+  }
+
+  private parseChordSettings(data: Partial<ChordSettings> | null | undefined): ChordSettings {
+    return {
+      transpose: data?.transpose || 0,
+      capo: data?.capo || 0,
+      preferFlats: !!data?.preferFlats,
+    };
+  }
+
+  private parseLoopRegions(data: { [regionId: string]: LoopRegion } | null | undefined): LoopRegion[] {
+    if (!data) return [];
+    return Object.values(data).sort((a, b) => a.start - b.start);
+  }
+
+  private generateId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+  }
 }
 
 export default SongStateService;
@@ -0,0 +1,283 @@
+import { ref, set, get, remove } from 'firebase/database';
+import * as DocumentPicker from 'expo-document-picker';
+import { database } from '../config/firebase';
+import { Track, TrackLoudness } from '../types/song';
+import AudioStorageService from './audioStorage';
+
+export interface TakeFeedback {
+  id: string;
+  userId: string;
+  userName: string;
+  text: string;
+  createdAt: number;
+}
+
+export interface Take {
+  id: string;
+  songId: string;
+  name: string; // e.g. "Take 3"
+  path: string;
+  peaksPath?: string;
+  loudness?: TrackLoudness;
+  offsetMs: number; // Song position of the first sample, latency already compensated
+  latencyMs: number; // Round-trip latency that was compensated
+  durationMs: number;
+  createdBy: string;
+  createdAt: number;
+  promotedTrackId?: string; // Set once the take is one of the song's tracks; the audio is then shared
+  feedback?: { [feedbackId: string]: TakeFeedback }; // Left by the people the take was shared with
+  sharedGroupIds?: { [groupId: string]: true }; // Where copies were shared, so deleting removes them
+  sharedUserIds?: { [userId: string]: true };
+  groupId?: string; // Set on copies shared with a UserGroup
+  sharedWithUserId?: string; // Set on copies shared with one person (e.g. a group leader)
+}
+
+export interface NewTake {
+  name: string;
+  offsetMs: number;
+  latencyMs: number;
+  durationMs: number;
+}
+
+/**
+ * The user's own recordings per song ("My takes"), kept apart from the shared
+ * song tracks: data under users/{uid}/takes and audio under users/{uid}/takes
+ * in Storage. Takes can be shared with a group or one person for feedback,
+ * and promoted into the song's tracks by an admin.
+ */
+class TakeService {
+  private static instance: TakeService;
+  private currentUserId: string | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): TakeService {
+    if (!TakeService.instance) {
+      TakeService.instance = new TakeService();
+    }
+    return TakeService.instance;
+  }
+
+  public setCurrentUser(userId: string | null) {
+    this.currentUserId = userId;
+  }
+
+  private getUserTakesPath(songId: string): string {
+    if (!this.currentUserId) {
+      throw new Error('No user ID set');
+    }
+    return `users/${this.currentUserId}/takes/${songId}`;
+  }
+
+  private getGroupTakesPath(groupId: string, songId: string): string {
+    return `groupTakes/${groupId}/${songId}`;
+  }
+
+  private getUserSharedTakesPath(userId: string, songId: string): string {
+    return `sharedTakes/${userId}/${songId}`;
+  }
+
+  /**
+   * Get the user's takes for a song, oldest first
+   */
+  public async getTakes(songId: string): Promise<Take[]> {
+    try {
+      if (!this.currentUserId) return [];
+      const snapshot = await get(ref(database, this.getUserTakesPath(songId)));
+      const data: { [takeId: string]: Take } | null = snapshot.val();
+      if (!data) return [];
+      return Object.values(data)
+        .filter(take => take && take.path)
+        .sort((a, b) => a.createdAt - b.createdAt);
+    } catch (error) {
+      console.error('Error loading takes:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the takes other people shared with the user or their groups for a song
+   */
+  public async getSharedTakes(songId: string, groupIds: string[]): Promise<Take[]> {
+    if (!this.currentUserId) return [];
+    const paths = [
+      this.getUserSharedTakesPath(this.currentUserId, songId),
+      ...groupIds.map(groupId => this.getGroupTakesPath(groupId, songId))
+    ];
+
+    const results = await Promise.all(paths.map(async (path) => {
+      try {
+        const snapshot = await get(ref(database, path));
+        const data: { [takeId: string]: Take } | null = snapshot.val();
+        return data ? Object.values(data) : [];
+      } catch (error) {
+        console.error('Error loading shared takes:', error);
+        return [];
+      }
+    }));
+
+    return results.flat()
+      .filter(take => take && take.path && take.createdBy !== this.currentUserId)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Upload a recording and store it as one of the user's takes
+   */
+  public async saveTake(
+    songId: string,
+    file: DocumentPicker.DocumentPickerAsset,
+    extension: string,
+    details: NewTake
+  ): Promise<Take> {
+    try {
+      if (!this.currentUserId) {
+        throw new Error('No user ID set');
+      }
+      const id = this.generateId();
+      const uploaded = await AudioStorageService.getInstance().uploadTrackAudio(
+        file,
+        `users/${this.currentUserId}/takes/${songId}/${id}.${extension}`
+      );
+
+      const take: Take = {
+        id,
+        songId,
+        name: details.name.trim() || 'Take',
+        ...uploaded,
+        offsetMs: details.offsetMs,
+        latencyMs: details.latencyMs,
+        durationMs: details.durationMs,
+        createdBy: this.currentUserId || '',
+        createdAt: Date.now(),
+      };
+
+      await set(ref(database, `${this.getUserTakesPath(songId)}/${id}`), take);
+      console.log('Take saved for song:', songId);
+      return take;
+    } catch (error) {
+      console.error('Error saving take:', error);
+      throw error;
+    }
+  }
+
+  public async deleteTake(take: Take): Promise<void> {
+    try {
+      await remove(ref(database, `${this.getUserTakesPath(take.songId)}/${take.id}`));
+      await Promise.all([
+        ...Object.keys(take.sharedGroupIds || {}).map(groupId =>
+          remove(ref(database, `${this.getGroupTakesPath(groupId, take.songId)}/${take.id}`)).catch(() => {})),
+        ...Object.keys(take.sharedUserIds || {}).map(userId =>
+          remove(ref(database, `${this.getUserSharedTakesPath(userId, take.songId)}/${take.id}`)).catch(() => {}))
+      ]);
+      // A promoted take's audio now belongs to the song
+      if (take.promotedTrackId) return;
+      await AudioStorageService.getInstance().deleteAudioFile(take.path).catch(() => {});
+      if (take.peaksPath) {
+        await AudioStorageService.getInstance().deleteAudioFile(take.peaksPath).catch(() => {});
+      }
+    } catch (error) {
+      console.error('Error deleting take:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The take as a track: aligned by its offset and sharing its audio file,
+   * so promoting it into the song needs no copy.
+   */
+  public toTrack(take: Take, name: string = take.name): Track {
+    const track: Track = {
+      id: `take-${take.id}`,
+      name,
+      path: take.path,
+      offsetMs: take.offsetMs,
+      role: 'vocal',
+    };
+    if (take.peaksPath) track.peaksPath = take.peaksPath;
+    if (take.loudness) track.loudness = take.loudness;
+    return track;
+  }
+
+  /**
+   * Copy a take to a group. Sharing again replaces the group's copy.
+   */
+  public async shareTakeWithGroup(take: Take, groupId: string): Promise<Take> {
+    try {
+      await set(ref(database, `${this.getGroupTakesPath(groupId, take.songId)}/${take.id}`), {
+        ...this.getShareableTake(take),
+        groupId
+      });
+      await set(ref(database, `${this.getUserTakesPath(take.songId)}/${take.id}/sharedGroupIds/${groupId}`), true);
+      return { ...take, sharedGroupIds: { ...take.sharedGroupIds, [groupId]: true } };
+    } catch (error) {
+      console.error('Error sharing take:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Copy a take to one person, e.g. the leader of the user's group
+   */
+  public async shareTakeWithUser(take: Take, userId: string): Promise<Take> {
+    try {
+      await set(ref(database, `${this.getUserSharedTakesPath(userId, take.songId)}/${take.id}`), {
+        ...this.getShareableTake(take),
+        sharedWithUserId: userId
+      });
+      await set(ref(database, `${this.getUserTakesPath(take.songId)}/${take.id}/sharedUserIds/${userId}`), true);
+      return { ...take, sharedUserIds: { ...take.sharedUserIds, [userId]: true } };
+    } catch (error) {
+      console.error('Error sharing take:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Leave feedback on a take someone shared. It is stored on the owner's take,
+   * so the owner sees it next to the recording.
+   */
+  public async addFeedback(take: Take, userName: string, text: string): Promise<TakeFeedback> {
+    try {
+      const feedback: TakeFeedback = {
+        id: this.generateId(),
+        userId: this.currentUserId || '',
+        userName,
+        text: text.trim(),
+        createdAt: Date.now(),
+      };
+      await set(
+        ref(database, `users/${take.createdBy}/takes/${take.songId}/${take.id}/feedback/${feedback.id}`),
+        feedback
+      );
+      return feedback;
+    } catch (error) {
+      console.error('Error adding take feedback:', error);
+      throw error;
+    }
+  }
+
+  public async markPromoted(take: Take, trackId: string): Promise<Take> {
+    await set(ref(database, `${this.getUserTakesPath(take.songId)}/${take.id}/promotedTrackId`), trackId);
+    return { ...take, promotedTrackId: trackId };
+  }
+
+  // Shared copies leave out the owner's feedback and sharing details
+  private getShareableTake(take: Take): Take {
+    const {
+      feedback: _feedback,
+      sharedGroupIds: _sharedGroupIds,
+      sharedUserIds: _sharedUserIds,
+      groupId: _groupId,
+      sharedWithUserId: _sharedWithUserId,
+      ...shareable
+    } = take;
+    return shareable;
+  }
+
+  private generateId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+  }
+}
+
+export default TakeService;
@@ -0,0 +1,131 @@
+import { Platform } from 'react-native';
+import { Audio } from 'expo-av';
+import { TrackEQ } from './trackStateService';
+
+export interface TrackEffects {
+  pan: number; // -1 (left) to 1 (right)
+  eq: TrackEQ;
+}
+
+export const FLAT_EQ: TrackEQ = { low: 0, mid: 0, high: 0 };
+
+export const NEUTRAL_EFFECTS: TrackEffects = { pan: 0, eq: FLAT_EQ };
+
+// Gain range of each EQ band in dB
+export const EQ_RANGE_DB = 12;
+
+const LOW_SHELF_HZ = 250;
+const MID_PEAK_HZ = 1000;
+const HIGH_SHELF_HZ = 4000;
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Pan and EQ need the Web Audio API; expo-av exposes neither on iOS or Android,
+ * so the feature is web-only and its controls are hidden elsewhere.
+ */
+export function supportsTrackEffects(): boolean {
+  return Platform.OS === 'web' &&
+    typeof window !== 'undefined' &&
+    !!(window.AudioContext || (window as any).webkitAudioContext);
+}
+
+export function isNeutralEffects(effects: TrackEffects): boolean {
+  return effects.pan === 0 && effects.eq.low === 0 && effects.eq.mid === 0 && effects.eq.high === 0;
+}
+
+function getAudioContext(): AudioContext {
+  if (!audioContext) {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    audioContext = new AudioContextClass() as AudioContext;
+  }
+  if (audioContext.state === 'suspended') {
+    audioContext.resume().catch(() => {});
+  }
+  return audioContext;
+}
+
+/**
+ * Web Audio chain behind one stem: low shelf -> mid peak -> high shelf -> stereo panner.
+ * Once a media element is routed through Web Audio it cannot be routed back,
+ * so chains are only created for stems that actually get pan or EQ.
+ */
+export class TrackEffectsChain {
+  private low: BiquadFilterNode;
+  private mid: BiquadFilterNode;
+  private high: BiquadFilterNode;
+  private panner: StereoPannerNode;
+  private source: MediaElementAudioSourceNode;
+
+  private constructor(element: HTMLMediaElement) {
+    const context = getAudioContext();
+
+    this.low = context.createBiquadFilter();
+    this.low.type = 'lowshelf';
+    this.low.frequency.value = LOW_SHELF_HZ;
+
+    this.mid = context.createBiquadFilter();
+    this.mid.type = 'peaking';
+    this.mid.frequency.value = MID_PEAK_HZ;
+    this.mid.Q.value = 1;
+
+    this.high = context.createBiquadFilter();
+    this.high.type = 'highshelf';
+    this.high.frequency.value = HIGH_SHELF_HZ;
+
+    this.panner = context.createStereoPanner();
+
+    this.source = context.createMediaElementSource(element);
+    this.source.connect(this.low);
+    this.low.connect(this.mid);
+    this.mid.connect(this.high);
+    this.high.connect(this.panner);
+    this.panner.connect(context.destination);
+  }
+
+  /**
+   * Route a loaded sound through a new effects chain, or return null where unsupported
+   */
+  public static attach(sound: Audio.Sound): TrackEffectsChain | null {
+    if (!supportsTrackEffects()) return null;
+
+    // expo-av has no public access to the player. Its web implementation keys each
+    // sound by its HTMLAudioElement; any other shape means pan and EQ stay off.
+    const element = (sound as any)._key;
+    if (typeof HTMLMediaElement === 'undefined' || !(element instanceof HTMLMediaElement)) return null;
+
+    // Cross-origin audio is silenced by Web Audio unless fetched with CORS, which needs a reload
+    if (element.crossOrigin !== 'anonymous') {
+      const { currentTime, paused } = element;
+      element.crossOrigin = 'anonymous';
+      element.src = element.currentSrc || element.src;
+      element.addEventListener('loadedmetadata', () => {
+        element.currentTime = currentTime;
+        if (!paused) {
+          element.play().catch(() => {});
+        }
+      }, { once: true });
+      element.load();
+    }
+
+    try {
+      return new TrackEffectsChain(element);
+    } catch (error) {
+      console.warn('Could not route track through Web Audio:', error);
+      return null;
+    }
+  }
+
+  public setEffects(effects: TrackEffects): void {
+    const clamp = (value: number) => Math.max(-EQ_RANGE_DB, Math.min(EQ_RANGE_DB, value));
+    this.low.gain.value = clamp(effects.eq.low);
+    this.mid.gain.value = clamp(effects.eq.mid);
+    this.high.gain.value = clamp(effects.eq.high);
+    this.panner.pan.value = Math.max(-1, Math.min(1, effects.pan));
+  }
+
+  public disconnect(): void {
+    this.source.disconnect();
+    this.panner.disconnect();
+  }
+}
@@ -1,14 +1,32 @@
 import { ref, set, get, onValue, off } from 'firebase/database';
 import { database } from '../config/firebase';
 
+export interface TrackEQ {
+  low: number; // Gain in dB
+  mid: number;
+  high: number;
+}
+
 export interface TrackState {
   solo: boolean;
   mute: boolean;
   volume: number;
+  pan?: number; // -1 (left) to 1 (right); missing on states saved before panning existed
+  eq?: TrackEQ;
+}
+
+export interface BusState {
+  solo: boolean;
+  mute: boolean;
+  volume: number;
+}
+
+export interface SongBusStates {
+  [busId: string]: BusState; // Personal overrides of the song's bus faders
 }
 
 export interface SongTrackStates {
-  [trackId: string]: TrackState;
+  [trackId: string]: TrackState; // The generated click is stored under METRONOME_TRACK_ID
 }
 
 export interface UserTrackStates {
@@ -30,6 +48,9 @@ class TrackStateService {
   }
 
   public setCurrentUser(userId: string | null) {
+    // Setting the same user again (e.g. from the assistant's tools) keeps the UI's listeners
+    if (userId === this.currentUserId) return;
+
     this.currentUserId = userId;
     // Clear existing listeners when user changes
     this.clearAllListeners();
@@ -114,6 +135,53 @@ class TrackStateService {
     }
   }
 
+  /**
+   * Save the user's fader, mute and solo of one of the song's buses
+   */
+  public async saveBusState(songId: string, busId: string, busState: BusState): Promise<void> {
+    try {
+      if (!this.currentUserId) {
+        console.warn('No user ID set, cannot save bus state');
+        return;
+      }
+
+      const busRef = ref(database, `users/${this.currentUserId}/busStates/${songId}/${busId}`);
+      await set(busRef, busState);
+    } catch (error) {
+      console.error('Error saving bus state:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Listen to the user's bus states for a song in real-time
+   */
+  public listenToSongBusStates(
+    songId: string,
+    callback: (busStates: SongBusStates | null) => void
+  ): () => void {
+    if (!this.currentUserId) {
+      console.warn('No user ID set, cannot listen to bus states');
+      return () => {};
+    }
+
+    const listenerKey = `buses:${songId}`;
+    if (this.listeners[listenerKey]) {
+      this.listeners[listenerKey]();
+    }
+
+    const busesRef = ref(database, `users/${this.currentUserId}/busStates/${songId}`);
+    const unsubscribe = onValue(busesRef, (snapshot) => {
+      callback(snapshot.exists() ? snapshot.val() : null);
+    }, (error) => {
+      console.error('Error listening to bus states:', error);
+      callback(null);
+    });
+
+    this.listeners[listenerKey] = unsubscribe;
+    return unsubscribe;
+  }
+
   /**
    * Load all track states for a user
    */
@@ -177,18 +245,27 @@ class TrackStateService {
     return {
       solo: false,
       mute: false,
-      volume: 1.0
+      volume: 1.0,
+      pan: 0,
+      eq: { low: 0, mid: 0, high: 0 }
     };
   }
 
   /**
-   * Initialize track states for a song with default values
+   * Initialize track states for a song with default values, starting tracks at their default gain
    */
-  public async initializeSongTrackStates(songId: string, trackIds: string[]): Promise<SongTrackStates> {
+  public async initializeSongTrackStates(
+    songId: string,
+    trackIds: string[],
+    defaultVolumes: { [trackId: string]: number } = {}
+  ): Promise<SongTrackStates> {
     const defaultStates: SongTrackStates = {};
     
     trackIds.forEach(trackId => {
-      defaultStates[trackId] = this.getDefaultTrackState();
+      defaultStates[trackId] = {
+        ...this.getDefaultTrackState(),
+        volume: defaultVolumes[trackId] ?? 1.0
+      };
     });
 
     await this.saveSongTrackStates(songId, defaultStates);
@@ -1,3 +1,5 @@
+import { FilterState } from './user';
+
 export interface Playlist {
   id: string;
   name: string;
@@ -9,6 +11,77 @@ export interface Playlist {
   isPublic: boolean;
   playCount: number;
   lastPlayedAt?: Date;
+  event?: SetlistEvent; // Set when the playlist is planned for a service or event
+  collaborators?: PlaylistCollaborators; // People and groups besides the owner (userId)
+  editorGroups?: { [userId: string]: string }; // Editor group each group editor writes through, checked by the database rules
+  smart?: SmartPlaylistRules; // Set when the songs come from the library rather than a hand-picked list
+  transition?: PlaylistTransition; // How one song leads into the next; left out plays them back to back
+}
+
+// How the playlist player moves from one song to the next
+export interface PlaylistTransition {
+  gapSeconds: number; // Silence between songs
+  crossfadeSeconds: number; // Overlap where every stem of one song fades into the next; 0 cuts straight over
+  pauseBetweenSongs: boolean; // Stop on the next song and wait for play, e.g. to talk between songs
+}
+
+// A playlist whose songs are worked out from the library each time it is opened or played
+export type SmartPlaylist = Playlist & { smart: SmartPlaylistRules };
+
+export interface SmartPlaylistRules {
+  filters: FilterState; // Song list filters, as saved from the library
+  addedWithinDays?: number; // Only songs added to the library in the last N days
+  playStatus?: 'never' | 'played'; // Whether the listener has played the song before
+  tags?: string[]; // Songs with any of these tags
+  limit?: number; // Most songs to hold
+}
+
+// Editors can add, remove and reorder songs; viewers can only play the playlist
+export type PlaylistRole = 'editor' | 'viewer';
+
+export interface PlaylistCollaborator {
+  role: PlaylistRole;
+  name: string; // Display name or group name when the collaborator was added
+}
+
+export interface PlaylistCollaborators {
+  users?: { [userId: string]: PlaylistCollaborator };
+  groups?: { [groupId: string]: PlaylistCollaborator };
+}
+
+export type PlaylistActivityAction = 'created' | 'added' | 'removed' | 'reordered' | 'edited' | 'shared' | 'unshared';
+
+// One change to a playlist, kept under playlistActivity/{playlistId}
+export interface PlaylistActivity {
+  id: string;
+  userId: string;
+  userName: string;
+  action: PlaylistActivityAction;
+  songId?: string;
+  songTitle?: string;
+  fromPosition?: number; // For reorders, 0-based
+  toPosition?: number;
+  detail?: string; // e.g. who the playlist was shared with, or what was edited
+  createdAt: number;
+}
+
+// A playlist planned for a date, e.g. a Sunday service
+export type Setlist = Playlist & { event: SetlistEvent };
+
+export interface SetlistEvent {
+  date: string; // Local date, YYYY-MM-DD
+  time?: string; // Local start time, HH:MM
+  venue?: string;
+  groupId?: string; // UserGroup playing the event; its members see the setlist
+  groupName?: string;
+}
+
+// How a song is played in a setlist; anything left out plays as the song is
+export interface PlaylistItemOverrides {
+  key?: string; // Key to play in (e.g. "A"); the mix is shifted from the song's key
+  bpm?: number; // Tempo to play at; the mix is sped up or slowed from the song's bpm
+  sectionIds?: string[]; // Markers of the sections to play, in song order
+  leader?: string; // Who leads the song
 }
 
 export interface PlaylistItem {
@@ -18,20 +91,25 @@ export interface PlaylistItem {
   songArtist: string;
   position: number; // Order in playlist (0-based)
   addedAt: Date;
+  addedBy?: string; // User ID of whoever added the song
   // Optional: user can add notes for each song in playlist
   notes?: string;
+  overrides?: PlaylistItemOverrides;
 }
 
 export interface CreatePlaylistForm {
   name: string;
   description?: string;
   isPublic: boolean;
+  event?: SetlistEvent;
+  smart?: SmartPlaylistRules;
 }
 
 export interface UpdatePlaylistForm {
   name?: string;
   description?: string;
   isPublic?: boolean;
+  event?: SetlistEvent | null; // null turns a setlist back into a plain playlist
 }
 
 export interface AddSongToPlaylistForm {
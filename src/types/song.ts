@@ -4,9 +4,19 @@ export interface Song {
   artist: string;
   album?: string; // Optional field for filtering only, not displayed elsewhere
   tracks?: Track[];
+  buses?: TrackBus[]; // Groups of tracks mixed together (Vocals, Rhythm, Keys)
   lyrics?: string;
+  chordChart?: string; // ChordPro source: lyrics with inline [chords] and {directives}
+  key?: string; // Original key the chord chart is written in (e.g. "G", "Em")
+  bpm?: number; // Tempo at the start of the song, in quarter notes per minute
+  timeSignature?: TimeSignature;
+  firstDownbeat?: number; // Seconds of pickup/silence before the first downbeat
+  tempoMap?: TempoChange[]; // Tempo or meter changes after the start
   scores?: Score[];
   resources?: Resource[];
+  markers?: SongMarker[];
+  syncedLyrics?: SyncedLyricLine[];
+  tags?: string[]; // Free labels for grouping songs, e.g. "Christmas", "Communion"
   accessControl?: {
     allowedUsers?: string[];
     allowedGroups?: string[];
@@ -18,10 +28,58 @@ export interface Song {
   createdBy?: string;
 }
 
+export type TrackRole = 'vocal' | 'instrument' | 'click' | 'guide';
+
+export type VoicePart = 'S' | 'A' | 'T' | 'B';
+
+export interface TrackLoudness {
+  integratedLufs: number; // ITU-R BS.1770 integrated loudness
+  truePeakDb: number; // dBTP
+  gainDb: number; // Normalization gain applied in playback
+}
+
 export interface Track {
   id: string;
   name: string;
   path: string;
+  pitchVariants?: { [semitones: string]: string }; // Storage paths of key-shifted renders, keyed by semitones ("-2", "3")
+  peaksPath?: string; // Storage path of the waveform peaks JSON next to the audio
+  loudness?: TrackLoudness; // Measured at upload or by scripts/normalizeLoudness.js
+  offsetMs?: number; // Song position of the audio's first sample; negative when it starts before the song (record-along takes)
+  role?: TrackRole;
+  voicePart?: VoicePart; // Only meaningful for vocal and guide tracks
+  instrument?: string; // e.g. "Piano", "Bass guitar"
+  defaultGain?: number; // Starting volume (0-1) before the user has a mix for the song
+}
+
+export interface TrackBus {
+  id: string;
+  name: string;
+  trackIds: string[]; // A track belongs to at most one bus
+  volume?: number; // Default fader level, 0-1; users can override it in their bus states
+}
+
+export interface SongMarker {
+  id: string;
+  label: string; // Section name ("Verse 1", "Chorus") or rehearsal letter ("A")
+  time: number; // in seconds
+  color?: string;
+}
+
+export interface TimeSignature {
+  beats: number; // Beats per bar (top number)
+  noteValue: number; // Beat unit (bottom number)
+}
+
+export interface TempoChange {
+  time: number; // in seconds, lands on a downbeat
+  bpm: number;
+  timeSignature?: TimeSignature; // Keeps the previous meter when omitted
+}
+
+export interface SyncedLyricLine {
+  time: number; // in seconds
+  text: string;
 }
 
 export interface Score {
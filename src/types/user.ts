@@ -1,3 +1,5 @@
+import { VoicePart } from './song';
+
 export interface User {
   id: string;
   email: string;
@@ -19,6 +21,7 @@ export interface FilterState {
   hasLyrics: boolean;
   hasScores: boolean;
   hasLinks: boolean;
+  voiceParts?: VoicePart[]; // Only songs with a stem for each of these parts
   sortOrder: 'asc' | 'desc';
 }
 
@@ -29,6 +32,13 @@ export interface UserPreferences {
   language: string;
   defaultTab?: 'lyrics' | 'score' | 'tracks' | 'resources';
   filters: FilterState;
+  myPart?: VoicePartPreference | null; // Applied the first time the user opens a song
+}
+
+export interface VoicePartPreference {
+  voicePart: VoicePart;
+  boostDb: number; // Gain added to the user's part
+  othersDb: number; // Gain (negative) applied to the other voice parts
 }
 
 export interface UserStats {
@@ -40,6 +50,12 @@ export interface UserStats {
   favoriteSongs: string[];
 }
 
+// How often the user has played a song, kept under users/{uid}/songPlays/{songId}
+export interface SongPlayStats {
+  count: number;
+  lastPlayedAt: number;
+}
+
 export interface AuthUser {
   uid: string;
   email: string | null;
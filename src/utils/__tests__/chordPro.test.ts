@@ -0,0 +1,36 @@
+import { describe, it, expect } from '@jest/globals';
+import { isChord, stripChords } from '../chordPro';
+import { matchesSearch, matchesLyricsSearch } from '../textNormalization';
+
+describe('isChord', () => {
+  it.each(['G', 'F#m7', 'Bb/D', 'Csus4', 'Dmaj7', 'Em7b5', 'A7(b9)', 'C°7', 'Gadd9', 'D(no3)', 'E7sus4add13'])(
+    'accepts %s',
+    (token) => {
+      expect(isChord(token)).toBe(true);
+    }
+  );
+
+  it.each(['Hello', 'Amazing', 'Go', 'Be', 'Dx7', 'C/H'])('rejects %s', (token) => {
+    expect(isChord(token)).toBe(false);
+  });
+
+  it('rejects long non-chord tokens without backtracking', () => {
+    const token = `A${'(b9)'.repeat(4)}${'9'.repeat(5000)}x`;
+    const started = Date.now();
+
+    expect(isChord(token)).toBe(false);
+    expect(Date.now() - started).toBeLessThan(100);
+  });
+});
+
+describe('lyrics search', () => {
+  it('ignores inline chords and chord lines', () => {
+    expect(stripChords('G    D\nAmazing grace\nA[D]mazing')).toBe('Amazing grace\nAmazing');
+    expect(matchesLyricsSearch('amazing', 'A[D]mazing grace')).toBe(true);
+  });
+
+  it('leaves titles with brackets alone', () => {
+    expect(matchesSearch('live', 'Hosanna [Live]')).toBe(true);
+    expect(matchesSearch('em', 'Em')).toBe(true);
+  });
+});
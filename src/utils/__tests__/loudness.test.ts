@@ -0,0 +1,51 @@
+import { describe, it, expect } from '@jest/globals';
+import { Track } from '../../types/song';
+import { analyzeLoudness, getNormalizationGain, measureTruePeak } from '../loudness';
+
+const SAMPLE_RATE = 48000;
+
+function sine(frequency: number, amplitude: number, seconds: number): Float32Array {
+  const samples = new Float32Array(Math.round(SAMPLE_RATE * seconds));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = amplitude * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE);
+  }
+  return samples;
+}
+
+describe('analyzeLoudness', () => {
+  it('measures a full-scale 1 kHz tone on one channel at -3 LUFS', async () => {
+    const loudness = await analyzeLoudness([sine(1000, 1, 3)], SAMPLE_RATE);
+
+    expect(loudness?.integratedLufs).toBeCloseTo(-3, 0);
+    expect(loudness?.gainDb).toBeLessThan(0);
+  });
+
+  it('treats silence as unmeasurable', async () => {
+    expect(await analyzeLoudness([new Float32Array(SAMPLE_RATE * 2)], SAMPLE_RATE)).toBeNull();
+  });
+});
+
+describe('measureTruePeak', () => {
+  it('finds the peak between samples', async () => {
+    // At a quarter of the sample rate, offset by 45°, every sample lands at ±0.707 of the crest
+    const samples = new Float32Array(4096);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = Math.sin(Math.PI / 2 * i + Math.PI / 4);
+    }
+
+    expect(await measureTruePeak([samples])).toBeGreaterThan(-1);
+  });
+});
+
+describe('getNormalizationGain', () => {
+  const track = (gainDb: number) =>
+    ({ id: 't', name: 't', path: 't.mp3', loudness: { integratedLufs: -23 - gainDb, truePeakDb: -6, gainDb } } as Track);
+
+  it('applies cuts', () => {
+    expect(getNormalizationGain(track(-6))).toBeCloseTo(0.501, 3);
+  });
+
+  it('never boosts, as players cannot go above full volume', () => {
+    expect(getNormalizationGain(track(6))).toBe(1);
+  });
+});
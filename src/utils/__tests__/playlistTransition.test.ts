@@ -0,0 +1,34 @@
+import { describe, it, expect } from '@jest/globals';
+import { DEFAULT_TRANSITION, getCrossfadeGains, getCrossfadeStart } from '../playlistTransition';
+
+const CROSSFADE = { ...DEFAULT_TRANSITION, crossfadeSeconds: 4 };
+
+describe('getCrossfadeStart', () => {
+  it('starts the crossfade its length before the song ends', () => {
+    expect(getCrossfadeStart(CROSSFADE, 180)).toBe(176);
+  });
+
+  it('covers less of the song at a slower rate, as the length is wall-clock time', () => {
+    expect(getCrossfadeStart(CROSSFADE, 180, 0.5)).toBe(178);
+    expect(getCrossfadeStart(CROSSFADE, 180, 1.5)).toBe(174);
+  });
+
+  it('fades a short song for half its length at most', () => {
+    expect(getCrossfadeStart(CROSSFADE, 6)).toBe(3);
+  });
+
+  it('does not overlap songs without a crossfade or when pausing between them', () => {
+    expect(getCrossfadeStart(DEFAULT_TRANSITION, 180)).toBeNull();
+    expect(getCrossfadeStart({ ...CROSSFADE, pauseBetweenSongs: true }, 180)).toBeNull();
+  });
+});
+
+describe('getCrossfadeGains', () => {
+  it('keeps equal power through the fade', () => {
+    [0, 0.25, 0.5, 1].forEach(progress => {
+      const { outgoing, incoming } = getCrossfadeGains(progress);
+      expect(outgoing ** 2 + incoming ** 2).toBeCloseTo(1);
+    });
+    expect(getCrossfadeGains(2)).toEqual({ outgoing: Math.cos(Math.PI / 2), incoming: 1 });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from '@jest/globals';
+import { Track } from '../../types/song';
+import { getVoicePartVolumes, guessTrackMetadata, parseVoicePart } from '../trackMetadata';
+
+describe('guessTrackMetadata', () => {
+  it.each([
+    ['Tenor 1', { role: 'vocal', voicePart: 'T' }],
+    ['Sopranos', { role: 'vocal', voicePart: 'S' }],
+    ['A', { role: 'vocal', voicePart: 'A' }],
+    ['Bass Vocal', { role: 'vocal', voicePart: 'B' }],
+    ['Voz Bajo', { role: 'vocal', voicePart: 'B' }],
+    ['Bajos', { role: 'vocal', voicePart: 'B' }],
+    ['Lead Vocal', { role: 'vocal' }],
+    ['Click', { role: 'click' }],
+    ['Guía', { role: 'guide' }]
+  ])('reads %s as a voice or cue track', (name, expected) => {
+    expect(guessTrackMetadata(name)).toEqual(expected);
+  });
+
+  it.each(['Bass', 'Bass Guitar', 'Bajo', 'Lead Guitar', 'Electric Guitar', 'Keys', 'Batería'])(
+    'reads %s as an instrument',
+    (name) => {
+      expect(guessTrackMetadata(name)).toEqual({ role: 'instrument' });
+    }
+  );
+
+  it('guesses nothing from names it does not know', () => {
+    expect(guessTrackMetadata('Stem 4')).toEqual({});
+  });
+});
+
+describe('parseVoicePart', () => {
+  it('accepts part names a singer types, including bass', () => {
+    expect(parseVoicePart('bass')).toBe('B');
+    expect(parseVoicePart(' Bajo ')).toBe('B');
+    expect(parseVoicePart('alto')).toBe('A');
+    expect(parseVoicePart('guitar')).toBeNull();
+  });
+});
+
+describe('getVoicePartVolumes', () => {
+  const preference = { voicePart: 'T' as const, boostDb: 6, othersDb: -6 };
+  const track = (id: string, metadata: Partial<Track> = {}): Track =>
+    ({ id, name: id, path: `audio/${id}.mp3`, ...metadata } as Track);
+
+  it('boosts the part and lowers the other tagged voices', () => {
+    const volumes = getVoicePartVolumes([
+      track('Tenor', { role: 'vocal', voicePart: 'T' }),
+      track('Alto', { role: 'vocal', voicePart: 'A' }),
+      track('Piano', { role: 'instrument' })
+    ], preference);
+
+    expect(volumes).toEqual({ Tenor: 1, Alto: 0.25, Piano: 0.5 });
+  });
+
+  it('leaves tracks without explicit metadata alone, whatever their name', () => {
+    const volumes = getVoicePartVolumes([
+      track('Tenor', { role: 'vocal', voicePart: 'T' }),
+      track('Bass'),
+      track('Alto')
+    ], preference);
+
+    expect(volumes).toEqual({ Tenor: 1, Bass: 0.5, Alto: 0.5 });
+  });
+
+  it('returns null when only the names suggest the part', () => {
+    expect(getVoicePartVolumes([track('Tenor'), track('Alto')], preference)).toBeNull();
+  });
+});
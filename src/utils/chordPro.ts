@@ -0,0 +1,282 @@
+const SHARP_NOTES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const FLAT_NOTES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+// Root, accidental, quality/extensions and an optional slash bass note
+const CHORD_REGEX = /^([A-G])([#b]?)([^/\s]*)(?:\/([A-G])([#b]?))?$/;
+// Every repeated token consumes at least one character and digits are taken whole,
+// so a long non-chord token fails fast instead of backtracking through every split
+const QUALITY_REGEX = /^(?:m|maj|min|dim|aug|sus|add|M|°|ø|\+|-)?(?:\(|\)|(?:b|#|add|sus|maj|m|no)?[0-9]+(?![0-9])|(?:b|#|add|sus|maj|m|no)(?![0-9]))*$/;
+
+export interface ChordSegment {
+  chord: string | null;
+  lyric: string;
+}
+
+export type ChordChartLine =
+  | { type: 'lyric'; segments: ChordSegment[]; isChorus: boolean }
+  | { type: 'section'; label: string }
+  | { type: 'comment'; text: string }
+  | { type: 'empty' };
+
+export interface ChordChart {
+  title?: string;
+  artist?: string;
+  key?: string;
+  capo?: number;
+  lines: ChordChartLine[];
+}
+
+/**
+ * Checks whether a token is a chord symbol (e.g. "G", "F#m7", "Bb/D", "Csus4").
+ *
+ * @param token - A single whitespace-free token
+ * @returns True if the token parses as a chord
+ */
+export function isChord(token: string): boolean {
+  const match = token.match(CHORD_REGEX);
+  return !!match && QUALITY_REGEX.test(match[3]);
+}
+
+/**
+ * Checks whether a plain-text line contains only chord symbols,
+ * as in charts pasted with the chords on their own line above the lyrics.
+ */
+export function isChordLine(line: string): boolean {
+  const tokens = line.trim().split(/\s+/).filter(token => token && token !== '|' && token !== '-');
+  return tokens.length > 0 && tokens.every(isChord);
+}
+
+/**
+ * Checks whether a text is written in ChordPro format (inline [chords] or {directives}).
+ */
+export function isChordPro(text: string): boolean {
+  return /\[[A-G][^\]\s]*\]/.test(text) || /^\s*\{[a-z_]+(:[^}]*)?\}\s*$/m.test(text);
+}
+
+/**
+ * Checks whether a text contains chord lines above lyric lines.
+ */
+export function hasChordsOverLyrics(text: string): boolean {
+  return text.split(/\r?\n/).some(isChordLine);
+}
+
+function transposeNote(note: string, semitones: number, preferFlats: boolean): string {
+  let index = SHARP_NOTES.indexOf(note);
+  if (index === -1) index = FLAT_NOTES.indexOf(note);
+  // Enharmonic spellings outside the tables (E#, Cb, ...) are left as written
+  if (index === -1) return note;
+
+  const transposed = (((index + semitones) % 12) + 12) % 12;
+  return (preferFlats ? FLAT_NOTES : SHARP_NOTES)[transposed];
+}
+
+/**
+ * Transposes a chord symbol, keeping its quality and slash bass.
+ *
+ * @param chord - The chord symbol (e.g. "F#m7/C#")
+ * @param semitones - Semitones to shift (negative moves down)
+ * @param preferFlats - Spell accidentals as flats instead of sharps
+ * @returns The transposed chord, or the input unchanged if it is not a chord
+ */
+export function transposeChord(chord: string, semitones: number, preferFlats: boolean = false): string {
+  const match = chord.match(CHORD_REGEX);
+  if (!match) return chord;
+
+  const [, root, accidental, quality, bassRoot, bassAccidental] = match;
+  const newRoot = transposeNote(root + accidental, semitones, preferFlats);
+  const newBass = bassRoot ? `/${transposeNote(bassRoot + (bassAccidental || ''), semitones, preferFlats)}` : '';
+  return `${newRoot}${quality}${newBass}`;
+}
+
+/**
+ * Converts charts with chord lines above the lyrics into ChordPro,
+ * placing each chord inline at the column it was written over.
+ *
+ * @param text - Plain-text chart as usually pasted from chord sites
+ * @returns The equivalent ChordPro text
+ */
+export function chordsOverLyricsToChordPro(text: string): string {
+  const lines = text.split(/\r?\n/);
+  const result: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!isChordLine(line)) {
+      result.push(line);
+      continue;
+    }
+
+    const chords: Array<{ column: number; chord: string }> = [];
+    const chordRegex = /\S+/g;
+    let match: RegExpExecArray | null;
+    while ((match = chordRegex.exec(line)) !== null) {
+      if (isChord(match[0])) {
+        chords.push({ column: match.index, chord: match[0] });
+      }
+    }
+
+    const lyric = lines[i + 1];
+    if (lyric === undefined || !lyric.trim() || isChordLine(lyric)) {
+      // Chords without lyrics underneath (intros, instrumentals)
+      result.push(chords.map(({ chord }) => `[${chord}]`).join(' '));
+      continue;
+    }
+
+    // Insert from the right so earlier columns stay valid
+    let merged = lyric.padEnd(chords[chords.length - 1].column, ' ');
+    for (let c = chords.length - 1; c >= 0; c--) {
+      const { column, chord } = chords[c];
+      merged = `${merged.slice(0, column)}[${chord}]${merged.slice(column)}`;
+    }
+    result.push(merged.trimEnd());
+    i++;
+  }
+
+  return result.join('\n');
+}
+
+/**
+ * Parses a ChordPro chart into renderable lines.
+ * Supports inline [chords], {title}, {artist}, {key}, {capo}, {comment}
+ * and chorus/verse/bridge section directives (long and short forms).
+ *
+ * @param text - ChordPro text (chords-over-lyrics text is converted first)
+ * @returns The parsed chart
+ */
+export function parseChordPro(text: string): ChordChart {
+  const source = isChordPro(text) || !hasChordsOverLyrics(text) ? text : chordsOverLyricsToChordPro(text);
+  const chart: ChordChart = { lines: [] };
+  let isChorus = false;
+
+  source.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trimEnd();
+    const directive = line.trim().match(/^\{([a-z_]+)(?::\s*(.*))?\}$/i);
+
+    if (directive) {
+      const name = directive[1].toLowerCase();
+      const value = (directive[2] || '').trim();
+
+      switch (name) {
+        case 'title':
+        case 't':
+          chart.title = value;
+          break;
+        case 'artist':
+        case 'subtitle':
+        case 'st':
+          chart.artist = value;
+          break;
+        case 'key':
+          chart.key = value;
+          break;
+        case 'capo':
+          chart.capo = parseInt(value, 10) || 0;
+          break;
+        case 'comment':
+        case 'c':
+        case 'comment_italic':
+        case 'ci':
+          chart.lines.push({ type: 'comment', text: value });
+          break;
+        case 'start_of_chorus':
+        case 'soc':
+          isChorus = true;
+          chart.lines.push({ type: 'section', label: value || 'Chorus' });
+          break;
+        case 'end_of_chorus':
+        case 'eoc':
+          isChorus = false;
+          break;
+        case 'start_of_verse':
+        case 'sov':
+          chart.lines.push({ type: 'section', label: value || 'Verse' });
+          break;
+        case 'start_of_bridge':
+        case 'sob':
+          chart.lines.push({ type: 'section', label: value || 'Bridge' });
+          break;
+        default:
+          // Unknown directives (end_of_verse, columns, ...) have no visual output
+          break;
+      }
+      return;
+    }
+
+    if (!line.trim()) {
+      chart.lines.push({ type: 'empty' });
+      return;
+    }
+
+    const segments: ChordSegment[] = [];
+    const parts = line.split(/\[([^\]]*)\]/);
+    // split() with a capture group alternates lyric, chord, lyric, chord, ...
+    if (parts[0]) {
+      segments.push({ chord: null, lyric: parts[0] });
+    }
+    for (let i = 1; i < parts.length; i += 2) {
+      segments.push({ chord: parts[i], lyric: parts[i + 1] || '' });
+    }
+
+    chart.lines.push({ type: 'lyric', segments, isChorus });
+  });
+
+  return chart;
+}
+
+/**
+ * Removes chord tokens and directives, leaving only the lyric text.
+ * Handles both inline ChordPro chords and chord lines above the lyrics.
+ *
+ * @param text - Lyrics that may contain chords
+ * @returns The lyrics without chords
+ */
+export function stripChords(text: string): string {
+  if (!text) return '';
+
+  return text
+    .split(/\r?\n/)
+    .filter(line => !isChordLine(line) && !/^\s*\{[^}]*\}\s*$/.test(line))
+    .map(line => line.replace(/\[[^\]]*\]/g, ''))
+    .join('\n');
+}
+
+/**
+ * Names the key a chart sounds in after transposition.
+ *
+ * @param key - The original key of the song (e.g. "G", "Em")
+ * @param semitones - Transposition in semitones
+ * @param preferFlats - Spell accidentals as flats instead of sharps
+ * @returns The transposed key name
+ */
+export function transposeKey(key: string, semitones: number, preferFlats: boolean = false): string {
+  return transposeChord(key.trim(), semitones, preferFlats);
+}
+
+/**
+ * Semitones between two keys, taking the shorter way round
+ * (G to A is +2, G to E is -3). A minor key only matches a minor key.
+ *
+ * @param fromKey - The key the song is in (e.g. "G", "Em")
+ * @param toKey - The key to play it in
+ * @returns Semitones from -6 to +5, or null if either key cannot be read
+ */
+export function getKeyDistance(fromKey: string, toKey: string): number | null {
+  const from = fromKey.trim().match(CHORD_REGEX);
+  const to = toKey.trim().match(CHORD_REGEX);
+  if (!from || !to) return null;
+
+  const isMinor = (quality: string) => quality.startsWith('m') && !quality.startsWith('maj');
+  if (isMinor(from[3]) !== isMinor(to[3])) return null;
+
+  const noteIndex = (root: string, accidental: string) => {
+    const note = root + accidental;
+    const index = SHARP_NOTES.indexOf(note);
+    return index !== -1 ? index : FLAT_NOTES.indexOf(note);
+  };
+  const fromIndex = noteIndex(from[1], from[2]);
+  const toIndex = noteIndex(to[1], to[2]);
+  if (fromIndex === -1 || toIndex === -1) return null;
+
+  const distance = (((toIndex - fromIndex) % 12) + 12) % 12;
+  return distance > 5 ? distance - 12 : distance;
+}
@@ -0,0 +1,72 @@
+// Typical output + input latency when nothing better is known, in ms
+export const DEFAULT_ROUND_TRIP_LATENCY_MS: { [platform: string]: number } = {
+  ios: 40,
+  android: 120,
+  web: 80,
+};
+
+/**
+ * Round-trip latency to assume on a platform.
+ *
+ * @param platform - Platform.OS
+ * @returns Latency in ms
+ */
+export function getDefaultRoundTripLatencyMs(platform: string): number {
+  return DEFAULT_ROUND_TRIP_LATENCY_MS[platform] ?? DEFAULT_ROUND_TRIP_LATENCY_MS.web;
+}
+
+/**
+ * Song position of a take's first sample.
+ * The singer hears the mix late by the output latency and is captured late by the
+ * input latency, so everything recorded is shifted back by the round trip.
+ *
+ * @param songPositionMs - Song position sampled while recording
+ * @param recordedMs - How much the take had recorded at that same moment
+ * @param latencyMs - Round-trip latency of the device
+ * @returns Offset to store on the take (negative when recording started before the song position 0)
+ */
+export function getTakeOffsetMs(songPositionMs: number, recordedMs: number, latencyMs: number): number {
+  return Math.round(songPositionMs - recordedMs - latencyMs);
+}
+
+export interface MeterSample {
+  timeMs: number; // Recording position of the reading
+  db: number; // Input level in dBFS
+}
+
+// A click has to rise this far above the room noise to count as heard
+const CLICK_THRESHOLD_DB = 20;
+// Anything later than this is taken as a missed click rather than latency
+const MAX_LATENCY_MS = 600;
+
+/**
+ * Round-trip latency of one calibration click: time from asking the click to play
+ * until the microphone level jumps above the noise floor.
+ *
+ * @param samples - Input meter readings, in recording order
+ * @param clickAtMs - Recording position at which the click was started
+ * @param noiseFloorDb - Level of the room before any click
+ * @returns Latency in ms, or null when the click was not picked up
+ */
+export function findClickLatencyMs(samples: MeterSample[], clickAtMs: number, noiseFloorDb: number): number | null {
+  const threshold = Math.max(noiseFloorDb + CLICK_THRESHOLD_DB, -50);
+  const onset = samples.find(sample =>
+    sample.timeMs >= clickAtMs &&
+    sample.timeMs <= clickAtMs + MAX_LATENCY_MS &&
+    sample.db >= threshold
+  );
+  return onset ? onset.timeMs - clickAtMs : null;
+}
+
+/**
+ * Median of a list of measurements, which ignores the odd late meter update.
+ *
+ * @param values - Measurements
+ * @returns The median, or null for an empty list
+ */
+export function getMedian(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -0,0 +1,219 @@
+import { Track, TrackLoudness } from '../types/song';
+
+// Every stem is brought to this loudness; scripts/normalizeLoudness.js must use the same values
+export const TARGET_LUFS = -23;
+// Normalization never pushes a stem's true peak above this
+export const TRUE_PEAK_CEILING_DB = -1;
+
+// Quieter than this a stem is treated as silent and left alone
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+const BLOCK_SECONDS = 0.4;
+const BLOCK_STEP_SECONDS = 0.1;
+const OVERSAMPLING = 4;
+const INTERPOLATION_TAPS = 8;
+// Samples processed between yields, so measuring a long stem never freezes the UI
+const CHUNK_SAMPLES = 65536;
+
+interface Biquad {
+  b: [number, number, number];
+  a: [number, number, number];
+}
+
+export function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+export function gainToDb(gain: number): number {
+  return gain > 0 ? 20 * Math.log10(gain) : -Infinity;
+}
+
+/**
+ * The two K-weighting stages of BS.1770 (high shelf, then high pass) for any sample rate.
+ */
+function getKWeightingFilters(sampleRate: number): Biquad[] {
+  let K = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf: Biquad = {
+    b: [(Vh + Vb * K / Q + K * K) / a0, 2 * (K * K - Vh) / a0, (Vh - Vb * K / Q + K * K) / a0],
+    a: [1, 2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0]
+  };
+
+  K = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass: Biquad = {
+    b: [1, -2, 1],
+    a: [1, 2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0]
+  };
+
+  return [shelf, highPass];
+}
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+async function applyBiquad(input: Float32Array, { b, a }: Biquad): Promise<Float32Array> {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let start = 0; start < input.length; start += CHUNK_SAMPLES) {
+    const end = Math.min(input.length, start + CHUNK_SAMPLES);
+    for (let i = start; i < end; i++) {
+      const x = input[i];
+      const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[1] * y1 - a[2] * y2;
+      x2 = x1; x1 = x;
+      y2 = y1; y1 = y;
+      output[i] = y;
+    }
+    await yieldToEventLoop();
+  }
+  return output;
+}
+
+/**
+ * Integrated loudness of decoded audio following ITU-R BS.1770-4
+ * (K-weighting, 400 ms blocks with 75% overlap, absolute and relative gates).
+ *
+ * @param channels - Decoded samples of each channel (only the first two count, as left and right)
+ * @param sampleRate - Sample rate of the decoded audio
+ * @returns Loudness in LUFS, or -Infinity for silence
+ */
+export async function measureIntegratedLoudness(channels: Float32Array[], sampleRate: number): Promise<number> {
+  const filters = getKWeightingFilters(sampleRate);
+  const weighted: Float32Array[] = [];
+  for (const channel of channels.slice(0, 2)) {
+    let filtered = channel;
+    for (const filter of filters) {
+      filtered = await applyBiquad(filtered, filter);
+    }
+    weighted.push(filtered);
+  }
+  const length = weighted[0]?.length || 0;
+
+  const blockLength = Math.round(BLOCK_SECONDS * sampleRate);
+  const stepLength = Math.round(BLOCK_STEP_SECONDS * sampleRate);
+  const blockPowers: number[] = [];
+
+  for (let start = 0; start + blockLength <= length; start += stepLength) {
+    let power = 0;
+    for (const channel of weighted) {
+      let sum = 0;
+      for (let i = start; i < start + blockLength; i++) {
+        sum += channel[i] * channel[i];
+      }
+      power += sum / blockLength;
+    }
+    blockPowers.push(power);
+    if (blockPowers.length % 50 === 0) {
+      await yieldToEventLoop();
+    }
+  }
+
+  const toLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  const aboveAbsolute = blockPowers.filter(power => power > 0 && toLufs(power) > ABSOLUTE_GATE_LUFS);
+  if (aboveAbsolute.length === 0) return -Infinity;
+
+  const relativeGate = toLufs(mean(aboveAbsolute)) + RELATIVE_GATE_LU;
+  const gated = aboveAbsolute.filter(power => toLufs(power) > relativeGate);
+  return toLufs(mean(gated));
+}
+
+/**
+ * True peak estimated by 4x oversampling with a windowed-sinc interpolator,
+ * which catches the inter-sample peaks that a plain sample peak misses.
+ *
+ * @param channels - Decoded samples of each channel
+ * @returns Peak in dBTP, or -Infinity for silence
+ */
+export async function measureTruePeak(channels: Float32Array[]): Promise<number> {
+  const half = INTERPOLATION_TAPS / 2;
+
+  // One set of taps per fractional position between two samples
+  const phases: number[][] = [];
+  for (let phase = 1; phase < OVERSAMPLING; phase++) {
+    const offset = phase / OVERSAMPLING;
+    const taps: number[] = [];
+    for (let k = -half + 1; k <= half; k++) {
+      const t = k - offset;
+      const sinc = Math.sin(Math.PI * t) / (Math.PI * t);
+      const window = 0.5 + 0.5 * Math.cos(Math.PI * t / (half + 1));
+      taps.push(sinc * window);
+    }
+    phases.push(taps);
+  }
+
+  let peak = 0;
+  for (const channel of channels) {
+    for (let start = 0; start < channel.length; start += CHUNK_SAMPLES) {
+      const end = Math.min(channel.length, start + CHUNK_SAMPLES);
+      for (let i = start; i < end; i++) {
+        const sample = Math.abs(channel[i]);
+        if (sample > peak) peak = sample;
+
+        if (i < half - 1 || i + half >= channel.length) continue;
+        for (const taps of phases) {
+          let value = 0;
+          for (let k = 0; k < taps.length; k++) {
+            value += channel[i - half + 1 + k] * taps[k];
+          }
+          if (Math.abs(value) > peak) peak = Math.abs(value);
+        }
+      }
+      await yieldToEventLoop();
+    }
+  }
+
+  return gainToDb(peak);
+}
+
+/**
+ * Gain that brings a stem to TARGET_LUFS without its true peak passing TRUE_PEAK_CEILING_DB.
+ *
+ * @param integratedLufs - Measured integrated loudness
+ * @param truePeakDb - Measured true peak
+ * @returns Gain in dB, rounded to a tenth (0 for silent stems)
+ */
+export function getNormalizationGainDb(integratedLufs: number, truePeakDb: number): number {
+  if (!isFinite(integratedLufs) || !isFinite(truePeakDb)) return 0;
+  const gain = Math.min(TARGET_LUFS - integratedLufs, TRUE_PEAK_CEILING_DB - truePeakDb);
+  return Math.round(gain * 10) / 10;
+}
+
+/**
+ * Measures decoded audio and works out its normalization.
+ * Runs in chunks that yield to the event loop, as a stem takes seconds to measure.
+ *
+ * @param channels - Decoded samples of each channel
+ * @param sampleRate - Sample rate of the decoded audio
+ * @returns The loudness to store on the track, or null for silence
+ */
+export async function analyzeLoudness(channels: Float32Array[], sampleRate: number): Promise<TrackLoudness | null> {
+  const integratedLufs = await measureIntegratedLoudness(channels, sampleRate);
+  const truePeakDb = await measureTruePeak(channels);
+  if (!isFinite(integratedLufs) || !isFinite(truePeakDb)) return null;
+
+  return {
+    integratedLufs: Math.round(integratedLufs * 10) / 10,
+    truePeakDb: Math.round(truePeakDb * 10) / 10,
+    gainDb: getNormalizationGainDb(integratedLufs, truePeakDb)
+  };
+}
+
+/**
+ * Linear normalization gain of a track.
+ * Players cannot go above full volume, so only the cut is applied: loud stems
+ * come down to the target and quiet ones stay as they are. Clamping here rather
+ * than after the fader keeps the fader linear for every stem.
+ *
+ * @param track - The track
+ * @returns The gain (at most 1) to multiply its volume by (1 for tracks never measured)
+ */
+export function getNormalizationGain(track: Track): number {
+  return track.loudness ? dbToGain(Math.min(0, track.loudness.gainDb)) : 1;
+}
@@ -0,0 +1,121 @@
+import { SyncedLyricLine } from '../types/song';
+
+// Matches one or more leading [mm:ss], [mm:ss.xx] or [mm:ss:xx] timestamps
+const TIMESTAMP_REGEX = /\[(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+const OFFSET_REGEX = /^\[offset:\s*([+-]?\d+)\s*\]$/i;
+
+/**
+ * Checks whether a text looks like LRC (at least one timestamped line).
+ * 
+ * @param text - The raw file or lyrics content
+ * @returns True if the text contains LRC timestamps at the start of a line
+ */
+export function isLrc(text: string): boolean {
+  return /^\s*\[\d{1,3}:\d{1,2}(?:[.:]\d{1,3})?\]/m.test(text);
+}
+
+/**
+ * Parses LRC content into synced lyric lines sorted by time.
+ * Supports multiple timestamps per line and the [offset:ms] tag;
+ * other ID tags ([ti:], [ar:], ...) are ignored.
+ * 
+ * @param text - The LRC content
+ * @returns The timed lines, sorted by ascending time
+ */
+export function parseLrc(text: string): SyncedLyricLine[] {
+  const lines: SyncedLyricLine[] = [];
+  let offsetSeconds = 0;
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+
+    const offsetMatch = line.match(OFFSET_REGEX);
+    if (offsetMatch) {
+      // A positive offset shifts lyrics earlier
+      offsetSeconds = parseInt(offsetMatch[1], 10) / 1000;
+      return;
+    }
+
+    const times: number[] = [];
+    let lyricStart = 0;
+    TIMESTAMP_REGEX.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = TIMESTAMP_REGEX.exec(line)) !== null && match.index === lyricStart) {
+      const minutes = parseInt(match[1], 10);
+      const seconds = parseInt(match[2], 10);
+      const fraction = match[3] ? parseInt(match[3], 10) / Math.pow(10, match[3].length) : 0;
+      times.push(minutes * 60 + seconds + fraction);
+      lyricStart = TIMESTAMP_REGEX.lastIndex;
+    }
+
+    const lyric = line.slice(lyricStart).trim();
+    times.forEach(time => lines.push({ time, text: lyric }));
+  });
+
+  return lines
+    .map(line => ({ ...line, time: Math.max(0, line.time - offsetSeconds) }))
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Formats a time in seconds as an LRC timestamp ([mm:ss.xx]).
+ */
+function formatLrcTimestamp(time: number): string {
+  const totalHundredths = Math.round(Math.max(0, time) * 100);
+  const minutes = Math.floor(totalHundredths / 6000);
+  const seconds = Math.floor((totalHundredths % 6000) / 100);
+  const hundredths = totalHundredths % 100;
+  return `[${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}.${hundredths.toString().padStart(2, '0')}]`;
+}
+
+/**
+ * Serializes synced lyric lines as LRC content.
+ * 
+ * @param lines - The timed lines
+ * @param meta - Optional title and artist written as [ti:] and [ar:] tags
+ * @returns The LRC file content
+ */
+export function formatLrc(lines: SyncedLyricLine[], meta?: { title?: string; artist?: string }): string {
+  const header: string[] = [];
+  if (meta?.title) header.push(`[ti:${meta.title}]`);
+  if (meta?.artist) header.push(`[ar:${meta.artist}]`);
+
+  const body = [...lines]
+    .sort((a, b) => a.time - b.time)
+    .map(line => `${formatLrcTimestamp(line.time)}${line.text}`);
+
+  return [...header, ...body].join('\n');
+}
+
+/**
+ * Builds plain lyrics from synced lines, keeping blank lines as stanza breaks.
+ * Used so imported LRC files stay searchable and readable without timing.
+ */
+export function syncedLyricsToText(lines: SyncedLyricLine[]): string {
+  return lines.map(line => line.text).join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Finds the line being sung at a playhead position.
+ * 
+ * @param lines - The timed lines, sorted by time
+ * @param position - Playhead position in seconds
+ * @returns The index of the active line, or -1 before the first line
+ */
+export function getActiveLyricIndex(lines: SyncedLyricLine[], position: number): number {
+  let low = 0;
+  let high = lines.length - 1;
+  let result = -1;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (lines[mid].time <= position) {
+      result = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,226 @@
+import { Song, TimeSignature } from '../types/song';
+
+export const DEFAULT_TIME_SIGNATURE: TimeSignature = { beats: 4, noteValue: 4 };
+
+const SAMPLE_RATE = 11025;
+const CLICK_LENGTH_SECONDS = 0.03;
+const DOWNBEAT_CLICK = { frequency: 1760, amplitude: 0.9 };
+const BEAT_CLICK = { frequency: 1100, amplitude: 0.55 };
+
+export interface Beat {
+  time: number; // in seconds
+  isDownbeat: boolean;
+}
+
+interface TempoSegment {
+  start: number;
+  bpm: number;
+  timeSignature: TimeSignature;
+}
+
+/**
+ * Checks whether a song has enough tempo information to generate a click.
+ */
+export function hasTempo(song: Song | null | undefined): boolean {
+  return !!song?.bpm && song.bpm > 0;
+}
+
+/**
+ * Parses a time signature written as "6/8".
+ * 
+ * @returns The time signature, or null if the text is not a valid meter
+ */
+export function parseTimeSignature(text: string): TimeSignature | null {
+  const match = text.trim().match(/^(\d{1,2})\s*\/\s*(1|2|4|8|16)$/);
+  if (!match || parseInt(match[1], 10) === 0) return null;
+  return { beats: parseInt(match[1], 10), noteValue: parseInt(match[2], 10) };
+}
+
+export function formatTimeSignature(timeSignature?: TimeSignature): string {
+  const { beats, noteValue } = timeSignature || DEFAULT_TIME_SIGNATURE;
+  return `${beats}/${noteValue}`;
+}
+
+/**
+ * Builds the ordered tempo segments of a song from its base tempo and tempo map.
+ */
+function getTempoSegments(song: Song): TempoSegment[] {
+  const first: TempoSegment = {
+    start: song.firstDownbeat || 0,
+    bpm: song.bpm || 120,
+    timeSignature: song.timeSignature || DEFAULT_TIME_SIGNATURE
+  };
+
+  const changes = [...(song.tempoMap || [])]
+    .filter(change => change.bpm > 0 && change.time > first.start)
+    .sort((a, b) => a.time - b.time);
+
+  const segments = [first];
+  changes.forEach(change => {
+    const previous = segments[segments.length - 1];
+    segments.push({
+      start: change.time,
+      bpm: change.bpm,
+      timeSignature: change.timeSignature || previous.timeSignature
+    });
+  });
+  return segments;
+}
+
+/**
+ * Lists every click of a song up to a duration, following its tempo map.
+ * The bar count restarts on each tempo change, so changes always land on a downbeat.
+ * 
+ * @param song - The song with bpm, time signature and optional tempo map
+ * @param duration - Length to generate in seconds
+ * @returns The beats in playback order
+ */
+export function getBeats(song: Song, duration: number): Beat[] {
+  if (!hasTempo(song)) return [];
+
+  const beats: Beat[] = [];
+  const segments = getTempoSegments(song);
+
+  segments.forEach((segment, index) => {
+    const end = index < segments.length - 1 ? segments[index + 1].start : duration;
+    // Beat length follows the beat unit, so 6/8 clicks eighth notes at the quarter-note bpm
+    const interval = (60 / segment.bpm) * (4 / segment.timeSignature.noteValue);
+
+    for (let beat = 0; segment.start + beat * interval < end - 0.001; beat++) {
+      beats.push({
+        time: segment.start + beat * interval,
+        isDownbeat: beat % segment.timeSignature.beats === 0
+      });
+    }
+  });
+
+  return beats;
+}
+
+/**
+ * Lists the count-in clicks played before starting at a position:
+ * the given number of bars in the tempo and meter in effect there.
+ * 
+ * @returns Beats with times relative to the start of the count-in
+ */
+export function getCountInBeats(song: Song, position: number, bars: number): Beat[] {
+  if (!hasTempo(song) || bars <= 0) return [];
+
+  const segments = getTempoSegments(song);
+  const segment = [...segments].reverse().find(s => s.start <= position) || segments[0];
+  const interval = (60 / segment.bpm) * (4 / segment.timeSignature.noteValue);
+  const total = bars * segment.timeSignature.beats;
+
+  return Array.from({ length: total }, (_, beat) => ({
+    time: beat * interval,
+    isDownbeat: beat % segment.timeSignature.beats === 0
+  }));
+}
+
+/**
+ * Length of a count-in in seconds (at normal speed).
+ */
+export function getCountInDuration(song: Song, position: number, bars: number): number {
+  const beats = getCountInBeats(song, position, bars);
+  if (beats.length < 2) return beats.length === 1 ? 60 / (song.bpm || 120) : 0;
+  return beats[beats.length - 1].time + (beats[1].time - beats[0].time);
+}
+
+function renderClick(frequency: number, amplitude: number): Int16Array {
+  const length = Math.round(CLICK_LENGTH_SECONDS * SAMPLE_RATE);
+  const samples = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    // Sine burst with a fast exponential decay
+    const envelope = Math.exp(-i / (length / 5));
+    samples[i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * envelope * amplitude * 32767);
+  }
+  return samples;
+}
+
+/**
+ * Synthesizes a mono 16-bit WAV containing the given clicks.
+ * Everything is generated locally, so the click works offline.
+ * 
+ * @param beats - Click times in seconds, downbeats accented
+ * @param duration - Total length of the file in seconds
+ * @returns The WAV file encoded as base64
+ */
+export function renderClickWav(beats: Beat[], duration: number): string {
+  const sampleCount = Math.max(1, Math.ceil(duration * SAMPLE_RATE));
+  const dataSize = sampleCount * 2;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // PCM chunk size
+  view.setUint16(20, 1, true); // PCM format
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const samples = new Int16Array(buffer, 44, sampleCount);
+  const downbeatClick = renderClick(DOWNBEAT_CLICK.frequency, DOWNBEAT_CLICK.amplitude);
+  const beatClick = renderClick(BEAT_CLICK.frequency, BEAT_CLICK.amplitude);
+
+  beats.forEach(beat => {
+    const click = beat.isDownbeat ? downbeatClick : beatClick;
+    const offset = Math.round(beat.time * SAMPLE_RATE);
+    const length = Math.min(click.length, sampleCount - offset);
+    if (length > 0) {
+      samples.set(click.subarray(0, length), offset);
+    }
+  });
+
+  return toBase64(new Uint8Array(buffer));
+}
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function toBase64(bytes: Uint8Array): string {
+  const chunks: string[] = [];
+  let chunk = '';
+
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i];
+    const b = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const c = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    const triple = (a << 16) | (b << 8) | c;
+
+    chunk += BASE64_CHARS[(triple >> 18) & 63] + BASE64_CHARS[(triple >> 12) & 63];
+    chunk += i + 1 < bytes.length ? BASE64_CHARS[(triple >> 6) & 63] : '=';
+    chunk += i + 2 < bytes.length ? BASE64_CHARS[triple & 63] : '=';
+
+    // Flush periodically to avoid building one huge string by repeated concatenation
+    if (chunk.length >= 8192) {
+      chunks.push(chunk);
+      chunk = '';
+    }
+  }
+
+  chunks.push(chunk);
+  return chunks.join('');
+}
+
+/**
+ * Short key identifying the click a song's tempo settings produce,
+ * used to name cached click files.
+ */
+export function getTempoSignature(song: Song, duration: number): string {
+  const source = JSON.stringify([song.bpm, song.timeSignature, song.firstDownbeat, song.tempoMap, Math.round(duration)]);
+  let hash = 0;
+  for (let i = 0; i < source.length; i++) {
+    hash = ((hash << 5) - hash + source.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
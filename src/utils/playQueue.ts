@@ -0,0 +1,250 @@
+// Songs kept for "previous"; older ones are forgotten
+const MAX_HISTORY = 200;
+
+export interface QueueContext {
+  name: string; // Playlist name, or "Library" for the song list
+  playlistId?: string;
+}
+
+/**
+ * What plays and in which order. Songs come from the context (a playlist or the
+ * filtered song list) in play order, which is a seeded shuffle when shuffled;
+ * songs the user queues play first. History records what was played, so
+ * "previous" goes back through it and "next" goes forward again.
+ */
+export interface PlayQueue {
+  context: QueueContext;
+  songIds: string[]; // Context songs in their own order
+  order: string[]; // Context songs in play order
+  orderPosition: number; // Index in order of the last song played from it (-1 before the first)
+  shuffled: boolean;
+  seed: number; // Seed of the current shuffle, so a restored queue keeps its order
+  upNext: string[]; // Queued by the user with "play next" or "add to queue"
+  history: string[]; // Songs played, oldest first
+  historyPosition: number; // Index in history of the current song
+}
+
+/**
+ * Deterministic random numbers in [0, 1) for a seed (mulberry32).
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+/**
+ * Shuffles songs the same way for the same seed (Fisher-Yates).
+ *
+ * @param songIds - Songs to shuffle
+ * @param seed - Shuffle seed
+ * @param firstId - Song to keep first, e.g. the one playing when shuffle is turned on
+ * @returns The shuffled songs
+ */
+export function shuffleSongIds(songIds: string[], seed: number, firstId?: string | null): string[] {
+  const random = createRandom(seed);
+  const shuffled = songIds.filter(id => id !== firstId);
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return firstId && songIds.includes(firstId) ? [firstId, ...shuffled] : shuffled;
+}
+
+export function getCurrentSongId(queue: PlayQueue): string | null {
+  return queue.history[queue.historyPosition] ?? null;
+}
+
+function pushHistory(queue: PlayQueue, songId: string): PlayQueue {
+  // Playing something new drops the songs that "next" would have replayed
+  const history = [...queue.history.slice(0, queue.historyPosition + 1), songId].slice(-MAX_HISTORY);
+  return { ...queue, history, historyPosition: history.length - 1 };
+}
+
+/**
+ * A queue for a new context, starting at one of its songs. Songs the user
+ * queued before carry over.
+ *
+ * @param context - The playlist or song list
+ * @param songIds - Its songs in their own order
+ * @param startId - Song to start with
+ * @param shuffled - Whether to shuffle
+ * @param upNext - Songs already queued by the user
+ * @param seed - Shuffle seed
+ * @returns The queue, with startId as the current song
+ */
+export function createQueue(
+  context: QueueContext,
+  songIds: string[],
+  startId: string,
+  shuffled: boolean,
+  upNext: string[] = [],
+  seed: number = createSeed()
+): PlayQueue {
+  const order = shuffled ? shuffleSongIds(songIds, seed, startId) : songIds;
+  return {
+    context,
+    songIds,
+    order,
+    orderPosition: order.indexOf(startId),
+    shuffled,
+    seed,
+    upNext,
+    history: [startId],
+    historyPosition: 0,
+  };
+}
+
+/**
+ * Moves to the next song: forward through history after going back, then the
+ * user's queued songs, then the play order.
+ *
+ * @param queue - The queue
+ * @param repeat - Whether to start the order over at its end (with a new shuffle when shuffled)
+ * @returns The updated queue and the song to play, or null at the end
+ */
+export function advanceQueue(queue: PlayQueue, repeat: boolean): { queue: PlayQueue; songId: string | null } {
+  if (queue.historyPosition < queue.history.length - 1) {
+    const historyPosition = queue.historyPosition + 1;
+    return { queue: { ...queue, historyPosition }, songId: queue.history[historyPosition] };
+  }
+
+  if (queue.upNext.length > 0) {
+    const [songId, ...upNext] = queue.upNext;
+    return { queue: pushHistory({ ...queue, upNext }, songId), songId };
+  }
+
+  let { order, seed } = queue;
+  let orderPosition = queue.orderPosition + 1;
+  if (orderPosition >= order.length) {
+    if (!repeat || queue.songIds.length === 0) return { queue, songId: null };
+    if (queue.shuffled) {
+      // The next shuffle comes from the current one, so the song after the end can be known ahead
+      seed = Math.floor(createRandom(queue.seed)() * 4294967296);
+      order = shuffleSongIds(queue.songIds, seed);
+      // Don't play the last song twice in a row across the reshuffle
+      const last = getCurrentSongId(queue);
+      if (order.length > 1 && order[0] === last) {
+        order = [...order.slice(1), order[0]];
+      }
+    }
+    orderPosition = 0;
+  }
+
+  const songId = order[orderPosition];
+  return { queue: pushHistory({ ...queue, order, seed, orderPosition }, songId), songId };
+}
+
+/**
+ * Moves back to the song played before the current one.
+ *
+ * @param queue - The queue
+ * @returns The updated queue and the song to play, or null at the start of history
+ */
+export function retreatQueue(queue: PlayQueue): { queue: PlayQueue; songId: string | null } {
+  if (queue.historyPosition <= 0) return { queue, songId: null };
+  const historyPosition = queue.historyPosition - 1;
+  return { queue: { ...queue, historyPosition }, songId: queue.history[historyPosition] };
+}
+
+/**
+ * Plays a song picked by the user; the order carries on from it when it is in the context.
+ *
+ * @param queue - The queue
+ * @param songId - The song
+ * @returns The updated queue
+ */
+export function jumpToSong(queue: PlayQueue, songId: string): PlayQueue {
+  const index = queue.order.indexOf(songId);
+  return pushHistory(index >= 0 ? { ...queue, orderPosition: index } : queue, songId);
+}
+
+/**
+ * Turns shuffle on with a new order that starts at the current song, or off
+ * to carry on in the context's own order from the current song.
+ *
+ * @param queue - The queue
+ * @param shuffled - Whether to shuffle
+ * @param seed - Shuffle seed
+ * @returns The updated queue
+ */
+export function setQueueShuffled(queue: PlayQueue, shuffled: boolean, seed: number = createSeed()): PlayQueue {
+  const current = getCurrentSongId(queue);
+  const order = shuffled ? shuffleSongIds(queue.songIds, seed, current) : queue.songIds;
+  return { ...queue, shuffled, seed, order, orderPosition: current ? order.indexOf(current) : -1 };
+}
+
+/**
+ * Takes the context's latest songs (e.g. a smart playlist or the filtered list
+ * changed). Unshuffled, the order simply follows the context; shuffled, songs
+ * that left are dropped and new ones are shuffled in among the songs still to play.
+ *
+ * @param queue - The queue
+ * @param songIds - The context's songs in their own order
+ * @returns The updated queue
+ */
+export function updateQueueSongs(queue: PlayQueue, songIds: string[]): PlayQueue {
+  const kept = new Set(songIds);
+  const played = new Set(queue.order.slice(0, queue.orderPosition + 1));
+  const current = getCurrentSongId(queue);
+
+  let order: string[];
+  if (queue.shuffled) {
+    const known = new Set(queue.order);
+    order = queue.order.filter(id => kept.has(id));
+    const random = createRandom(queue.seed + queue.order.length);
+    songIds.filter(id => !known.has(id)).forEach(id => {
+      const firstUnplayed = order.filter(orderId => played.has(orderId)).length;
+      order.splice(firstUnplayed + Math.floor(random() * (order.length - firstUnplayed + 1)), 0, id);
+    });
+  } else {
+    order = songIds;
+  }
+
+  // When the current song left the context, the order carries on after the songs already played
+  const index = current ? order.indexOf(current) : -1;
+  const orderPosition = index >= 0 ? index : order.filter(id => played.has(id)).length - 1;
+  return { ...queue, songIds, order, orderPosition };
+}
+
+/**
+ * Adds a song to play right after the current one.
+ */
+export function playSongNext(queue: PlayQueue, songId: string): PlayQueue {
+  return { ...queue, upNext: [songId, ...queue.upNext] };
+}
+
+/**
+ * Adds a song after the other queued songs.
+ */
+export function addSongToQueue(queue: PlayQueue, songId: string): PlayQueue {
+  return { ...queue, upNext: [...queue.upNext, songId] };
+}
+
+export function removeQueuedSong(queue: PlayQueue, index: number): PlayQueue {
+  return { ...queue, upNext: queue.upNext.filter((_, i) => i !== index) };
+}
+
+/**
+ * Songs that "next" will play, in order.
+ *
+ * @param queue - The queue
+ * @param count - How many to list
+ * @returns Song ids: forward history, then queued songs, then the play order
+ */
+export function getUpcomingSongIds(queue: PlayQueue, count: number): string[] {
+  return [
+    ...queue.history.slice(queue.historyPosition + 1),
+    ...queue.upNext,
+    ...queue.order.slice(queue.orderPosition + 1),
+  ].slice(0, count);
+}
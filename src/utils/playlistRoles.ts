@@ -0,0 +1,33 @@
+import { Playlist, PlaylistRole } from '../types/playlist';
+
+export type PlaylistAccess = 'owner' | PlaylistRole;
+
+/**
+ * What a user may do with a playlist. A direct role wins over a group role;
+ * between groups the stronger role wins. Members of the group a setlist is
+ * planned for, and anyone for a public playlist, can view it.
+ *
+ * @param playlist - The playlist
+ * @param userId - The user
+ * @param groupIds - Groups the user belongs to
+ * @returns The user's access, or null when the playlist is not shared with them
+ */
+export function getPlaylistAccess(playlist: Playlist, userId: string, groupIds: string[]): PlaylistAccess | null {
+  if (playlist.userId === userId) return 'owner';
+
+  const userRole = playlist.collaborators?.users?.[userId]?.role;
+  if (userRole) return userRole;
+
+  const groupRoles = groupIds
+    .map(groupId => playlist.collaborators?.groups?.[groupId]?.role)
+    .filter((role): role is PlaylistRole => !!role);
+  if (groupRoles.includes('editor')) return 'editor';
+  if (groupRoles.length > 0) return 'viewer';
+
+  if (playlist.event?.groupId && groupIds.includes(playlist.event.groupId)) return 'viewer';
+  return playlist.isPublic ? 'viewer' : null;
+}
+
+export function canEditPlaylist(access: PlaylistAccess | null): boolean {
+  return access === 'owner' || access === 'editor';
+}
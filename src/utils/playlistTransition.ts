@@ -0,0 +1,58 @@
+import { Playlist, PlaylistTransition } from '../types/playlist';
+
+// Songs play back to back, without the gap of loading the next one
+export const DEFAULT_TRANSITION: PlaylistTransition = {
+  gapSeconds: 0,
+  crossfadeSeconds: 0,
+  pauseBetweenSongs: false,
+};
+
+export function getPlaylistTransition(playlist: Playlist | null | undefined): PlaylistTransition {
+  return { ...DEFAULT_TRANSITION, ...playlist?.transition };
+}
+
+/**
+ * When the next song should start fading in. The crossfade length is wall-clock
+ * time, so at a slower rate it covers less of the song.
+ *
+ * @param transition - The playlist's transition
+ * @param songEnd - Where the current song ends, in seconds (its last planned section in a setlist)
+ * @param rate - Playback rate of the current song
+ * @returns Position in seconds to start the crossfade at, or null when songs don't overlap
+ */
+export function getCrossfadeStart(transition: PlaylistTransition, songEnd: number, rate: number = 1): number | null {
+  if (transition.pauseBetweenSongs || transition.crossfadeSeconds <= 0 || songEnd <= 0) return null;
+  // A short song fades for half its length at most
+  return songEnd - Math.min(transition.crossfadeSeconds * rate, songEnd / 2);
+}
+
+/**
+ * Equal-power gains for a point in a crossfade, so the overall level stays even.
+ *
+ * @param progress - How far through the crossfade, from 0 to 1
+ * @returns Gains of the song fading out and the song fading in
+ */
+export function getCrossfadeGains(progress: number): { outgoing: number; incoming: number } {
+  const clamped = Math.max(0, Math.min(1, progress));
+  return {
+    outgoing: Math.cos(clamped * Math.PI / 2),
+    incoming: Math.sin(clamped * Math.PI / 2),
+  };
+}
+
+/**
+ * Short description of a transition, e.g. "4s crossfade · Pause between songs".
+ *
+ * @param transition - The playlist's transition
+ * @returns The description, or "Back to back" for the default
+ */
+export function describeTransition(transition: PlaylistTransition): string {
+  const parts: string[] = [];
+  if (transition.crossfadeSeconds > 0 && !transition.pauseBetweenSongs) {
+    parts.push(`${transition.crossfadeSeconds}s crossfade`);
+  } else if (transition.gapSeconds > 0 && !transition.pauseBetweenSongs) {
+    parts.push(`${transition.gapSeconds}s gap`);
+  }
+  if (transition.pauseBetweenSongs) parts.push('Pause between songs');
+  return parts.length > 0 ? parts.join(' · ') : 'Back to back';
+}
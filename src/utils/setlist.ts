@@ -0,0 +1,233 @@
+import { Playlist, PlaylistItem, PlaylistItemOverrides, Setlist, SetlistEvent } from '../types/playlist';
+import { Song } from '../types/song';
+import { getKeyDistance } from './chordPro';
+import { sortMarkers } from './songMarkers';
+
+// Playback rates the players handle without artifacts
+const MIN_RATE = 0.5;
+const MAX_RATE = 2;
+
+export interface SectionRange {
+  start: number; // in seconds
+  end: number;
+}
+
+export function isSetlist(playlist: Playlist | null | undefined): playlist is Setlist {
+  return !!playlist?.event;
+}
+
+/**
+ * Finds the item of a playlist that holds a song.
+ *
+ * @param playlist - The playlist
+ * @param songId - The song
+ * @returns The item, or null when the song is not in the playlist
+ */
+export function getPlaylistItem(playlist: Playlist | null | undefined, songId: string): PlaylistItem | null {
+  return playlist?.songs.find(item => item.songId === songId) || null;
+}
+
+/**
+ * Key shift that plays a song in its setlist key.
+ *
+ * @param song - The song
+ * @param overrides - The setlist item's overrides
+ * @returns Semitones to shift the mix (0 without a key override or when the song has no key)
+ */
+export function getOverridePitchShift(song: Song, overrides?: PlaylistItemOverrides): number {
+  if (!overrides?.key || !song.key) return 0;
+  return getKeyDistance(song.key, overrides.key) ?? 0;
+}
+
+/**
+ * Playback rate that plays a song at its setlist tempo.
+ *
+ * @param song - The song
+ * @param overrides - The setlist item's overrides
+ * @returns Rate between 0.5 and 2 (1 without a tempo override or when the song has no bpm)
+ */
+export function getOverrideRate(song: Song, overrides?: PlaylistItemOverrides): number {
+  if (!overrides?.bpm || !song.bpm) return 1;
+  const rate = Math.round((overrides.bpm / song.bpm) * 100) / 100;
+  return Math.max(MIN_RATE, Math.min(MAX_RATE, rate));
+}
+
+/**
+ * Stretches of the song to play for a selection of sections. Each section runs
+ * from its marker to the next one; neighbouring sections join into one range.
+ *
+ * @param song - The song
+ * @param sectionIds - Markers of the sections to play (all when empty or missing)
+ * @param duration - Song duration in seconds
+ * @returns Ranges in song order, or an empty list to play the whole song
+ */
+export function getSectionRanges(song: Song, sectionIds: string[] | undefined, duration: number): SectionRange[] {
+  const markers = sortMarkers(song.markers);
+  if (!sectionIds?.length || markers.length === 0) return [];
+
+  const ranges: SectionRange[] = [];
+  markers.forEach((marker, index) => {
+    if (!sectionIds.includes(marker.id)) return;
+    const end = index < markers.length - 1 ? markers[index + 1].time : duration;
+    const last = ranges[ranges.length - 1];
+    if (last && last.end === marker.time) {
+      last.end = end;
+    } else {
+      ranges.push({ start: marker.time, end });
+    }
+  });
+  return ranges;
+}
+
+/**
+ * Where playback has to jump to skip the sections that are left out.
+ *
+ * @param ranges - Sections to play (see getSectionRanges)
+ * @param position - Playhead position in seconds
+ * @param duration - Song duration in seconds
+ * @returns The position to seek to, the duration once the last section is over, or null to keep playing
+ */
+export function getSectionJump(ranges: SectionRange[], position: number, duration: number): number | null {
+  if (ranges.length === 0) return null;
+  if (ranges.some(range => position >= range.start && position < range.end)) return null;
+
+  const next = ranges.find(range => range.start > position);
+  return next ? next.start : duration;
+}
+
+/**
+ * Date and time of an event for display, e.g. "Sun, Oct 25, 2026 · 10:30".
+ *
+ * @param event - The setlist's event
+ * @returns The formatted date
+ */
+export function formatEventDate(event: SetlistEvent): string {
+  const [year, month, day] = event.date.split('-').map(Number);
+  const date = new Date(year, (month || 1) - 1, day || 1);
+  const formatted = isNaN(date.getTime())
+    ? event.date
+    : date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+  return event.time ? `${formatted} · ${event.time}` : formatted;
+}
+
+interface RunSheetRow {
+  number: number;
+  title: string;
+  artist: string;
+  key: string;
+  tempo: string;
+  sections: string;
+  leader: string;
+  notes: string;
+}
+
+function getRunSheetRows(setlist: Setlist, songs: Song[]): RunSheetRow[] {
+  return [...setlist.songs]
+    .sort((a, b) => a.position - b.position)
+    .map((item, index) => {
+      const song = songs.find(candidate => candidate.id === item.songId);
+      const overrides = item.overrides || {};
+      const sectionLabels = sortMarkers(song?.markers)
+        .filter(marker => overrides.sectionIds?.includes(marker.id))
+        .map(marker => marker.label);
+      const bpm = overrides.bpm ?? song?.bpm;
+
+      return {
+        number: index + 1,
+        title: item.songTitle,
+        artist: item.songArtist,
+        key: overrides.key || song?.key || '',
+        tempo: bpm ? `${bpm} bpm` : '',
+        sections: sectionLabels.length > 0 ? sectionLabels.join(', ') : 'Full song',
+        leader: overrides.leader || '',
+        notes: item.notes || '',
+      };
+    });
+}
+
+function getRunSheetHeading(setlist: Setlist): string[] {
+  return [
+    formatEventDate(setlist.event),
+    setlist.event.venue,
+    setlist.event.groupName
+  ].filter((part): part is string => !!part);
+}
+
+/**
+ * Plain-text run sheet of a setlist, for sharing from a phone.
+ *
+ * @param setlist - The setlist
+ * @param songs - The setlist's songs, for their keys, tempos and sections
+ * @returns The run sheet
+ */
+export function formatRunSheetText(setlist: Setlist, songs: Song[]): string {
+  const lines = [setlist.name, getRunSheetHeading(setlist).join(' · ')];
+  if (setlist.description) lines.push(setlist.description);
+  lines.push('');
+
+  getRunSheetRows(setlist, songs).forEach(row => {
+    const details = [row.key && `Key ${row.key}`, row.tempo, row.leader && `Led by ${row.leader}`].filter(Boolean);
+    lines.push(`${row.number}. ${row.title} – ${row.artist}`);
+    if (details.length > 0) lines.push(`   ${details.join(' · ')}`);
+    lines.push(`   ${row.sections}`);
+    if (row.notes) lines.push(`   ${row.notes}`);
+  });
+
+  return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Printable run sheet of a setlist: a single page with one table row per song.
+ *
+ * @param setlist - The setlist
+ * @param songs - The setlist's songs, for their keys, tempos and sections
+ * @returns A complete HTML document
+ */
+export function formatRunSheetHtml(setlist: Setlist, songs: Song[]): string {
+  const rows = getRunSheetRows(setlist, songs).map(row => `
+      <tr>
+        <td>${row.number}</td>
+        <td><strong>${escapeHtml(row.title)}</strong><br><span class="muted">${escapeHtml(row.artist)}</span></td>
+        <td>${escapeHtml(row.key)}</td>
+        <td>${escapeHtml(row.tempo)}</td>
+        <td>${escapeHtml(row.sections)}</td>
+        <td>${escapeHtml(row.leader)}</td>
+        <td>${escapeHtml(row.notes)}</td>
+      </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(setlist.name)}</title>
+  <style>
+    body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #000; margin: 24px; }
+    h1 { margin: 0 0 4px; font-size: 22px; }
+    .muted { color: #555; }
+    table { width: 100%; border-collapse: collapse; margin-top: 16px; font-size: 13px; }
+    th, td { border-bottom: 1px solid #ccc; padding: 6px 8px; text-align: left; vertical-align: top; }
+    th { font-size: 11px; text-transform: uppercase; color: #555; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(setlist.name)}</h1>
+  <div class="muted">${escapeHtml(getRunSheetHeading(setlist).join(' · '))}</div>
+  ${setlist.description ? `<p>${escapeHtml(setlist.description)}</p>` : ''}
+  <table>
+    <thead>
+      <tr><th>#</th><th>Song</th><th>Key</th><th>Tempo</th><th>Sections</th><th>Leader</th><th>Notes</th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+</body>
+</html>`;
+}
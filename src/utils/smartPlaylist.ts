@@ -0,0 +1,214 @@
+import { Playlist, SmartPlaylist, SmartPlaylistRules } from '../types/playlist';
+import { Song } from '../types/song';
+import { FilterState, SongPlayStats } from '../types/user';
+import { getVoicePartTracks } from './trackMetadata';
+import { matchesSearch, matchesLyricsSearch, normalizeSearchText } from './textNormalization';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Filters that let every song through
+export const EMPTY_FILTERS: FilterState = {
+  searchQuery: '',
+  selectedArtists: [],
+  selectedAlbums: [],
+  showFavoritesOnly: false,
+  hasTracks: false,
+  hasLyrics: false,
+  hasScores: false,
+  hasLinks: false,
+  voiceParts: [],
+  sortOrder: 'asc',
+};
+
+export interface SongMatchInfo {
+  titleMatch: boolean;
+  artistMatch: boolean;
+  lyricsMatch: boolean;
+  priority: number; // Title matches rank above artist matches, which rank above lyrics matches
+}
+
+export type FilteredSong = Song & { matchInfo?: SongMatchInfo };
+
+export function isSmartPlaylist(playlist: Playlist | null | undefined): playlist is SmartPlaylist {
+  return !!playlist?.smart;
+}
+
+/**
+ * Whether a user may see a song in the library.
+ *
+ * @param song - The song
+ * @param userId - The user
+ * @param groupIds - Groups the user belongs to
+ * @returns True for public songs, the user's own songs and songs shared with them or their groups
+ */
+export function canViewSong(song: Song, userId: string, groupIds: string[]): boolean {
+  const accessControl = song.accessControl;
+  if (!accessControl || accessControl.visibility === 'public') return true;
+  if (song.createdBy === userId) return true;
+  if (accessControl.allowedUsers?.includes(userId)) return true;
+  if (accessControl.visibility === 'group_restricted' && accessControl.allowedGroups) {
+    return accessControl.allowedGroups.some(groupId => groupIds.includes(groupId));
+  }
+  return false;
+}
+
+/**
+ * Applies the song list filters: artists, albums, favorites, content, voice
+ * parts and search. With a search, the best matches come first.
+ *
+ * @param songs - Songs to filter
+ * @param filters - The filters
+ * @param favoriteIds - The user's favorite songs
+ * @returns Matching songs in list order; with a search, each carries its match info
+ */
+export function filterSongs(songs: Song[], filters: FilterState, favoriteIds: Set<string>): FilteredSong[] {
+  let filtered = songs;
+
+  if (filters.selectedArtists.length > 0) {
+    filtered = filtered.filter(song => filters.selectedArtists.includes(song.artist));
+  }
+  if (filters.selectedAlbums.length > 0) {
+    filtered = filtered.filter(song => !!song.album && filters.selectedAlbums.includes(song.album));
+  }
+  if (filters.showFavoritesOnly) {
+    filtered = filtered.filter(song => favoriteIds.has(song.id));
+  }
+  if (filters.hasTracks) {
+    filtered = filtered.filter(song => song.tracks && song.tracks.length > 0);
+  }
+  if (filters.hasLyrics) {
+    filtered = filtered.filter(song => song.lyrics && song.lyrics.trim().length > 0);
+  }
+  if (filters.hasScores) {
+    filtered = filtered.filter(song => song.scores && song.scores.length > 0);
+  }
+  if (filters.hasLinks) {
+    filtered = filtered.filter(song => song.resources && song.resources.length > 0);
+  }
+  // "Songs that have a tenor stem"
+  const voiceParts = filters.voiceParts || [];
+  if (voiceParts.length > 0) {
+    filtered = filtered.filter(song => voiceParts.every(part => getVoicePartTracks(song, part).length > 0));
+  }
+
+  const compareTitles = (a: Song, b: Song) => {
+    const titleA = a.title.toLowerCase();
+    const titleB = b.title.toLowerCase();
+    return filters.sortOrder === 'desc' ? titleB.localeCompare(titleA) : titleA.localeCompare(titleB);
+  };
+
+  if (!filters.searchQuery?.trim()) {
+    return [...filtered].sort(compareTitles);
+  }
+
+  const query = filters.searchQuery;
+  return filtered
+    .map(song => {
+      const titleMatch = matchesSearch(query, song.title);
+      const artistMatch = matchesSearch(query, song.artist);
+      const lyricsMatch = !!((song.lyrics && matchesLyricsSearch(query, song.lyrics)) ||
+        (song.chordChart && matchesLyricsSearch(query, song.chordChart)));
+      const priority = (titleMatch ? 3 : 0) + (artistMatch ? 2 : 0) + (lyricsMatch ? 1 : 0);
+      return { ...song, matchInfo: { titleMatch, artistMatch, lyricsMatch, priority } };
+    })
+    .filter(song => song.matchInfo.priority > 0)
+    .sort((a, b) => (b.matchInfo.priority - a.matchInfo.priority) || compareTitles(a, b));
+}
+
+/**
+ * Songs of a smart playlist, worked out from the library as it is now.
+ *
+ * @param rules - The smart playlist's rules
+ * @param songs - Songs the listener can see
+ * @param favoriteIds - The listener's favorite songs
+ * @param plays - The listener's play counts per song
+ * @param now - Current time in ms, for "added in the last N days"
+ * @returns Matching songs in list order
+ */
+export function getSmartPlaylistSongs(
+  rules: SmartPlaylistRules,
+  songs: Song[],
+  favoriteIds: Set<string>,
+  plays: { [songId: string]: SongPlayStats },
+  now: number = Date.now()
+): Song[] {
+  let matching: Song[] = filterSongs(songs, rules.filters, favoriteIds);
+
+  if (rules.addedWithinDays) {
+    const since = now - rules.addedWithinDays * DAY_MS;
+    // Songs saved before dates were recorded count as old
+    matching = matching.filter(song => song.createdAt && new Date(song.createdAt).getTime() >= since);
+  }
+  if (rules.playStatus === 'never') {
+    matching = matching.filter(song => !plays[song.id]?.count);
+  } else if (rules.playStatus === 'played') {
+    matching = matching.filter(song => !!plays[song.id]?.count);
+  }
+  if (rules.tags?.length) {
+    const wanted = rules.tags.map(normalizeSearchText);
+    matching = matching.filter(song => (song.tags || []).some(tag => wanted.includes(normalizeSearchText(tag))));
+  }
+
+  // Drop the search match info so the songs play like any others
+  const result = matching.map(({ matchInfo: _matchInfo, ...song }: FilteredSong) => song);
+  return rules.limit ? result.slice(0, rules.limit) : result;
+}
+
+/**
+ * Tags used across the library, for suggestions.
+ *
+ * @param songs - The library
+ * @returns Distinct tags in alphabetical order
+ */
+export function getLibraryTags(songs: Song[]): string[] {
+  const tags = new Map<string, string>();
+  songs.forEach(song => (song.tags || []).forEach(tag => {
+    const key = normalizeSearchText(tag);
+    if (key && !tags.has(key)) tags.set(key, tag.trim());
+  }));
+  return Array.from(tags.values()).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Splits a comma-separated list of tags as typed by the user.
+ *
+ * @param text - e.g. "Christmas, Advent"
+ * @returns Trimmed tags without blanks or repeats
+ */
+export function parseTags(text: string): string[] {
+  const seen = new Set<string>();
+  return text.split(',')
+    .map(tag => tag.trim())
+    .filter(tag => {
+      const key = normalizeSearchText(tag);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Short description of a smart playlist's rules, e.g. "Favorites · Added in the last 30 days · Tagged Christmas".
+ *
+ * @param rules - The smart playlist's rules
+ * @returns The description, or "All songs" when nothing narrows the library
+ */
+export function describeSmartRules(rules: SmartPlaylistRules): string {
+  const filters = rules.filters;
+  const parts: string[] = [];
+  if (filters.searchQuery?.trim()) parts.push(`"${filters.searchQuery.trim()}"`);
+  if (filters.selectedArtists.length > 0) parts.push(filters.selectedArtists.join(', '));
+  if (filters.selectedAlbums.length > 0) parts.push(filters.selectedAlbums.join(', '));
+  if (filters.showFavoritesOnly) parts.push('Favorites');
+  if (filters.hasTracks) parts.push('With tracks');
+  if (filters.hasLyrics) parts.push('With lyrics');
+  if (filters.hasScores) parts.push('With scores');
+  if (filters.hasLinks) parts.push('With links');
+  if (filters.voiceParts?.length) parts.push(`Parts ${filters.voiceParts.join('')}`);
+  if (rules.addedWithinDays) parts.push(`Added in the last ${rules.addedWithinDays} days`);
+  if (rules.playStatus === 'never') parts.push('Never played');
+  if (rules.playStatus === 'played') parts.push('Played before');
+  if (rules.tags?.length) parts.push(`Tagged ${rules.tags.join(', ')}`);
+  if (rules.limit) parts.push(`Up to ${rules.limit} songs`);
+  return parts.length > 0 ? parts.join(' · ') : 'All songs';
+}
@@ -0,0 +1,61 @@
+import { SongMarker } from '../types/song';
+
+export const MARKER_COLORS = ['#BB86FC', '#03DAC6', '#FFB74D', '#4CAF50', '#FF5252', '#64B5F6'];
+
+// Within this many seconds after a marker, "previous section" skips to the one before it
+const PREVIOUS_SECTION_GRACE = 2;
+
+/**
+ * Returns the song's markers ordered by time.
+ * 
+ * @param markers - The markers stored on the song (may be missing)
+ * @returns A new array sorted by ascending time
+ */
+export function sortMarkers(markers?: SongMarker[]): SongMarker[] {
+  return [...(markers || [])].sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Finds the section the playhead is currently in.
+ * 
+ * @param markers - The song's markers
+ * @param position - Playhead position in seconds
+ * @returns The last marker at or before the position, or null before the first marker
+ */
+export function getCurrentMarker(markers: SongMarker[] | undefined, position: number): SongMarker | null {
+  const sorted = sortMarkers(markers);
+  let current: SongMarker | null = null;
+  for (const marker of sorted) {
+    if (marker.time <= position) {
+      current = marker;
+    } else {
+      break;
+    }
+  }
+  return current;
+}
+
+/**
+ * Finds the marker that starts the next section.
+ * 
+ * @param markers - The song's markers
+ * @param position - Playhead position in seconds
+ * @returns The first marker after the position, or null in the last section
+ */
+export function getNextMarker(markers: SongMarker[] | undefined, position: number): SongMarker | null {
+  return sortMarkers(markers).find(marker => marker.time > position + 0.05) || null;
+}
+
+/**
+ * Finds the marker to jump to for "previous section".
+ * Like a CD player's back button: restarts the current section unless the
+ * playhead is right at its start, in which case it goes to the one before.
+ * 
+ * @param markers - The song's markers
+ * @param position - Playhead position in seconds
+ * @returns The marker to jump to, or null to go back to the start of the song
+ */
+export function getPreviousMarker(markers: SongMarker[] | undefined, position: number): SongMarker | null {
+  const earlier = sortMarkers(markers).filter(marker => marker.time < position - PREVIOUS_SECTION_GRACE);
+  return earlier.length > 0 ? earlier[earlier.length - 1] : null;
+}
@@ -1,3 +1,5 @@
+import { stripChords } from './chordPro';
+
 /**
  * Normalizes text for search by removing diacritics (accents) and converting to lowercase.
  * This allows searching "salvação" to match "salvacao" and "glória" to match "gloria".
@@ -37,6 +39,19 @@ export function matchesSearch(query: string, target: string): boolean {
   return normalizedTarget.includes(normalizedQuery);
 }
 
+/**
+ * Checks if the search query matches lyrics or a chord chart.
+ * Chord symbols (inline [G] tokens or chord lines above lyrics) are ignored,
+ * so "amazing" still matches "A[D]mazing grace".
+ * 
+ * @param query - The search query
+ * @param lyrics - Lyrics that may contain chords
+ * @returns True if the normalized query is found in the lyric text
+ */
+export function matchesLyricsSearch(query: string, lyrics: string): boolean {
+  return matchesSearch(query, stripChords(lyrics));
+}
+
 /**
  * Finds all matches of the query in the target text, returning the original text positions.
  * This is useful for highlighting where matches occur in the original text.
@@ -0,0 +1,83 @@
+import { Track, TrackBus } from '../types/song';
+import { BusState, SongBusStates } from '../services/trackStateService';
+
+/**
+ * Finds the bus a track is grouped into.
+ * 
+ * @param buses - The song's buses (may be missing)
+ * @param trackId - The track to look up
+ * @returns The first bus containing the track, or null for ungrouped tracks
+ */
+export function getTrackBus(buses: TrackBus[] | undefined, trackId: string): TrackBus | null {
+  return (buses || []).find(bus => (bus.trackIds || []).includes(trackId)) || null;
+}
+
+/**
+ * Resolves the fader, mute and solo of a bus, preferring the user's override.
+ * 
+ * @param bus - The bus stored on the song
+ * @param busStates - The user's bus overrides for the song
+ * @returns The state the bus is mixed with
+ */
+export function getBusState(bus: TrackBus, busStates: SongBusStates | undefined): BusState {
+  return busStates?.[bus.id] || { solo: false, mute: false, volume: bus.volume ?? 1 };
+}
+
+/**
+ * Computes the gain a track's bus applies on top of the track's own volume.
+ * A muted bus silences its tracks; once any bus is soloed, tracks in the
+ * other buses are silenced. Ungrouped tracks (and the click) are never
+ * affected by bus solo.
+ * 
+ * @param buses - The song's buses
+ * @param busStates - The user's bus overrides for the song
+ * @param trackId - The track being mixed
+ * @returns A gain from 0 to 1
+ */
+export function getBusGain(
+  buses: TrackBus[] | undefined,
+  busStates: SongBusStates | undefined,
+  trackId: string
+): number {
+  const bus = getTrackBus(buses, trackId);
+  if (!bus) return 1;
+
+  const state = getBusState(bus, busStates);
+  if (state.mute) return 0;
+
+  const anyBusSoloed = (buses || []).some(other => getBusState(other, busStates).solo);
+  if (anyBusSoloed && !state.solo) return 0;
+
+  return state.volume;
+}
+
+/**
+ * Lists the song's tracks that belong to a bus, in track order.
+ * 
+ * @param bus - The bus
+ * @param tracks - The song's tracks
+ * @returns The bus members that still exist on the song
+ */
+export function getBusTracks(bus: TrackBus, tracks: Track[] | undefined): Track[] {
+  return (tracks || []).filter(track => (bus.trackIds || []).includes(track.id));
+}
+
+/**
+ * Assigns tracks to a bus, taking them out of any other bus.
+ * 
+ * @param buses - The song's buses
+ * @param bus - The bus to add or replace (matched by id)
+ * @returns The updated bus list; buses left without tracks are kept
+ */
+export function upsertBus(buses: TrackBus[] | undefined, bus: TrackBus): TrackBus[] {
+  const others = (buses || [])
+    .filter(existing => existing.id !== bus.id)
+    .map(existing => ({
+      ...existing,
+      trackIds: (existing.trackIds || []).filter(trackId => !bus.trackIds.includes(trackId))
+    }));
+  const index = (buses || []).findIndex(existing => existing.id === bus.id);
+  if (index === -1) return [...others, bus];
+  others.splice(index, 0, bus);
+  return others;
+}
@@ -0,0 +1,148 @@
+import { Song, Track, TrackRole, VoicePart } from '../types/song';
+import { VoicePartPreference } from '../types/user';
+
+export const VOICE_PARTS: VoicePart[] = ['S', 'A', 'T', 'B'];
+
+export const VOICE_PART_LABELS: { [part in VoicePart]: string } = {
+  S: 'Soprano',
+  A: 'Alto',
+  T: 'Tenor',
+  B: 'Bass'
+};
+
+export const TRACK_ROLES: TrackRole[] = ['vocal', 'instrument', 'click', 'guide'];
+
+export const TRACK_ROLE_LABELS: { [role in TrackRole]: string } = {
+  vocal: 'Vocal',
+  instrument: 'Instrument',
+  click: 'Click',
+  guide: 'Guide'
+};
+
+// Names (English and Spanish) recognised as each voice part, matched on word boundaries
+const VOICE_PART_NAMES: { [part in VoicePart]: string[] } = {
+  S: ['s', 'soprano', 'sopranos', 'sop', 'tiple'],
+  A: ['a', 'alto', 'altos', 'contralto', 'contraltos'],
+  T: ['t', 'tenor', 'tenors', 'tenores', 'ten'],
+  B: ['b', 'bass', 'basses', 'bajo', 'bajos', 'baritone', 'baritono', 'barítono']
+};
+
+// "Bass" and "Bajo" on their own are far more often the bass guitar than the bass voice
+const INSTRUMENT_PART_NAMES = ['bass', 'bajo'];
+
+const CLICK_NAMES = ['click', 'metronome', 'metronomo', 'metrónomo', 'clic'];
+const GUIDE_NAMES = ['guide', 'guia', 'guía', 'cues', 'cue', 'count', 'conteo'];
+const VOCAL_NAMES = ['vocal', 'vocals', 'voice', 'voz', 'voces', 'choir', 'coro', 'lead', 'bgv'];
+const INSTRUMENT_NAMES = [
+  'guitar', 'guitars', 'guitarra', 'guitarras', 'gtr', 'eg', 'ag', 'acoustic', 'electric', 'acustica', 'acústica', 'electrica', 'eléctrica',
+  'piano', 'keys', 'keyboard', 'keyboards', 'teclado', 'teclados', 'organ', 'organo', 'órgano', 'synth', 'synths', 'pad', 'pads',
+  'drums', 'drum', 'kick', 'snare', 'bateria', 'batería', 'perc', 'percussion', 'percusion', 'percusión', 'loop', 'loops',
+  'strings', 'cuerdas', 'violin', 'violín', 'cello', 'sax', 'trumpet', 'trompeta', 'brass', 'metales', 'horns'
+];
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9áéíóúñ]+/).filter(Boolean);
+}
+
+/**
+ * Parses a voice part from a letter or a part name ("T", "tenor", "Bajos").
+ * 
+ * @param text - User or assistant supplied part
+ * @returns The voice part, or null if the text names none
+ */
+export function parseVoicePart(text: string | undefined | null): VoicePart | null {
+  if (!text) return null;
+  const normalized = text.trim().toLowerCase();
+  return VOICE_PARTS.find(part => VOICE_PART_NAMES[part].includes(normalized)) || null;
+}
+
+/**
+ * Guesses metadata from a track name, as a suggestion in the track metadata dialog.
+ * Single letters only count as a voice part when the whole name is that letter,
+ * "Bass" and "Bajo" only next to a vocal word, and names with an instrument word
+ * ("Bass Guitar", "Lead Guitar") are never taken for a voice.
+ * 
+ * @param name - The track name (e.g. "Tenor 1", "Click", "Piano")
+ * @returns The role and voice part that could be inferred
+ */
+export function guessTrackMetadata(name: string): Pick<Track, 'role' | 'voicePart'> {
+  const tokens = tokenize(name);
+  if (tokens.some(token => CLICK_NAMES.includes(token))) return { role: 'click' };
+  if (tokens.some(token => GUIDE_NAMES.includes(token))) return { role: 'guide' };
+  if (tokens.some(token => INSTRUMENT_NAMES.includes(token))) return { role: 'instrument' };
+
+  const hasVocalWord = tokens.some(token => VOCAL_NAMES.includes(token));
+  const voicePart = VOICE_PARTS.find(part =>
+    VOICE_PART_NAMES[part].some(partName => {
+      if (partName.length === 1) return tokens.length === 1 && tokens[0] === partName;
+      if (INSTRUMENT_PART_NAMES.includes(partName) && !hasVocalWord) return false;
+      return tokens.includes(partName);
+    })
+  );
+  if (voicePart) return { role: 'vocal', voicePart };
+  if (hasVocalWord) return { role: 'vocal' };
+  if (tokens.some(token => INSTRUMENT_PART_NAMES.includes(token))) return { role: 'instrument' };
+  return {};
+}
+
+/**
+ * Finds the tracks of a song that carry a voice part.
+ * 
+ * @param song - The song
+ * @param part - The voice part
+ * @returns Tracks tagged with the part
+ */
+export function getVoicePartTracks(song: Song, part: VoicePart): Track[] {
+  return (song.tracks || []).filter(track => track.voicePart === part);
+}
+
+/**
+ * Lists the voice parts a song has stems for, in S/A/T/B order.
+ * 
+ * @param song - The song
+ * @returns The parts present on at least one track
+ */
+export function getSongVoiceParts(song: Song): VoicePart[] {
+  return VOICE_PARTS.filter(part => getVoicePartTracks(song, part).length > 0);
+}
+
+/**
+ * Computes the starting volumes of a song's tracks for a singer's part.
+ * The part is raised and the other voices lowered relative to each track's
+ * default gain; instruments and the click keep their default. Volumes are
+ * scaled down together if the boost would push any track above full volume.
+ * Only tracks whose role or part was set explicitly count as voices; names are
+ * not guessed, so a misread stem never gets boosted or lowered.
+ * 
+ * @param tracks - The song's tracks
+ * @param preference - The user's part and gains
+ * @returns Volumes (0-1) by track id, or null if no track carries the part
+ */
+export function getVoicePartVolumes(
+  tracks: Track[] | undefined,
+  preference: VoicePartPreference
+): { [trackId: string]: number } | null {
+  const songTracks = tracks || [];
+  if (!songTracks.some(track => track.voicePart === preference.voicePart)) return null;
+
+  const dbToGain = (db: number) => Math.pow(10, db / 20);
+  const volumes: { [trackId: string]: number } = {};
+  songTracks.forEach(track => {
+    const base = track.defaultGain ?? 1;
+    const isVoice = track.role === 'vocal' || track.role === 'guide';
+    if (track.voicePart === preference.voicePart) {
+      volumes[track.id] = base * dbToGain(preference.boostDb);
+    } else if (isVoice && track.voicePart) {
+      volumes[track.id] = base * dbToGain(preference.othersDb);
+    } else {
+      volumes[track.id] = base;
+    }
+  });
+
+  const loudest = Math.max(...Object.values(volumes));
+  const scale = loudest > 1 ? 1 / loudest : 1;
+  Object.keys(volumes).forEach(trackId => {
+    volumes[trackId] = Math.round(volumes[trackId] * scale * 100) / 100;
+  });
+  return volumes;
+}
@@ -0,0 +1,110 @@
+// Resolution of stored peaks; scripts/generateWaveforms.js must use the same value
+export const PEAKS_PER_SECOND = 50;
+
+export interface WaveformPeaks {
+  version: 1;
+  peaksPerSecond: number;
+  duration: number; // in seconds
+  peaks: number[]; // Highest absolute sample (0-1) of each slice, across channels
+}
+
+/**
+ * Storage path of the peaks file kept next to an audio file.
+ * 
+ * @param audioPath - Storage path of the track (e.g. "audio/song/Song - Tenor.mp3")
+ * @returns The peaks path (e.g. "audio/song/Song - Tenor.peaks.json")
+ */
+export function getPeaksPath(audioPath: string): string {
+  return `${audioPath.replace(/\.[^/.]+$/, '')}.peaks.json`;
+}
+
+/**
+ * Reduces decoded audio to one peak per slice of 1/PEAKS_PER_SECOND seconds.
+ * 
+ * @param channels - Decoded samples of each channel
+ * @param sampleRate - Sample rate of the decoded audio
+ * @returns The peaks, rounded to two decimals to keep the file small
+ */
+export function computePeaks(channels: Float32Array[], sampleRate: number): WaveformPeaks {
+  const length = channels[0]?.length || 0;
+  const samplesPerPeak = Math.max(1, Math.floor(sampleRate / PEAKS_PER_SECOND));
+  const peaks: number[] = [];
+
+  for (let start = 0; start < length; start += samplesPerPeak) {
+    const end = Math.min(length, start + samplesPerPeak);
+    let peak = 0;
+    for (const channel of channels) {
+      for (let i = start; i < end; i++) {
+        const value = Math.abs(channel[i]);
+        if (value > peak) peak = value;
+      }
+    }
+    peaks.push(Math.round(Math.min(1, peak) * 100) / 100);
+  }
+
+  return {
+    version: 1,
+    peaksPerSecond: PEAKS_PER_SECOND,
+    duration: length / sampleRate,
+    peaks
+  };
+}
+
+/**
+ * Resamples the peaks of a time window into a fixed number of bars for drawing.
+ * 
+ * @param waveform - The stored peaks
+ * @param start - Window start in seconds
+ * @param end - Window end in seconds
+ * @param count - Number of bars
+ * @returns The highest peak under each bar (0 past the end of the audio)
+ */
+export function getPeakBars(waveform: WaveformPeaks, start: number, end: number, count: number): number[] {
+  const bars: number[] = [];
+  if (count <= 0 || end <= start) return bars;
+
+  const secondsPerBar = (end - start) / count;
+  for (let i = 0; i < count; i++) {
+    const from = Math.floor((start + i * secondsPerBar) * waveform.peaksPerSecond);
+    const to = Math.max(from + 1, Math.floor((start + (i + 1) * secondsPerBar) * waveform.peaksPerSecond));
+    let peak = 0;
+    for (let j = from; j < to && j < waveform.peaks.length; j++) {
+      if (waveform.peaks[j] > peak) peak = waveform.peaks[j];
+    }
+    bars.push(peak);
+  }
+  return bars;
+}
+
+/**
+ * Visible window of a zoomed waveform, keeping the playhead in the first third.
+ * 
+ * @param duration - Song duration in seconds
+ * @param position - Playhead position in seconds
+ * @param zoom - Zoom factor (1 shows the whole song)
+ * @returns Window start and end in seconds
+ */
+export function getWaveformWindow(duration: number, position: number, zoom: number): { start: number; end: number } {
+  if (zoom <= 1 || duration <= 0) return { start: 0, end: duration };
+  const length = duration / zoom;
+  const start = Math.max(0, Math.min(duration - length, position - length / 3));
+  return { start, end: start + length };
+}
+
+/**
+ * Highest peak just before a position, used to drive level meters from stored peaks.
+ * 
+ * @param waveform - The stored peaks
+ * @param position - Playhead position in seconds
+ * @param windowSeconds - How far back to look
+ * @returns The highest peak (0-1) in the window
+ */
+export function getPeakAt(waveform: WaveformPeaks, position: number, windowSeconds: number = 0.1): number {
+  const to = Math.floor(position * waveform.peaksPerSecond);
+  const from = Math.max(0, to - Math.max(1, Math.round(windowSeconds * waveform.peaksPerSecond)));
+  let peak = 0;
+  for (let i = from; i <= to && i < waveform.peaks.length; i++) {
+    if (waveform.peaks[i] > peak) peak = waveform.peaks[i];
+  }
+  return peak;
+}